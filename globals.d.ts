@@ -344,6 +344,7 @@ interface ChatCompletionSettings {
     openai_max_context: number;
     openai_max_tokens: number;
     temperature: number;
+    temp_openai: number;
     top_p: number;
     top_k: number;
     min_p: number;
@@ -371,11 +372,38 @@ interface TextCompletionSettings {
     [key: string]: unknown;
 }
 
+/**
+ * Chunk yielded by a streaming request (text is cumulative)
+ */
+interface StreamingChunk {
+    text: string;
+    swipes?: string[];
+    state?: { reasoning?: string };
+}
+
+/**
+ * Streaming requests resolve to a generator factory instead of extracted data
+ */
+type StreamingResponse = () => AsyncGenerator<StreamingChunk>;
+
 /**
  * Connection manager request service
  */
 interface ConnectionManagerRequestService {
-    sendRequest(data: object): Promise<{ content: string; reasoning?: string }>;
+    sendRequest(
+        profileId: string,
+        prompt: string | Array<{ role: string; content: string }>,
+        maxTokens: number,
+        custom?: {
+            stream?: boolean;
+            signal?: AbortSignal | null;
+            extractData?: boolean;
+            includePreset?: boolean;
+            includeInstruct?: boolean;
+            instructSettings?: Record<string, unknown>;
+        },
+        overridePayload?: Record<string, unknown>,
+    ): Promise<{ content: string; reasoning?: string } | StreamingResponse>;
     getSupportedProfiles(): Array<{
         id: string;
         name: string;
@@ -387,11 +415,22 @@ interface ConnectionManagerRequestService {
     }>;
 }
 
+/**
+ * Preset manager (completion presets for an API)
+ */
+interface PresetManager {
+    getCompletionPresetByName(name?: string): Record<string, unknown> | undefined;
+}
+
 /**
  * Chat completion service
  */
 interface ChatCompletionService {
-    sendRequest(data: object): Promise<{ content: string; reasoning?: string }>;
+    sendRequest(
+        data: object,
+        extractData?: boolean,
+        signal?: AbortSignal | null,
+    ): Promise<{ content: string; reasoning?: string } | StreamingResponse>;
     createRequestData(options: {
         messages: Array<{ role: string; content: string }>;
         max_tokens?: number;
@@ -463,6 +502,7 @@ interface SillyTavernContext {
     // Services
     ChatCompletionService: ChatCompletionService;
     ConnectionManagerRequestService: ConnectionManagerRequestService;
+    getPresetManager: (apiId?: string) => PresetManager | undefined;
 
     // Utilities
     uuidv4: () => string;
@@ -4,6 +4,7 @@
 // =============================================================================
 
 import {
+    FIELD_REWRITE_SCHEMA_ID,
     PRESET_VERSION,
     SETTINGS_VERSION,
     STORAGE_VERSION,
@@ -26,6 +27,17 @@ export const DEFAULT_STAGE_CONFIG: StageConfig = {
     schemaPresetId: null,
     customSchema: '',
     useStructuredOutput: false,
+    profileId: null,
+    temperature: null,
+    maxTokens: null,
+    prefill: null,
+    timeout: null,
+    fieldByField: false,
+    layout: null,
+    candidateCount: 1,
+    candidateProfiles: [],
+    judgeCandidates: false,
+    ensembleProfiles: [],
 };
 
 // =============================================================================
@@ -324,6 +336,80 @@ export const BUILTIN_SCHEMA_PRESETS: SchemaPreset[] = [
             },
         },
     },
+    {
+        // Properties are narrowed to the selected fields on each run
+        id: FIELD_REWRITE_SCHEMA_ID,
+        name: 'Field Rewrite Schema',
+        stages: ['rewrite'],
+        isBuiltin: true,
+        version: PRESET_VERSION,
+        createdAt: 0,
+        updatedAt: 0,
+        schema: {
+            name: 'CharacterRewrite',
+            strict: true,
+            value: {
+                type: 'object',
+                additionalProperties: false,
+                properties: {
+                    description: {
+                        type: 'string',
+                        description: 'Rewritten Description',
+                    },
+                    personality: {
+                        type: 'string',
+                        description: 'Rewritten Personality',
+                    },
+                    first_mes: {
+                        type: 'string',
+                        description: 'Rewritten First Message',
+                    },
+                    scenario: {
+                        type: 'string',
+                        description: 'Rewritten Scenario',
+                    },
+                    mes_example: {
+                        type: 'string',
+                        description: 'Rewritten Example Messages',
+                    },
+                    system_prompt: {
+                        type: 'string',
+                        description: 'Rewritten System Prompt',
+                    },
+                    post_history_instructions: {
+                        type: 'string',
+                        description: 'Rewritten Post-History Instructions',
+                    },
+                    creator_notes: {
+                        type: 'string',
+                        description: 'Rewritten Creator Notes',
+                    },
+                    alternate_greetings: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description:
+                            'Rewritten Alternate Greetings, one per item',
+                    },
+                    depth_prompt: {
+                        type: 'string',
+                        description: 'Rewritten Depth Prompt',
+                    },
+                },
+                required: [
+                    'description',
+                    'personality',
+                    'first_mes',
+                    'scenario',
+                    'mes_example',
+                    'system_prompt',
+                    'post_history_instructions',
+                    'creator_notes',
+                    'alternate_greetings',
+                    'depth_prompt',
+                ],
+            },
+        },
+    },
     {
         id: 'builtin_schema_analyze',
         name: 'Analyze Schema',
@@ -404,10 +490,20 @@ export const DEFAULT_SETTINGS: Settings = {
 
     promptPresets: [...BUILTIN_PROMPT_PRESETS],
     schemaPresets: [...BUILTIN_SCHEMA_PRESETS],
+    rubrics: [],
 
     generationMode: 'current',
     profileId: null,
     maxTokensOverride: null,
+    maxRetries: 2,
+    maxRepairAttempts: 1,
+    contextStrategy: 'trim',
+
+    maxIterations: 5,
+    iterationTokenBudget: null,
+
+    modelPrices: [],
+    usageLog: [],
 
     disableThinking: false,
 
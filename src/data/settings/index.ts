@@ -8,6 +8,8 @@ export {
     getSettings,
     save,
     resetSettings,
+    getActiveProfileId,
+    resolveStageConnection,
     getStageDefaults,
     setStageDefaults,
     getSystemPrompt,
@@ -32,6 +34,19 @@ export {
     deleteSchemaPreset,
 } from './presets';
 
+// Scoring rubrics
+export { getRubrics, getRubric, saveRubric, deleteRubric } from './rubrics';
+
+// Usage log & model prices
+export {
+    toUsageDate,
+    getUsageLog,
+    recordUsage,
+    clearUsageLog,
+    getModelPrices,
+    setModelPrices,
+} from './usage';
+
 // Defaults
 export {
     DEFAULT_SETTINGS,
@@ -0,0 +1,63 @@
+// src/data/settings/rubrics.ts
+// =============================================================================
+// SCORING RUBRICS
+// =============================================================================
+//
+// Rubrics are kept in settings next to the presets. Each one backs a
+// generated schema preset, which is kept in sync by whoever saves the
+// rubric (generating the schema is domain logic).
+//
+// =============================================================================
+
+import type { Rubric } from '../../types';
+import { getSettings, save } from './settings';
+
+/**
+ * Get all rubrics.
+ */
+export function getRubrics(): Rubric[] {
+    return getSettings().rubrics ?? [];
+}
+
+/**
+ * Get a rubric by ID.
+ */
+export function getRubric(id: string): Rubric | null {
+    return getRubrics().find((r) => r.id === id) ?? null;
+}
+
+/**
+ * Add a rubric, or replace the one with the same ID.
+ */
+export function saveRubric(rubric: Rubric): Rubric {
+    const settings = getSettings();
+    settings.rubrics ??= [];
+
+    const saved: Rubric = {
+        ...rubric,
+        criteria: rubric.criteria.map((c) => ({ ...c })),
+        updatedAt: Date.now(),
+    };
+    const index = settings.rubrics.findIndex((r) => r.id === rubric.id);
+    if (index === -1) {
+        settings.rubrics.push(saved);
+    } else {
+        settings.rubrics[index] = saved;
+    }
+
+    save();
+    return saved;
+}
+
+/**
+ * Delete a rubric. Its schema preset is left alone.
+ */
+export function deleteRubric(id: string): boolean {
+    const settings = getSettings();
+    const index = (settings.rubrics ?? []).findIndex((r) => r.id === id);
+    if (index === -1) return false;
+
+    settings.rubrics.splice(index, 1);
+    save();
+    return true;
+}
@@ -4,7 +4,12 @@
 // =============================================================================
 
 import { MODULE_NAME, SETTINGS_VERSION } from '../../shared';
-import type { Settings, StageName, StageConfig } from '../../types';
+import type {
+    Settings,
+    StageName,
+    StageConfig,
+    StageConnection,
+} from '../../types';
 import {
     DEFAULT_SETTINGS,
     BUILTIN_PROMPT_PRESETS,
@@ -77,12 +82,17 @@ export function save(): void {
 }
 
 /**
- * Reset settings to defaults.
+ * Reset settings to defaults. Recorded usage is kept.
  */
 export function resetSettings(): Settings {
     const { lodash } = SillyTavern.libs;
     const ext = SillyTavern.getContext().extensionSettings;
-    ext[MODULE_NAME] = lodash.cloneDeep(DEFAULT_SETTINGS);
+    const usageLog = (ext[MODULE_NAME] as Partial<Settings> | undefined)
+        ?.usageLog;
+    ext[MODULE_NAME] = {
+        ...lodash.cloneDeep(DEFAULT_SETTINGS),
+        usageLog: usageLog ?? [],
+    };
     save();
     return ext[MODULE_NAME] as Settings;
 }
@@ -125,6 +135,88 @@ const migrations: Record<number, MigrationFn> = {
         if (defaults.score) defaults.score.useStructuredOutput = false;
         if (defaults.analyze) defaults.analyze.useStructuredOutput = false;
     },
+
+    // v2 -> v3: Per-stage connection overrides (inherit globals by default)
+    3: (settings) => {
+        const defaults = settings.stageDefaults;
+        if (!defaults) return;
+
+        for (const config of Object.values(defaults)) {
+            if (!config) continue;
+            config.profileId ??= null;
+            config.temperature ??= null;
+            config.maxTokens ??= null;
+            config.prefill ??= null;
+        }
+    },
+
+    // v3 -> v4: Per-stage request timeout (none by default)
+    4: (settings) => {
+        const defaults = settings.stageDefaults;
+        if (!defaults) return;
+
+        for (const config of Object.values(defaults)) {
+            if (!config) continue;
+            config.timeout ??= null;
+        }
+    },
+
+    // v7 -> v8: Field-by-field rewrite mode (off by default)
+    8: (settings) => {
+        const defaults = settings.stageDefaults;
+        if (!defaults) return;
+
+        for (const config of Object.values(defaults)) {
+            if (!config) continue;
+            config.fieldByField ??= false;
+        }
+    },
+
+    // v8 -> v9: Per-stage prompt layout (stage default until customized)
+    9: (settings) => {
+        const defaults = settings.stageDefaults;
+        if (!defaults) return;
+
+        for (const config of Object.values(defaults)) {
+            if (!config) continue;
+            config.layout ??= null;
+        }
+    },
+
+    // v9 -> v10: Usage tracking and model prices (start empty)
+    10: (settings) => {
+        settings.modelPrices ??= [];
+        settings.usageLog ??= [];
+    },
+
+    // v10 -> v11: Rewrite candidates (a single rewrite by default)
+    11: (settings) => {
+        const defaults = settings.stageDefaults;
+        if (!defaults) return;
+
+        for (const config of Object.values(defaults)) {
+            if (!config) continue;
+            config.candidateCount ??= 1;
+            config.candidateProfiles ??= [];
+            config.judgeCandidates ??= false;
+        }
+    },
+
+    // v11 -> v12: Ensemble scoring (a single score by default)
+    12: (settings) => {
+        const defaults = settings.stageDefaults;
+        if (!defaults) return;
+
+        for (const config of Object.values(defaults)) {
+            if (!config) continue;
+            config.ensembleProfiles ??= [];
+        }
+    },
+
+    // v12 -> v13: Scoring rubrics (start empty)
+    13: (settings) => {
+        settings.rubrics ??= [];
+    },
 };
 
 function runMigrations(settings: Partial<Settings>, oldVersion: number): void {
@@ -206,6 +298,39 @@ function syncBuiltinPresets(settings: Settings): boolean {
     return changed;
 }
 
+// =============================================================================
+// CONNECTION
+// =============================================================================
+
+/**
+ * Get the connection profile generation should be routed through.
+ * Returns null when using ST's current connection settings.
+ */
+export function getActiveProfileId(): string | null {
+    const settings = getSettings();
+    return settings.generationMode === 'profile' ? settings.profileId : null;
+}
+
+/**
+ * Resolve the connection a stage generates with.
+ * Per-stage overrides win; unset values fall back to global settings.
+ */
+export function resolveStageConnection(config: StageConfig): StageConnection {
+    const settings = getSettings();
+    const globalPrefill =
+        settings.useAssistantPrefill && settings.assistantPrefill
+            ? settings.assistantPrefill
+            : '';
+
+    return {
+        profileId: config.profileId ?? getActiveProfileId(),
+        temperature: config.temperature ?? null,
+        maxTokens: config.maxTokens ?? settings.maxTokensOverride ?? null,
+        prefill: config.prefill ?? globalPrefill,
+        timeout: config.timeout ?? null,
+    };
+}
+
 // =============================================================================
 // STAGE DEFAULTS
 // =============================================================================
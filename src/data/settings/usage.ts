@@ -0,0 +1,97 @@
+// src/data/settings/usage.ts
+// =============================================================================
+// USAGE LOG & MODEL PRICES
+// =============================================================================
+//
+// Token usage is kept per day and model in settings, so totals survive
+// deleted sessions. Costs are not stored: they're computed from the price
+// table when shown, so corrected prices apply to past usage too.
+//
+// =============================================================================
+
+import type { GenerationMeta, ModelPrice, UsageRecord } from '../../types';
+import { getSettings, save } from './settings';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Local calendar date of a timestamp as YYYY-MM-DD.
+ */
+export function toUsageDate(timestamp: number): string {
+    const d = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// =============================================================================
+// USAGE LOG
+// =============================================================================
+
+/**
+ * Get the usage log (one record per day and model).
+ */
+export function getUsageLog(): UsageRecord[] {
+    return getSettings().usageLog;
+}
+
+/**
+ * Add a run's tokens to the usage log.
+ * Runs without token counts (nothing was sent) are skipped.
+ */
+export function recordUsage(meta: GenerationMeta, timestamp: number): void {
+    if (meta.promptTokens === null && meta.completionTokens === null) return;
+
+    const settings = getSettings();
+    const date = toUsageDate(timestamp);
+    const model = meta.model ?? 'unknown';
+
+    let record = settings.usageLog.find(
+        (r) => r.date === date && r.model === model,
+    );
+    if (!record) {
+        record = {
+            date,
+            model,
+            runs: 0,
+            promptTokens: 0,
+            completionTokens: 0,
+        };
+        settings.usageLog.push(record);
+    }
+
+    record.runs += 1;
+    record.promptTokens += meta.promptTokens ?? 0;
+    record.completionTokens += meta.completionTokens ?? 0;
+    save();
+}
+
+/**
+ * Forget all recorded usage.
+ */
+export function clearUsageLog(): void {
+    getSettings().usageLog = [];
+    save();
+}
+
+// =============================================================================
+// MODEL PRICES
+// =============================================================================
+
+/**
+ * Get the user's model price table.
+ */
+export function getModelPrices(): ModelPrice[] {
+    return getSettings().modelPrices;
+}
+
+/**
+ * Replace the model price table. Rows without a model are dropped.
+ */
+export function setModelPrices(prices: ModelPrice[]): void {
+    getSettings().modelPrices = prices
+        .map((p) => ({ ...p, model: p.model.trim() }))
+        .filter((p) => p.model);
+    save();
+}
@@ -25,6 +25,7 @@ import type {
     StageFieldSelection,
     StageConfig,
     StageName,
+    StageResult,
 } from '../../types';
 import { createDefaultSession } from '../settings';
 import {
@@ -186,11 +187,60 @@ async function migrateStorage(meta: StorageMeta): Promise<void> {
         }
     }
 
+    // Version 2 -> 3: Generation metadata on every result
+    if (fromVersion < 3) {
+        const data = await loadLargeData<Record<SessionId, Session>>(
+            STORAGE_KEYS.SESSIONS,
+        );
+        if (data) {
+            let migrated = false;
+            for (const session of Object.values(data)) {
+                const results = [
+                    ...(session.history ?? []),
+                    ...Object.values(session.stageResults ?? {}),
+                ];
+                for (const result of results) {
+                    if (result && migrateResultMeta(result)) migrated = true;
+                }
+            }
+            if (migrated) {
+                await storeLargeData(STORAGE_KEYS.SESSIONS, data);
+            }
+        }
+    }
+
     meta.version = STORAGE_VERSION;
     meta.lastMigration = Date.now();
     await storeLargeData(STORAGE_KEYS.STORAGE_META, meta);
 }
 
+/**
+ * Give a result saved before generation metadata existed an empty record.
+ * Returns whether the result changed.
+ */
+function migrateResultMeta(result: StageResult): boolean {
+    if (result.meta) return false;
+
+    // Briefly stored at the top level before metadata was grouped
+    const legacy = result as { durationMs?: number };
+    result.meta = {
+        model: null,
+        source: null,
+        profileId: null,
+        promptPresetId: null,
+        promptPresetVersion: null,
+        schemaPresetId: null,
+        schemaPresetVersion: null,
+        structured: null,
+        promptTokens: null,
+        completionTokens: null,
+        durationMs: legacy.durationMs ?? null,
+        retries: null,
+    };
+    delete legacy.durationMs;
+    return true;
+}
+
 // =============================================================================
 // PUBLIC API
 // =============================================================================
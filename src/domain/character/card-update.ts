@@ -0,0 +1,144 @@
+// src/domain/character/card-update.ts
+// =============================================================================
+// CARD UPDATES
+//
+// Turn field values into a partial card JSON with each field where the V2
+// spec keeps it (its CharacterField path), mirrored to the V1 top-level key
+// where ST still keeps one. The same update is merged into the live card by
+// ST and into an exported copy for downloads, so both end up identical.
+// =============================================================================
+
+import { CHARACTER_FIELDS } from '../../shared';
+import type { CharacterField } from '../../types';
+import { getFieldValue } from './fields';
+
+/** Depth and role ST gives a new depth prompt */
+const DEPTH_PROMPT_DEFAULTS = { depth: 4, role: 'system' };
+
+/** V1 top-level keys of V2-only fields, written only if the card has them */
+const V1_ALIASES: Record<string, string> = { creator_notes: 'creatorcomment' };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Set a value at a dot-notation path, creating objects along the way.
+ */
+function setByPath(
+    obj: Record<string, unknown>,
+    path: string,
+    value: unknown,
+): void {
+    const keys = path.split('.');
+    const last = keys.pop() as string;
+    let target = obj;
+
+    for (const key of keys) {
+        if (!isPlainObject(target[key])) target[key] = {};
+        target = target[key] as Record<string, unknown>;
+    }
+    target[last] = value;
+}
+
+/**
+ * Convert an edited value to what the card stores. Array fields take the
+ * list as given, minus blank items (a lone text is one item, never split),
+ * and a depth prompt's text keeps the card's depth and role. Values already
+ * in card form pass through, and null removes an object.
+ */
+function toCardValue(
+    card: Record<string, unknown>,
+    field: CharacterField,
+    value: unknown,
+): unknown {
+    if (field.type === 'array') {
+        const items: unknown[] = Array.isArray(value) ? value : [value];
+        return items.filter((item) => typeof item === 'string' && item.trim());
+    }
+
+    if (
+        field.key === 'depth_prompt' &&
+        value !== null &&
+        !isPlainObject(value)
+    ) {
+        const existing = getFieldValue(card, field);
+        return {
+            ...DEPTH_PROMPT_DEFAULTS,
+            ...(isPlainObject(existing) ? existing : {}),
+            prompt: String(value ?? ''),
+        };
+    }
+
+    return value;
+}
+
+// =============================================================================
+// UPDATES
+// =============================================================================
+
+/**
+ * Build the partial card JSON that writes field values to their spec
+ * locations. Keys that aren't character fields are ignored.
+ *
+ * @param card - The card being updated, for depth prompt settings and V1 keys
+ * @param values - Field values by key: text as edited (greetings as a list),
+ *                 or the card's own form
+ *
+ * @example
+ * ```ts
+ * buildCardUpdate(card, [
+ *     { key: 'description', value: 'Tall.' },
+ *     { key: 'depth_prompt', value: 'Stay in character.' },
+ * ]);
+ * // → { description: 'Tall.', data: { description: 'Tall.',
+ * //     extensions: { depth_prompt: { depth: 4, role: 'system', prompt: 'Stay in character.' } } } }
+ * ```
+ */
+export function buildCardUpdate(
+    card: Record<string, unknown>,
+    values: Array<{ key: string; value: unknown }>,
+): Record<string, unknown> {
+    const update: Record<string, unknown> = {};
+
+    for (const { key, value } of values) {
+        const field = CHARACTER_FIELDS.find((f) => f.key === key);
+        if (!field) continue;
+
+        const cardValue = toCardValue(card, field, value);
+        setByPath(update, field.path, cardValue);
+
+        // V1 fields live at the top level and are mirrored under data
+        if (!field.path.startsWith('data.')) {
+            setByPath(update, `data.${field.path}`, cardValue);
+        }
+        const alias = V1_ALIASES[key];
+        if (alias && alias in card) update[alias] = cardValue;
+    }
+
+    return update;
+}
+
+/**
+ * Merge a card update into a copy of a card the way ST merges it into the
+ * live card: objects key by key, anything else (arrays included) replaced.
+ */
+export function mergeCardUpdate(
+    card: Record<string, unknown>,
+    update: Record<string, unknown>,
+): Record<string, unknown> {
+    const merged: Record<string, unknown> = { ...card };
+
+    for (const [key, value] of Object.entries(update)) {
+        merged[key] =
+            isPlainObject(value) && isPlainObject(merged[key])
+                ? mergeCardUpdate(merged[key], value)
+                : value;
+    }
+
+    return merged;
+}
@@ -85,6 +85,13 @@ function getByPathWithFallback(obj: unknown, path: string): unknown {
     return value;
 }
 
+/**
+ * Read a field's raw value from a character or character JSON, V1 or V2.
+ */
+export function getFieldValue(obj: unknown, field: CharacterField): unknown {
+    return getByPathWithFallback(obj, field.path);
+}
+
 /**
  * Get value from object using dot-notation path.
  */
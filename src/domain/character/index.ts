@@ -4,10 +4,20 @@
 // =============================================================================
 
 // Field extraction
-export { getPopulatedFields, ensureUnshallowed } from './fields';
+export { getPopulatedFields, ensureUnshallowed, getFieldValue } from './fields';
+
+// Backups of the card taken before applying changes
+export { findChangedFields, getRestoreValues } from './snapshot';
+
+// Writing field values to their V1/V2 locations
+export { buildCardUpdate, mergeCardUpdate } from './card-update';
 
 // Summary building
-export { buildCharacterSummary, buildOriginalData } from './summary';
+export {
+    buildCharacterSummary,
+    buildOriginalData,
+    applyCharacterMacros,
+} from './summary';
 
 // NOTE: For character access, use SillyTavern.getContext().characters directly
 // The search.ts file was removed as it was just trivial wrappers.
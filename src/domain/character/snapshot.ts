@@ -0,0 +1,81 @@
+// src/domain/character/snapshot.ts
+// =============================================================================
+// CHARACTER SNAPSHOTS
+//
+// Compare a character's current JSON with a backup taken before an apply,
+// and work out what to write to put the backup's fields back.
+// =============================================================================
+
+import { CHARACTER_FIELDS } from '../../shared';
+import type { CharacterField } from '../../types';
+import { getFieldValue } from './fields';
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/**
+ * Missing, empty strings and empty arrays all mean "not set".
+ */
+function isBlank(value: unknown): boolean {
+    return (
+        value === undefined ||
+        value === null ||
+        value === '' ||
+        (Array.isArray(value) && value.length === 0)
+    );
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    if (isBlank(a) || isBlank(b)) return isBlank(a) && isBlank(b);
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * The fields whose values differ between two character JSONs.
+ *
+ * @example
+ * ```ts
+ * findChangedFields(current, change.snapshot).map((f) => f.key);
+ * // → ['description', 'first_mes']
+ * ```
+ */
+export function findChangedFields(
+    current: Record<string, unknown>,
+    snapshot: Record<string, unknown>,
+): CharacterField[] {
+    return CHARACTER_FIELDS.filter(
+        (field) =>
+            !isSameValue(
+                getFieldValue(current, field),
+                getFieldValue(snapshot, field),
+            ),
+    );
+}
+
+// =============================================================================
+// RESTORE
+// =============================================================================
+
+/**
+ * The values to write to put a snapshot's fields back. Fields the snapshot
+ * didn't have are cleared; objects (depth prompt, lorebook) are set to null.
+ */
+export function getRestoreValues(
+    current: Record<string, unknown>,
+    snapshot: Record<string, unknown>,
+): Array<{ key: string; value: unknown }> {
+    return findChangedFields(current, snapshot).flatMap((field) => {
+        const value = getFieldValue(snapshot, field);
+        if (!isBlank(value)) return [{ key: field.key, value }];
+
+        switch (field.type) {
+            case 'array':
+                return [{ key: field.key, value: [] }];
+            case 'object':
+                return [{ key: field.key, value: null }];
+            default:
+                return [{ key: field.key, value: '' }];
+        }
+    });
+}
@@ -93,7 +93,6 @@ export function buildCharacterSummary(
     char: Character,
     selection: FieldSelection,
 ): string {
-    const settings = getSettings();
     const fields = getPopulatedFields(char);
     const sections: string[] = [];
 
@@ -153,23 +152,34 @@ export function buildCharacterSummary(
     const body =
         sections.length > 0 ? sections.join('\n\n') : '(No fields selected)';
 
-    let summary = `# CHARACTER: ${char.name}\n\n${body}`;
+    return applyCharacterMacros(`# CHARACTER: ${char.name}\n\n${body}`, char);
+}
+
+/**
+ * Resolve macros in character text before it goes into a prompt.
+ *
+ * {{char}} becomes the character's name; {{user}} becomes the persona name
+ * if the replaceUserMacro setting is on. Remaining ST macros are escaped so
+ * ST doesn't substitute them during generation.
+ */
+export function applyCharacterMacros(text: string, char: Character): string {
+    const settings = getSettings();
 
     // Replace {{char}} with the actual character name
-    summary = replaceCharMacro(summary, char.name);
+    let result = replaceCharMacro(text, char.name);
 
     // Handle {{user}} macro based on setting
     if (settings.replaceUserMacro) {
         // Replace {{user}} with current persona name for context-aware analysis
-        summary = replaceUserMacro(summary);
+        result = replaceUserMacro(result);
         // Escape remaining ST macros (persona, original, input, etc.)
-        summary = escapeSTMacros(summary, ['persona', 'original', 'input']);
+        result = escapeSTMacros(result, ['persona', 'original', 'input']);
     } else {
         // Escape all ST macros including {{user}}
-        summary = escapeSTMacros(summary);
+        result = escapeSTMacros(result);
     }
 
-    return summary;
+    return result;
 }
 
 /**
@@ -0,0 +1,311 @@
+// src/domain/diff.ts
+// =============================================================================
+// TEXT DIFF
+//
+// Word- and sentence-level diffs between an original and a rewritten text,
+// using Myers' algorithm on tokens. Whitespace is kept in the tokens, so
+// joining a diff's parts gives back either text.
+// =============================================================================
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DiffGranularity = 'word' | 'sentence';
+
+/**
+ * A run of text that's in both texts, only the rewrite, or only the original.
+ */
+export interface DiffPart {
+    type: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+
+/**
+ * Words added and removed by a diff.
+ */
+export interface DiffStats {
+    added: number;
+    removed: number;
+}
+
+/**
+ * A diff grouped for review: unchanged text, or a hunk that replaces part
+ * of the original with part of the rewrite (either side may be empty).
+ */
+export type DiffSegment =
+    | { type: 'equal'; text: string }
+    | { type: 'change'; original: string; rewritten: string };
+
+/**
+ * Edits after which a diff gives up and replaces the whole text, so huge
+ * unrelated texts can't stall the UI
+ */
+export const MAX_DIFF_EDITS = 2000;
+
+// =============================================================================
+// TOKENIZING
+// =============================================================================
+
+/** Words (letters, digits, apostrophes inside words), whitespace, or a symbol */
+const WORD_TOKEN =
+    /\s+|[\w\u00C0-\uFFFF]+(?:'[\w\u00C0-\uFFFF]+)*|[^\s\w\u00C0-\uFFFF]/g;
+
+/** Spaces, line breaks, or a sentence with its closing punctuation */
+const SENTENCE_TOKEN =
+    /[^\S\n]+|\n+|[^.!?\u2026\n]*[.!?\u2026]+["'\u201D\u2019)\]]*|[^.!?\u2026\n]+/g;
+
+/**
+ * Split text into diff tokens. Tokens join back to the original text.
+ *
+ * @example
+ * ```ts
+ * tokenizeText("It's late. Go!", 'word');     // → ["It's", ' ', 'late', '.', ' ', 'Go', '!']
+ * tokenizeText("It's late. Go!", 'sentence'); // → ["It's late.", ' ', 'Go!']
+ * ```
+ */
+export function tokenizeText(
+    text: string,
+    granularity: DiffGranularity,
+): string[] {
+    return (
+        text.match(granularity === 'word' ? WORD_TOKEN : SENTENCE_TOKEN) ?? []
+    );
+}
+
+// =============================================================================
+// DIFFING
+// =============================================================================
+
+/**
+ * Diff two texts. Adjacent parts of the same type are merged, and deletions
+ * come before insertions where a stretch of text was replaced.
+ *
+ * @example
+ * ```ts
+ * diffText('A brave warrior.', 'A bold warrior.');
+ * // → [equal 'A ', delete 'brave', insert 'bold', equal ' warrior.']
+ * ```
+ */
+export function diffText(
+    original: string,
+    rewritten: string,
+    granularity: DiffGranularity = 'word',
+): DiffPart[] {
+    const a = tokenizeText(original, granularity);
+    const b = tokenizeText(rewritten, granularity);
+
+    // Common ends don't need the diff algorithm
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let end = 0;
+    while (
+        end < a.length - start &&
+        end < b.length - start &&
+        a[a.length - 1 - end] === b[b.length - 1 - end]
+    ) {
+        end++;
+    }
+
+    const middleA = a.slice(start, a.length - end);
+    const middleB = b.slice(start, b.length - end);
+    const middle = diffTokens(middleA, middleB) ?? [
+        ...middleA.map((text) => ({ type: 'delete' as const, text })),
+        ...middleB.map((text) => ({ type: 'insert' as const, text })),
+    ];
+
+    return mergeParts([
+        ...a.slice(0, start).map((text) => ({ type: 'equal' as const, text })),
+        ...middle,
+        ...a
+            .slice(a.length - end)
+            .map((text) => ({ type: 'equal' as const, text })),
+    ]);
+}
+
+/**
+ * Myers' shortest edit script between two token lists.
+ *
+ * @returns One part per token, or null past MAX_DIFF_EDITS edits
+ */
+function diffTokens(a: string[], b: string[]): DiffPart[] | null {
+    const n = a.length;
+    const m = b.length;
+    const offset = n + m + 1;
+    const v = new Int32Array(2 * offset + 1);
+    // Furthest x per diagonal before each round, over the diagonals it can reach
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= n + m; d++) {
+        if (d > MAX_DIFF_EDITS) return null;
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+        for (let k = -d; k <= d; k += 2) {
+            let x =
+                k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                    ? v[offset + k + 1]
+                    : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) return backtrack(a, b, trace);
+        }
+    }
+
+    return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffPart[] {
+    const parts: DiffPart[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const v = trace[d];
+        const at = (k: number) => v[k + d + 1];
+        const k = x - y;
+        const prevK =
+            k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            parts.push({ type: 'equal', text: a[--x] });
+            y--;
+        }
+        if (d === 0) break;
+
+        if (x === prevX) {
+            parts.push({ type: 'insert', text: b[--y] });
+        } else {
+            parts.push({ type: 'delete', text: a[--x] });
+        }
+    }
+
+    return parts.reverse();
+}
+
+/**
+ * Merge adjacent parts of the same type, moving deletions ahead of the
+ * insertions they sit next to.
+ */
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+    const merged: DiffPart[] = [];
+    let deleted = '';
+    let inserted = '';
+
+    const flush = () => {
+        if (deleted) merged.push({ type: 'delete', text: deleted });
+        if (inserted) merged.push({ type: 'insert', text: inserted });
+        deleted = '';
+        inserted = '';
+    };
+
+    for (const part of parts) {
+        if (part.type === 'delete') {
+            deleted += part.text;
+        } else if (part.type === 'insert') {
+            inserted += part.text;
+        } else {
+            flush();
+            const last = merged[merged.length - 1];
+            if (last?.type === 'equal') {
+                last.text += part.text;
+            } else {
+                merged.push({ ...part });
+            }
+        }
+    }
+    flush();
+
+    return merged;
+}
+
+/**
+ * Count the words a diff adds and removes.
+ */
+export function summarizeDiff(parts: DiffPart[]): DiffStats {
+    const countWords = (text: string) =>
+        text.match(/[\w\u00C0-\uFFFF]+(?:'[\w\u00C0-\uFFFF]+)*/g)?.length ?? 0;
+
+    return parts.reduce(
+        (stats, part) => ({
+            added:
+                stats.added +
+                (part.type === 'insert' ? countWords(part.text) : 0),
+            removed:
+                stats.removed +
+                (part.type === 'delete' ? countWords(part.text) : 0),
+        }),
+        { added: 0, removed: 0 },
+    );
+}
+
+// =============================================================================
+// HUNKS
+// =============================================================================
+
+/**
+ * Group a diff into hunks that can be accepted or rejected one by one.
+ * Sentence granularity by default, so each hunk is a changed sentence or
+ * run of sentences.
+ *
+ * @example
+ * ```ts
+ * diffHunks('One. Two. Three.', 'One. Deux. Three.');
+ * // → [equal 'One. ', change 'Two.' → 'Deux.', equal ' Three.']
+ * ```
+ */
+export function diffHunks(
+    original: string,
+    rewritten: string,
+    granularity: DiffGranularity = 'sentence',
+): DiffSegment[] {
+    const segments: DiffSegment[] = [];
+
+    for (const part of diffText(original, rewritten, granularity)) {
+        if (part.type === 'equal') {
+            segments.push({ type: 'equal', text: part.text });
+            continue;
+        }
+
+        let hunk = segments[segments.length - 1];
+        if (hunk?.type !== 'change') {
+            hunk = { type: 'change', original: '', rewritten: '' };
+            segments.push(hunk);
+        }
+        if (part.type === 'delete') {
+            hunk.original += part.text;
+        } else {
+            hunk.rewritten += part.text;
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Build the text with accepted hunks taken from the rewrite and rejected
+ * ones from the original.
+ *
+ * @param accepted - Whether each hunk is accepted, in order
+ */
+export function mergeHunks(
+    segments: DiffSegment[],
+    accepted: readonly boolean[],
+): string {
+    let hunk = 0;
+
+    return segments
+        .map((segment) => {
+            if (segment.type === 'equal') return segment.text;
+            return accepted[hunk++] ? segment.rewritten : segment.original;
+        })
+        .join('');
+}
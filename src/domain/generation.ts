@@ -3,10 +3,12 @@
 // GENERATION UTILITIES
 // =============================================================================
 //
-// Higher-level generation utilities built on top of ST's generateRaw.
+// Higher-level generation utilities built on top of ST's request services
+// (falling back to generateRaw), or the Connection Manager (CMRS) when a
+// connection profile is selected.
 // Provides:
 // - Error categorization with user-friendly messages
-// - Abort signal handling
+// - Request cancellation and timeouts
 // - Retry logic for transient failures
 // - Structured output support
 //
@@ -15,10 +17,10 @@
 //
 // =============================================================================
 
-import { isApiReady, getApiStatus, log } from '../shared';
-import type { StructuredOutputSchema } from '../shared';
+import { isApiReady, getApiStatus, getTokenCount, log, retry } from '../shared';
+import type { ApiStatus, StructuredOutputSchema } from '../shared';
 import { validateSchema, parseStructuredResponse } from './schema';
-import { getSettings } from '../data';
+import { getSettings, getActiveProfileId } from '../data';
 
 // =============================================================================
 // TYPES
@@ -36,24 +38,93 @@ export interface GenerateOptions {
     responseLength?: number | null;
     /** JSON schema for structured output */
     jsonSchema?: StructuredOutputSchema | null;
-    /** Abort signal for cancellation */
+    /** Abort signal for cancellation (aborts the underlying request) */
     signal?: AbortSignal;
+    /** Abort the request if it runs longer than this (null = no limit) */
+    timeoutMs?: number | null;
+    /** Connection profile (null = current settings, undefined = active setting) */
+    profileId?: string | null;
+    /** Sampling temperature (null = connection default) */
+    temperature?: number | null;
+    /** Assistant prefill (undefined = global prefill setting) */
+    prefill?: string;
+    /** Receives the accumulated text as it streams in (enables streaming) */
+    onStream?: (text: string) => void;
+    /** Retries for transient failures (undefined = maxRetries setting) */
+    maxRetries?: number;
+    /** Called before each retry of a transient failure */
+    onRetry?: (info: RetryInfo) => void;
+    /** Re-prompts for invalid structured output (undefined = maxRepairAttempts setting) */
+    maxRepairs?: number;
+    /** Called before each structured output repair request */
+    onRepair?: (info: RepairInfo) => void;
 }
 
+/**
+ * Details of an upcoming structured output repair, for progress reporting.
+ */
+export interface RepairInfo {
+    /** Repair number (1 = first repair) */
+    attempt: number;
+    maxRepairs: number;
+    /** Validation errors the model is asked to fix */
+    errors: string[];
+}
+
+/**
+ * Details of an upcoming retry, for progress reporting.
+ */
+export interface RetryInfo {
+    /** Retry number (1 = first retry) */
+    attempt: number;
+    maxRetries: number;
+    /** Wait before the retry, in ms */
+    delayMs: number;
+    /** User-friendly description of the failure being retried */
+    error: string;
+}
+
+/**
+ * Kind of failure, used to decide whether a request is worth retrying.
+ */
+export type ErrorCategory =
+    | 'cancelled'
+    | 'auth'
+    | 'rate_limit'
+    | 'server'
+    | 'timeout'
+    | 'network'
+    | 'context_length'
+    | 'model_not_found'
+    | 'content_filter'
+    | 'unknown';
+
 /**
  * Result from a generation request.
  */
 export interface GenerationResult {
     /** Whether generation succeeded */
     success: boolean;
-    /** Response text (if successful) */
+    /** Response text (if successful, or partial text if cancelled mid-stream) */
     response?: string;
     /** Parsed structured data (if using jsonSchema) */
     parsed?: unknown;
     /** Error message (if failed) */
     error?: string;
+    /** Kind of failure (if failed with a request error) */
+    errorCategory?: ErrorCategory;
     /** Whether the response was structured output */
     isStructured?: boolean;
+    /** Re-prompts needed to get valid structured output */
+    repairs?: number;
+    /** Retries after transient failures */
+    retries?: number;
+    /** Schema violations remaining in the structured output */
+    validationErrors?: string[];
+    /** Why the model stopped (`stop`, `length`, ...), when the API reports it */
+    finishReason?: string;
+    /** Estimated tokens spent on repair requests */
+    repairUsage?: { promptTokens: number; completionTokens: number };
 }
 
 // =============================================================================
@@ -86,9 +157,15 @@ export async function generate(
         return { success: false, error: 'Generation cancelled' };
     }
 
+    // Resolve connection: null = ST's current settings, otherwise a CMRS profile
+    const profileId =
+        options.profileId !== undefined
+            ? options.profileId
+            : getActiveProfileId();
+
     // Check API readiness
-    if (!isApiReady()) {
-        const status = getApiStatus();
+    if (!isApiReady(profileId)) {
+        const status = getApiStatus(profileId);
         return {
             success: false,
             error:
@@ -108,17 +185,13 @@ export async function generate(
         }
     }
 
-    try {
-        // Check abort again before API call
-        if (options.signal?.aborted) {
-            return { success: false, error: 'Generation cancelled' };
-        }
+    let retries = 0;
 
-        const ctx = SillyTavern.getContext();
+    try {
         const settings = getSettings();
 
         // Check if using Anthropic (for special handling)
-        const apiStatus = getApiStatus(settings.profileId);
+        const apiStatus = getApiStatus(profileId);
         const isAnthropic =
             apiStatus.source?.toLowerCase().includes('anthropic') ||
             apiStatus.model?.toLowerCase().includes('anthropic');
@@ -126,113 +199,822 @@ export async function generate(
         // Handle reasoning/thinking mode
         // For Anthropic: must disable when using structured output (conflicts with tool_choice)
         // For all: can be manually disabled via user setting
-        const ccs = ctx.chatCompletionSettings as Record<string, unknown>;
-        let originalReasoningEffort: string | undefined;
-        const shouldDisableReasoning =
-            settings.disableThinking || (isAnthropic && options.jsonSchema);
-
-        if (
-            shouldDisableReasoning &&
-            ccs?.reasoning_effort &&
-            typeof ccs.reasoning_effort === 'string' &&
-            ccs.reasoning_effort !== 'auto'
-        ) {
-            originalReasoningEffort = ccs.reasoning_effort;
-            ccs.reasoning_effort = 'auto';
-            log.debug('Disabled reasoning_effort for generation', {
-                reason: settings.disableThinking
-                    ? 'user setting'
-                    : 'anthropic structured output',
-                original: originalReasoningEffort,
-            });
-        }
-
-        // Determine prefill - skip for Anthropic + structured output (incompatible)
-        const canUsePrefill =
-            settings.useAssistantPrefill &&
-            settings.assistantPrefill &&
-            !(isAnthropic && options.jsonSchema);
+        const disableReasoning =
+            settings.disableThinking || !!(isAnthropic && options.jsonSchema);
 
-        const prefill = canUsePrefill ? settings.assistantPrefill : '';
+        const requestedPrefill =
+            options.prefill ??
+            (settings.useAssistantPrefill ? settings.assistantPrefill : '');
+        const prefill = resolvePrefill(
+            requestedPrefill,
+            apiStatus,
+            !!options.jsonSchema,
+        );
+        const canUsePrefill = !!prefill;
 
         if (canUsePrefill) {
             log.debug('Using assistant prefill', { prefill });
-        } else if (
-            settings.useAssistantPrefill &&
-            settings.assistantPrefill &&
-            isAnthropic &&
-            options.jsonSchema
-        ) {
+        } else if (requestedPrefill) {
             log.debug(
                 'Skipped assistant prefill (incompatible with Anthropic structured output)',
             );
         }
 
-        try {
-            const response = await ctx.generateRaw({
-                prompt: options.prompt,
-                systemPrompt: options.systemPrompt ?? '',
-                responseLength: options.responseLength ?? null,
-                jsonSchema: options.jsonSchema ?? null,
-                prefill,
-            });
+        const request: RequestParams = {
+            prefill,
+            temperature: options.temperature ?? null,
+            apiType: apiStatus.apiType,
+            disableReasoning,
+            reasoningReason: settings.disableThinking
+                ? 'user setting'
+                : 'anthropic structured output',
+        };
 
-            // Check abort after API call
-            if (options.signal?.aborted) {
-                return { success: false, error: 'Generation cancelled' };
-            }
+        const send = (requestOptions: GenerateOptions) =>
+            profileId
+                ? sendProfileRequest(profileId, requestOptions, request, {
+                      maxTokens:
+                          options.responseLength ??
+                          settings.maxTokensOverride ??
+                          apiStatus.maxOutput,
+                  })
+                : canUseChatCompletionService()
+                  ? sendChatCompletionRequest(requestOptions, request)
+                  : sendRawRequest(requestOptions, request);
 
-            // Normalize response to string
-            const responseText = normalizeResponse(response);
+        // Transient failures (rate limits, 5xx, timeouts, network) are retried
+        const maxRetries = Math.max(
+            0,
+            options.maxRetries ?? settings.maxRetries ?? 0,
+        );
+        const attempt = await retry(
+            () => attemptRequest(send, options),
+            maxRetries,
+            RETRY_BASE_DELAY_MS,
+            {
+                signal: options.signal,
+                shouldRetry: (err) =>
+                    RETRIABLE_CATEGORIES.has(
+                        categorizeError(err).errorCategory ?? 'unknown',
+                    ),
+                getDelay: (err) => getRetryAfterMs(err),
+                onRetry: (err, retryNumber, delayMs) => {
+                    retries = retryNumber;
+                    const error =
+                        categorizeError(err).error ?? 'Generation failed';
+                    log.warn(
+                        `Retrying generation (${retryNumber}/${maxRetries}) in ${delayMs}ms`,
+                        error,
+                    );
+                    options.onRetry?.({
+                        attempt: retryNumber,
+                        maxRetries,
+                        delayMs,
+                        error,
+                    });
+                },
+            },
+        );
 
-            // Handle empty response
-            if (!responseText || responseText.trim() === '') {
-                return { success: false, error: 'Empty response from API' };
-            }
+        // Cancelled or timed out mid-stream - keep whatever was received
+        if (!attempt.success) return { ...attempt, retries };
+
+        const responseText = attempt.response ?? '';
+        const finishReason = attempt.finishReason;
+
+        // Handle empty response
+        if (!responseText || responseText.trim() === '') {
+            return {
+                success: false,
+                error: 'Empty response from API',
+                finishReason,
+                retries,
+            };
+        }
 
-            // Parse structured output if schema was provided
-            if (options.jsonSchema) {
-                const parsed = parseStructuredResponse(
-                    responseText,
-                    options.jsonSchema,
-                );
-                if (parsed) {
-                    return {
-                        success: true,
-                        response: responseText,
-                        parsed: parsed.data,
-                        isStructured: true,
-                    };
-                }
-                // Parsing failed but we still have text
-                return {
-                    success: true,
-                    response: responseText,
-                    isStructured: false,
-                };
+        // Parse structured output if schema was provided
+        if (options.jsonSchema) {
+            const maxRepairs = Math.max(
+                0,
+                options.maxRepairs ?? settings.maxRepairAttempts ?? 0,
+            );
+            const parsed = await parseWithRepair(
+                responseText,
+                finishReason,
+                options.jsonSchema,
+                options,
+                maxRepairs,
+            );
+            return { ...parsed, retries };
+        }
+
+        return {
+            success: true,
+            response: responseText,
+            isStructured: false,
+            finishReason,
+            retries,
+        };
+    } catch (err) {
+        if (options.signal?.aborted) {
+            return {
+                success: false,
+                error: 'Generation cancelled',
+                errorCategory: 'cancelled',
+                retries,
+            };
+        }
+        return { ...categorizeError(err), retries };
+    }
+}
+
+/**
+ * Token count for prompt text, estimated when no tokenizer is available.
+ */
+export async function countTokens(text: string): Promise<number> {
+    return (await getTokenCount(text)) ?? Math.ceil(text.length / 4);
+}
+
+/**
+ * The assistant prefill a request will actually send.
+ * Anthropic rejects a prefill alongside structured output, so it's dropped.
+ */
+export function resolvePrefill(
+    requested: string,
+    apiStatus: Pick<ApiStatus, 'source' | 'model'>,
+    structured: boolean,
+): string {
+    const isAnthropic =
+        apiStatus.source?.toLowerCase().includes('anthropic') ||
+        apiStatus.model?.toLowerCase().includes('anthropic');
+    return requested && !(isAnthropic && structured) ? requested : '';
+}
+
+/**
+ * Run a single request attempt under its own timeout.
+ *
+ * Throws on request errors so they can be retried. A request that timed
+ * out before producing any text throws a TimeoutError; one that was
+ * interrupted mid-stream resolves with the partial text instead.
+ */
+async function attemptRequest(
+    send: (options: GenerateOptions) => Promise<unknown>,
+    options: GenerateOptions,
+): Promise<GenerationResult> {
+    // Caller cancellation and timeout share one signal for the request
+    const abort = createRequestSignal(options.signal, options.timeoutMs);
+
+    try {
+        const response = await send({ ...options, signal: abort.signal });
+        const responseText = normalizeResponse(response);
+
+        if (abort.signal.aborted) {
+            if (abort.timedOut() && !responseText) {
+                throw createTimeoutError(options.timeoutMs);
             }
+            return {
+                ...abortedResult(abort, options.timeoutMs),
+                response: responseText || undefined,
+            };
+        }
+
+        return {
+            success: true,
+            response: responseText,
+            finishReason: readFinishReason(response),
+        };
+    } catch (err) {
+        if (abort.timedOut()) throw createTimeoutError(options.timeoutMs);
+        throw err;
+    } finally {
+        abort.dispose();
+    }
+}
+
+// =============================================================================
+// STRUCTURED OUTPUT REPAIR
+// =============================================================================
+
+/** Cap on validation errors quoted back to the model */
+const MAX_REPAIR_ERRORS = 20;
+
+/**
+ * Parse and validate structured output. While it fails, re-prompt the model
+ * with the specific errors, up to `maxRepairs` times.
+ *
+ * Never fails the generation: if repairs run out, the best response so far
+ * is returned with its remaining validation errors. Repair responses aren't
+ * streamed, so they don't replace the streamed output, and their estimated
+ * tokens are returned as `repairUsage`.
+ */
+async function parseWithRepair(
+    responseText: string,
+    initialFinishReason: string | undefined,
+    schema: StructuredOutputSchema,
+    options: GenerateOptions,
+    maxRepairs: number,
+): Promise<GenerationResult> {
+    let text = responseText;
+    let finishReason = initialFinishReason;
+    const repairUsage = { promptTokens: 0, completionTokens: 0 };
 
+    for (let repairs = 0; ; repairs++) {
+        const parsed = parseStructuredResponse(text, schema);
+        const errors = parsed
+            ? parsed.warnings
+            : ['(root): response is not valid JSON'];
+
+        if (parsed && errors.length === 0) {
+            return {
+                success: true,
+                response: parsed.json,
+                parsed: parsed.data,
+                isStructured: true,
+                repairs,
+                finishReason,
+                ...(repairs > 0 ? { repairUsage } : {}),
+            };
+        }
+
+        const giveUp = (): GenerationResult => {
+            log.warn('Structured output still invalid', { repairs, errors });
             return {
                 success: true,
-                response: responseText,
-                isStructured: false,
+                response: parsed?.json ?? text,
+                parsed: parsed?.data,
+                isStructured: !!parsed,
+                repairs,
+                validationErrors: errors,
+                finishReason,
+                ...(repairs > 0 ? { repairUsage } : {}),
             };
-        } finally {
-            // Restore reasoning_effort if we disabled it
-            if (originalReasoningEffort !== undefined) {
-                const ccsRestore = ctx.chatCompletionSettings as Record<
-                    string,
-                    unknown
-                >;
-                ccsRestore.reasoning_effort = originalReasoningEffort;
-                log.debug('Restored reasoning_effort', {
-                    value: originalReasoningEffort,
-                });
+        };
+
+        if (repairs >= maxRepairs || options.signal?.aborted) {
+            return giveUp();
+        }
+
+        log.info(
+            `Repairing structured output (${repairs + 1}/${maxRepairs})`,
+            errors,
+        );
+        options.onRepair?.({ attempt: repairs + 1, maxRepairs, errors });
+
+        const prompt = buildRepairPrompt(options.prompt, text, errors);
+        const repaired = await generate({
+            ...options,
+            prompt,
+            onStream: undefined,
+            maxRepairs: 0,
+        });
+        repairUsage.promptTokens +=
+            (await countTokens(options.systemPrompt ?? '')) +
+            (await countTokens(prompt));
+        repairUsage.completionTokens += repaired.response
+            ? await countTokens(repaired.response)
+            : 0;
+
+        if (!repaired.success || !repaired.response) {
+            log.warn('Repair request failed', repaired.error);
+            return giveUp();
+        }
+
+        text = repaired.response;
+        finishReason = repaired.finishReason;
+    }
+}
+
+/**
+ * Build a follow-up prompt asking the model to fix its previous response.
+ */
+function buildRepairPrompt(
+    originalPrompt: string,
+    previousResponse: string,
+    errors: string[],
+): string {
+    const listed = errors.slice(0, MAX_REPAIR_ERRORS);
+    const more = errors.length - listed.length;
+
+    return `${originalPrompt}
+
+---
+
+Your previous response did not match the required JSON schema.
+
+<previous_response>
+${previousResponse}
+</previous_response>
+
+Problems:
+${listed.map((e) => `- ${e}`).join('\n')}${more > 0 ? `\n- ...and ${more} more` : ''}
+
+Respond again with only the corrected JSON, without commentary or code fences.`;
+}
+
+// =============================================================================
+// RETRIES
+// =============================================================================
+
+/** Base delay for exponential backoff between retries */
+const RETRY_BASE_DELAY_MS = 2000;
+
+/** Upper bound on a server-requested Retry-After wait */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/** Failures that may succeed if the same request is sent again */
+const RETRIABLE_CATEGORIES: ReadonlySet<ErrorCategory> = new Set([
+    'rate_limit',
+    'server',
+    'timeout',
+    'network',
+]);
+
+/**
+ * Read a server-requested retry delay from an error, if present.
+ *
+ * Checks Retry-After headers attached to the error, then the message
+ * ("Retry-After: 30", "Please try again in 20s").
+ */
+function getRetryAfterMs(err: unknown): number | null {
+    const source = err as {
+        headers?: { get?: (name: string) => string | null };
+        response?: { headers?: { get?: (name: string) => string | null } };
+        message?: string;
+    };
+    const header =
+        source?.headers?.get?.('retry-after') ??
+        source?.response?.headers?.get?.('retry-after') ??
+        null;
+
+    let ms: number | null = null;
+
+    if (header) {
+        const seconds = Number(header);
+        ms = Number.isFinite(seconds)
+            ? seconds * 1000
+            : Date.parse(header) - Date.now();
+    } else if (typeof source?.message === 'string') {
+        const afterMatch = source.message.match(
+            /retry[-_ ]after\W{0,3}(\d+(?:\.\d+)?)/i,
+        );
+        const inMatch = source.message.match(
+            /try again in (\d+(?:\.\d+)?)\s*(ms|s|seconds?)\b/i,
+        );
+        if (afterMatch) {
+            ms = parseFloat(afterMatch[1]) * 1000;
+        } else if (inMatch) {
+            const value = parseFloat(inMatch[1]);
+            ms = inMatch[2].toLowerCase() === 'ms' ? value : value * 1000;
+        }
+    }
+
+    if (ms === null || !Number.isFinite(ms) || ms < 0) return null;
+    return Math.min(Math.ceil(ms), MAX_RETRY_AFTER_MS);
+}
+
+// =============================================================================
+// CANCELLATION
+// =============================================================================
+
+/**
+ * Abort signal for a single request, linked to the caller's signal.
+ */
+interface RequestSignal {
+    signal: AbortSignal;
+    /** Whether the abort came from the timeout rather than the caller */
+    timedOut: () => boolean;
+    /** Clear the timer and unlink from the caller's signal */
+    dispose: () => void;
+}
+
+/**
+ * Create a request signal that aborts when the caller aborts or the
+ * timeout elapses, whichever comes first.
+ */
+function createRequestSignal(
+    parent: AbortSignal | undefined,
+    timeoutMs: number | null | undefined,
+): RequestSignal {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const onParentAbort = () => controller.abort(parent?.reason);
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+
+    const timer =
+        timeoutMs && timeoutMs > 0
+            ? setTimeout(() => {
+                  timedOut = true;
+                  log.warn(`Request timed out after ${timeoutMs}ms`);
+                  controller.abort(
+                      new DOMException('Request timed out', 'TimeoutError'),
+                  );
+              }, timeoutMs)
+            : null;
+
+    return {
+        signal: controller.signal,
+        timedOut: () => timedOut,
+        dispose: () => {
+            if (timer) clearTimeout(timer);
+            parent?.removeEventListener('abort', onParentAbort);
+        },
+    };
+}
+
+/**
+ * Result for a request that was aborted by the caller or timed out.
+ */
+function abortedResult(
+    abort: RequestSignal,
+    timeoutMs: number | null | undefined,
+): GenerationResult {
+    if (abort.timedOut()) {
+        return categorizeError(createTimeoutError(timeoutMs));
+    }
+    return {
+        success: false,
+        error: 'Generation cancelled',
+        errorCategory: 'cancelled',
+    };
+}
+
+/**
+ * Error for a request cut off by the stage timeout.
+ */
+function createTimeoutError(timeoutMs: number | null | undefined): Error {
+    const seconds = Math.round((timeoutMs ?? 0) / 1000);
+    const err = new Error(`Request timed out after ${seconds}s`);
+    err.name = 'TimeoutError';
+    return err;
+}
+
+/**
+ * Settle with the promise, or reject with an AbortError as soon as the
+ * signal aborts. For requests that can't be cancelled at the source.
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () =>
+            reject(new DOMException('Generation cancelled', 'AbortError'));
+
+        if (signal.aborted) {
+            onAbort();
+            return;
+        }
+
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => {
+            signal.removeEventListener('abort', onAbort);
+        });
+    });
+}
+
+// =============================================================================
+// REQUEST PATHS
+// =============================================================================
+
+/**
+ * Request parameters shared by both generation paths.
+ */
+interface RequestParams {
+    /** Assistant prefill ('' = none) */
+    prefill: string;
+    /** Sampling temperature (null = leave as configured) */
+    temperature: number | null;
+    /** API type of the target connection */
+    apiType: 'cc' | 'tc';
+    /** Whether reasoning/thinking should be turned off */
+    disableReasoning: boolean;
+    /** Why reasoning is disabled (for debug logging) */
+    reasoningReason: string;
+}
+
+/**
+ * Generate through ST's generateRaw using the current connection settings.
+ * Used for text completion APIs, which have no cancellable request service.
+ *
+ * generateRaw has no per-request sampler options, so reasoning_effort and
+ * temperature are swapped on the global settings and restored afterwards.
+ * It also takes no abort signal: on abort the request is abandoned and the
+ * settings are restored immediately rather than when it finally returns.
+ * Nor does it stream (see canStream), so the text arrives all at once.
+ */
+async function sendRawRequest(
+    options: GenerateOptions,
+    request: RequestParams,
+): Promise<unknown> {
+    const ctx = SillyTavern.getContext();
+    const ccs = ctx.chatCompletionSettings as Record<string, unknown>;
+    const restoreFns: Array<() => void> = [];
+
+    if (
+        request.disableReasoning &&
+        ccs?.reasoning_effort &&
+        typeof ccs.reasoning_effort === 'string' &&
+        ccs.reasoning_effort !== 'auto'
+    ) {
+        log.debug('Disabled reasoning_effort for generation', {
+            reason: request.reasoningReason,
+            original: ccs.reasoning_effort,
+        });
+        restoreFns.push(overrideSetting(ccs, 'reasoning_effort', 'auto'));
+    }
+
+    if (request.temperature !== null) {
+        const target =
+            request.apiType === 'cc'
+                ? ccs
+                : (ctx.textCompletionSettings as Record<string, unknown>);
+        const key = request.apiType === 'cc' ? 'temp_openai' : 'temp';
+        if (target) {
+            log.debug('Overriding temperature for generation', {
+                value: request.temperature,
+            });
+            restoreFns.push(overrideSetting(target, key, request.temperature));
+        }
+    }
+
+    try {
+        return await raceAbort(
+            ctx.generateRaw({
+                prompt: options.prompt,
+                systemPrompt: options.systemPrompt ?? '',
+                responseLength: options.responseLength ?? null,
+                jsonSchema: options.jsonSchema ?? null,
+                prefill: request.prefill,
+            }),
+            options.signal,
+        );
+    } finally {
+        // Restore in reverse order
+        restoreFns.reverse().forEach((restore) => restore());
+    }
+}
+
+/**
+ * Whether requests on a connection stream their output. Profiles and chat
+ * completion APIs do; generateRaw returns the whole response at once, so
+ * `onStream` is never called on text completion APIs without a profile.
+ *
+ * @param profileId - Connection profile (null = current ST settings)
+ */
+export function canStream(profileId: string | null): boolean {
+    return !!profileId || canUseChatCompletionService();
+}
+
+/**
+ * Whether the current connection can be requested outside of generateRaw.
+ * Only chat completion APIs expose a request service that takes a signal.
+ */
+function canUseChatCompletionService(): boolean {
+    const ctx = SillyTavern.getContext();
+    return (
+        ctx.mainApi === 'openai' &&
+        typeof ctx.ChatCompletionService?.sendRequest === 'function' &&
+        typeof ctx.ChatCompletionService?.createRequestData === 'function'
+    );
+}
+
+/**
+ * Request fields ST fills from chat completion settings when it builds its
+ * own requests (see createGenerationParameters), by setting key. Temperature,
+ * max tokens and reasoning effort are set separately, as they can be overridden.
+ */
+const CHAT_COMPLETION_SETTINGS: Record<string, string> = {
+    frequency_penalty: 'freq_pen_openai',
+    presence_penalty: 'pres_pen_openai',
+    top_p: 'top_p_openai',
+    top_k: 'top_k_openai',
+    min_p: 'min_p_openai',
+    top_a: 'top_a_openai',
+    repetition_penalty: 'repetition_penalty_openai',
+    include_reasoning: 'show_thoughts',
+    use_sysprompt: 'use_sysprompt',
+    custom_prompt_post_processing: 'custom_prompt_post_processing',
+    custom_include_body: 'custom_include_body',
+    custom_exclude_body: 'custom_exclude_body',
+    custom_include_headers: 'custom_include_headers',
+};
+
+/**
+ * The user's samplers and prompt post-processing, as request fields.
+ * Settings ST doesn't have are left out rather than sent as undefined.
+ */
+function readChatCompletionSettings(
+    ccs: ChatCompletionSettings,
+): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    for (const [field, key] of Object.entries(CHAT_COMPLETION_SETTINGS)) {
+        if (ccs[key] !== undefined) data[field] = ccs[key];
+    }
+    // ST sends a seed only when one is set (-1 = random)
+    if (typeof ccs.seed === 'number' && ccs.seed >= 0) data.seed = ccs.seed;
+    return data;
+}
+
+/**
+ * Send a chat completion request built from the current settings, with the
+ * same samplers ST would send.
+ *
+ * Overrides go into the request data, so global settings stay untouched
+ * and the abort signal cancels the HTTP request itself.
+ */
+async function sendChatCompletionRequest(
+    options: GenerateOptions,
+    request: RequestParams,
+): Promise<unknown> {
+    const ctx = SillyTavern.getContext();
+    const ccs = ctx.chatCompletionSettings;
+    const model =
+        typeof ctx.getChatCompletionModel === 'function'
+            ? ctx.getChatCompletionModel()
+            : undefined;
+
+    const stream = !!options.onStream;
+
+    if (request.disableReasoning) {
+        log.debug('Disabled reasoning_effort for request', {
+            reason: request.reasoningReason,
+        });
+    }
+
+    const data = ctx.ChatCompletionService.createRequestData({
+        ...readChatCompletionSettings(ccs),
+        stream,
+        messages: buildMessages(options, request),
+        model,
+        chat_completion_source: ccs.chat_completion_source,
+        max_tokens: options.responseLength ?? ccs.openai_max_tokens,
+        temperature: request.temperature ?? ccs.temp_openai,
+        custom_url: ccs.custom_url,
+        reverse_proxy: ccs.reverse_proxy,
+        proxy_password: ccs.proxy_password,
+        reasoning_effort: request.disableReasoning
+            ? 'auto'
+            : ccs.reasoning_effort,
+        ...(options.jsonSchema ? { json_schema: options.jsonSchema } : {}),
+    });
+
+    log.debug('Sending request via current settings', {
+        source: ccs.chat_completion_source,
+        model,
+        stream,
+    });
+
+    const response = await ctx.ChatCompletionService.sendRequest(
+        data,
+        true,
+        options.signal ?? null,
+    );
+
+    return typeof response === 'function'
+        ? consumeStream(response, options)
+        : response;
+}
+
+/**
+ * Temporarily set a key on an ST settings object.
+ * Returns a function that restores the original value.
+ */
+function overrideSetting(
+    target: Record<string, unknown>,
+    key: string,
+    value: unknown,
+): () => void {
+    const original = target[key];
+    target[key] = value;
+    return () => {
+        target[key] = original;
+        log.debug(`Restored ${key}`, { value: original });
+    };
+}
+
+/**
+ * Generate through a Connection Manager profile.
+ *
+ * The profile supplies the model and preset; schema and reasoning
+ * overrides go into the request payload so global settings stay untouched.
+ */
+async function sendProfileRequest(
+    profileId: string,
+    options: GenerateOptions,
+    request: RequestParams,
+    limits: { maxTokens: number },
+): Promise<unknown> {
+    const ctx = SillyTavern.getContext();
+    const cmrs = ctx.ConnectionManagerRequestService;
+    if (!cmrs || typeof cmrs.sendRequest !== 'function') {
+        throw new Error('Connection Manager is not available');
+    }
+
+    const messages = buildMessages(options, request);
+    const stream = !!options.onStream;
+
+    const overridePayload: Record<string, unknown> = {};
+    if (options.jsonSchema) {
+        overridePayload.json_schema = options.jsonSchema;
+    }
+    if (request.temperature !== null) {
+        overridePayload.temperature = request.temperature;
+    }
+    if (request.disableReasoning) {
+        overridePayload.reasoning_effort = 'auto';
+        log.debug('Disabled reasoning_effort for profile request', {
+            reason: request.reasoningReason,
+        });
+    }
+
+    log.debug('Sending request via connection profile', {
+        profileId,
+        maxTokens: limits.maxTokens,
+        structured: !!options.jsonSchema,
+        stream,
+    });
+
+    const response = await cmrs.sendRequest(
+        profileId,
+        messages,
+        limits.maxTokens,
+        {
+            stream,
+            signal: options.signal ?? null,
+            extractData: true,
+            includePreset: true,
+            includeInstruct: true,
+        },
+        overridePayload,
+    );
+
+    return typeof response === 'function'
+        ? consumeStream(response, options)
+        : response;
+}
+
+/**
+ * Build the chat messages for a request.
+ */
+function buildMessages(
+    options: GenerateOptions,
+    request: RequestParams,
+): Array<{ role: string; content: string }> {
+    const messages: Array<{ role: string; content: string }> = [];
+    if (options.systemPrompt) {
+        messages.push({ role: 'system', content: options.systemPrompt });
+    }
+    messages.push({ role: 'user', content: options.prompt });
+    if (request.prefill) {
+        messages.push({ role: 'assistant', content: request.prefill });
+    }
+    return messages;
+}
+
+/**
+ * Read a streaming response to the end, reporting accumulated text.
+ * On abort, returns whatever was received instead of throwing.
+ */
+async function consumeStream(
+    response: StreamingResponse,
+    options: GenerateOptions,
+): Promise<string> {
+    let text = '';
+
+    try {
+        for await (const chunk of response()) {
+            if (options.signal?.aborted) break;
+            if (typeof chunk?.text === 'string') {
+                text = chunk.text;
+                options.onStream?.(text);
             }
         }
     } catch (err) {
-        return categorizeError(err);
+        const aborted =
+            options.signal?.aborted || (err as Error)?.name === 'AbortError';
+        if (!aborted) throw err;
+        log.debug('Stream aborted', { received: text.length });
     }
+
+    return text;
+}
+
+/**
+ * Read the stop reason from a non-streamed response, in the shapes
+ * OpenAI-style and Anthropic-style APIs use.
+ */
+function readFinishReason(response: unknown): string | undefined {
+    if (!response || typeof response !== 'object') return undefined;
+    const obj = response as {
+        finish_reason?: unknown;
+        stop_reason?: unknown;
+        choices?: Array<{ finish_reason?: unknown }>;
+    };
+    const reason =
+        obj.finish_reason ??
+        obj.stop_reason ??
+        (Array.isArray(obj.choices) ? obj.choices[0]?.finish_reason : null);
+    return typeof reason === 'string' && reason ? reason : undefined;
 }
 
 /**
@@ -258,8 +1040,21 @@ function normalizeResponse(response: unknown): string {
  * Categorize an error into a user-friendly message.
  */
 function categorizeError(err: unknown): GenerationResult {
-    if ((err as Error).name === 'AbortError') {
-        return { success: false, error: 'Generation cancelled' };
+    if ((err as Error)?.name === 'AbortError') {
+        return {
+            success: false,
+            error: 'Generation cancelled',
+            errorCategory: 'cancelled',
+        };
+    }
+
+    // Stage timeout (see createTimeoutError)
+    if ((err as Error)?.name === 'TimeoutError') {
+        return {
+            success: false,
+            error: `${(err as Error).message}. Try a faster model or raise the stage timeout.`,
+            errorCategory: 'timeout',
+        };
     }
 
     const message = err instanceof Error ? err.message : String(err);
@@ -275,6 +1070,7 @@ function categorizeError(err: unknown): GenerationResult {
         return {
             success: false,
             error: 'API authentication failed. Check your API key.',
+            errorCategory: 'auth',
         };
     }
 
@@ -283,6 +1079,7 @@ function categorizeError(err: unknown): GenerationResult {
         return {
             success: false,
             error: 'Rate limited. Please wait and try again.',
+            errorCategory: 'rate_limit',
         };
     }
 
@@ -295,6 +1092,7 @@ function categorizeError(err: unknown): GenerationResult {
         return {
             success: false,
             error: 'API server error. The service may be temporarily unavailable.',
+            errorCategory: 'server',
         };
     }
 
@@ -303,6 +1101,7 @@ function categorizeError(err: unknown): GenerationResult {
         return {
             success: false,
             error: 'Request timed out. Check your connection or try a different model.',
+            errorCategory: 'timeout',
         };
     }
 
@@ -315,6 +1114,7 @@ function categorizeError(err: unknown): GenerationResult {
         return {
             success: false,
             error: 'Network error. Check your internet connection.',
+            errorCategory: 'network',
         };
     }
 
@@ -328,6 +1128,7 @@ function categorizeError(err: unknown): GenerationResult {
         return {
             success: false,
             error: 'Prompt too long for model context. Try reducing input length.',
+            errorCategory: 'context_length',
         };
     }
 
@@ -339,6 +1140,7 @@ function categorizeError(err: unknown): GenerationResult {
         return {
             success: false,
             error: 'Model not found. It may have been deprecated or renamed.',
+            errorCategory: 'model_not_found',
         };
     }
 
@@ -350,11 +1152,12 @@ function categorizeError(err: unknown): GenerationResult {
         return {
             success: false,
             error: 'Content was filtered by the API. Try rephrasing your prompt.',
+            errorCategory: 'content_filter',
         };
     }
 
     // Default
-    return { success: false, error: message };
+    return { success: false, error: message, errorCategory: 'unknown' };
 }
 
 // =============================================================================
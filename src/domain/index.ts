@@ -26,3 +26,9 @@ export * from './preset-validation';
 
 // Generation utilities (error handling, retries)
 export * from './generation';
+
+// Token usage and cost
+export * from './usage';
+
+// Word- and sentence-level text diffs
+export * from './diff';
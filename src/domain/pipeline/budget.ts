@@ -0,0 +1,253 @@
+// src/domain/pipeline/budget.ts
+// =============================================================================
+// CONTEXT BUDGET PLANNING
+//
+// Measures each prompt section before sending and, when the prompt won't fit
+// the context window, cuts it down according to the configured strategy.
+// Every cut is recorded so the user can see what the model didn't get.
+// =============================================================================
+
+import { getPopulatedFields } from '../character';
+import type { Character, ContextStrategy, FieldSelection } from '../../types';
+import {
+    buildPromptSections,
+    renderPromptSection,
+    type PromptContext,
+    type SectionDependencies,
+    type PromptSection,
+    type PromptSectionId,
+} from './prompt';
+import { planFieldUnits } from './field-rewrite';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BudgetOptions {
+    /** Tokens available for the user prompt */
+    budget: number;
+    strategy: ContextStrategy;
+    /** Token count for a piece of prompt text */
+    measure: (text: string) => Promise<number>;
+    /** Condense text to about `maxTokens` (summarize strategy). Null on failure. */
+    summarize?: (text: string, maxTokens: number) => Promise<string | null>;
+}
+
+/**
+ * Token count of one prompt section.
+ */
+export interface SectionSize {
+    id: PromptSectionId;
+    heading: string;
+    tokens: number;
+}
+
+/**
+ * A prompt fitted (as far as possible) to the budget.
+ */
+export interface PromptPlan {
+    /** Context to run with (selection may have lost disabled lorebook entries) */
+    context: PromptContext;
+    sections: PromptSection[];
+    sizes: SectionSize[];
+    /** Estimated prompt tokens */
+    tokens: number;
+    budget: number;
+    strategy: ContextStrategy;
+    fits: boolean;
+    /** The rewrite should run field by field instead (chunk strategy) */
+    chunk: boolean;
+    /** What was cut, in the order it was cut */
+    cuts: string[];
+}
+
+/** Prior-stage output the planner may shorten, largest first */
+const CONTEXT_SECTIONS: PromptSectionId[] = ['score', 'analysis'];
+
+/** Below this many tokens a shortened section isn't worth keeping */
+const MIN_SECTION_TOKENS = 50;
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Fit a stage prompt to the token budget.
+ *
+ * Cuts, in order, until the prompt fits:
+ * 1. Disabled lorebook entries (they never fire in chat anyway)
+ * 2. chunk: hand the rewrite over to field-by-field mode
+ * 3. Prior-stage output (score results, analysis feedback) - summarized with
+ *    the summarize strategy, otherwise trimmed
+ *
+ * Instructions, character data, the rewrite under analysis and user
+ * guidance are never cut. With strategy `off` the prompt is only measured.
+ */
+export async function planPromptBudget(
+    ctx: PromptContext,
+    deps: SectionDependencies,
+    options: BudgetOptions,
+): Promise<PromptPlan> {
+    const { budget, strategy, measure } = options;
+    const cuts: string[] = [];
+    let context = ctx;
+    let sections = buildPromptSections(context, deps);
+    let sizes = await measureSections(sections, measure);
+
+    const plan = (chunk = false): PromptPlan => {
+        const tokens = sumTokens(sizes);
+        return {
+            context,
+            sections,
+            sizes,
+            tokens,
+            budget,
+            strategy,
+            fits: tokens <= budget,
+            chunk,
+            cuts,
+        };
+    };
+
+    if (sumTokens(sizes) <= budget || strategy === 'off') return plan();
+
+    // 1. Disabled lorebook entries
+    const active = dropInactiveLorebookEntries(ctx.character, ctx.selection);
+    if (active.dropped > 0) {
+        context = { ...context, selection: active.selection };
+        sections = buildPromptSections(context, deps);
+        sizes = await measureSections(sections, measure);
+        cuts.push(
+            `Dropped ${active.dropped} disabled lorebook ${active.dropped === 1 ? 'entry' : 'entries'}`,
+        );
+        if (sumTokens(sizes) <= budget) return plan();
+    }
+
+    // 2. Split the rewrite into per-field requests
+    if (
+        strategy === 'chunk' &&
+        ctx.stage === 'rewrite' &&
+        !ctx.fieldScope &&
+        planFieldUnits(context.character, context.selection).length > 1
+    ) {
+        return plan(true);
+    }
+
+    // 3. Shorten prior-stage output to whatever room is left
+    const shrinkable = sizes
+        .filter((s) => CONTEXT_SECTIONS.includes(s.id))
+        .sort((a, b) => b.tokens - a.tokens);
+    const shrinkableTokens = sumTokens(shrinkable);
+    const room = Math.max(budget - (sumTokens(sizes) - shrinkableTokens), 0);
+
+    for (const size of shrinkable) {
+        const index = sections.findIndex((s) => s.id === size.id);
+        const section = sections[index];
+        const share = Math.floor((room * size.tokens) / shrinkableTokens);
+
+        if (share < MIN_SECTION_TOKENS) {
+            sections = sections.filter((_, i) => i !== index);
+            cuts.push(`Dropped ${describeSection(section)}`);
+            continue;
+        }
+
+        let body: string | null = null;
+        if (strategy === 'summarize' && options.summarize) {
+            body = await options.summarize(section.body ?? '', share);
+            if (body !== null) {
+                cuts.push(
+                    `Summarized ${describeSection(section)} (~${size.tokens} → ~${share} tokens)`,
+                );
+            }
+        }
+        if (body === null) {
+            body = trimSection(section, share, size.tokens);
+            cuts.push(
+                `Trimmed ${describeSection(section)} (~${size.tokens} → ~${share} tokens)`,
+            );
+        }
+
+        sections = sections.map((s, i) => (i === index ? { ...s, body } : s));
+    }
+
+    sizes = await measureSections(sections, measure);
+    return plan();
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Remove disabled lorebook entries from a selection.
+ * A whole-lorebook selection (`true`) becomes the list of enabled entries.
+ */
+export function dropInactiveLorebookEntries(
+    character: Character,
+    selection: FieldSelection,
+): { selection: FieldSelection; dropped: number } {
+    const sel = selection.character_book;
+    const field = getPopulatedFields(character).find(
+        (f) => f.key === 'character_book',
+    );
+    if (!sel || !field) return { selection, dropped: 0 };
+
+    const entries =
+        (field.rawValue as { entries?: Array<{ enabled?: boolean }> })
+            .entries ?? [];
+    const indices = Array.isArray(sel) ? sel : entries.map((_, i) => i);
+    const kept = indices.filter((i) => entries[i]?.enabled !== false);
+
+    if (kept.length === indices.length) return { selection, dropped: 0 };
+    return {
+        selection: { ...selection, character_book: kept },
+        dropped: indices.length - kept.length,
+    };
+}
+
+async function measureSections(
+    sections: PromptSection[],
+    measure: BudgetOptions['measure'],
+): Promise<SectionSize[]> {
+    return Promise.all(
+        sections.map(async (section) => ({
+            id: section.id,
+            heading: section.heading,
+            tokens: await measure(renderPromptSection(section)),
+        })),
+    );
+}
+
+function sumTokens(sizes: SectionSize[]): number {
+    return sizes.reduce((total, s) => total + s.tokens, 0);
+}
+
+function describeSection(section: PromptSection): string {
+    return section.heading.replace(/^#+\s*/, '').toLowerCase();
+}
+
+/** Appended to trimmed sections */
+const TRIM_MARKER = '[... trimmed to fit the context window]';
+
+/**
+ * Cut a section's body so the whole section is roughly `maxTokens`,
+ * scaling by its measured size and ending on a line break where possible.
+ */
+function trimSection(
+    section: PromptSection,
+    maxTokens: number,
+    tokens: number,
+): string {
+    const body = section.body ?? '';
+    const total = renderPromptSection(section).length;
+    const limit =
+        Math.floor((total * maxTokens) / Math.max(tokens, 1)) -
+        (total - body.length) -
+        TRIM_MARKER.length;
+    if (limit >= body.length) return body;
+
+    const head = body.slice(0, Math.max(limit, 0));
+    const breakAt = head.lastIndexOf('\n');
+    const kept = breakAt > limit / 2 ? head.slice(0, breakAt) : head;
+    return `${kept.trimEnd()}\n\n${TRIM_MARKER}`;
+}
@@ -0,0 +1,412 @@
+// src/domain/pipeline/candidates.ts
+// =============================================================================
+// REWRITE CANDIDATES
+//
+// Generates several rewrites in one run, either by sampling the same request
+// repeatedly or by sending it to several connection profiles, and keeps them
+// side by side. The rewrite's output is composed from a winning candidate,
+// with individual fields optionally taken from the others. A judge request
+// can rank the candidates to pick the winner.
+// =============================================================================
+
+import { CHARACTER_FIELDS, getApiStatus, getProfile, log } from '../../shared';
+import { generate, countTokens } from '../generation';
+import { resolveStageConnection } from '../../data/settings';
+import { buildCharacterSummary } from '../character';
+import type {
+    CandidateSet,
+    GenerationMeta,
+    RewriteCandidate,
+    StageConfig,
+    StageResult,
+} from '../../types';
+import {
+    runStage,
+    combineGenerationMeta,
+    type ExecutionDependencies,
+    type RunOptions,
+    type StageContext,
+} from './execution';
+import {
+    formatRewriteFields,
+    parseRewriteOutput,
+    parseRewriteSections,
+    readRewriteFields,
+} from './rewrite-output';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One candidate a run will generate.
+ */
+export interface CandidatePlan {
+    /** Profile override (null = the stage's own connection) */
+    profileId: string | null;
+    label: string;
+}
+
+/** Most candidates one run may generate */
+export const MAX_CANDIDATES = 5;
+
+const JUDGE_SYSTEM_PROMPT =
+    'You compare rewrites of a roleplay character card and rank them. ' +
+    'Judge how well each keeps the character recognizable while improving the writing.';
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * The candidates a stage config asks for: one per listed profile, or
+ * `candidateCount` samples of the stage's connection.
+ *
+ * @example
+ * ```ts
+ * planCandidates({ ...config, candidateCount: 3 });
+ * // → Candidate 1, Candidate 2, Candidate 3 (stage connection)
+ * ```
+ */
+export function planCandidates(config: StageConfig): CandidatePlan[] {
+    const profiles = config.candidateProfiles ?? [];
+    if (profiles.length > 0) {
+        return profiles.slice(0, MAX_CANDIDATES).map((profileId) => ({
+            profileId,
+            label: getProfile(profileId)?.name ?? profileId,
+        }));
+    }
+
+    const count = Math.min(
+        Math.max(Math.floor(config.candidateCount ?? 1), 1),
+        MAX_CANDIDATES,
+    );
+    return Array.from({ length: count }, (_, i) => ({
+        profileId: null,
+        label: `Candidate ${i + 1}`,
+    }));
+}
+
+/**
+ * Whether a request should generate several candidates. Configs saved
+ * before candidates existed lack the fields and run a single rewrite.
+ */
+export function isCandidateRun(ctx: StageContext): boolean {
+    return (
+        ctx.stage === 'rewrite' &&
+        !ctx.fieldScope &&
+        !ctx.candidateScope &&
+        planCandidates(ctx.config).length > 1
+    );
+}
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+/**
+ * Generate every candidate in turn, then optionally have them ranked.
+ *
+ * Failed candidates don't stop the run; the result only fails when none
+ * produced output. The first successful candidate wins unless the judge
+ * ranked another one first.
+ */
+export async function runCandidates(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    options: RunOptions = {},
+): Promise<StageResult> {
+    const { signal, onProgress } = options;
+    const timestamp = Date.now();
+    const plans = planCandidates(ctx.config);
+    const candidates: RewriteCandidate[] = [];
+
+    for (const [i, plan] of plans.entries()) {
+        if (signal?.aborted) {
+            candidates.push({
+                ...plan,
+                result: {
+                    stage: ctx.stage,
+                    timestamp: Date.now(),
+                    input: '',
+                    output: '',
+                    error: 'Aborted',
+                },
+            });
+            continue;
+        }
+
+        onProgress?.(
+            `Generating candidate ${i + 1} of ${plans.length} (${plan.label})...`,
+        );
+
+        const result = await runStage(
+            {
+                ...ctx,
+                config: plan.profileId
+                    ? { ...ctx.config, profileId: plan.profileId }
+                    : ctx.config,
+                candidateScope: plan.label,
+            },
+            deps,
+            options,
+        );
+        candidates.push({ ...plan, result });
+    }
+
+    const usable = candidates
+        .map((c, i) => (isUsable(c) ? i : -1))
+        .filter((i) => i >= 0);
+    const base: StageResult = {
+        stage: ctx.stage,
+        timestamp,
+        input: '',
+        output: '',
+        guidance: ctx.guidance,
+        ...(ctx.iterationCount > 0 ? { iteration: ctx.iterationCount } : {}),
+        ...(ctx.isRefinement ? { isRefinement: true } : {}),
+    };
+
+    if (usable.length === 0) {
+        const meta = combineGenerationMeta(collectCandidateMetas(candidates));
+        return {
+            ...base,
+            error: `All ${candidates.length} candidates failed: ${candidates
+                .map((c) => `${c.label} (${c.result.error ?? 'no output'})`)
+                .join(', ')}`,
+            candidates: { candidates, winner: 0, picks: {} },
+            ...(meta ? { meta } : {}),
+        };
+    }
+
+    let set: CandidateSet = { candidates, winner: usable[0], picks: {} };
+    if (ctx.config.judgeCandidates && usable.length > 1 && !signal?.aborted) {
+        onProgress?.(`Ranking ${usable.length} candidates...`);
+        const judged = await judgeCandidates(ctx, candidates, usable, signal);
+        set = {
+            ...set,
+            ...judged,
+            winner: judged.ranking?.[0] ?? set.winner,
+        };
+    }
+
+    const meta = combineGenerationMeta([
+        ...collectCandidateMetas(candidates),
+        ...(set.judge?.meta ? [set.judge.meta] : []),
+    ]);
+    return selectCandidates(
+        { ...base, candidates: set, ...(meta ? { meta } : {}) },
+        set.winner,
+        {},
+    );
+}
+
+function isUsable(candidate: RewriteCandidate): boolean {
+    return !candidate.result.error && !!candidate.result.output.trim();
+}
+
+function collectCandidateMetas(
+    candidates: RewriteCandidate[],
+): GenerationMeta[] {
+    return candidates.flatMap((c) => (c.result.meta ? [c.result.meta] : []));
+}
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+/**
+ * Pick a winner and per-field picks for a candidate result, recomposing
+ * its output. Picks pointing at the winner are dropped, as are picks and
+ * winners naming candidates without output.
+ */
+export function selectCandidates(
+    result: StageResult,
+    winner: number,
+    picks: Record<string, number>,
+): StageResult {
+    const set = result.candidates;
+    if (!set) return result;
+
+    const usable = (i: number) =>
+        !!set.candidates[i] && isUsable(set.candidates[i]);
+    const nextWinner = usable(winner) ? winner : set.winner;
+    const nextPicks = Object.fromEntries(
+        Object.entries(picks).filter(([, i]) => i !== nextWinner && usable(i)),
+    );
+    const next: CandidateSet = { ...set, winner: nextWinner, picks: nextPicks };
+    const chosen = set.candidates[nextWinner].result;
+
+    return {
+        ...result,
+        input: chosen.input,
+        output: composeCandidateOutput(next),
+        ...(chosen.systemPrompt !== undefined
+            ? { systemPrompt: chosen.systemPrompt }
+            : {}),
+        ...(chosen.finishReason ? { finishReason: chosen.finishReason } : {}),
+        candidates: next,
+    };
+}
+
+/**
+ * Output of a candidate set: the winner's output, with each picked field's
+ * section replaced by the picked candidate's. Picked fields the winner
+ * didn't rewrite are added at the end, in card field order. Structured
+ * winners are rewritten as structured output with the picked values.
+ *
+ * @example
+ * ```ts
+ * composeCandidateOutput({ candidates, winner: 0, picks: { personality: 1 } });
+ * // → candidate 1's text, except the Personality section comes from candidate 2
+ * ```
+ */
+export function composeCandidateOutput(set: CandidateSet): string {
+    const winner = set.candidates[set.winner]?.result.output ?? '';
+    const picked = new Map<string, string>();
+    for (const [key, index] of Object.entries(set.picks)) {
+        const output = set.candidates[index]?.result.output;
+        const content = output ? parseRewriteOutput(output)[key] : undefined;
+        if (content) picked.set(key, content);
+    }
+    if (picked.size === 0) return winner.trim();
+
+    // Structured winners stay structured
+    const structured = readRewriteFields(winner);
+    if (structured) {
+        return formatRewriteFields({
+            ...structured,
+            ...Object.fromEntries(picked),
+        });
+    }
+
+    const parts: string[] = [];
+    const used = new Set<string>();
+    for (const section of parseRewriteSections(winner)) {
+        const content =
+            (section.key && picked.get(section.key)) || section.content;
+        if (section.key) used.add(section.key);
+        parts.push(
+            section.heading ? `${section.heading}\n\n${content}` : content,
+        );
+    }
+    for (const field of CHARACTER_FIELDS) {
+        const content = picked.get(field.key);
+        if (content && !used.has(field.key)) {
+            parts.push(`### ${field.label}\n\n${content}`);
+        }
+    }
+
+    return parts.join('\n\n');
+}
+
+// =============================================================================
+// JUDGE
+// =============================================================================
+
+/**
+ * Read a "Ranking: 2, 1, 3" line (1-based, best first) into candidate
+ * indices. Unknown and repeated numbers are skipped; candidates the judge
+ * left out are appended in their original order.
+ *
+ * @returns The ranking, or null when the response has no ranking line
+ */
+export function parseCandidateRanking(
+    output: string,
+    eligible: number[],
+): number[] | null {
+    const match = /ranking\**\s*[:-]\s*\**\s*([^\n]+)/i.exec(output);
+    if (!match) return null;
+
+    const ranking: number[] = [];
+    for (const [number] of match[1].matchAll(/\d+/g)) {
+        const index = parseInt(number, 10) - 1;
+        if (eligible.includes(index) && !ranking.includes(index)) {
+            ranking.push(index);
+        }
+    }
+    if (ranking.length === 0) return null;
+
+    return [...ranking, ...eligible.filter((i) => !ranking.includes(i))];
+}
+
+/**
+ * Ask the stage's connection to rank the usable candidates against the
+ * original card. A failed or unreadable judge leaves the winner as it was.
+ */
+async function judgeCandidates(
+    ctx: StageContext,
+    candidates: RewriteCandidate[],
+    eligible: number[],
+    signal?: AbortSignal,
+): Promise<Pick<CandidateSet, 'ranking' | 'judge'>> {
+    const connection = resolveStageConnection(ctx.config);
+    const api = getApiStatus(connection.profileId);
+    const score = ctx.previousResults.score?.output.trim();
+
+    const prompt = [
+        buildCharacterSummary(ctx.character, ctx.selection),
+        score ? `# SCORE RESULTS\n\n${score}` : '',
+        ...eligible.map(
+            (i) =>
+                `# CANDIDATE ${i + 1}\n\n${candidates[i].result.output.trim()}`,
+        ),
+        ctx.guidance ? `# USER GUIDANCE\n\n${ctx.guidance}` : '',
+        '# TASK\n\n' +
+            `Rank candidates ${eligible.map((i) => i + 1).join(', ')} from best to worst as rewrites of the character above. ` +
+            'Start your reply with a line like "Ranking: 2, 1, 3", then give one short sentence per candidate.',
+    ]
+        .filter(Boolean)
+        .join('\n\n');
+
+    const started = Date.now();
+    const result = await generate({
+        prompt,
+        systemPrompt: JUDGE_SYSTEM_PROMPT,
+        signal,
+        profileId: connection.profileId,
+        timeoutMs: connection.timeout ? connection.timeout * 1000 : null,
+        maxRepairs: 0,
+    });
+
+    const output = result.response ?? '';
+    const meta: GenerationMeta = {
+        model: api.model || null,
+        source: api.source || null,
+        profileId: connection.profileId,
+        promptPresetId: null,
+        promptPresetVersion: null,
+        schemaPresetId: null,
+        schemaPresetVersion: null,
+        structured: null,
+        promptTokens:
+            (await countTokens(JUDGE_SYSTEM_PROMPT)) +
+            (await countTokens(prompt)),
+        completionTokens: output ? await countTokens(output) : 0,
+        durationMs: Date.now() - started,
+        retries: result.retries ?? 0,
+    };
+
+    if (!result.success) {
+        log.warn('Candidate judge failed', result.error);
+        return {
+            judge: {
+                output,
+                error: result.error ?? 'Generation failed',
+                meta,
+            },
+        };
+    }
+
+    const ranking = parseCandidateRanking(output, eligible);
+    if (!ranking) {
+        return {
+            judge: {
+                output,
+                error: 'No ranking found in the judge response',
+                meta,
+            },
+        };
+    }
+    return { ranking, judge: { output, meta } };
+}
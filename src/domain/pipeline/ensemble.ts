@@ -0,0 +1,359 @@
+// src/domain/pipeline/ensemble.ts
+// =============================================================================
+// ENSEMBLE SCORING
+//
+// Sends the score request to several connection profiles at once and
+// aggregates the structured scores per criterion, so one model's bias
+// doesn't decide the score. Members are expected to answer in the builtin
+// CharacterScore shape; the score result's output is the merged score.
+// =============================================================================
+
+import { getProfile } from '../../shared';
+import { extractJson } from '../schema';
+import type {
+    CriterionStats,
+    EnsembleMember,
+    GenerationMeta,
+    ScoreEnsemble,
+    StageConfig,
+    StageResult,
+} from '../../types';
+import {
+    runStage,
+    combineGenerationMeta,
+    type ExecutionDependencies,
+    type RunOptions,
+    type StageContext,
+} from './execution';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * The CharacterScore shape (builtin score schema) as far as it's aggregated.
+ */
+export interface CharacterScore {
+    fieldScores: {
+        field: string;
+        score: number;
+        strengths?: string;
+        weaknesses?: string;
+        suggestions?: string;
+    }[];
+    overallScore?: number;
+    priorityImprovements: string[];
+    summary?: string;
+}
+
+/**
+ * One model an ensemble will score with.
+ */
+export interface EnsemblePlan {
+    profileId: string;
+    label: string;
+}
+
+/** Most profiles one ensemble may score with */
+export const MAX_ENSEMBLE_PROFILES = 5;
+
+/** Spread (on a 10-point scale) at which a criterion counts as disputed */
+export const DISPUTED_SPREAD = 3;
+
+/** Label of the overall score in aggregated stats */
+const OVERALL = 'Overall';
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * The models a stage config scores with, one per listed profile.
+ */
+export function planEnsemble(config: StageConfig): EnsemblePlan[] {
+    return (config.ensembleProfiles ?? [])
+        .slice(0, MAX_ENSEMBLE_PROFILES)
+        .map((profileId) => ({
+            profileId,
+            label: getProfile(profileId)?.name ?? profileId,
+        }));
+}
+
+/**
+ * Whether a request should score with several models. A single listed
+ * profile isn't an ensemble; configs saved before ensembles existed lack
+ * the field and run a single score.
+ */
+export function isEnsembleRun(ctx: StageContext): boolean {
+    return (
+        ctx.stage === 'score' &&
+        !ctx.ensembleScope &&
+        planEnsemble(ctx.config).length > 1
+    );
+}
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+/**
+ * Score with every planned model in parallel, then aggregate.
+ *
+ * Members don't stream, since their outputs would interleave. Failed or
+ * unreadable members are left out of the aggregate; the result only fails
+ * when no member returned a readable score.
+ */
+export async function runEnsemble(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    options: RunOptions = {},
+): Promise<StageResult> {
+    const { signal, onProgress } = options;
+    const timestamp = Date.now();
+    const plans = planEnsemble(ctx.config);
+
+    onProgress?.(
+        `Scoring with ${plans.length} models (${plans.map((p) => p.label).join(', ')})...`,
+    );
+
+    const members: EnsembleMember[] = await Promise.all(
+        plans.map(async (plan) => ({
+            ...plan,
+            result: await runStage(
+                {
+                    ...ctx,
+                    config: { ...ctx.config, profileId: plan.profileId },
+                    ensembleScope: plan.label,
+                },
+                deps,
+                { signal },
+            ),
+        })),
+    );
+
+    const scores = members.map((m) =>
+        m.result.error ? null : readCharacterScore(m.result.output),
+    );
+    const ensemble = aggregateScores(members, scores);
+    const meta = combineGenerationMeta(
+        members.flatMap((m): GenerationMeta[] =>
+            m.result.meta ? [m.result.meta] : [],
+        ),
+    );
+    const base: StageResult = {
+        stage: ctx.stage,
+        timestamp,
+        input: members[0]?.result.input ?? '',
+        output: '',
+        guidance: ctx.guidance,
+        ensemble,
+        ...(members[0]?.result.systemPrompt !== undefined
+            ? { systemPrompt: members[0].result.systemPrompt }
+            : {}),
+        ...(ctx.iterationCount > 0 ? { iteration: ctx.iterationCount } : {}),
+        ...(ctx.isRefinement ? { isRefinement: true } : {}),
+        ...(meta ? { meta } : {}),
+    };
+
+    if (scores.every((s) => s === null)) {
+        return {
+            ...base,
+            error: `No model returned a readable score: ${members
+                .map(
+                    (m) =>
+                        `${m.label} (${m.result.error ?? 'not a CharacterScore'})`,
+                )
+                .join(', ')}`,
+        };
+    }
+
+    return {
+        ...base,
+        output: JSON.stringify(mergeScores(members, scores, ensemble), null, 2),
+    };
+}
+
+// =============================================================================
+// AGGREGATION
+// =============================================================================
+
+/**
+ * Read a CharacterScore from a response. Field scores without a name or
+ * numeric score are dropped.
+ *
+ * @returns The score, or null when the response has no score in that shape
+ */
+export function readCharacterScore(output: string): CharacterScore | null {
+    const data = extractJson(output)?.data;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+
+    const raw = data as Record<string, unknown>;
+    const fieldScores = (
+        Array.isArray(raw.fieldScores) ? raw.fieldScores : []
+    ).filter(
+        (f): f is CharacterScore['fieldScores'][number] =>
+            !!f &&
+            typeof f === 'object' &&
+            typeof f.field === 'string' &&
+            !!f.field.trim() &&
+            typeof f.score === 'number' &&
+            Number.isFinite(f.score),
+    );
+    const overallScore =
+        typeof raw.overallScore === 'number' &&
+        Number.isFinite(raw.overallScore)
+            ? raw.overallScore
+            : undefined;
+    if (fieldScores.length === 0 && overallScore === undefined) return null;
+
+    return {
+        fieldScores,
+        ...(overallScore !== undefined ? { overallScore } : {}),
+        priorityImprovements: Array.isArray(raw.priorityImprovements)
+            ? raw.priorityImprovements.filter(
+                  (p): p is string => typeof p === 'string',
+              )
+            : [],
+        ...(typeof raw.summary === 'string' ? { summary: raw.summary } : {}),
+    };
+}
+
+/**
+ * Aggregate member scores per criterion: mean, min, max and spread.
+ * Fields are matched by name, ignoring case and surrounding whitespace.
+ *
+ * @param scores - Each member's score, in member order (null = unreadable)
+ *
+ * @example
+ * ```ts
+ * aggregateScores(members, [
+ *     { fieldScores: [{ field: 'Personality', score: 8 }], overallScore: 7, ... },
+ *     { fieldScores: [{ field: 'personality', score: 4 }], overallScore: 6, ... },
+ * ]);
+ * // → fields: [{ criterion: 'Personality', mean: 6, spread: 4, disputed: true, ... }]
+ * ```
+ */
+export function aggregateScores(
+    members: EnsembleMember[],
+    scores: (CharacterScore | null)[],
+): ScoreEnsemble {
+    const order: string[] = [];
+    const names = new Map<string, string>();
+    for (const score of scores) {
+        for (const f of score?.fieldScores ?? []) {
+            const key = normalizeCriterion(f.field);
+            if (!names.has(key)) {
+                names.set(key, f.field.trim());
+                order.push(key);
+            }
+        }
+    }
+
+    const fields = order.flatMap((key) => {
+        const stats = computeStats(
+            names.get(key) ?? key,
+            scores.map(
+                (s) =>
+                    s?.fieldScores.find(
+                        (f) => normalizeCriterion(f.field) === key,
+                    )?.score ?? null,
+            ),
+        );
+        return stats ? [stats] : [];
+    });
+
+    return {
+        members,
+        overall: computeStats(
+            OVERALL,
+            scores.map((s) => s?.overallScore ?? null),
+        ),
+        fields,
+    };
+}
+
+/**
+ * Stats for one criterion, or null when no member scored it.
+ */
+export function computeStats(
+    criterion: string,
+    scores: (number | null)[],
+): CriterionStats | null {
+    const values = scores.filter((s): s is number => s !== null);
+    if (values.length === 0) return null;
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    // Scores above 10 are on a 100-point scale
+    const threshold = max > 10 ? DISPUTED_SPREAD * 10 : DISPUTED_SPREAD;
+
+    return {
+        criterion,
+        scores,
+        mean: round(mean),
+        min,
+        max,
+        spread: round(max - min),
+        disputed: values.length > 1 && max - min >= threshold,
+    };
+}
+
+/**
+ * Merge member scores into one CharacterScore: mean scores, each member's
+ * notes labelled with its model, and priorities without duplicates.
+ */
+function mergeScores(
+    members: EnsembleMember[],
+    scores: (CharacterScore | null)[],
+    ensemble: ScoreEnsemble,
+): CharacterScore {
+    const labelled = (pick: (score: CharacterScore) => string | undefined) =>
+        scores
+            .map((s, i) => {
+                const text = s ? pick(s)?.trim() : '';
+                return text ? `${members[i].label}: ${text}` : '';
+            })
+            .filter(Boolean)
+            .join('\n');
+    const fieldOf = (score: CharacterScore, criterion: string) =>
+        score.fieldScores.find(
+            (f) =>
+                normalizeCriterion(f.field) === normalizeCriterion(criterion),
+        );
+
+    const priorities: string[] = [];
+    const seen = new Set<string>();
+    for (const item of scores.flatMap((s) => s?.priorityImprovements ?? [])) {
+        const key = item.trim().toLowerCase();
+        if (key && !seen.has(key)) {
+            seen.add(key);
+            priorities.push(item.trim());
+        }
+    }
+
+    return {
+        fieldScores: ensemble.fields.map((stats) => ({
+            field: stats.criterion,
+            score: stats.mean,
+            strengths: labelled((s) => fieldOf(s, stats.criterion)?.strengths),
+            weaknesses: labelled(
+                (s) => fieldOf(s, stats.criterion)?.weaknesses,
+            ),
+            suggestions: labelled(
+                (s) => fieldOf(s, stats.criterion)?.suggestions,
+            ),
+        })),
+        ...(ensemble.overall ? { overallScore: ensemble.overall.mean } : {}),
+        priorityImprovements: priorities,
+        summary: labelled((s) => s.summary),
+    };
+}
+
+function normalizeCriterion(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
@@ -3,18 +3,42 @@
 // PIPELINE EXECUTION
 // =============================================================================
 
-import { log } from '../../shared';
-import type { StructuredOutputSchema } from '../../shared';
-import { generate } from '../generation';
-import { getSettings } from '../../data/settings';
-import type { StageResult } from '../../types';
+import { log, getApiStatus } from '../../shared';
+import type { ApiStatus, StructuredOutputSchema } from '../../shared';
+import {
+    generate,
+    countTokens,
+    resolvePrefill,
+    type GenerationResult,
+} from '../generation';
+import { getSettings, resolveStageConnection } from '../../data/settings';
+import type {
+    ContextReport,
+    FieldResult,
+    GenerationMeta,
+    RunSnapshot,
+    StageConnection,
+    StageName,
+    StageResult,
+} from '../../types';
 import {
-    buildUserPrompt,
     getStageSystemPrompt,
     getSchema,
+    joinPromptSections,
     type PromptContext,
     type PromptDependencies,
 } from './prompt';
+import { planPromptBudget, type PromptPlan } from './budget';
+import { getPromptLayout } from './layout';
+import { parseVerdict } from './verdict';
+import {
+    planFieldUnits,
+    combineFieldOutputs,
+    type FieldUnit,
+} from './field-rewrite';
+import { isCandidateRun, runCandidates } from './candidates';
+import { isEnsembleRun, runEnsemble } from './ensemble';
+import { applyRubric, getStageRubric } from './rubric';
 
 // =============================================================================
 // TYPES
@@ -25,32 +49,162 @@ export type StageContext = PromptContext;
 export interface RunOptions {
     signal?: AbortSignal;
     onProgress?: (message: string) => void;
+    /** Receives accumulated output while the response streams in */
+    onStream?: (text: string) => void;
 }
 
 export type ExecutionDependencies = PromptDependencies;
 
+/**
+ * Everything a stage request is built from, before it's sent.
+ */
+export interface StageRequest {
+    systemPrompt: string;
+    schema: StructuredOutputSchema | null;
+    connection: StageConnection;
+    /** Status of the connection the request goes to */
+    api: ApiStatus;
+    /** Assistant prefill the request will send ('' = none) */
+    prefill: string;
+    /** The user prompt fitted to the context window */
+    plan: PromptPlan;
+    userPrompt: string;
+    /** Summarizer requests sent while fitting the prompt */
+    summaries: GenerationMeta[];
+}
+
+export interface PrepareOptions {
+    signal?: AbortSignal;
+    /** Don't send anything (the summarize strategy trims instead) */
+    dryRun?: boolean;
+}
+
+/** Tokens held back for separators, message framing and counting error */
+const CONTEXT_MARGIN = 256;
+
+const SUMMARIZER_SYSTEM_PROMPT =
+    'You condense evaluation notes for another model to work from.';
+
 // =============================================================================
 // EXECUTION
 // =============================================================================
 
 /**
  * Run a single pipeline stage.
+ *
+ * Rewrites set up for several candidates generate each one and keep them
+ * side by side (see runCandidates). Rewrites with `fieldByField` enabled
+ * run one request per field instead (see runStageByField). Scores set up
+ * with several profiles run against each in parallel (see runEnsemble).
+ * Scores whose schema preset was generated from a rubric get their overall
+ * score computed from it (see applyRubric).
  */
 export async function runStage(
     ctx: StageContext,
     deps: ExecutionDependencies,
     options: RunOptions = {},
 ): Promise<StageResult> {
-    const { signal, onProgress } = options;
+    let result: StageResult;
+    if (isCandidateRun(ctx)) {
+        result = await runCandidates(ctx, deps, options);
+    } else if (isEnsembleRun(ctx)) {
+        result = await runEnsemble(ctx, deps, options);
+    } else if (
+        ctx.stage === 'rewrite' &&
+        ctx.config.fieldByField &&
+        !ctx.fieldScope
+    ) {
+        result = await runStageByField(ctx, deps, options);
+    } else {
+        result = await runRequest(ctx, deps, options);
+    }
+
+    // Ensembles average their members, which each applied the rubric
+    const rubric =
+        ctx.stage === 'score' && !result.ensemble
+            ? getStageRubric(ctx.config, deps)
+            : null;
+    if (rubric) {
+        result = applyRubric(result, rubric);
+    }
+
+    // Single-field, candidate and ensemble member requests end up inside the combined result
+    return ctx.fieldScope || ctx.candidateScope || ctx.ensembleScope
+        ? result
+        : { ...result, snapshot: createRunSnapshot(ctx) };
+}
+
+/**
+ * Settings and inputs behind a run, so it can be repeated exactly.
+ */
+function createRunSnapshot(ctx: StageContext): RunSnapshot {
+    const inputs: RunSnapshot['inputs'] = {};
+    for (const [stage, result] of Object.entries(ctx.previousResults)) {
+        if (result) {
+            inputs[stage as StageName] = result.timestamp;
+        }
+    }
+    return {
+        config: structuredClone(ctx.config),
+        selection: structuredClone(ctx.selection),
+        inputs,
+    };
+}
+
+/**
+ * Send one stage request: fit the prompt, generate and build the result.
+ */
+async function runRequest(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    options: RunOptions,
+): Promise<StageResult> {
+    const { signal, onProgress, onStream } = options;
 
     const timestamp = Date.now();
-    const userPrompt = buildUserPrompt(ctx, deps);
-    const systemPrompt = getStageSystemPrompt(
-        ctx.stage,
-        ctx.isRefinement ?? false,
-        deps,
-    );
-    const schema = getSchema(ctx.config, deps);
+    const request = await prepareStageRequest(ctx, deps, { signal });
+    const { systemPrompt, schema, connection, plan, userPrompt } = request;
+    const report = plan.cuts.length ? toContextReport(plan) : null;
+    // Summaries are paid for even when the stage request isn't sent
+    const summaryMeta = combineGenerationMeta(request.summaries);
+
+    if (plan.chunk) {
+        onProgress?.(
+            `Prompt too large for the context window - splitting ${ctx.stage} by field...`,
+        );
+        const result = await runStageByField(plan.context, deps, options);
+        return {
+            ...result,
+            context: toContextReport(plan, [
+                `Split into ${result.fieldResults?.length ?? 0} field-by-field requests`,
+            ]),
+        };
+    }
+
+    if (report) {
+        onProgress?.(`Fitted ${ctx.stage} prompt: ${report.cuts.join('; ')}`);
+    }
+
+    // Strategy 'off' sends anyway and lets the API decide
+    if (!plan.fits && plan.strategy !== 'off') {
+        const largest = [...plan.sizes]
+            .sort((a, b) => b.tokens - a.tokens)
+            .slice(0, 2)
+            .map((s) => `${s.heading.replace(/^#+\s*/, '')} ~${s.tokens}`)
+            .join(', ');
+        return {
+            stage: ctx.stage,
+            timestamp,
+            input: userPrompt,
+            output: '',
+            guidance: ctx.guidance,
+            error:
+                `Prompt is ~${plan.tokens} tokens but only ~${Math.max(plan.budget, 0)} fit in the context window (largest: ${largest}). ` +
+                'Deselect some fields, lower the response length or use a model with a larger context.',
+            context: toContextReport(plan),
+            ...(summaryMeta ? { meta: summaryMeta } : {}),
+        };
+    }
 
     onProgress?.(`Running ${ctx.stage}...`);
 
@@ -63,40 +217,472 @@ export async function runStage(
             output: '',
             guidance: ctx.guidance,
             error: 'Aborted',
+            ...(summaryMeta ? { meta: summaryMeta } : {}),
         };
     }
 
-    // Get max tokens override from settings (if enabled)
-    const settings = getSettings();
-    const responseLength = settings.maxTokensOverride ?? undefined;
-
     // Use centralized generation with API checks and error handling
+    const started = Date.now();
     const result = await generate({
         prompt: userPrompt,
         systemPrompt,
-        jsonSchema: (schema as StructuredOutputSchema | null) ?? undefined,
+        jsonSchema: schema ?? undefined,
         signal,
-        responseLength,
+        responseLength: connection.maxTokens ?? undefined,
+        profileId: connection.profileId,
+        temperature: connection.temperature,
+        prefill: connection.prefill,
+        timeoutMs: connection.timeout ? connection.timeout * 1000 : null,
+        onStream,
+        onRetry: ({ attempt, maxRetries, delayMs, error }) => {
+            onProgress?.(
+                `${error} Retrying ${ctx.stage} in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxRetries})...`,
+            );
+        },
+        onRepair: ({ attempt, maxRepairs, errors }) => {
+            onProgress?.(
+                `Fixing ${ctx.stage} output (${errors.length} schema issue${errors.length === 1 ? '' : 's'}, attempt ${attempt} of ${maxRepairs})...`,
+            );
+        },
     });
+    const meta = combineGenerationMeta([
+        await describeGeneration(
+            ctx,
+            deps,
+            request,
+            result,
+            Date.now() - started,
+        ),
+        ...request.summaries,
+    ]);
+    const sent = {
+        systemPrompt,
+        ...(result.finishReason ? { finishReason: result.finishReason } : {}),
+        ...(meta ? { meta } : {}),
+    };
 
     if (!result.success) {
         log.error(`Stage ${ctx.stage} failed`, result.error);
 
+        // Partial output survives (e.g. aborted mid-stream)
         return {
             stage: ctx.stage,
             timestamp,
             input: userPrompt,
-            output: '',
+            output: result.response ?? '',
             guidance: ctx.guidance,
             error: result.error ?? 'Generation failed',
+            ...(report ? { context: report } : {}),
+            ...sent,
         };
     }
 
+    const output = result.response ?? '';
+    const verdict = ctx.stage === 'analyze' ? parseVerdict(output) : null;
+
     return {
         stage: ctx.stage,
         timestamp,
         input: userPrompt,
-        output: result.response ?? '',
+        output,
         guidance: ctx.guidance,
+        ...(verdict ? { verdict } : {}),
+        ...(ctx.iterationCount > 0 ? { iteration: ctx.iterationCount } : {}),
+        ...(ctx.isRefinement ? { isRefinement: true } : {}),
+        ...(result.repairs ? { repairs: result.repairs } : {}),
+        ...(result.validationErrors?.length
+            ? { validationErrors: result.validationErrors }
+            : {}),
+        ...(report ? { context: report } : {}),
+        ...sent,
+    };
+}
+
+/**
+ * Build a stage request without sending it: system prompt, schema,
+ * connection and the user prompt fitted to the context window.
+ */
+export async function prepareStageRequest(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    options: PrepareOptions = {},
+): Promise<StageRequest> {
+    const systemPrompt = getStageSystemPrompt(
+        ctx.stage,
+        ctx.isRefinement ?? false,
+        deps,
+    );
+    const schema = getSchema(
+        ctx.config,
+        deps,
+        ctx.selection,
+    ) as StructuredOutputSchema | null;
+
+    // Resolve per-stage connection (falls back to global settings)
+    const connection = resolveStageConnection(ctx.config);
+
+    // Fit the prompt to the context window before sending
+    const { plan, summaries } = await planPrompt(
+        ctx,
+        deps,
+        systemPrompt,
+        connection,
+        options,
+    );
+    const userPrompt = joinPromptSections(
+        plan.sections,
+        getPromptLayout(ctx.config).separator,
+    );
+    const api = getApiStatus(connection.profileId);
+    const prefill = resolvePrefill(connection.prefill, api, !!schema);
+
+    return {
+        systemPrompt,
+        schema,
+        connection,
+        api,
+        prefill,
+        plan,
+        userPrompt,
+        summaries,
+    };
+}
+
+/**
+ * Record what produced a result: target, presets and estimated usage,
+ * repair requests included.
+ */
+async function describeGeneration(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    request: StageRequest,
+    result: GenerationResult,
+    durationMs: number,
+): Promise<GenerationMeta> {
+    const { config } = ctx;
+    const promptPresetId = config.customPrompt.trim()
+        ? null
+        : config.promptPresetId;
+    const schemaPresetId =
+        config.useStructuredOutput && !config.customSchema.trim()
+            ? config.schemaPresetId
+            : null;
+
+    return {
+        model: request.api.model || null,
+        source: request.api.source || null,
+        profileId: request.connection.profileId,
+        promptPresetId,
+        promptPresetVersion: promptPresetId
+            ? (deps.getPromptPreset(promptPresetId)?.version ?? null)
+            : null,
+        schemaPresetId,
+        schemaPresetVersion: schemaPresetId
+            ? (deps.getSchemaPreset(schemaPresetId)?.version ?? null)
+            : null,
+        structured: request.schema
+            ? !!result.isStructured && !result.validationErrors?.length
+            : null,
+        promptTokens:
+            (await countTokens(request.systemPrompt)) +
+            (await countTokens(request.userPrompt)) +
+            (request.prefill ? await countTokens(request.prefill) : 0) +
+            (result.repairUsage?.promptTokens ?? 0),
+        completionTokens:
+            (result.response ? await countTokens(result.response) : 0) +
+            (result.repairUsage?.completionTokens ?? 0),
+        durationMs,
+        retries: result.retries ?? 0,
+    };
+}
+
+/**
+ * Metadata for a multi-request run: the requests' usage added up.
+ */
+export function combineGenerationMeta(
+    metas: GenerationMeta[],
+): GenerationMeta | null {
+    if (metas.length === 0) return null;
+
+    const sum = (
+        key: 'promptTokens' | 'completionTokens' | 'durationMs' | 'retries',
+    ) => metas.reduce((total, meta) => total + (meta[key] ?? 0), 0);
+
+    return {
+        ...metas[0],
+        structured: metas.some((m) => m.structured === null)
+            ? null
+            : metas.every((m) => m.structured),
+        promptTokens: sum('promptTokens'),
+        completionTokens: sum('completionTokens'),
+        durationMs: sum('durationMs'),
+        retries: sum('retries'),
+    };
+}
+
+// =============================================================================
+// CONTEXT BUDGET
+// =============================================================================
+
+/**
+ * Measure the prompt against the stage's context window and cut it down
+ * per the contextStrategy setting.
+ *
+ * The budget is the context size minus the response length and the system
+ * prompt. When the context size is unknown the prompt is sent as built.
+ * Returns the plan with the usage of any summarizer requests it made.
+ */
+async function planPrompt(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    systemPrompt: string,
+    connection: StageConnection,
+    { signal, dryRun }: PrepareOptions,
+): Promise<{ plan: PromptPlan; summaries: GenerationMeta[] }> {
+    const status = getApiStatus(connection.profileId);
+    const responseTokens = connection.maxTokens ?? status.maxOutput ?? 0;
+    const known = Number.isFinite(status.contextSize) && status.contextSize > 0;
+    const budget = known
+        ? status.contextSize -
+          responseTokens -
+          (await countTokens(systemPrompt)) -
+          CONTEXT_MARGIN
+        : Infinity;
+
+    const summaries: GenerationMeta[] = [];
+    const plan = await planPromptBudget(ctx, deps, {
+        budget,
+        strategy: known ? (getSettings().contextStrategy ?? 'trim') : 'off',
+        measure: countTokens,
+        summarize: dryRun
+            ? undefined
+            : async (text, maxTokens) => {
+                  const { summary, meta } = await summarizeContext(
+                      text,
+                      maxTokens,
+                      connection,
+                      signal,
+                  );
+                  summaries.push(meta);
+                  return summary;
+              },
+    });
+    return { plan, summaries };
+}
+
+/**
+ * Condense prior-stage output with a separate request (summarize strategy).
+ * The summary is null on failure; the request's usage is returned either way.
+ */
+async function summarizeContext(
+    text: string,
+    maxTokens: number,
+    connection: StageConnection,
+    signal?: AbortSignal,
+): Promise<{ summary: string | null; meta: GenerationMeta }> {
+    const api = getApiStatus(connection.profileId);
+    const prompt =
+        `Condense the following into at most ${maxTokens} tokens. ` +
+        'Keep every score, verdict, issue and concrete suggestion; drop repetition and filler. ' +
+        `Reply with the condensed text only.\n\n---\n\n${text}`;
+
+    const started = Date.now();
+    const result = await generate({
+        prompt,
+        systemPrompt: SUMMARIZER_SYSTEM_PROMPT,
+        signal,
+        responseLength: maxTokens,
+        profileId: connection.profileId,
+        timeoutMs: connection.timeout ? connection.timeout * 1000 : null,
+        maxRepairs: 0,
+    });
+
+    const output = result.response ?? '';
+    const meta: GenerationMeta = {
+        model: api.model || null,
+        source: api.source || null,
+        profileId: connection.profileId,
+        promptPresetId: null,
+        promptPresetVersion: null,
+        schemaPresetId: null,
+        schemaPresetVersion: null,
+        structured: null,
+        promptTokens:
+            (await countTokens(SUMMARIZER_SYSTEM_PROMPT)) +
+            (await countTokens(prompt)),
+        completionTokens: output ? await countTokens(output) : 0,
+        durationMs: Date.now() - started,
+        retries: result.retries ?? 0,
+    };
+
+    const summary = output.trim();
+    return { summary: result.success && summary ? summary : null, meta };
+}
+
+function toContextReport(
+    plan: PromptPlan,
+    extraCuts: string[] = [],
+): ContextReport {
+    return {
+        strategy: plan.strategy,
+        budget: plan.budget,
+        tokens: plan.tokens,
+        cuts: [...plan.cuts, ...extraCuts],
+    };
+}
+
+// =============================================================================
+// FIELD-BY-FIELD EXECUTION
+// =============================================================================
+
+/**
+ * Run a stage as one request per selected field (lorebooks in entry
+ * batches), sharing the score and analysis context across requests.
+ *
+ * Fields that fail don't stop the run. The combined result carries the
+ * per-field sub-results and an error naming the failed fields, so they can
+ * be retried with retryFailedFields.
+ */
+export async function runStageByField(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    options: RunOptions = {},
+): Promise<StageResult> {
+    const units = planFieldUnits(ctx.character, ctx.selection);
+    if (units.length === 0) {
+        return {
+            stage: ctx.stage,
+            timestamp: Date.now(),
+            input: '',
+            output: '',
+            guidance: ctx.guidance,
+            error: 'No fields selected',
+        };
+    }
+    return runFieldUnits(ctx, deps, options, units, []);
+}
+
+/**
+ * Re-run only the fields that failed in a field-by-field result.
+ * Successful fields are kept as they were.
+ */
+export async function retryFailedFields(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    previous: StageResult,
+    options: RunOptions = {},
+): Promise<StageResult> {
+    const previousFields = previous.fieldResults ?? [];
+    const units: FieldUnit[] = previousFields.map(
+        ({ key, label, selection }) => ({ key, label, selection }),
+    );
+    const result = await runFieldUnits(
+        {
+            ...ctx,
+            guidance: previous.guidance ?? ctx.guidance,
+            isRefinement: previous.isRefinement ?? false,
+        },
+        deps,
+        options,
+        units,
+        previousFields.filter((r) => !r.error),
+    );
+    return {
+        ...result,
+        snapshot: previous.snapshot ?? createRunSnapshot(ctx),
+    };
+}
+
+async function runFieldUnits(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+    options: RunOptions,
+    units: FieldUnit[],
+    completed: FieldResult[],
+): Promise<StageResult> {
+    const { signal, onProgress, onStream } = options;
+    const timestamp = Date.now();
+    const systemPrompt = getStageSystemPrompt(
+        ctx.stage,
+        ctx.isRefinement ?? false,
+        deps,
+    );
+    const pending = units.filter(
+        (unit) => !completed.some((r) => r.key === unit.key),
+    );
+    const fieldResults: FieldResult[] = [];
+    const metas: GenerationMeta[] = [];
+
+    for (const unit of units) {
+        const done = completed.find((r) => r.key === unit.key);
+        if (done) {
+            fieldResults.push(done);
+            continue;
+        }
+
+        if (signal?.aborted) {
+            fieldResults.push({
+                ...unit,
+                input: '',
+                output: '',
+                error: 'Aborted',
+            });
+            continue;
+        }
+
+        const position = pending.indexOf(unit) + 1;
+        onProgress?.(
+            `Rewriting ${unit.label} (${position} of ${pending.length})...`,
+        );
+
+        const result = await runStage(
+            { ...ctx, selection: unit.selection, fieldScope: unit.label },
+            deps,
+            {
+                signal,
+                onProgress,
+                onStream: onStream
+                    ? (text) =>
+                          onStream(
+                              combineFieldOutputs([
+                                  ...fieldResults,
+                                  { ...unit, input: '', output: text },
+                              ]),
+                          )
+                    : undefined,
+            },
+        );
+
+        fieldResults.push({
+            ...unit,
+            input: result.input,
+            output: result.output,
+            ...(result.error ? { error: result.error } : {}),
+        });
+        if (result.meta) metas.push(result.meta);
+    }
+
+    const failed = fieldResults.filter((r) => r.error);
+    const meta = combineGenerationMeta(metas);
+
+    return {
+        stage: ctx.stage,
+        timestamp,
+        input: fieldResults
+            .map((r) => r.input)
+            .filter(Boolean)
+            .join('\n\n---\n\n'),
+        output: combineFieldOutputs(fieldResults),
+        guidance: ctx.guidance,
+        fieldResults,
+        systemPrompt,
+        ...(meta ? { meta } : {}),
+        ...(failed.length
+            ? {
+                  error: `${failed.length} of ${fieldResults.length} fields failed: ${failed.map((r) => r.label).join(', ')}`,
+              }
+            : {}),
+        ...(ctx.iterationCount > 0 ? { iteration: ctx.iterationCount } : {}),
+        ...(ctx.isRefinement ? { isRefinement: true } : {}),
     };
 }
@@ -0,0 +1,91 @@
+// src/domain/pipeline/field-rewrite.ts
+// =============================================================================
+// FIELD-BY-FIELD PLANNING
+//
+// Splits a field selection into one request per field (lorebooks in entry
+// batches) and stitches the per-field outputs back into a single result.
+// =============================================================================
+
+import { getPopulatedFields } from '../character';
+import { readRewriteFields } from './rewrite-output';
+import type { Character, FieldResult, FieldSelection } from '../../types';
+
+/** Lorebook entries rewritten per request */
+export const LOREBOOK_BATCH_SIZE = 5;
+
+/**
+ * One request of a field-by-field run.
+ */
+export interface FieldUnit {
+    key: string;
+    label: string;
+    selection: FieldSelection;
+}
+
+/**
+ * Split a selection into per-field units, in card field order.
+ *
+ * @example
+ * ```ts
+ * planFieldUnits(char, { description: true, character_book: [0, 1, 2, 3, 4, 5] });
+ * // → Description, Character Lorebook (entries 1-5), Character Lorebook (entry 6)
+ * ```
+ */
+export function planFieldUnits(
+    character: Character,
+    selection: FieldSelection,
+): FieldUnit[] {
+    const units: FieldUnit[] = [];
+
+    for (const field of getPopulatedFields(character)) {
+        const sel = selection[field.key];
+        if (!sel || (Array.isArray(sel) && sel.length === 0)) continue;
+
+        if (field.key === 'character_book') {
+            const entries =
+                (field.rawValue as { entries?: unknown[] }).entries ?? [];
+            const indices = Array.isArray(sel)
+                ? [...sel].sort((a, b) => a - b)
+                : entries.map((_, i) => i);
+
+            for (let i = 0; i < indices.length; i += LOREBOOK_BATCH_SIZE) {
+                const batch = indices.slice(i, i + LOREBOOK_BATCH_SIZE);
+                units.push({
+                    key: `character_book:${batch.join(',')}`,
+                    label: `${field.label} (${describeEntries(batch)})`,
+                    selection: { character_book: batch },
+                });
+            }
+            continue;
+        }
+
+        units.push({
+            key: field.key,
+            label: field.label,
+            selection: { [field.key]: sel },
+        });
+    }
+
+    return units;
+}
+
+function describeEntries(batch: number[]): string {
+    const first = batch[0] + 1;
+    const last = batch[batch.length - 1] + 1;
+    return batch.length === 1 ? `entry ${first}` : `entries ${first}-${last}`;
+}
+
+/**
+ * Join successful field outputs under per-field headings.
+ * Failed fields are left out; their errors live on the field results.
+ */
+export function combineFieldOutputs(results: FieldResult[]): string {
+    return results
+        .filter((r) => !r.error && r.output.trim())
+        .map((r) => {
+            // Field-keyed structured output contributes just its value
+            const text = readRewriteFields(r.output)?.[r.key] ?? r.output;
+            return `### ${r.label}\n\n${text.trim()}`;
+        })
+        .join('\n\n');
+}
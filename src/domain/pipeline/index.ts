@@ -10,16 +10,119 @@
 // Prompt building
 export {
     buildUserPrompt,
+    buildPromptSections,
+    joinPromptSections,
+    renderPromptSection,
     getSchema,
     getStageSystemPrompt,
     type PromptContext,
     type PromptDependencies,
+    type SectionDependencies,
+    type PromptSection,
+    type PromptSectionId,
 } from './prompt';
 
+// Prompt layout
+export {
+    STAGE_PROMPT_SECTIONS,
+    createDefaultLayout,
+    resolvePromptLayout,
+    getPromptLayout,
+    getDefaultSectionTitle,
+    getSectionTitle,
+    moveLayoutSection,
+} from './layout';
+
+// Prompt template variables
+export {
+    PROMPT_VARIABLES,
+    buildPromptVariables,
+    renderPromptTemplate,
+    findUnknownVariables,
+    type PromptVariable,
+} from './variables';
+
+// Context budget planning
+export {
+    planPromptBudget,
+    dropInactiveLorebookEntries,
+    type BudgetOptions,
+    type PromptPlan,
+    type SectionSize,
+} from './budget';
+
 // Execution
 export {
     runStage,
+    runStageByField,
+    retryFailedFields,
+    prepareStageRequest,
+    combineGenerationMeta,
     type StageContext,
     type RunOptions,
     type ExecutionDependencies,
+    type StageRequest,
+    type PrepareOptions,
 } from './execution';
+
+// Prompt inspection
+export { inspectStage, type StageInspection } from './inspect';
+
+// Verdict parsing
+export { parseVerdict } from './verdict';
+
+// Field-by-field planning
+export {
+    planFieldUnits,
+    combineFieldOutputs,
+    LOREBOOK_BATCH_SIZE,
+    type FieldUnit,
+} from './field-rewrite';
+
+// Rewrite output parsing
+export {
+    parseRewriteSections,
+    parseRewriteOutput,
+    mapSectionToFieldKey,
+    buildRewriteSchema,
+    readRewriteFields,
+    formatRewriteFields,
+    REWRITE_SCHEMA_FIELDS,
+    type RewriteSection,
+} from './rewrite-output';
+
+// Rewrite candidates
+export {
+    planCandidates,
+    isCandidateRun,
+    runCandidates,
+    selectCandidates,
+    composeCandidateOutput,
+    parseCandidateRanking,
+    MAX_CANDIDATES,
+    type CandidatePlan,
+} from './candidates';
+
+// Ensemble scoring
+export {
+    planEnsemble,
+    isEnsembleRun,
+    runEnsemble,
+    readCharacterScore,
+    aggregateScores,
+    computeStats,
+    MAX_ENSEMBLE_PROFILES,
+    DISPUTED_SPREAD,
+    type CharacterScore,
+    type EnsemblePlan,
+} from './ensemble';
+
+// Rubric scoring
+export {
+    getStageRubric,
+    buildRubricSchema,
+    buildRubricInstructions,
+    scoreRubric,
+    applyRubric,
+    RUBRIC_OVERALL_MAX,
+} from './rubric';
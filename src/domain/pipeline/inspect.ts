@@ -0,0 +1,168 @@
+// src/domain/pipeline/inspect.ts
+// =============================================================================
+// PROMPT INSPECTION
+//
+// Builds a stage request exactly as runStage would and reports it without
+// sending anything: both prompts, prefill, schema, target and token counts.
+// =============================================================================
+
+import type { ApiStatus, StructuredOutputSchema } from '../../shared';
+import type { StageConnection, StageName } from '../../types';
+import type { SectionSize } from './budget';
+import {
+    prepareStageRequest,
+    type StageContext,
+    type ExecutionDependencies,
+} from './execution';
+import { countTokens } from '../generation';
+import { planFieldUnits } from './field-rewrite';
+import { isCandidateRun, planCandidates } from './candidates';
+import { isEnsembleRun, planEnsemble } from './ensemble';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A stage request as it would be sent, with token counts.
+ */
+export interface StageInspection {
+    stage: StageName;
+    systemPrompt: string;
+    userPrompt: string;
+    /** Assistant prefill the request would send ('' = none) */
+    prefill: string;
+    schema: StructuredOutputSchema | null;
+    connection: StageConnection;
+    api: ApiStatus;
+    tokens: {
+        system: number;
+        /** User prompt sections, in prompt order */
+        sections: SectionSize[];
+        schema: number;
+        prefill: number;
+        total: number;
+    };
+    /** Tokens available for the user prompt (Infinity = context size unknown) */
+    budget: number;
+    /** Tokens reserved for the response */
+    responseTokens: number;
+    fits: boolean;
+    /** What was cut to fit the context window */
+    cuts: string[];
+    /** Anything that makes the real run differ from this preview */
+    notes: string[];
+}
+
+// =============================================================================
+// INSPECTION
+// =============================================================================
+
+/**
+ * Build a stage request without sending it.
+ *
+ * Candidate and field-by-field rewrites and ensemble scores show the
+ * first request. The summarize strategy would send extra requests, so the
+ * preview trims instead.
+ */
+export async function inspectStage(
+    ctx: StageContext,
+    deps: ExecutionDependencies,
+): Promise<StageInspection> {
+    const notes: string[] = [];
+    let context = ctx;
+
+    if (isCandidateRun(ctx)) {
+        const [first, ...rest] = planCandidates(ctx.config);
+        if (first.profileId) {
+            context = {
+                ...ctx,
+                config: { ...ctx.config, profileId: first.profileId },
+            };
+        }
+        context = { ...context, candidateScope: first.label };
+        notes.push(
+            `Candidates: ${rest.length + 1} requests${ctx.config.judgeCandidates ? ' and a judge request' : ''}, showing the first (${first.label})`,
+        );
+    }
+
+    if (isEnsembleRun(ctx)) {
+        const [first, ...rest] = planEnsemble(ctx.config);
+        context = {
+            ...ctx,
+            config: { ...ctx.config, profileId: first.profileId },
+            ensembleScope: first.label,
+        };
+        notes.push(
+            `Ensemble: ${rest.length + 1} requests in parallel, showing the first (${first.label})`,
+        );
+    }
+
+    if (ctx.stage === 'rewrite' && ctx.config.fieldByField && !ctx.fieldScope) {
+        const units = planFieldUnits(context.character, context.selection);
+        if (units.length > 0) {
+            context = {
+                ...context,
+                selection: units[0].selection,
+                fieldScope: units[0].label,
+            };
+            notes.push(
+                `Field by field: ${units.length} request${units.length === 1 ? '' : 's'}, showing the first (${units[0].label})`,
+            );
+        }
+    }
+
+    const { systemPrompt, schema, connection, api, prefill, plan, userPrompt } =
+        await prepareStageRequest(context, deps, { dryRun: true });
+
+    if (connection.prefill && !prefill) {
+        notes.push(
+            'Prefill skipped: Anthropic does not accept one with structured output',
+        );
+    }
+
+    if (plan.chunk) {
+        notes.push(
+            'Too large for the context window: the rewrite will run field by field',
+        );
+    }
+    if (plan.strategy === 'summarize' && plan.cuts.length > 0) {
+        notes.push(
+            'Summarize strategy: prior-stage output is trimmed here; the run condenses it with extra requests',
+        );
+    }
+    if (!Number.isFinite(plan.budget)) {
+        notes.push('Context size unknown: the prompt is sent as built');
+    } else if (!plan.fits && !plan.chunk) {
+        notes.push(
+            plan.strategy === 'off'
+                ? 'Does not fit the context window: the API may reject it'
+                : 'Does not fit the context window: the run will stop with an error',
+        );
+    }
+
+    const tokens = {
+        system: await countTokens(systemPrompt),
+        sections: plan.sizes,
+        schema: schema ? await countTokens(JSON.stringify(schema)) : 0,
+        prefill: prefill ? await countTokens(prefill) : 0,
+        total: 0,
+    };
+    tokens.total = tokens.system + plan.tokens + tokens.schema + tokens.prefill;
+
+    return {
+        stage: ctx.stage,
+        systemPrompt,
+        userPrompt,
+        prefill,
+        schema,
+        connection,
+        api,
+        tokens,
+        budget: plan.budget,
+        responseTokens: connection.maxTokens ?? api.maxOutput ?? 0,
+        fits: plan.fits,
+        cuts: plan.cuts,
+        notes,
+    };
+}
@@ -0,0 +1,146 @@
+// src/domain/pipeline/layout.ts
+// =============================================================================
+// PROMPT LAYOUT
+//
+// Order, headings, context toggles and separator for a stage's user prompt.
+// A stage without a layout of its own uses the default below, which matches
+// the prompt structure from before layouts were configurable.
+// =============================================================================
+
+import { PROMPT_SECTIONS, PROMPT_SECTION_LABELS } from '../../shared';
+import type {
+    PromptLayout,
+    PromptSectionId,
+    StageConfig,
+    StageName,
+} from '../../types';
+
+/** Sections each stage can produce, in default order */
+export const STAGE_PROMPT_SECTIONS: Record<StageName, PromptSectionId[]> = {
+    score: ['task', 'instructions', 'character', 'guidance'],
+    rewrite: [
+        'task',
+        'instructions',
+        'scope',
+        'character',
+        'score',
+        'analysis',
+        'guidance',
+    ],
+    analyze: [
+        'task',
+        'instructions',
+        'character',
+        'rewrite',
+        'score',
+        'guidance',
+    ],
+};
+
+const TASK_TITLES: Record<StageName, string> = {
+    score: 'TASK: Score & Evaluate',
+    rewrite: 'TASK: Rewrite & Improve',
+    analyze: 'TASK: Analyze Changes',
+};
+
+/** Analyze compares against the original, with the score only as context */
+const ANALYZE_TITLES: Partial<Record<PromptSectionId, string>> = {
+    character: 'Original Character',
+    score: 'Score Results (Context)',
+};
+
+/**
+ * The layout used when a stage has none configured.
+ */
+export function createDefaultLayout(): PromptLayout {
+    return {
+        order: [...PROMPT_SECTIONS],
+        includeScore: true,
+        includeAnalysis: true,
+        headings: {},
+        separator: '---',
+    };
+}
+
+/**
+ * The stage's layout, with anything missing or invalid taken from the
+ * default. Sections missing from `order` go back in their default place.
+ */
+export function resolvePromptLayout(
+    layout: Partial<PromptLayout> | null | undefined,
+): PromptLayout {
+    const defaults = createDefaultLayout();
+    if (!layout) return defaults;
+
+    const order = (layout.order ?? []).filter(
+        (id, i, all) => PROMPT_SECTIONS.includes(id) && all.indexOf(id) === i,
+    );
+    PROMPT_SECTIONS.forEach((id, i) => {
+        if (order.includes(id)) return;
+        // Insert after the nearest section that precedes it by default
+        const previous = PROMPT_SECTIONS.slice(0, i)
+            .reverse()
+            .find((p) => order.includes(p));
+        order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, id);
+    });
+
+    return {
+        order,
+        includeScore: layout.includeScore ?? defaults.includeScore,
+        includeAnalysis: layout.includeAnalysis ?? defaults.includeAnalysis,
+        headings: { ...layout.headings },
+        separator: layout.separator ?? defaults.separator,
+    };
+}
+
+/**
+ * Resolved layout for a stage config.
+ */
+export function getPromptLayout(config: StageConfig): PromptLayout {
+    return resolvePromptLayout(config.layout);
+}
+
+/**
+ * Heading text a section gets when the layout doesn't rename it: the
+ * section's label, except where a stage words it differently.
+ */
+export function getDefaultSectionTitle(
+    stage: StageName,
+    id: PromptSectionId,
+): string {
+    if (id === 'task') return TASK_TITLES[stage];
+    const title = stage === 'analyze' ? ANALYZE_TITLES[id] : undefined;
+    return title ?? PROMPT_SECTION_LABELS[id];
+}
+
+/**
+ * Heading text for a section under a layout.
+ */
+export function getSectionTitle(
+    stage: StageName,
+    id: PromptSectionId,
+    layout: PromptLayout,
+): string {
+    return layout.headings[id]?.trim() || getDefaultSectionTitle(stage, id);
+}
+
+/**
+ * Move a section one place up or down among the sections a stage uses.
+ */
+export function moveLayoutSection(
+    layout: PromptLayout,
+    stage: StageName,
+    id: PromptSectionId,
+    direction: -1 | 1,
+): PromptLayout {
+    const visible = layout.order.filter((s) =>
+        STAGE_PROMPT_SECTIONS[stage].includes(s),
+    );
+    const swapWith = visible[visible.indexOf(id) + direction];
+    if (!visible.includes(id) || !swapWith) return layout;
+
+    const order = layout.order.map((s) =>
+        s === id ? swapWith : s === swapWith ? id : s,
+    );
+    return { ...layout, order };
+}
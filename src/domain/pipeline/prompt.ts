@@ -4,9 +4,17 @@
 // =============================================================================
 
 import { buildCharacterSummary } from '../character';
+import { FIELD_REWRITE_SCHEMA_ID } from '../../shared';
+import { hasTemplateMarkers } from '../../shared/templates';
+import { renderPromptTemplate } from './variables';
+import { getPromptLayout, getSectionTitle } from './layout';
+import { buildRubricInstructions, getStageRubric } from './rubric';
+import { buildRewriteSchema } from './rewrite-output';
 import type {
     Character,
     FieldSelection,
+    PromptSectionId,
+    Rubric,
     StageName,
     StageConfig,
     StageResult,
@@ -24,42 +32,65 @@ export interface PromptContext {
     iterationCount: number;
     guidance?: string;
     isRefinement?: boolean;
+    /** Label of the single field this request covers (field-by-field mode) */
+    fieldScope?: string;
+    /** Label of the rewrite candidate this request generates (candidate runs) */
+    candidateScope?: string;
+    /** Label of the ensemble member this request scores for (ensemble runs) */
+    ensembleScope?: string;
 }
 
 export interface PromptDependencies {
-    getPromptPreset: (id: string) => { prompt: string } | null;
-    getSchemaPreset: (id: string) => { schema: StructuredOutputSchema } | null;
+    getPromptPreset: (
+        id: string,
+    ) => { prompt: string; version?: number } | null;
+    getSchemaPreset: (id: string) => {
+        schema: StructuredOutputSchema;
+        version?: number;
+        rubricId?: string;
+    } | null;
+    getRubric: (id: string) => Rubric | null;
     getSystemPrompt: (stage: StageName) => string;
     getRefinementPrompt: () => string;
 }
 
+/** What building prompt sections needs: presets and the score rubric */
+export type SectionDependencies = Pick<
+    PromptDependencies,
+    'getPromptPreset' | 'getSchemaPreset' | 'getRubric'
+>;
+
 /**
- * Get instruction text from config.
+ * Get instruction text from config, with template variables filled in
+ * (see variables.ts).
  */
 function getInstructions(
-    config: StageConfig,
+    ctx: PromptContext,
     deps: Pick<PromptDependencies, 'getPromptPreset'>,
 ): string {
-    // Custom prompt takes priority
-    if (config.customPrompt.trim()) {
-        return config.customPrompt.trim();
-    }
+    const { config } = ctx;
+    let template = '';
 
-    // Fall back to preset
-    if (config.promptPresetId) {
-        const preset = deps.getPromptPreset(config.promptPresetId);
-        if (preset) return preset.prompt;
+    // Custom prompt takes priority, then the preset
+    if (config.customPrompt.trim()) {
+        template = config.customPrompt.trim();
+    } else if (config.promptPresetId) {
+        template = deps.getPromptPreset(config.promptPresetId)?.prompt ?? '';
     }
 
-    return '';
+    return hasTemplateMarkers(template)
+        ? renderPromptTemplate(template, ctx).trim()
+        : template;
 }
 
 /**
- * Get schema from config.
+ * Get schema from config. The field-keyed rewrite schema is generated
+ * from the selection when one is given.
  */
 export function getSchema(
     config: StageConfig,
     deps: Pick<PromptDependencies, 'getSchemaPreset'>,
+    selection: FieldSelection | null = null,
 ): StructuredOutputSchema | null {
     if (!config.useStructuredOutput) return null;
 
@@ -75,6 +106,9 @@ export function getSchema(
     // Fall back to preset
     if (config.schemaPresetId) {
         const preset = deps.getSchemaPreset(config.schemaPresetId);
+        if (preset && config.schemaPresetId === FIELD_REWRITE_SCHEMA_ID) {
+            return selection ? buildRewriteSchema(selection) : preset.schema;
+        }
         if (preset) return preset.schema;
     }
 
@@ -95,98 +129,146 @@ export function getStageSystemPrompt(
     return deps.getSystemPrompt(stage);
 }
 
+export type { PromptSectionId };
+
+/**
+ * One section of a user prompt.
+ */
+export interface PromptSection {
+    id: PromptSectionId;
+    /** Markdown heading, e.g. `## Score Results` */
+    heading: string;
+    /** Section text (omitted for heading-only sections) */
+    body?: string;
+}
+
+/**
+ * Render a section as it appears in the prompt.
+ */
+export function renderPromptSection(section: PromptSection): string {
+    return section.body === undefined
+        ? section.heading
+        : `${section.heading}\n\n${section.body}`;
+}
+
+/**
+ * Join sections into the final user prompt, with the layout's separator
+ * line between them.
+ */
+export function joinPromptSections(
+    sections: PromptSection[],
+    separator = '---',
+): string {
+    const glue = separator.trim() ? `\n\n${separator.trim()}\n\n` : '\n\n';
+    return sections.map(renderPromptSection).join(glue);
+}
+
 /**
  * Build the user prompt for a stage.
  *
- * Prompt structure:
+ * Default prompt structure (the stage's layout can reorder, rename and
+ * drop context sections - see layout.ts):
  * 1. TASK - Stage name and iteration context
- * 2. INSTRUCTIONS - What to do (from preset or custom)
+ * 2. INSTRUCTIONS - What to do (from preset or custom), plus field scope
  * 3. CHARACTER DATA - Source material to work with
  * 4. CONTEXT - Previous stage results (scores, rewrites, analysis)
  * 5. USER GUIDANCE - Additional direction from user (if any)
  */
 export function buildUserPrompt(
     ctx: PromptContext,
-    deps: Pick<PromptDependencies, 'getPromptPreset'>,
+    deps: SectionDependencies,
 ): string {
-    const sections: string[] = [];
+    return joinPromptSections(
+        buildPromptSections(ctx, deps),
+        getPromptLayout(ctx.config).separator,
+    );
+}
+
+/**
+ * Build the user prompt as separate sections (see buildUserPrompt), in the
+ * order given by the stage's layout.
+ */
+export function buildPromptSections(
+    ctx: PromptContext,
+    deps: SectionDependencies,
+): PromptSection[] {
+    const layout = getPromptLayout(ctx.config);
+    const sections: PromptSection[] = [];
+    const title = (id: PromptSectionId) =>
+        getSectionTitle(ctx.stage, id, layout);
+    const add = (id: PromptSectionId, body: string) => {
+        sections.push({ id, heading: `## ${title(id)}`, body });
+    };
 
     // ==========================================================================
     // 1. TASK HEADER - What we're doing
     // ==========================================================================
-    const stageLabels: Record<StageName, string> = {
-        score: 'Score & Evaluate',
-        rewrite: 'Rewrite & Improve',
-        analyze: 'Analyze Changes',
-    };
-    let taskHeader = `# TASK: ${stageLabels[ctx.stage]}`;
+    let taskHeader = `# ${title('task')}`;
     if (ctx.iterationCount > 0) {
         taskHeader += ` (Refinement #${ctx.iterationCount + 1})`;
     }
-    sections.push(taskHeader);
+    sections.push({ id: 'task', heading: taskHeader });
 
     // ==========================================================================
     // 2. INSTRUCTIONS - What to do
     // ==========================================================================
-    const instructions = getInstructions(ctx.config, deps);
+    const rubric =
+        ctx.stage === 'score' ? getStageRubric(ctx.config, deps) : null;
+    const instructions = [
+        getInstructions(ctx, deps),
+        rubric ? buildRubricInstructions(rubric) : '',
+    ]
+        .filter(Boolean)
+        .join('\n\n');
     if (instructions) {
-        sections.push(`## Instructions\n\n${instructions}`);
+        add('instructions', instructions);
+    }
+
+    if (ctx.fieldScope) {
+        add(
+            'scope',
+            `This request covers only **${ctx.fieldScope}**. ` +
+                'Output just that part - the other fields are rewritten in separate requests.',
+        );
     }
 
     // ==========================================================================
     // 3. CHARACTER DATA - Source material
     // ==========================================================================
-    if (ctx.stage === 'analyze') {
-        // For analyze: show original and rewritten side by side
-        sections.push(
-            '## Original Character\n\n' +
-                buildCharacterSummary(ctx.character, ctx.selection),
-        );
+    // For analyze this is the original, shown next to the rewrite
+    add('character', buildCharacterSummary(ctx.character, ctx.selection));
 
-        if (ctx.previousResults.rewrite) {
-            sections.push(
-                '## Rewritten Version\n\n' + ctx.previousResults.rewrite.output,
-            );
-        }
-    } else {
-        // For score/rewrite: just the character data
-        sections.push(
-            '## Character Data\n\n' +
-                buildCharacterSummary(ctx.character, ctx.selection),
-        );
+    if (ctx.stage === 'analyze' && ctx.previousResults.rewrite) {
+        add('rewrite', ctx.previousResults.rewrite.output);
     }
 
     // ==========================================================================
     // 4. CONTEXT - Previous stage results
     // ==========================================================================
-    if (ctx.stage === 'rewrite' && ctx.previousResults.score) {
-        sections.push(
-            '## Score Results\n\n' + ctx.previousResults.score.output,
-        );
+    if (
+        ctx.stage !== 'score' &&
+        layout.includeScore &&
+        ctx.previousResults.score
+    ) {
+        add('score', ctx.previousResults.score.output);
     }
 
     if (
         ctx.stage === 'rewrite' &&
         ctx.isRefinement &&
+        layout.includeAnalysis &&
         ctx.previousResults.analyze
     ) {
-        sections.push(
-            '## Analysis Feedback\n\n' + ctx.previousResults.analyze.output,
-        );
-    }
-
-    if (ctx.stage === 'analyze' && ctx.previousResults.score) {
-        sections.push(
-            '## Score Results (Context)\n\n' + ctx.previousResults.score.output,
-        );
+        add('analysis', ctx.previousResults.analyze.output);
     }
 
     // ==========================================================================
     // 5. USER GUIDANCE - Additional direction
     // ==========================================================================
     if (ctx.guidance?.trim()) {
-        sections.push('## User Guidance\n\n' + ctx.guidance.trim());
+        add('guidance', ctx.guidance.trim());
     }
 
-    return sections.join('\n\n---\n\n');
+    const rank = (id: PromptSectionId) => layout.order.indexOf(id);
+    return sections.sort((a, b) => rank(a.id) - rank(b.id));
 }
@@ -0,0 +1,222 @@
+// src/domain/pipeline/rewrite-output.ts
+// =============================================================================
+// REWRITE OUTPUT PARSING
+//
+// Reads rewritten field values from rewrite output. Structured output from
+// the field-keyed rewrite schema is read by key; markdown output is split
+// into its `## Field` / `### Field` sections, with headings mapped to
+// character field keys.
+// =============================================================================
+
+import { CHARACTER_FIELDS, GREETING_SEPARATOR } from '../../shared';
+import { extractJson } from '../schema';
+import type {
+    CharacterField,
+    FieldSelection,
+    RewriteFields,
+    StructuredOutputSchema,
+} from '../../types';
+
+/** Limit on parsed sections, so malformed output can't hang the UI */
+const MAX_SECTIONS = 50;
+
+/**
+ * Fields the field-keyed rewrite schema covers. Lorebooks aren't
+ * rewritten as a single value, so they keep using markdown output.
+ */
+export const REWRITE_SCHEMA_FIELDS: readonly CharacterField[] =
+    CHARACTER_FIELDS.filter((f) => f.key !== 'character_book');
+
+// =============================================================================
+// FIELD-KEYED SCHEMA
+// =============================================================================
+
+function fieldProperty(field: CharacterField): Record<string, unknown> {
+    return field.type === 'array'
+        ? {
+              type: 'array',
+              items: { type: 'string' },
+              description: `Rewritten ${field.label}, one per item`,
+          }
+        : { type: 'string', description: `Rewritten ${field.label}` };
+}
+
+/**
+ * Generate the field-keyed rewrite schema for a selection: one required
+ * property per selected field, named by its key. Selections without any
+ * covered field get every field.
+ *
+ * @example
+ * ```ts
+ * buildRewriteSchema({ description: true, character_book: true });
+ * // → { name: 'CharacterRewrite', value: { properties: { description: ... }, ... } }
+ * ```
+ */
+export function buildRewriteSchema(
+    selection: FieldSelection | null = null,
+): StructuredOutputSchema {
+    const selected = REWRITE_SCHEMA_FIELDS.filter((f) => {
+        const sel = selection?.[f.key];
+        return Array.isArray(sel) ? sel.length > 0 : !!sel;
+    });
+    const fields = selected.length > 0 ? selected : REWRITE_SCHEMA_FIELDS;
+
+    return {
+        name: 'CharacterRewrite',
+        strict: true,
+        value: {
+            type: 'object',
+            additionalProperties: false,
+            properties: Object.fromEntries(
+                fields.map((f) => [f.key, fieldProperty(f)]),
+            ),
+            required: fields.map((f) => f.key),
+        },
+    };
+}
+
+/**
+ * Read field values from structured rewrite output. Keys that aren't
+ * covered fields, and empty values, are left out.
+ *
+ * @returns The fields, or null when the output isn't a field-keyed object
+ */
+export function readRewriteFields(output: string): RewriteFields | null {
+    const data = extractJson(output)?.data;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+
+    const raw = data as Record<string, unknown>;
+    const fields: RewriteFields = {};
+    for (const { key } of REWRITE_SCHEMA_FIELDS) {
+        const value = raw[key];
+        const text = Array.isArray(value)
+            ? value
+                  .filter((v): v is string => typeof v === 'string')
+                  .map((v) => v.trim())
+                  .filter(Boolean)
+                  .join(GREETING_SEPARATOR)
+            : typeof value === 'string'
+              ? value.trim()
+              : '';
+        if (text) fields[key] = text;
+    }
+
+    return Object.keys(fields).length > 0 ? fields : null;
+}
+
+/**
+ * Write field values back as structured rewrite output, in card field
+ * order (the inverse of readRewriteFields).
+ */
+export function formatRewriteFields(fields: RewriteFields): string {
+    const data: Record<string, string | string[]> = {};
+    for (const field of REWRITE_SCHEMA_FIELDS) {
+        const text = fields[field.key];
+        if (!text) continue;
+        data[field.key] =
+            field.type === 'array'
+                ? text.split(GREETING_SEPARATOR).filter((s) => s.trim())
+                : text;
+    }
+    return JSON.stringify(data, null, 2);
+}
+
+// =============================================================================
+// MARKDOWN SECTIONS
+// =============================================================================
+
+/**
+ * One heading and the text under it.
+ */
+export interface RewriteSection {
+    /** Heading line as written ('' for text before the first heading) */
+    heading: string;
+    /** Field the heading names (null = not a character field) */
+    key: string | null;
+    content: string;
+}
+
+/**
+ * Split rewrite output into sections, in output order.
+ */
+export function parseRewriteSections(output: string): RewriteSection[] {
+    // Match sections like "### Description" or "## Personality"
+    const sectionRegex = /^#{2,3}\s*(.+?)[\s:]*$/gm;
+    const headings: { line: string; name: string; index: number }[] = [];
+
+    let match;
+    while ((match = sectionRegex.exec(output)) !== null) {
+        headings.push({
+            line: match[0].trim(),
+            name: match[1].trim(),
+            index: match.index,
+        });
+        if (headings.length >= MAX_SECTIONS) break;
+    }
+
+    const sections: RewriteSection[] = [];
+    const preamble = output.slice(0, headings[0]?.index ?? output.length);
+    if (preamble.trim()) {
+        sections.push({ heading: '', key: null, content: preamble.trim() });
+    }
+
+    for (let i = 0; i < headings.length; i++) {
+        const { line, name, index } = headings[i];
+        const end = headings[i + 1]?.index ?? output.length;
+        sections.push({
+            heading: line,
+            key: mapSectionToFieldKey(name),
+            content: output.slice(index + line.length, end).trim(),
+        });
+    }
+
+    return sections;
+}
+
+/**
+ * Extract field values from rewrite output, keyed by field: by key from
+ * structured output, otherwise from markdown sections. Sections that don't
+ * name a field, or are empty, are left out.
+ */
+export function parseRewriteOutput(output: string): RewriteFields {
+    const structured = readRewriteFields(output);
+    if (structured) return structured;
+
+    const fields: RewriteFields = {};
+
+    for (const section of parseRewriteSections(output)) {
+        if (section.key && section.content) {
+            fields[section.key] = section.content;
+        }
+    }
+
+    return fields;
+}
+
+/**
+ * Map a section heading to a field key.
+ */
+export function mapSectionToFieldKey(sectionName: string): string | null {
+    const normalized = sectionName.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+    const mappings: Record<string, string> = {
+        description: 'description',
+        personality: 'personality',
+        firstmessage: 'first_mes',
+        greeting: 'first_mes',
+        scenario: 'scenario',
+        examplemessages: 'mes_example',
+        examples: 'mes_example',
+        systemprompt: 'system_prompt',
+        system: 'system_prompt',
+        posthistoryinstructions: 'post_history_instructions',
+        posthistory: 'post_history_instructions',
+        creatornotes: 'creator_notes',
+        notes: 'creator_notes',
+        alternategreetings: 'alternate_greetings',
+        greetings: 'alternate_greetings',
+        depthprompt: 'depth_prompt',
+    };
+
+    return mappings[normalized] || null;
+}
@@ -0,0 +1,227 @@
+// src/domain/pipeline/rubric.ts
+// =============================================================================
+// RUBRIC SCORING
+//
+// A rubric lists weighted criteria, each with its own scale. It generates a
+// schema preset in the CharacterScore shape with one `fieldScores` entry per
+// criterion, adds its criteria to the score prompt, and computes the overall
+// score from the criterion scores instead of trusting the model's arithmetic.
+// =============================================================================
+
+import { extractJson } from '../schema';
+import type {
+    Rubric,
+    RubricCriterion,
+    RubricScore,
+    StageConfig,
+    StageResult,
+    StructuredOutputSchema,
+} from '../../types';
+import type { PromptDependencies } from './prompt';
+import { readCharacterScore } from './ensemble';
+
+/** Scale of computed overall scores */
+export const RUBRIC_OVERALL_MAX = 10;
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+/**
+ * The rubric a stage config scores with: the one its schema preset was
+ * generated from. Custom schemas and unstructured runs have none.
+ */
+export function getStageRubric(
+    config: StageConfig,
+    deps: Pick<PromptDependencies, 'getSchemaPreset' | 'getRubric'>,
+): Rubric | null {
+    if (
+        !config.useStructuredOutput ||
+        config.customSchema.trim() ||
+        !config.schemaPresetId
+    ) {
+        return null;
+    }
+
+    const rubricId = deps.getSchemaPreset(config.schemaPresetId)?.rubricId;
+    return rubricId ? deps.getRubric(rubricId) : null;
+}
+
+// =============================================================================
+// GENERATION
+// =============================================================================
+
+function describeScale(criterion: RubricCriterion): string {
+    return `${criterion.min}-${criterion.max}`;
+}
+
+/**
+ * Generate the structured output schema for a rubric. It keeps the builtin
+ * CharacterScore shape, so everything that reads scores keeps working,
+ * but limits `field` to the criterion names and leaves out `overallScore`.
+ */
+export function buildRubricSchema(rubric: Rubric): StructuredOutputSchema {
+    return {
+        name: 'RubricScore',
+        strict: true,
+        value: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                fieldScores: {
+                    type: 'array',
+                    description: 'One entry per rubric criterion',
+                    items: {
+                        type: 'object',
+                        additionalProperties: false,
+                        properties: {
+                            field: {
+                                type: 'string',
+                                enum: rubric.criteria.map((c) => c.name),
+                                description: 'Criterion name',
+                            },
+                            score: {
+                                type: 'number',
+                                description: `Score on the criterion's scale (${rubric.criteria
+                                    .map(
+                                        (c) => `${c.name}: ${describeScale(c)}`,
+                                    )
+                                    .join(', ')})`,
+                            },
+                            strengths: { type: 'string' },
+                            weaknesses: { type: 'string' },
+                            suggestions: { type: 'string' },
+                        },
+                        required: [
+                            'field',
+                            'score',
+                            'strengths',
+                            'weaknesses',
+                            'suggestions',
+                        ],
+                    },
+                },
+                priorityImprovements: {
+                    type: 'array',
+                    items: { type: 'string' },
+                },
+                summary: { type: 'string' },
+            },
+            required: ['fieldScores', 'priorityImprovements', 'summary'],
+        },
+    };
+}
+
+/**
+ * Describe a rubric for the score prompt: every criterion with its scale,
+ * weight and description.
+ *
+ * @example
+ * ```ts
+ * buildRubricInstructions(rubric);
+ * // → '### Scoring Rubric\n\nScore each criterion ...\n- **Voice** (1-5, weight 2): ...'
+ * ```
+ */
+export function buildRubricInstructions(rubric: Rubric): string {
+    const criteria = rubric.criteria.map((c) => {
+        const description = c.description.trim();
+        return `- **${c.name}** (${describeScale(c)}, weight ${c.weight})${description ? `: ${description}` : ''}`;
+    });
+
+    return [
+        `### Scoring Rubric: ${rubric.name}`,
+        'Score each criterion below on its own scale, with one `fieldScores` entry per criterion using its exact name. ' +
+            "Don't give an overall score: it is calculated from the criterion scores and weights.",
+        criteria.join('\n'),
+    ].join('\n\n');
+}
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+/**
+ * Compute the overall score from criterion scores: each score is placed on
+ * its criterion's scale (0 at min, 1 at max), then the weighted mean is
+ * scaled to 10. Criteria the model didn't score are left out of the mean.
+ *
+ * @param scores - Criterion name → score (names match ignoring case)
+ * @returns The breakdown, or null when no criterion was scored
+ *
+ * @example
+ * ```ts
+ * scoreRubric(rubric, { Voice: 5, Lore: 3 });
+ * // Voice 1-5 weight 3, Lore 1-5 weight 1 → (1 × 3 + 0.5 × 1) / 4 × 10 = 8.8
+ * ```
+ */
+export function scoreRubric(
+    rubric: Rubric,
+    scores: Record<string, number>,
+): Omit<RubricScore, 'reported'> | null {
+    const byName = new Map(
+        Object.entries(scores).map(([name, score]) => [
+            name.trim().toLowerCase(),
+            score,
+        ]),
+    );
+
+    let weighted = 0;
+    let totalWeight = 0;
+    const criteria = rubric.criteria.map((c) => {
+        const raw = byName.get(c.name.trim().toLowerCase());
+        const score =
+            raw === undefined ? null : Math.min(Math.max(raw, c.min), c.max);
+        if (score !== null && c.max > c.min && c.weight > 0) {
+            weighted += ((score - c.min) / (c.max - c.min)) * c.weight;
+            totalWeight += c.weight;
+        }
+        return {
+            name: c.name,
+            weight: c.weight,
+            min: c.min,
+            max: c.max,
+            score,
+        };
+    });
+    if (totalWeight === 0) return null;
+
+    return {
+        rubricId: rubric.id,
+        rubricName: rubric.name,
+        overall:
+            Math.round((weighted / totalWeight) * RUBRIC_OVERALL_MAX * 10) / 10,
+        criteria,
+    };
+}
+
+/**
+ * Replace a score result's overall score with the one computed from the
+ * rubric, recording the breakdown. Results without readable criterion
+ * scores are returned unchanged.
+ */
+export function applyRubric(result: StageResult, rubric: Rubric): StageResult {
+    if (result.error) return result;
+
+    const extracted = extractJson(result.output)?.data;
+    const score = readCharacterScore(result.output);
+    if (!score || !extracted) return result;
+
+    const computed = scoreRubric(
+        rubric,
+        Object.fromEntries(score.fieldScores.map((f) => [f.field, f.score])),
+    );
+    if (!computed) return result;
+
+    return {
+        ...result,
+        output: JSON.stringify(
+            {
+                ...(extracted as Record<string, unknown>),
+                overallScore: computed.overall,
+            },
+            null,
+            2,
+        ),
+        rubric: { ...computed, reported: score.overallScore ?? null },
+    };
+}
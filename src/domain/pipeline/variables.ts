@@ -0,0 +1,137 @@
+// src/domain/pipeline/variables.ts
+// =============================================================================
+// PROMPT TEMPLATE VARIABLES
+//
+// Pipeline data that prompt presets can reference, e.g. {{char}},
+// {{field.description}} or {{analyze.verdict}}, plus {{#if name}} blocks.
+// =============================================================================
+
+import { CHARACTER_FIELDS } from '../../shared';
+import {
+    detectConditionals,
+    getUnfilledPlaceholders,
+    processTemplate,
+    type TemplateContext,
+} from '../../shared/templates';
+import { applyCharacterMacros, getPopulatedFields } from '../character';
+import type { PromptContext } from './prompt';
+import { parseVerdict } from './verdict';
+
+/**
+ * A variable available in prompt templates.
+ */
+export interface PromptVariable {
+    name: string;
+    description: string;
+}
+
+/**
+ * Every variable a prompt can use, in the order the editor suggests them.
+ */
+export const PROMPT_VARIABLES: PromptVariable[] = [
+    { name: 'char', description: 'Character name' },
+    { name: 'stage', description: 'Stage being run (score, rewrite, analyze)' },
+    {
+        name: 'iteration',
+        description:
+            'Refinement number, as in the task header (empty on the first pass)',
+    },
+    { name: 'guidance', description: 'User guidance for this run' },
+    {
+        name: 'selectedFields',
+        description: 'Names of the fields selected for this stage',
+    },
+    ...CHARACTER_FIELDS.map((field) => ({
+        name: `field.${field.key}`,
+        description: `${field.label} from the card`,
+    })),
+    { name: 'score.output', description: 'Latest Score output' },
+    { name: 'rewrite.output', description: 'Latest Rewrite output' },
+    { name: 'analyze.output', description: 'Latest Analyze output' },
+    {
+        name: 'analyze.verdict',
+        description:
+            'Latest Analyze verdict (ACCEPT, NEEDS_REFINEMENT, REGRESSION)',
+    },
+];
+
+/** ST macros that are valid in prompts but left for SillyTavern to resolve */
+const ST_MACROS = ['user', 'persona', 'original', 'input'];
+
+/**
+ * Values for every prompt variable. Keys are lowercase, as the template
+ * functions match names case-insensitively.
+ */
+export function buildPromptVariables(ctx: PromptContext): TemplateContext {
+    const { character, previousResults } = ctx;
+    const fields = getPopulatedFields(character);
+    const analyze = previousResults.analyze;
+
+    const vars: TemplateContext = {
+        char: character.name,
+        stage: ctx.stage,
+        iteration: ctx.iterationCount > 0 ? String(ctx.iterationCount + 1) : '',
+        guidance: ctx.guidance?.trim() ?? '',
+        selectedfields: fields
+            .filter((field) => {
+                const sel = ctx.selection[field.key];
+                return Array.isArray(sel) ? sel.length > 0 : !!sel;
+            })
+            .map((field) => field.label)
+            .join(', '),
+        'score.output': previousResults.score?.output ?? '',
+        'rewrite.output': previousResults.rewrite?.output ?? '',
+        'analyze.output': analyze?.output ?? '',
+        'analyze.verdict':
+            (analyze &&
+                !analyze.error &&
+                (analyze.verdict ?? parseVerdict(analyze.output))) ||
+            '',
+    };
+
+    for (const { key } of CHARACTER_FIELDS) {
+        const field = fields.find((f) => f.key === key);
+        vars[`field.${key.toLowerCase()}`] = field
+            ? applyCharacterMacros(field.value, character)
+            : '';
+    }
+
+    return vars;
+}
+
+/**
+ * Fill a prompt template with pipeline data.
+ * Unknown placeholders are left as written.
+ */
+export function renderPromptTemplate(
+    template: string,
+    ctx: PromptContext,
+): string {
+    return processTemplate(template, buildPromptVariables(ctx), {
+        passthrough: ST_MACROS,
+    });
+}
+
+/**
+ * Placeholder and {{#if}} names in a template that aren't prompt variables.
+ *
+ * @example
+ * ```ts
+ * findUnknownVariables('{{char}} scored {{score.ouput}}'); // → ['score.ouput']
+ * ```
+ */
+export function findUnknownVariables(template: string): string[] {
+    const known: TemplateContext = {};
+    for (const { name } of PROMPT_VARIABLES) {
+        known[name.toLowerCase()] = name;
+    }
+    for (const name of ST_MACROS) {
+        known[name] = name;
+    }
+
+    const unknown = getUnfilledPlaceholders(template, known);
+    for (const name of detectConditionals(template)) {
+        if (!known[name] && !unknown.includes(name)) unknown.push(name);
+    }
+    return unknown;
+}
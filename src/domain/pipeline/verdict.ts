@@ -0,0 +1,67 @@
+// src/domain/pipeline/verdict.ts
+// =============================================================================
+// ANALYZE VERDICT PARSING
+//
+// Reads ACCEPT / NEEDS_REFINEMENT / REGRESSION out of Analyze output, from
+// the structured `verdict` field when present or the "Verdict" section of a
+// markdown response otherwise.
+// =============================================================================
+
+import type { Verdict } from '../../types';
+import { extractJson } from '../schema';
+
+/** Matches any verdict, tolerating case, spaces and "ACCEPTED" */
+const VERDICT_PATTERN =
+    /\b(accept(?:ed)?|needs[\s_-]*refinement|regression)\b/i;
+
+/**
+ * A "Verdict" label followed right away by the verdict: "Verdict: ACCEPT",
+ * "**Verdict** - Regression", or a "## Verdict" heading with the verdict
+ * (bold or not) opening the next line.
+ */
+const LABELED_VERDICT_PATTERN =
+    /verdict\**[ \t]*(?:[:-]|\r?\n)\s*\**\s*(accept(?:ed)?|needs[\s_-]*refinement|regression)\b/gi;
+
+/**
+ * Parse the verdict from an Analyze response.
+ *
+ * @example
+ * ```ts
+ * parseVerdict('{"verdict": "REGRESSION", ...}'); // → 'REGRESSION'
+ * parseVerdict('## Verdict\n**Needs Refinement** - tone drifted'); // → 'NEEDS_REFINEMENT'
+ * ```
+ *
+ * @returns The verdict, or null when no verdict follows a "Verdict" label
+ */
+export function parseVerdict(output: string): Verdict | null {
+    if (!output.trim()) return null;
+
+    const extracted = extractJson(output);
+    if (
+        extracted &&
+        typeof extracted.data === 'object' &&
+        extracted.data !== null &&
+        'verdict' in extracted.data
+    ) {
+        const value = (extracted.data as { verdict: unknown }).verdict;
+        return typeof value === 'string' ? normalizeVerdict(value) : null;
+    }
+
+    // Prefer the last labeled verdict - earlier ones tend to be quoted
+    const labeled = [...output.matchAll(LABELED_VERDICT_PATTERN)];
+    const last = labeled[labeled.length - 1];
+    return last ? normalizeVerdict(last[1]) : null;
+}
+
+/**
+ * Map the first verdict-like word in `text` to its canonical form.
+ */
+function normalizeVerdict(text: string): Verdict | null {
+    const match = VERDICT_PATTERN.exec(text);
+    if (!match) return null;
+
+    const word = match[1].toLowerCase();
+    if (word.startsWith('accept')) return 'ACCEPT';
+    if (word.startsWith('needs')) return 'NEEDS_REFINEMENT';
+    return 'REGRESSION';
+}
@@ -9,7 +9,8 @@
 // =============================================================================
 
 import { validateSchema } from './schema';
-import type { PromptPreset, SchemaPreset } from '../types';
+import { findUnknownVariables } from './pipeline';
+import type { PromptPreset, Rubric, SchemaPreset } from '../types';
 
 // =============================================================================
 // TYPES
@@ -56,6 +57,13 @@ export function validatePromptPreset(
                 '{{user}} replacement depends on the "Replace {{user}} with persona name" setting',
             );
         }
+
+        const unknown = findUnknownVariables(preset.prompt);
+        if (unknown.length > 0) {
+            warnings.push(
+                `Unknown ${unknown.length === 1 ? 'variable' : 'variables'} ${unknown.map((name) => `{{${name}}}`).join(', ')} will be sent as written`,
+            );
+        }
     }
 
     return {
@@ -109,3 +117,72 @@ export function validateSchemaPreset(
         warnings,
     };
 }
+
+// =============================================================================
+// RUBRIC VALIDATION
+// =============================================================================
+
+/** Most criteria one rubric may have */
+export const MAX_RUBRIC_CRITERIA = 20;
+
+/**
+ * Validate a rubric before saving.
+ */
+export function validateRubric(
+    rubric: Partial<Rubric>,
+): PresetValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Name validation
+    if (!rubric.name?.trim()) {
+        errors.push('Name is required');
+    } else if (rubric.name.length > 100) {
+        errors.push('Name must be 100 characters or less');
+    }
+
+    // Criteria validation
+    const criteria = rubric.criteria ?? [];
+    if (criteria.length === 0) {
+        errors.push('Add at least one criterion');
+    } else if (criteria.length > MAX_RUBRIC_CRITERIA) {
+        errors.push(`A rubric can have up to ${MAX_RUBRIC_CRITERIA} criteria`);
+    }
+
+    const seen = new Set<string>();
+    for (const [i, criterion] of criteria.entries()) {
+        const name = criterion.name.trim();
+        const label = name ? `"${name}"` : `Criterion ${i + 1}`;
+
+        if (!name) {
+            errors.push(`${label} needs a name`);
+        } else if (seen.has(name.toLowerCase())) {
+            errors.push(`${label} is listed twice`);
+        }
+        seen.add(name.toLowerCase());
+
+        if (!Number.isFinite(criterion.weight) || criterion.weight <= 0) {
+            errors.push(`${label} needs a weight above 0`);
+        }
+        if (
+            !Number.isFinite(criterion.min) ||
+            !Number.isFinite(criterion.max) ||
+            criterion.min >= criterion.max
+        ) {
+            errors.push(
+                `${label} needs a scale whose minimum is below its maximum`,
+            );
+        }
+        if (name && !criterion.description.trim()) {
+            warnings.push(
+                `${label} has no description - the model only sees its name`,
+            );
+        }
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        warnings,
+    };
+}
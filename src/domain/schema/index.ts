@@ -25,5 +25,9 @@ export { autoFixSchema } from './auto-fix';
 // Parsing & formatting
 export { formatSchema, parseStructuredResponse } from './parse';
 
+// Response extraction & validation
+export type { ExtractedJson } from './response';
+export { extractJson, validateResponse } from './response';
+
 // LLM generation
 export { generateSchemaFromDescription } from './generate';
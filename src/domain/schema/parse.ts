@@ -4,6 +4,7 @@
 // =============================================================================
 
 import type { StructuredOutputSchema } from '../../shared';
+import { extractJson, validateResponse } from './response';
 
 /**
  * Format a schema object as pretty-printed JSON.
@@ -15,50 +16,24 @@ export function formatSchema(schema: StructuredOutputSchema | null): string {
 
 /**
  * Parse a structured output response.
- * Handles markdown code blocks and validates against schema.
+ * Handles markdown code blocks and surrounding prose, and validates
+ * against schema.
  *
  * @param response - Raw LLM response
  * @param schema - Optional schema to validate against
- * @returns Parsed data with warnings, or null if parsing fails
+ * @returns Parsed data, the extracted JSON text and path-level validation
+ * warnings, or null if no JSON was found
  */
 export function parseStructuredResponse(
     response: string,
     schema?: StructuredOutputSchema,
-): { data: unknown; warnings: string[] } | null {
-    let parsed: unknown;
+): { data: unknown; json: string; warnings: string[] } | null {
+    const extracted = extractJson(response);
+    if (!extracted) return null;
 
-    try {
-        parsed = JSON.parse(response);
-    } catch {
-        // Try to extract JSON from markdown code blocks
-        const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (codeBlockMatch) {
-            try {
-                parsed = JSON.parse(codeBlockMatch[1].trim());
-            } catch {
-                return null;
-            }
-        } else {
-            return null;
-        }
-    }
+    const warnings = schema
+        ? validateResponse(extracted.data, schema.value)
+        : [];
 
-    const warnings: string[] = [];
-
-    // If schema provided, validate required fields
-    if (
-        schema &&
-        schema.value.required &&
-        Array.isArray(schema.value.required)
-    ) {
-        const missing = schema.value.required.filter(
-            (field) => !(field in (parsed as Record<string, unknown>)),
-        );
-
-        if (missing.length > 0) {
-            warnings.push(`Missing required fields: ${missing.join(', ')}`);
-        }
-    }
-
-    return { data: parsed, warnings };
+    return { data: extracted.data, json: extracted.json, warnings };
 }
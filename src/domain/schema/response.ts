@@ -0,0 +1,350 @@
+// src/domain/schema/response.ts
+// =============================================================================
+// STRUCTURED RESPONSE EXTRACTION AND VALIDATION
+//
+// Pulls JSON out of model responses (code fences, leading or trailing prose)
+// and checks the data against the schema it was requested with.
+// =============================================================================
+
+import type { JsonSchemaValue } from '../../shared';
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+/**
+ * JSON found in a model response.
+ */
+export interface ExtractedJson {
+    /** Parsed value */
+    data: unknown;
+    /** The JSON text it was parsed from */
+    json: string;
+}
+
+/**
+ * Extract a JSON value from a model response.
+ *
+ * Tries, in order: the whole response, fenced code blocks, then the first
+ * balanced object or array surrounded by prose.
+ *
+ * @example
+ * ```ts
+ * extractJson('Here you go:\n{"score": 7}\nLet me know!');
+ * // → { data: { score: 7 }, json: '{"score": 7}' }
+ * ```
+ */
+export function extractJson(text: string): ExtractedJson | null {
+    const trimmed = text.trim();
+    const whole = tryParse(trimmed);
+    if (whole) return whole;
+
+    for (const match of trimmed.matchAll(/```(?:json)?\s*([\s\S]*?)```/gi)) {
+        const fenced = tryParse(match[1].trim());
+        if (fenced) return fenced;
+    }
+
+    for (let i = 0; i < trimmed.length; i++) {
+        const ch = trimmed[i];
+        if (ch !== '{' && ch !== '[') continue;
+
+        const end = findBalancedEnd(trimmed, i);
+        if (end === -1) continue;
+
+        const embedded = tryParse(trimmed.slice(i, end));
+        if (embedded) return embedded;
+    }
+
+    return null;
+}
+
+function tryParse(json: string): ExtractedJson | null {
+    if (!json) return null;
+    try {
+        return { data: JSON.parse(json), json };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Find the index just past the bracket that closes the one at `start`.
+ * Returns -1 if it never closes.
+ */
+function findBalancedEnd(text: string, start: number): number {
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            closers.push(ch === '{' ? '}' : ']');
+        } else if (ch === '}' || ch === ']') {
+            if (closers.pop() !== ch) return -1;
+            if (closers.length === 0) return i + 1;
+        }
+    }
+
+    return -1;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Validate response data against a JSON schema.
+ *
+ * Checks types, required and unexpected keys, enums and consts, number
+ * ranges, string and array lengths, anyOf/allOf and local $refs. Providers
+ * often ignore `strict`, so this catches what the API let through.
+ *
+ * @returns Path-level errors, e.g. `fields.description.score: expected number`.
+ * Empty when the data matches.
+ */
+export function validateResponse(
+    data: unknown,
+    schema: JsonSchemaValue,
+): string[] {
+    const ctx: ResponseValidationContext = {
+        errors: [],
+        defs: {
+            ...((schema.definitions as Record<string, JsonSchemaValue>) ?? {}),
+            ...(schema.$defs ?? {}),
+        },
+        depth: 0,
+    };
+    validateNode(data, schema, '', ctx);
+    return ctx.errors;
+}
+
+interface ResponseValidationContext {
+    errors: string[];
+    /** Definitions from the root schema, for $ref resolution */
+    defs: Record<string, JsonSchemaValue>;
+    /** Current $ref depth (guards against recursive schemas) */
+    depth: number;
+}
+
+/** Stop following $refs past this depth */
+const MAX_REF_DEPTH = 32;
+
+function validateNode(
+    value: unknown,
+    schema: JsonSchemaValue,
+    path: string,
+    ctx: ResponseValidationContext,
+): void {
+    const label = path || '(root)';
+    const { errors } = ctx;
+
+    if (schema.$ref) {
+        const name = schema.$ref.replace(/^#\/(\$defs|definitions)\//, '');
+        const target = ctx.defs[name];
+        if (target && ctx.depth < MAX_REF_DEPTH) {
+            ctx.depth++;
+            validateNode(value, target, path, ctx);
+            ctx.depth--;
+        }
+        return;
+    }
+
+    if (schema.anyOf?.length) {
+        const matches = schema.anyOf.some(
+            (variant) =>
+                validateResponse(value, {
+                    ...variant,
+                    $defs: ctx.defs,
+                }).length === 0,
+        );
+        if (!matches) {
+            errors.push(`${label}: does not match any allowed variant`);
+        }
+        return;
+    }
+
+    for (const part of schema.allOf ?? []) {
+        validateNode(value, part, path, ctx);
+    }
+
+    if (schema.type) {
+        const allowed = Array.isArray(schema.type)
+            ? schema.type
+            : [schema.type];
+        if (!allowed.some((type) => matchesType(value, type))) {
+            errors.push(
+                `${label}: expected ${allowed.join(' or ')}, got ${describeType(value)}`,
+            );
+            return;
+        }
+    }
+
+    if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+        errors.push(
+            `${label}: expected one of ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}, got ${JSON.stringify(value)}`,
+        );
+    }
+
+    if ('const' in schema && !isEqual(schema.const, value)) {
+        errors.push(
+            `${label}: expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`,
+        );
+    }
+
+    if (typeof value === 'number') {
+        validateNumber(value, schema, label, errors);
+    } else if (typeof value === 'string') {
+        validateString(value, schema, label, errors);
+    } else if (Array.isArray(value)) {
+        validateArray(value, schema, path, ctx);
+    } else if (isPlainObject(value)) {
+        validateObject(value, schema, path, ctx);
+    }
+}
+
+function validateNumber(
+    value: number,
+    schema: JsonSchemaValue,
+    label: string,
+    errors: string[],
+): void {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+
+    if (typeof minimum === 'number' && value < minimum) {
+        errors.push(`${label}: must be >= ${minimum}, got ${value}`);
+    }
+    if (typeof maximum === 'number' && value > maximum) {
+        errors.push(`${label}: must be <= ${maximum}, got ${value}`);
+    }
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+        errors.push(`${label}: must be > ${exclusiveMinimum}, got ${value}`);
+    }
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+        errors.push(`${label}: must be < ${exclusiveMaximum}, got ${value}`);
+    }
+}
+
+function validateString(
+    value: string,
+    schema: JsonSchemaValue,
+    label: string,
+    errors: string[],
+): void {
+    const { minLength, maxLength, pattern } = schema;
+
+    if (typeof minLength === 'number' && value.length < minLength) {
+        errors.push(`${label}: must be at least ${minLength} characters`);
+    }
+    if (typeof maxLength === 'number' && value.length > maxLength) {
+        errors.push(`${label}: must be at most ${maxLength} characters`);
+    }
+    if (typeof pattern === 'string') {
+        let regex: RegExp | null = null;
+        try {
+            regex = new RegExp(pattern);
+        } catch {
+            // Unsupported pattern syntax - validateSchema warns about these
+        }
+        if (regex && !regex.test(value)) {
+            errors.push(`${label}: does not match pattern ${pattern}`);
+        }
+    }
+}
+
+function validateArray(
+    value: unknown[],
+    schema: JsonSchemaValue,
+    path: string,
+    ctx: ResponseValidationContext,
+): void {
+    const label = path || '(root)';
+    const { minItems, maxItems } = schema;
+
+    if (typeof minItems === 'number' && value.length < minItems) {
+        ctx.errors.push(`${label}: expected at least ${minItems} items`);
+    }
+    if (typeof maxItems === 'number' && value.length > maxItems) {
+        ctx.errors.push(`${label}: expected at most ${maxItems} items`);
+    }
+
+    const items = schema.items;
+    if (items) {
+        value.forEach((item, index) => {
+            validateNode(item, items, `${path}[${index}]`, ctx);
+        });
+    }
+}
+
+function validateObject(
+    value: Record<string, unknown>,
+    schema: JsonSchemaValue,
+    path: string,
+    ctx: ResponseValidationContext,
+): void {
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+        if (!(key in value)) {
+            ctx.errors.push(`${joinPath(path, key)}: required`);
+        }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+        const propSchema = properties[key];
+        if (propSchema) {
+            validateNode(child, propSchema, joinPath(path, key), ctx);
+        } else if (schema.additionalProperties === false) {
+            ctx.errors.push(`${joinPath(path, key)}: unexpected property`);
+        }
+    }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'object':
+            return isPlainObject(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'null':
+            return value === null;
+        default:
+            return true;
+    }
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
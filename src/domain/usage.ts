@@ -0,0 +1,223 @@
+// src/domain/usage.ts
+// =============================================================================
+// TOKEN USAGE & COST
+// =============================================================================
+//
+// Adds up token usage from stage results (one session) or the usage log
+// (everything) and prices it with the user's per-model price table.
+// Prices are USD per million tokens; token counts are estimates.
+//
+// =============================================================================
+
+import type {
+    GenerationMeta,
+    ModelPrice,
+    StageResult,
+    UsageRecord,
+} from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Token and cost totals.
+ */
+export interface UsageTotals {
+    runs: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** Cost of the priced runs in USD (null = no run had a price) */
+    cost: number | null;
+    /** Runs whose model has no price */
+    unpriced: number;
+}
+
+/**
+ * Usage totals for one day or model.
+ */
+export interface UsageGroup {
+    key: string;
+    totals: UsageTotals;
+}
+
+// =============================================================================
+// PRICING
+// =============================================================================
+
+/**
+ * Find the price for a model: an exact id match wins, then the longest
+ * matching `prefix*` pattern. Matching ignores case.
+ */
+export function findModelPrice(
+    prices: ModelPrice[],
+    model: string | null,
+): ModelPrice | null {
+    if (!model) return null;
+    const id = model.toLowerCase();
+
+    const exact = prices.find((p) => p.model.toLowerCase() === id);
+    if (exact) return exact;
+
+    let best: ModelPrice | null = null;
+    let bestLength = -1;
+    for (const price of prices) {
+        const pattern = price.model.toLowerCase();
+        if (!pattern.endsWith('*')) continue;
+        const prefix = pattern.slice(0, -1);
+        if (id.startsWith(prefix) && prefix.length > bestLength) {
+            best = price;
+            bestLength = prefix.length;
+        }
+    }
+    return best;
+}
+
+/**
+ * Cost of a request in USD.
+ */
+export function estimateCost(
+    price: ModelPrice,
+    promptTokens: number,
+    completionTokens: number,
+): number {
+    return (
+        (promptTokens * price.input + completionTokens * price.output) /
+        1_000_000
+    );
+}
+
+// =============================================================================
+// TOTALS
+// =============================================================================
+
+function emptyTotals(): UsageTotals {
+    return {
+        runs: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: null,
+        unpriced: 0,
+    };
+}
+
+function addUsage(
+    totals: UsageTotals,
+    prices: ModelPrice[],
+    model: string | null,
+    runs: number,
+    promptTokens: number,
+    completionTokens: number,
+): void {
+    totals.runs += runs;
+    totals.promptTokens += promptTokens;
+    totals.completionTokens += completionTokens;
+
+    const price = findModelPrice(prices, model);
+    if (price) {
+        totals.cost =
+            (totals.cost ?? 0) +
+            estimateCost(price, promptTokens, completionTokens);
+    } else {
+        totals.unpriced += runs;
+    }
+}
+
+/**
+ * Metadata for each model a result's requests went to. Candidate and
+ * ensemble runs may span several models, so each candidate, judge and
+ * ensemble member counts separately.
+ */
+export function collectGenerationMeta(result: StageResult): GenerationMeta[] {
+    if (result.ensemble) {
+        return result.ensemble.members.flatMap((m) =>
+            m.result.meta ? [m.result.meta] : [],
+        );
+    }
+
+    const set = result.candidates;
+    if (!set) return result.meta ? [result.meta] : [];
+
+    return [
+        ...set.candidates.flatMap((c) =>
+            c.result.meta ? [c.result.meta] : [],
+        ),
+        ...(set.judge?.meta ? [set.judge.meta] : []),
+    ];
+}
+
+/**
+ * Add up the usage recorded on stage results. Results from before usage
+ * was recorded (no metadata) are skipped.
+ */
+export function sumResultUsage(
+    results: StageResult[],
+    prices: ModelPrice[],
+): UsageTotals {
+    const totals = emptyTotals();
+    for (const meta of results.flatMap(collectGenerationMeta)) {
+        if (meta.promptTokens === null && meta.completionTokens === null) {
+            continue;
+        }
+        addUsage(
+            totals,
+            prices,
+            meta.model,
+            1,
+            meta.promptTokens ?? 0,
+            meta.completionTokens ?? 0,
+        );
+    }
+    return totals;
+}
+
+/**
+ * Add up usage log records.
+ */
+export function sumUsageRecords(
+    records: UsageRecord[],
+    prices: ModelPrice[],
+): UsageTotals {
+    const totals = emptyTotals();
+    for (const r of records) {
+        addUsage(
+            totals,
+            prices,
+            r.model,
+            r.runs,
+            r.promptTokens,
+            r.completionTokens,
+        );
+    }
+    return totals;
+}
+
+/**
+ * Group usage log records by day (newest first) or by model (most
+ * tokens first).
+ */
+export function groupUsage(
+    records: UsageRecord[],
+    by: 'date' | 'model',
+    prices: ModelPrice[],
+): UsageGroup[] {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const r of records) {
+        const key = r[by];
+        groups.set(key, [...(groups.get(key) ?? []), r]);
+    }
+
+    const result = [...groups].map(([key, group]) => ({
+        key,
+        totals: sumUsageRecords(group, prices),
+    }));
+
+    return by === 'date'
+        ? result.sort((a, b) => b.key.localeCompare(a.key))
+        : result.sort(
+              (a, b) =>
+                  b.totals.promptTokens +
+                  b.totals.completionTokens -
+                  (a.totals.promptTokens + a.totals.completionTokens),
+          );
+}
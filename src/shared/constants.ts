@@ -26,10 +26,10 @@ export const DEBUG = true as const;
 // =============================================================================
 
 /** Settings schema version - bump when Settings shape changes */
-export const SETTINGS_VERSION = 2 as const;
+export const SETTINGS_VERSION = 13 as const;
 
 /** Storage schema version - bump when Session/Index shape changes */
-export const STORAGE_VERSION = 2 as const;
+export const STORAGE_VERSION = 3 as const;
 
 /** Preset schema version - bump when PromptPreset/SchemaPreset shape changes */
 export const PRESET_VERSION = 1 as const;
@@ -52,6 +52,40 @@ export const STAGE_ICONS = {
     analyze: 'fa-magnifying-glass-chart',
 } as const;
 
+/** Verdicts the Analyze stage can reach (see the builtin Analyze schema) */
+export const VERDICTS = ['ACCEPT', 'NEEDS_REFINEMENT', 'REGRESSION'] as const;
+
+/** Sections of a stage's user prompt, in their default order */
+export const PROMPT_SECTIONS = [
+    'task',
+    'instructions',
+    'scope',
+    'character',
+    'rewrite',
+    'score',
+    'analysis',
+    'guidance',
+] as const;
+
+export const PROMPT_SECTION_LABELS = {
+    task: 'Task',
+    instructions: 'Instructions',
+    scope: 'Field Scope',
+    character: 'Character Data',
+    rewrite: 'Rewritten Version',
+    score: 'Score Results',
+    analysis: 'Analysis Feedback',
+    guidance: 'User Guidance',
+} as const;
+
+/** Ways to shrink a prompt that doesn't fit the model's context window */
+export const CONTEXT_STRATEGIES = [
+    'trim',
+    'summarize',
+    'chunk',
+    'off',
+] as const;
+
 // =============================================================================
 // CHARACTER FIELDS
 // =============================================================================
@@ -97,6 +131,15 @@ export const CHARACTER_FIELDS: readonly CharacterField[] = [
     },
 ] as const;
 
+/**
+ * Separator between alternate greetings when they're shown or rewritten as
+ * one text. Cards always store them as a list.
+ */
+export const GREETING_SEPARATOR = '\n---\n' as const;
+
+/** Builtin rewrite schema keyed by field, narrowed to the selected fields */
+export const FIELD_REWRITE_SCHEMA_ID = 'builtin_schema_rewrite_fields' as const;
+
 // =============================================================================
 // STORAGE KEYS
 // =============================================================================
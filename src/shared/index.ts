@@ -23,7 +23,13 @@ export {
     STAGES,
     STAGE_LABELS,
     STAGE_ICONS,
+    VERDICTS,
+    PROMPT_SECTIONS,
+    PROMPT_SECTION_LABELS,
+    CONTEXT_STRATEGIES,
     CHARACTER_FIELDS,
+    GREETING_SEPARATOR,
+    FIELD_REWRITE_SCHEMA_ID,
     STORAGE_KEYS,
     DEBOUNCE,
     MAX_SESSIONS_PER_CHARACTER,
@@ -43,7 +49,7 @@ export {
     loadLargeData,
 
     // Character API
-    editCharacterAttribute,
+    mergeCharacterAttributes,
     getCharacterJson,
 } from './st';
 
@@ -81,6 +87,7 @@ export {
     // Profile discovery
     hasCMRS,
     getAvailableProfiles,
+    getProfile,
 
     // API status (SINGLE SOURCE OF TRUTH)
     getApiStatus,
@@ -114,4 +121,8 @@ export type { TemplateContext, TemplateConfig } from './templates';
 export {
     // String utilities
     generateUniqueName,
+    // Async utilities
+    retry,
 } from './utils';
+
+export type { RetryOptions } from './utils';
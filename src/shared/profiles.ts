@@ -261,6 +261,8 @@ function getProfileApiStatus(profileId: string): ApiStatus {
         };
     }
 
+    const limits = getProfilePresetLimits(profile);
+
     return {
         mode: 'profile',
         displayName: profile.name,
@@ -268,8 +270,8 @@ function getProfileApiStatus(profileId: string): ApiStatus {
         model: profile.model,
         modelDisplay: formatModelName(profile.model),
         apiType: profile.mode,
-        contextSize: 8192,
-        maxOutput: 4096,
+        contextSize: limits.contextSize,
+        maxOutput: limits.maxOutput,
         isReady: profile.isSupported,
         statusText: profile.isSupported
             ? `${profile.name} Ready`
@@ -278,6 +280,51 @@ function getProfileApiStatus(profileId: string): ApiStatus {
     };
 }
 
+/**
+ * Read context/output limits from the profile's completion preset.
+ * Falls back to conservative defaults when the preset can't be resolved.
+ */
+function getProfilePresetLimits(profile: ProfileInfo): {
+    contextSize: number;
+    maxOutput: number;
+} {
+    const fallback = { contextSize: 8192, maxOutput: 4096 };
+    const ctx = SillyTavern.getContext();
+
+    if (!profile.presetName || typeof ctx.getPresetManager !== 'function') {
+        return fallback;
+    }
+
+    try {
+        const apiId = profile.mode === 'cc' ? 'openai' : 'textgenerationwebui';
+        const preset = ctx
+            .getPresetManager(apiId)
+            ?.getCompletionPresetByName(profile.presetName);
+        if (!preset) return fallback;
+
+        const contextSize =
+            profile.mode === 'cc'
+                ? preset.openai_max_context
+                : preset.max_context;
+        const maxOutput =
+            profile.mode === 'cc' ? preset.openai_max_tokens : preset.genamt;
+
+        return {
+            contextSize:
+                typeof contextSize === 'number' && contextSize > 0
+                    ? contextSize
+                    : fallback.contextSize,
+            maxOutput:
+                typeof maxOutput === 'number' && maxOutput > 0
+                    ? maxOutput
+                    : fallback.maxOutput,
+        };
+    } catch (e) {
+        log.debug('Failed to read profile preset limits', e);
+        return fallback;
+    }
+}
+
 function checkApiReadiness(ctx: ReturnType<typeof SillyTavern.getContext>): {
     isReady: boolean;
     error: string | null;
@@ -334,36 +334,30 @@ export async function loadLargeData<T = unknown>(
 // =============================================================================
 
 /**
- * Edit a single character attribute via ST API.
+ * Merge a partial card JSON into a character via ST API. Objects are merged
+ * key by key; arrays and other values replace what the card has.
  *
  * @example
  * ```ts
- * await editCharacterAttribute(avatarUrl, charName, 'description', 'New desc');
+ * await mergeCharacterAttributes(avatarUrl, { data: { system_prompt: 'New' } });
  * ```
  */
-export async function editCharacterAttribute(
+export async function mergeCharacterAttributes(
     avatarUrl: string,
-    charName: string,
-    field: string,
-    value: string | string[],
+    update: Record<string, unknown>,
 ): Promise<boolean> {
     const ctx = SillyTavern.getContext();
 
     try {
-        const response = await fetch('/api/characters/edit-attribute', {
+        const response = await fetch('/api/characters/merge-attributes', {
             method: 'POST',
             headers: ctx.getRequestHeaders(),
-            body: JSON.stringify({
-                avatar_url: avatarUrl,
-                ch_name: charName,
-                field,
-                value,
-            }),
+            body: JSON.stringify({ ...update, avatar: avatarUrl }),
         });
 
         return response.ok;
     } catch (error) {
-        log.error(`Failed to edit attribute ${field}:`, error);
+        log.error('Failed to merge character attributes:', error);
         return false;
     }
 }
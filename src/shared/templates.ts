@@ -5,6 +5,7 @@
 //
 // Custom placeholder replacement and conditional block processing.
 // Uses {{placeholder}} syntax with {{#if}}...{{/if}} conditionals.
+// Names may be dotted, e.g. {{score.output}}.
 //
 // NOTE: This is separate from ST's substituteParams() because we need
 // control over which macros get replaced (e.g., {{char}} should be the
@@ -106,7 +107,7 @@ export function processConditionalBlocks(
     template: string,
     context: TemplateContext,
 ): string {
-    const conditionalRegex = /\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/gi;
+    const conditionalRegex = /\{\{#if\s+([\w.]+)\}\}([\s\S]*?)\{\{\/if\}\}/gi;
 
     return template.replace(conditionalRegex, (_match, variable, content) => {
         const varName = variable.toLowerCase();
@@ -126,7 +127,7 @@ export function processConditionalBlocks(
  */
 export function detectPlaceholders(template: string): string[] {
     const found: string[] = [];
-    const regex = /\{\{(\w+)\}\}/gi;
+    const regex = /\{\{([\w.]+)\}\}/gi;
     let match;
 
     while ((match = regex.exec(template)) !== null) {
@@ -144,7 +145,7 @@ export function detectPlaceholders(template: string): string[] {
  */
 export function detectConditionals(template: string): string[] {
     const found: string[] = [];
-    const regex = /\{\{#if\s+(\w+)\}\}/gi;
+    const regex = /\{\{#if\s+([\w.]+)\}\}/gi;
     let match;
 
     while ((match = regex.exec(template)) !== null) {
@@ -104,12 +104,27 @@ export function generateUniqueName(
 // ASYNC UTILITIES (useful patterns not in lodash)
 // =============================================================================
 
+/**
+ * Options for {@link retry}.
+ */
+export interface RetryOptions {
+    /** Return false to rethrow immediately instead of retrying */
+    shouldRetry?: (error: Error, attempt: number) => boolean;
+    /** Delay override for a retry (null = exponential backoff) */
+    getDelay?: (error: Error, attempt: number) => number | null;
+    /** Called before waiting for each retry (attempt starts at 1) */
+    onRetry?: (error: Error, attempt: number, delay: number) => void;
+    /** Stops waiting and rethrows the last error when aborted */
+    signal?: AbortSignal;
+}
+
 /**
  * Retry an async function with exponential backoff.
  *
  * @param fn - Function to retry
  * @param maxRetries - Maximum number of retries (default 3)
  * @param baseDelay - Base delay in ms (default 1000)
+ * @param options - Retry filtering, delay override and progress hooks
  * @returns Result of the function
  *
  * @example
@@ -125,7 +140,9 @@ export async function retry<T>(
     fn: () => Promise<T>,
     maxRetries = 3,
     baseDelay = 1000,
+    options: RetryOptions = {},
 ): Promise<T> {
+    const { shouldRetry, getDelay, onRetry, signal } = options;
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -134,16 +151,45 @@ export async function retry<T>(
         } catch (e) {
             lastError = e instanceof Error ? e : new Error(String(e));
 
-            if (attempt < maxRetries) {
-                const delay = baseDelay * Math.pow(2, attempt);
-                await new Promise((resolve) => setTimeout(resolve, delay));
+            const retryNumber = attempt + 1;
+            if (
+                attempt >= maxRetries ||
+                signal?.aborted ||
+                (shouldRetry && !shouldRetry(lastError, retryNumber))
+            ) {
+                throw lastError;
             }
+
+            const delay =
+                getDelay?.(lastError, retryNumber) ??
+                baseDelay * Math.pow(2, attempt);
+            onRetry?.(lastError, retryNumber, delay);
+
+            const completed = await wait(delay, signal);
+            if (!completed) throw lastError;
         }
     }
 
     throw lastError;
 }
 
+/**
+ * Wait for a delay. Resolves false early if the signal aborts.
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+    return new Promise((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
 // =============================================================================
 // TEMPLATE LITERAL HELPERS
 // =============================================================================
@@ -78,6 +78,7 @@ export function createAutoSave(
         session.stageResults = _.cloneDeep(s.stageResults);
         session.history = _.cloneDeep(s.iterationHistory);
         session.iterationCount = s.iterationCount;
+        session.iterationSummary = s.iterationSummary ?? undefined;
         session.userGuidance = s.userGuidance || undefined;
 
         await storageUpdateSession(session);
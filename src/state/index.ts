@@ -19,6 +19,9 @@ export {
     deleteAllSessions,
     renameSession,
     ensureActiveSession,
+    // Applied changes
+    recordAppliedChange,
+    getAppliedChanges,
     // Field selection
     toggleField,
     getFieldSelectionForStage,
@@ -43,13 +46,27 @@ export {
     viewNextHistory,
     restoreHistoryItem,
     getViewedHistoryItem,
+    // Regression recovery
+    getRegressionRestoreTarget,
+    restoreLastGoodRewrite,
+    // Rerun
+    restoreRunSettings,
+    // Rewrite candidates
+    pickRewriteCandidate,
 } from './popup-state';
 
+export type { RestoreTarget } from './verdict';
+
 // Pipeline actions (preferred for execution orchestration)
 export {
     executeStageAction,
     executeAllStagesAction,
     executeQuickIterateAction,
+    executeAutoIterateAction,
+    retryFailedFieldsAction,
     abortPipelineAction,
     resetPipelineAction,
+    inspectStageAction,
+    rerunHistoryItemAction,
+    getRerunPresetChanges,
 } from './pipeline-actions';
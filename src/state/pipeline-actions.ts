@@ -9,25 +9,44 @@
 //
 // =============================================================================
 
-import { STAGES, log } from '../shared';
+import { STAGES, getTokenCount, log } from '../shared';
 import {
     runStage,
+    retryFailedFields,
+    inspectStage,
+    collectGenerationMeta,
+    sumResultUsage,
+    canStream,
     type ExecutionDependencies,
+    type StageInspection,
+    type RunOptions,
     type StageContext,
 } from '../domain';
 import {
     getPromptPreset,
     getSchemaPreset,
+    getRubric,
     getSystemPrompt,
     getRefinementPrompt,
+    getSettings,
+    recordUsage,
+    resolveStageConnection,
 } from '../data';
-import type { StageName, StageResult, PopupState } from '../types';
+import type {
+    IterationSummary,
+    StageName,
+    StageResult,
+    PopupState,
+    RunSnapshot,
+} from '../types';
 import {
     getFieldSelectionForStage,
     ensureActiveSession,
     getState,
+    restoreRunSettings,
 } from './popup-state';
 import { setState, batch } from './store';
+import { deriveVerdict } from './verdict';
 
 // =============================================================================
 // TYPES
@@ -50,6 +69,22 @@ export interface ExecuteAllOptions {
     callbacks?: PipelineCallbacks;
 }
 
+export interface AutoIterateOptions {
+    /** Defaults to settings.maxIterations */
+    maxIterations?: number;
+    /** Defaults to settings.iterationTokenBudget (null = unlimited) */
+    tokenBudget?: number | null;
+    callbacks?: PipelineCallbacks & {
+        onIterateComplete?: () => void;
+        onAutoIterateComplete?: (summary: IterationSummary) => void;
+    };
+}
+
+interface IterationResults {
+    rewrite: StageResult | null;
+    analyze: StageResult | null;
+}
+
 // =============================================================================
 // DEPENDENCIES
 // =============================================================================
@@ -61,6 +96,7 @@ export interface ExecuteAllOptions {
 const deps: ExecutionDependencies = {
     getPromptPreset,
     getSchemaPreset,
+    getRubric,
     getSystemPrompt,
     getRefinementPrompt,
 };
@@ -108,25 +144,73 @@ function clearGeneratingIfOwned(controller: AbortController): void {
     const freshState = getState();
     // Only clear if this controller is still the active one
     if (freshState.abortController === controller) {
-        setState('pipeline', {
-            isGenerating: false,
-            abortController: null,
+        batch(() => {
+            setState('pipeline', {
+                isGenerating: false,
+                abortController: null,
+            });
+            setStreamingOutput(null);
         });
     }
 }
 
 /**
- * Record a stage result through the store.
+ * Publish streamed output for the running stage (null clears it).
+ */
+function setStreamingOutput(
+    stage: StageName | null,
+    text = '',
+    streams = true,
+): void {
+    setState('stream', {
+        streamingOutput: stage ? { stage, text, streams } : null,
+    });
+}
+
+/**
+ * Build run options for a stage, wiring progress and streaming.
+ * On a connection that can't stream, the results panel is told up front
+ * so it shows that the output arrives when the stage finishes.
+ */
+function buildRunOptions(
+    stage: StageName,
+    controller: AbortController,
+    callbacks?: PipelineCallbacks,
+): RunOptions {
+    const config = getState().stageConfigs[stage];
+    if (config && !canStream(resolveStageConnection(config).profileId)) {
+        setStreamingOutput(stage, '', false);
+    }
+
+    return {
+        signal: controller.signal,
+        onProgress: (msg) => {
+            log.debug(`[Pipeline] ${msg}`);
+            callbacks?.onProgress?.(msg);
+        },
+        onStream: (text) => setStreamingOutput(stage, text),
+    };
+}
+
+/**
+ * Record a stage result through the store, and its tokens in the usage log.
  */
 function recordResult(result: StageResult): void {
+    for (const meta of collectGenerationMeta(result)) {
+        recordUsage(meta, result.timestamp);
+    }
+
     const freshState = getState();
+    const stageResults = {
+        ...freshState.stageResults,
+        [result.stage]: result,
+    };
     batch(() => {
+        setStreamingOutput(null);
         setState('results', {
-            stageResults: {
-                ...freshState.stageResults,
-                [result.stage]: result,
-            },
+            stageResults,
             iterationHistory: [...freshState.iterationHistory, result],
+            verdict: deriveVerdict(stageResults),
         });
         setState('pipeline', {
             stageStatus: {
@@ -163,6 +247,156 @@ function buildStageContext(stage: StageName): StageContext | null {
     };
 }
 
+// =============================================================================
+// STAGE RUN
+// =============================================================================
+
+/**
+ * Run a stage from a built context, owning generating state for the run.
+ */
+async function runStageWithContext(
+    context: StageContext,
+    callbacks?: PipelineCallbacks,
+): Promise<StageResult | null> {
+    const { stage } = context;
+
+    // Setup
+    const controller = new AbortController();
+    setGenerating(true, controller);
+    setStageStatus(stage, 'running');
+
+    callbacks?.onStageStart?.(stage);
+
+    try {
+        const result = await runStage(
+            context,
+            deps,
+            buildRunOptions(stage, controller, callbacks),
+        );
+
+        recordResult(result);
+        callbacks?.onStageComplete?.(stage, result);
+
+        if (result.error) {
+            callbacks?.onError?.(stage, result.error);
+        }
+
+        return result;
+    } catch (error) {
+        const errorMsg =
+            error instanceof Error ? error.message : 'Unknown error';
+        log.error(`Stage ${stage} failed:`, error);
+
+        setStageStatus(stage, 'error');
+        callbacks?.onError?.(stage, errorMsg);
+
+        return null;
+    } finally {
+        clearGeneratingIfOwned(controller);
+    }
+}
+
+// =============================================================================
+// ITERATION
+// =============================================================================
+
+/**
+ * Run one refinement cycle: rewrite with analyze feedback, then re-analyze.
+ * Fills `results` as stages complete so callers keep partial output on
+ * failure. The caller owns generating state and the iteration counter.
+ * Candidate rewrites go on to analysis with their winner.
+ *
+ * @param onResult - Called with each stage result; resolving false skips
+ *                   the rest of the cycle
+ */
+async function runIterationCycle(
+    results: IterationResults,
+    controller: AbortController,
+    callbacks?: PipelineCallbacks,
+    onResult?: (result: StageResult) => Promise<boolean>,
+): Promise<void> {
+    // Step 1: Run refinement (rewrite with analyze feedback)
+    const rewriteContext = buildStageContext('rewrite');
+    if (!rewriteContext) {
+        return;
+    }
+    rewriteContext.isRefinement = true;
+
+    setStageStatus('rewrite', 'running');
+    callbacks?.onStageStart?.('rewrite');
+    callbacks?.onProgress?.('Refining rewrite with feedback...');
+
+    const rewriteResult = await runStage(
+        rewriteContext,
+        deps,
+        buildRunOptions('rewrite', controller, callbacks),
+    );
+
+    results.rewrite = rewriteResult;
+    recordResult(rewriteResult);
+    callbacks?.onStageComplete?.('rewrite', rewriteResult);
+    if (onResult && !(await onResult(rewriteResult))) return;
+
+    // Stop if rewrite failed
+    if (rewriteResult.error) {
+        callbacks?.onError?.('rewrite', rewriteResult.error);
+        return;
+    }
+
+    // Check for abort between stages
+    if (controller.signal.aborted) {
+        log.debug('Iteration aborted');
+        return;
+    }
+
+    // Step 2: Run analyze on the new rewrite
+    const analyzeContext = buildStageContext('analyze');
+    if (!analyzeContext) {
+        return;
+    }
+    // Update context with fresh rewrite result from this iteration
+    // (buildStageContext already fetched fresh state, but we need to add the just-created rewrite)
+    analyzeContext.previousResults = {
+        ...analyzeContext.previousResults,
+        rewrite: rewriteResult,
+    };
+
+    setStageStatus('analyze', 'running');
+    callbacks?.onStageStart?.('analyze');
+    callbacks?.onProgress?.('Analyzing refined version...');
+
+    const analyzeResult = await runStage(
+        analyzeContext,
+        deps,
+        buildRunOptions('analyze', controller, callbacks),
+    );
+
+    results.analyze = analyzeResult;
+    recordResult(analyzeResult);
+    callbacks?.onStageComplete?.('analyze', analyzeResult);
+    await onResult?.(analyzeResult);
+
+    if (analyzeResult.error) {
+        callbacks?.onError?.('analyze', analyzeResult.error);
+    }
+}
+
+/**
+ * Tokens a stage result spent, from the usage recorded on it: system
+ * prompts, candidates and their judge, ensemble members, summaries and
+ * repairs included. Results without usage (no request was sent) are
+ * estimated from their text, at ~4 characters per token when ST can't count.
+ */
+async function countResultTokens(result: StageResult): Promise<number> {
+    if (collectGenerationMeta(result).length > 0) {
+        const totals = sumResultUsage([result], []);
+        return totals.promptTokens + totals.completionTokens;
+    }
+
+    const text = `${result.input}\n${result.output}`;
+    return (await getTokenCount(text)) ?? Math.ceil(text.length / 4);
+}
+
 // =============================================================================
 // EXECUTION FUNCTIONS
 // =============================================================================
@@ -198,37 +432,65 @@ export async function executeStageAction(
     const context = buildStageContext(stage);
     if (!context) return null;
 
-    // Setup
+    return runStageWithContext(context, callbacks);
+}
+
+/**
+ * Retry the fields that failed in the current field-by-field rewrite.
+ * Successful fields are kept; the merged result replaces the current one.
+ *
+ * @param state - Current popup state (read-only, mutations go through store)
+ * @param options - Execution options
+ * @returns The merged result, or null if there was nothing to retry
+ */
+export async function retryFailedFieldsAction(
+    state: PopupState,
+    options: { callbacks?: PipelineCallbacks } = {},
+): Promise<StageResult | null> {
+    const { callbacks } = options;
+    const previous = state.stageResults.rewrite;
+
+    if (!previous?.fieldResults?.some((r) => r.error)) {
+        log.warn('Cannot retry fields: no failed fields in current rewrite');
+        return null;
+    }
+
+    if (state.isGenerating) {
+        log.warn('Cannot retry fields: generation already in progress');
+        return null;
+    }
+
+    const context = buildStageContext('rewrite');
+    if (!context) return null;
+
     const controller = new AbortController();
     setGenerating(true, controller);
-    setStageStatus(stage, 'running');
-
-    callbacks?.onStageStart?.(stage);
+    setStageStatus('rewrite', 'running');
+    callbacks?.onStageStart?.('rewrite');
 
     try {
-        const result = await runStage(context, deps, {
-            signal: controller.signal,
-            onProgress: (msg) => {
-                log.debug(`[Pipeline] ${msg}`);
-                callbacks?.onProgress?.(msg);
-            },
-        });
+        const result = await retryFailedFields(
+            context,
+            deps,
+            previous,
+            buildRunOptions('rewrite', controller, callbacks),
+        );
 
         recordResult(result);
-        callbacks?.onStageComplete?.(stage, result);
+        callbacks?.onStageComplete?.('rewrite', result);
 
         if (result.error) {
-            callbacks?.onError?.(stage, result.error);
+            callbacks?.onError?.('rewrite', result.error);
         }
 
         return result;
     } catch (error) {
         const errorMsg =
             error instanceof Error ? error.message : 'Unknown error';
-        log.error(`Stage ${stage} failed:`, error);
+        log.error('Field retry failed:', error);
 
-        setStageStatus(stage, 'error');
-        callbacks?.onError?.(stage, errorMsg);
+        setStageStatus('rewrite', 'error');
+        callbacks?.onError?.('rewrite', errorMsg);
 
         return null;
     } finally {
@@ -298,13 +560,11 @@ export async function executeAllStagesAction(
             callbacks?.onStageStart?.(stage);
             callbacks?.onProgress?.(`Running ${stage}...`);
 
-            const result = await runStage(context, deps, {
-                signal: controller.signal,
-                onProgress: (msg) => {
-                    log.debug(`[Pipeline] ${msg}`);
-                    callbacks?.onProgress?.(msg);
-                },
-            });
+            const result = await runStage(
+                context,
+                deps,
+                buildRunOptions(stage, controller, callbacks),
+            );
 
             results[stage] = result;
             recordResult(result);
@@ -315,6 +575,14 @@ export async function executeAllStagesAction(
                 callbacks?.onError?.(stage, result.error);
                 break;
             }
+
+            // Let the user pick from rewrite candidates before Analyze
+            if (result.candidates) {
+                callbacks?.onProgress?.(
+                    'Rewrite candidates ready - pick one, then run Analyze',
+                );
+                break;
+            }
         }
     } catch (error) {
         const errorMsg =
@@ -345,7 +613,7 @@ export async function executeQuickIterateAction(
     options: {
         callbacks?: PipelineCallbacks & { onIterateComplete?: () => void };
     } = {},
-): Promise<{ rewrite: StageResult | null; analyze: StageResult | null }> {
+): Promise<IterationResults> {
     const { callbacks } = options;
 
     // Validation
@@ -377,93 +645,296 @@ export async function executeQuickIterateAction(
         iterationCount: currentState.iterationCount + 1,
     });
 
-    const results: {
-        rewrite: StageResult | null;
-        analyze: StageResult | null;
-    } = {
-        rewrite: null,
-        analyze: null,
-    };
+    const results: IterationResults = { rewrite: null, analyze: null };
 
     try {
-        // Step 1: Run refinement (rewrite with analyze feedback)
-        const rewriteContext = buildStageContext('rewrite');
-        if (!rewriteContext) {
+        await runIterationCycle(results, controller, callbacks);
+
+        // Rewrite failed or was aborted before analyze ran
+        if (!results.analyze) {
             return results;
         }
-        rewriteContext.isRefinement = true;
 
-        setStageStatus('rewrite', 'running');
-        callbacks?.onStageStart?.('rewrite');
-        callbacks?.onProgress?.('Refining rewrite with feedback...');
+        callbacks?.onIterateComplete?.();
+        return results;
+    } catch (error) {
+        const errorMsg =
+            error instanceof Error ? error.message : 'Unknown error';
+        log.error('Quick iterate failed:', error);
+        callbacks?.onError?.(getState().activeStage, errorMsg);
+        return results;
+    } finally {
+        clearGeneratingIfOwned(controller);
+    }
+}
 
-        const rewriteResult = await runStage(rewriteContext, deps, {
-            signal: controller.signal,
-            onProgress: (msg) => {
-                log.debug(`[Pipeline] ${msg}`);
-                callbacks?.onProgress?.(msg);
-            },
-        });
+/**
+ * Execute auto-iterate: repeat Refine → Analyze until the verdict is ACCEPT.
+ *
+ * Stops early on a REGRESSION verdict, an analyze response with no readable
+ * verdict, an error or abort, or when the iteration limit or token budget
+ * is reached. The budget is checked after every stage, so a run overshoots
+ * it by at most one stage. Every stage result lands in iterationHistory as
+ * it completes, and the summary is kept in state (and the session).
+ *
+ * @param state - Current popup state (read-only, mutations go through store)
+ * @param options - Limits (default to settings) and callbacks
+ * @returns Summary of the run, or null if execution couldn't start
+ */
+export async function executeAutoIterateAction(
+    state: PopupState,
+    options: AutoIterateOptions = {},
+): Promise<IterationSummary | null> {
+    const { callbacks } = options;
+    const settings = getSettings();
+    const maxIterations = options.maxIterations ?? settings.maxIterations;
+    const tokenBudget =
+        options.tokenBudget !== undefined
+            ? options.tokenBudget
+            : settings.iterationTokenBudget;
 
-        results.rewrite = rewriteResult;
-        recordResult(rewriteResult);
-        callbacks?.onStageComplete?.('rewrite', rewriteResult);
+    // Validation
+    if (!state.character) {
+        log.warn('Cannot execute auto-iterate: no character selected');
+        return null;
+    }
 
-        // Stop if rewrite failed
-        if (rewriteResult.error) {
-            callbacks?.onError?.('rewrite', rewriteResult.error);
-            return results;
-        }
+    if (state.isGenerating) {
+        log.warn('Cannot execute auto-iterate: generation already in progress');
+        return null;
+    }
 
-        // Check for abort between stages
-        if (controller.signal.aborted) {
-            log.debug('Quick iterate aborted');
-            return results;
-        }
+    if (!state.stageResults.analyze) {
+        log.warn('Cannot execute auto-iterate: no analyze result available');
+        return null;
+    }
 
-        // Step 2: Run analyze on the new rewrite
-        const analyzeContext = buildStageContext('analyze');
-        if (!analyzeContext) {
-            return results;
-        }
-        // Update context with fresh rewrite result from this iteration
-        // (buildStageContext already fetched fresh state, but we need to add the just-created rewrite)
-        analyzeContext.previousResults = {
-            ...analyzeContext.previousResults,
-            rewrite: rewriteResult,
-        };
-
-        setStageStatus('analyze', 'running');
-        callbacks?.onStageStart?.('analyze');
-        callbacks?.onProgress?.('Analyzing refined version...');
-
-        const analyzeResult = await runStage(analyzeContext, deps, {
-            signal: controller.signal,
-            onProgress: (msg) => {
-                log.debug(`[Pipeline] ${msg}`);
-                callbacks?.onProgress?.(msg);
-            },
-        });
+    // Setup
+    const controller = new AbortController();
+    setGenerating(true, controller);
 
-        results.analyze = analyzeResult;
-        recordResult(analyzeResult);
-        callbacks?.onStageComplete?.('analyze', analyzeResult);
+    const summary: IterationSummary = {
+        iterations: 0,
+        verdict: state.verdict,
+        stopReason: 'max_iterations',
+        tokensUsed: 0,
+        finishedAt: 0,
+    };
 
-        if (analyzeResult.error) {
-            callbacks?.onError?.('analyze', analyzeResult.error);
-        }
+    // Add up every stage's tokens, stopping the cycle once over budget
+    let overBudget = false;
+    const spend = async (result: StageResult): Promise<boolean> => {
+        summary.tokensUsed += await countResultTokens(result);
+        overBudget = tokenBudget !== null && summary.tokensUsed >= tokenBudget;
+        return !overBudget;
+    };
 
-        callbacks?.onIterateComplete?.();
-        return results;
+    try {
+        while (summary.iterations < maxIterations) {
+            if (tokenBudget !== null && summary.tokensUsed >= tokenBudget) {
+                summary.stopReason = 'token_budget';
+                break;
+            }
+
+            summary.iterations++;
+            setState('results', {
+                iterationCount: getState().iterationCount + 1,
+            });
+            callbacks?.onProgress?.(
+                `Iteration ${summary.iterations} of ${maxIterations}...`,
+            );
+
+            const results: IterationResults = { rewrite: null, analyze: null };
+            await runIterationCycle(results, controller, callbacks, spend);
+
+            if (controller.signal.aborted) {
+                summary.stopReason = 'aborted';
+                break;
+            }
+
+            if (!results.analyze || results.analyze.error) {
+                summary.stopReason =
+                    overBudget && !results.rewrite?.error
+                        ? 'token_budget'
+                        : 'error';
+                break;
+            }
+
+            callbacks?.onIterateComplete?.();
+
+            summary.verdict = results.analyze.verdict ?? null;
+            if (summary.verdict === 'ACCEPT') {
+                summary.stopReason = 'accepted';
+                break;
+            }
+            if (summary.verdict === 'REGRESSION') {
+                summary.stopReason = 'regression';
+                break;
+            }
+            if (!summary.verdict) {
+                summary.stopReason = 'no_verdict';
+                break;
+            }
+            if (overBudget) {
+                summary.stopReason = 'token_budget';
+                break;
+            }
+        }
     } catch (error) {
         const errorMsg =
             error instanceof Error ? error.message : 'Unknown error';
-        log.error('Quick iterate failed:', error);
+        log.error('Auto-iterate failed:', error);
         callbacks?.onError?.(getState().activeStage, errorMsg);
-        return results;
+        summary.stopReason = 'error';
     } finally {
         clearGeneratingIfOwned(controller);
     }
+
+    summary.finishedAt = Date.now();
+    batch(() => {
+        setState('results', { iterationSummary: { ...summary } });
+        setState('session', { hasUnsavedChanges: true });
+    });
+
+    log.info('Auto-iterate finished', summary);
+    callbacks?.onAutoIterateComplete?.(summary);
+    return summary;
+}
+
+/**
+ * Find the results a snapshot's run drew on: the history entries with the
+ * recorded timestamps, falling back to the current result if one is gone.
+ */
+function resolveRunInputs(
+    snapshot: RunSnapshot,
+): Record<StageName, StageResult | null> {
+    const { iterationHistory, stageResults } = getState();
+    const inputs = { score: null, rewrite: null, analyze: null } as Record<
+        StageName,
+        StageResult | null
+    >;
+
+    for (const stage of STAGES) {
+        const timestamp = snapshot.inputs[stage];
+        if (timestamp === undefined) continue;
+
+        const match = [...iterationHistory, stageResults[stage]].find(
+            (r) => r?.stage === stage && r.timestamp === timestamp,
+        );
+        if (!match) {
+            log.warn(
+                `Rerun: ${stage} result from ${new Date(timestamp).toISOString()} is gone, using the current one`,
+            );
+        }
+        inputs[stage] = match ?? stageResults[stage];
+    }
+
+    return inputs;
+}
+
+/**
+ * Presets a history entry used that have changed or been deleted since,
+ * so a rerun with the same settings won't send the same prompt.
+ */
+export function getRerunPresetChanges(result: StageResult): string[] {
+    const meta = result.meta;
+    if (!meta) return [];
+
+    const changes: string[] = [];
+    const check = (
+        kind: string,
+        preset: { name: string; version: number } | null,
+        id: string | null,
+        version: number | null,
+    ) => {
+        if (!id) return;
+        if (!preset) {
+            changes.push(`${kind} preset "${id}" no longer exists`);
+        } else if (version !== null && preset.version !== version) {
+            changes.push(
+                `${kind} preset "${preset.name}" changed since this run (v${version} → v${preset.version})`,
+            );
+        }
+    };
+
+    check(
+        'Prompt',
+        meta.promptPresetId ? getPromptPreset(meta.promptPresetId) : null,
+        meta.promptPresetId,
+        meta.promptPresetVersion,
+    );
+    check(
+        'Schema',
+        meta.schemaPresetId ? getSchemaPreset(meta.schemaPresetId) : null,
+        meta.schemaPresetId,
+        meta.schemaPresetVersion,
+    );
+    return changes;
+}
+
+/**
+ * Run a history entry's stage again with the settings that produced it:
+ * stage config, field selection, guidance and the stage results its
+ * prompt drew on. The restored settings stay in place afterwards.
+ *
+ * @param state - Current popup state (read-only, mutations go through store)
+ * @param index - Index into iterationHistory
+ * @returns The new result, or null if execution couldn't start
+ */
+export async function rerunHistoryItemAction(
+    state: PopupState,
+    index: number,
+    options: { callbacks?: PipelineCallbacks } = {},
+): Promise<StageResult | null> {
+    const entry = state.iterationHistory[index];
+
+    // Validation
+    if (!state.character) {
+        log.warn('Cannot rerun: no character selected');
+        return null;
+    }
+
+    if (state.isGenerating) {
+        log.warn('Cannot rerun: generation already in progress');
+        return null;
+    }
+
+    if (!entry?.snapshot) {
+        log.warn('Cannot rerun: history entry has no recorded settings');
+        return null;
+    }
+
+    await ensureActiveSession();
+
+    const previousResults = resolveRunInputs(entry.snapshot);
+    restoreRunSettings(entry);
+
+    const context = buildStageContext(entry.stage);
+    if (!context) return null;
+
+    return runStageWithContext(
+        {
+            ...context,
+            previousResults,
+            iterationCount: entry.iteration ?? 0,
+            isRefinement: entry.isRefinement,
+        },
+        options.callbacks,
+    );
+}
+
+/**
+ * Build a stage request from the current state without sending it.
+ *
+ * @returns The inspection, or null if no character is selected
+ */
+export async function inspectStageAction(
+    stage: StageName,
+): Promise<StageInspection | null> {
+    const context = buildStageContext(stage);
+    if (!context) return null;
+
+    return inspectStage(context, deps);
 }
 
 /**
@@ -494,6 +965,7 @@ export function resetPipelineAction(state: PopupState): void {
         });
         setState('results', {
             stageResults: { score: null, rewrite: null, analyze: null },
+            verdict: null,
             iterationCount: 0,
         });
         setState('session', {
@@ -9,6 +9,7 @@
 // =============================================================================
 
 import { setStageDefaults } from '../data';
+import { selectCandidates } from '../domain';
 import type {
     PopupState,
     StageName,
@@ -17,6 +18,7 @@ import type {
     Character,
     Session,
     FieldSelection,
+    AppliedChange,
 } from '../types';
 import {
     initStore,
@@ -27,6 +29,11 @@ import {
     batch,
 } from './store';
 import { createAutoSave } from './auto-save';
+import {
+    deriveVerdict,
+    findRestoreTarget,
+    type RestoreTarget,
+} from './verdict';
 import {
     setCharacterAction,
     createNewSessionAction,
@@ -34,6 +41,7 @@ import {
     deleteSessionAction,
     deleteAllSessionsAction,
     ensureActiveSessionAction,
+    recordAppliedChangeAction,
 } from './session-actions';
 
 // =============================================================================
@@ -172,6 +180,32 @@ export async function ensureActiveSession(): Promise<boolean> {
     return session !== null;
 }
 
+/**
+ * Record a write to the card with the backup taken before it.
+ */
+export async function recordAppliedChange(
+    change: Omit<AppliedChange, 'id' | 'appliedAt'>,
+): Promise<AppliedChange | null> {
+    return recordAppliedChangeAction(getState(), forceSave, change);
+}
+
+/**
+ * Every recorded write to the current character, most recent first.
+ */
+export function getAppliedChanges(): Array<{
+    change: AppliedChange;
+    session: Session;
+}> {
+    return getState()
+        .sessions.flatMap((session) =>
+            (session.appliedChanges ?? []).map((change) => ({
+                change,
+                session,
+            })),
+        )
+        .sort((a, b) => b.change.appliedAt - a.change.appliedAt);
+}
+
 /**
  * Rename a session.
  */
@@ -474,13 +508,15 @@ export function restoreHistoryItem(index?: number): void {
     }
 
     const result = s.iterationHistory[targetIndex];
+    const stageResults = {
+        ...s.stageResults,
+        [result.stage]: result,
+    };
 
     batch(() => {
         setState('results', {
-            stageResults: {
-                ...s.stageResults,
-                [result.stage]: result,
-            },
+            stageResults,
+            verdict: deriveVerdict(stageResults),
         });
         setState('pipeline', {
             stageStatus: {
@@ -502,3 +538,120 @@ export function getViewedHistoryItem(): StageResult | null {
     if (s.viewingHistoryIndex === null) return null;
     return s.iterationHistory[s.viewingHistoryIndex] ?? null;
 }
+
+// =============================================================================
+// REGRESSION RECOVERY
+// =============================================================================
+
+/**
+ * The rewrite to offer after a REGRESSION verdict (null if no earlier
+ * rewrite passed analysis, or the current verdict isn't a regression).
+ */
+export function getRegressionRestoreTarget(): RestoreTarget | null {
+    const s = getState();
+    if (s.verdict !== 'REGRESSION') return null;
+    return findRestoreTarget(s.iterationHistory, s.stageResults.rewrite);
+}
+
+/**
+ * Restore the last rewrite that wasn't a regression, together with the
+ * analysis that judged it, so the verdict matches the restored rewrite.
+ *
+ * @returns Whether anything was restored
+ */
+export function restoreLastGoodRewrite(): boolean {
+    const target = getRegressionRestoreTarget();
+    if (!target) return false;
+
+    batch(() => {
+        restoreHistoryItem(target.rewriteIndex);
+        restoreHistoryItem(target.analyzeIndex);
+    });
+    return true;
+}
+
+// =============================================================================
+// RERUN
+// =============================================================================
+
+/**
+ * Put back the stage config, field selection and guidance a result was
+ * produced with, and switch to its stage.
+ *
+ * @returns Whether the result recorded its settings
+ */
+export function restoreRunSettings(result: StageResult): boolean {
+    const { snapshot } = result;
+    if (!snapshot) return false;
+
+    const s = getState();
+    const { lodash } = SillyTavern.libs;
+    const stageFields = lodash.cloneDeep(s.stageFields);
+    const selection = lodash.cloneDeep(snapshot.selection);
+
+    if (stageFields.linked) {
+        stageFields.base = selection;
+    } else {
+        stageFields.overrides[result.stage] = selection;
+    }
+
+    batch(() => {
+        updateStageConfig(result.stage, lodash.cloneDeep(snapshot.config));
+        setState('fields', {
+            stageFields,
+            selectedFields: { ...selection },
+        });
+        setState('guidance', { userGuidance: result.guidance ?? '' });
+        setState('pipeline', { activeStage: result.stage });
+        setState('ui', { viewingHistoryIndex: null });
+    });
+
+    autoSave();
+    return true;
+}
+
+// =============================================================================
+// REWRITE CANDIDATES
+// =============================================================================
+
+/**
+ * Use a candidate of the current rewrite: the whole candidate, or just one
+ * field of it. The rewrite's output (and its history entry) is recomposed
+ * from the picks.
+ *
+ * @param index - Candidate index
+ * @param field - Field key to take from the candidate (omit for all fields)
+ * @returns Whether the current rewrite has candidates to pick from
+ */
+export function pickRewriteCandidate(index: number, field?: string): boolean {
+    const s = getState();
+    const current = s.stageResults.rewrite;
+    const set = current?.candidates;
+    if (!current || !set) return false;
+
+    const updated = field
+        ? selectCandidates(current, set.winner, {
+              ...set.picks,
+              [field]: index,
+          })
+        : selectCandidates(current, index, {});
+
+    const stageResults = { ...s.stageResults, rewrite: updated };
+    batch(() => {
+        setState('results', {
+            stageResults,
+            iterationHistory: s.iterationHistory.map((entry) =>
+                entry === current ||
+                (entry.stage === 'rewrite' &&
+                    entry.timestamp === current.timestamp)
+                    ? updated
+                    : entry,
+            ),
+            verdict: deriveVerdict(stageResults),
+        });
+        setState('session', { hasUnsavedChanges: true });
+    });
+
+    autoSave();
+    return true;
+}
@@ -13,6 +13,7 @@ import {
     getSessionsForCharacter,
     getSession,
     createSession as storageCreateSession,
+    updateSession as storageUpdateSession,
     deleteSession as storageDeleteSession,
     deleteAllSessionsForCharacter as storageDeleteAllSessions,
 } from '../data';
@@ -21,8 +22,15 @@ import {
     ensureUnshallowed,
     getPopulatedFields,
 } from '../domain';
-import type { PopupState, Character, Session, FieldSelection } from '../types';
-import { setState, batch } from './store';
+import type {
+    PopupState,
+    Character,
+    Session,
+    FieldSelection,
+    AppliedChange,
+} from '../types';
+import { getState as storeGetState, setState, batch } from './store';
+import { deriveVerdict } from './verdict';
 
 // =============================================================================
 // SESSION ACTIONS
@@ -63,8 +71,10 @@ export async function setCharacterAction(
         });
         setState('results', {
             stageResults: { score: null, rewrite: null, analyze: null },
+            verdict: null,
             iterationCount: 0,
             iterationHistory: [],
+            iterationSummary: null,
         });
     });
 
@@ -212,7 +222,9 @@ export async function createNewSessionAction(
         setState('results', {
             iterationCount: 0,
             iterationHistory: [],
+            iterationSummary: null,
             stageResults: { score: null, rewrite: null, analyze: null },
+            verdict: null,
         });
         setState('pipeline', {
             stageStatus: {
@@ -294,8 +306,10 @@ export async function loadSessionAction(
         });
         setState('results', {
             iterationHistory: _.cloneDeep(session.history),
+            iterationSummary: session.iterationSummary ?? null,
             iterationCount: session.iterationCount,
             stageResults: stageResults as PopupState['stageResults'],
+            verdict: deriveVerdict(stageResults as PopupState['stageResults']),
         });
         setState('pipeline', {
             stageStatus: stageStatus as PopupState['stageStatus'],
@@ -336,8 +350,10 @@ export async function deleteSessionAction(
             });
             setState('results', {
                 iterationHistory: [],
+                iterationSummary: null,
                 iterationCount: 0,
                 stageResults: { score: null, rewrite: null, analyze: null },
+                verdict: null,
             });
             setState('pipeline', {
                 stageStatus: {
@@ -379,8 +395,10 @@ export async function deleteAllSessionsAction(
         });
         setState('results', {
             iterationHistory: [],
+            iterationSummary: null,
             iterationCount: 0,
             stageResults: { score: null, rewrite: null, analyze: null },
+            verdict: null,
         });
         setState('pipeline', {
             stageStatus: {
@@ -393,3 +411,44 @@ export async function deleteAllSessionsAction(
 
     return result;
 }
+
+// =============================================================================
+// APPLIED CHANGES
+// =============================================================================
+
+/**
+ * Record a write to the card, with its backup, in the active session
+ * (created if needed). The entry is stored right away rather than waiting
+ * for auto-save, so the backup survives closing the popup.
+ */
+export async function recordAppliedChangeAction(
+    state: PopupState,
+    forceSave: () => Promise<void>,
+    change: Omit<AppliedChange, 'id' | 'appliedAt'>,
+): Promise<AppliedChange | null> {
+    // Let any pending auto-save land first so it can't overwrite the entry
+    await forceSave();
+
+    const active = await ensureActiveSessionAction(state, forceSave);
+    if (!active) return null;
+
+    const stored = (await getSession(active.id)) ?? active;
+    const entry: AppliedChange = {
+        ...change,
+        id: crypto.randomUUID(),
+        appliedAt: Date.now(),
+    };
+    const session: Session = {
+        ...stored,
+        appliedChanges: [entry, ...(stored.appliedChanges ?? [])],
+    };
+    await storageUpdateSession(session);
+
+    // ensureActiveSessionAction may have added the session to the list
+    const { sessions } = storeGetState();
+    setState('session', {
+        sessions: sessions.map((s) => (s.id === session.id ? session : s)),
+    });
+
+    return entry;
+}
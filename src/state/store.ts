@@ -57,10 +57,13 @@ export function createInitialState(): PopupState {
         activeStage: 'score',
         iterationCount: 0,
         iterationHistory: [],
+        iterationSummary: null,
+        verdict: null,
         userGuidance: '',
 
         isGenerating: false,
         abortController: null,
+        streamingOutput: null,
 
         searchQuery: '',
         searchResults: [],
@@ -0,0 +1,72 @@
+// src/state/verdict.ts
+// =============================================================================
+// VERDICT STATE
+// =============================================================================
+//
+// Derives the pipeline verdict from stage results and finds what to restore
+// when Analyze flags a regression. Kept separate from popup-state.ts so
+// session and pipeline actions can use it without a circular import.
+//
+// =============================================================================
+
+import { parseVerdict } from '../domain';
+import type { PopupState, StageResult, Verdict } from '../types';
+
+/**
+ * History entries to restore after a regression.
+ */
+export interface RestoreTarget {
+    /** Index of the rewrite in iterationHistory */
+    rewriteIndex: number;
+    /** Index of the analyze that judged it */
+    analyzeIndex: number;
+    verdict: Verdict;
+}
+
+/**
+ * Verdict for the current rewrite.
+ *
+ * Null when there is no successful analyze, or the rewrite changed after
+ * it ran (the verdict belonged to an older rewrite). Results saved before
+ * verdicts were recorded are parsed from their output.
+ */
+export function deriveVerdict(
+    stageResults: PopupState['stageResults'],
+): Verdict | null {
+    const { rewrite, analyze } = stageResults;
+    if (!analyze || analyze.error) return null;
+    if (rewrite && rewrite.timestamp > analyze.timestamp) return null;
+
+    return analyze.verdict ?? parseVerdict(analyze.output);
+}
+
+/**
+ * Find the most recent rewrite that Analyze did not flag as a regression.
+ *
+ * Each rewrite is judged by the first successful analyze after it (and
+ * before the next rewrite). The current rewrite is skipped - it's the one
+ * being replaced.
+ */
+export function findRestoreTarget(
+    history: StageResult[],
+    current: StageResult | null,
+): RestoreTarget | null {
+    for (let i = history.length - 1; i >= 0; i--) {
+        const rewrite = history[i];
+        if (rewrite.stage !== 'rewrite' || rewrite.error) continue;
+        if (current && rewrite.timestamp === current.timestamp) continue;
+
+        for (let j = i + 1; j < history.length; j++) {
+            const entry = history[j];
+            if (entry.stage === 'rewrite') break;
+            if (entry.stage !== 'analyze' || entry.error) continue;
+
+            const verdict = entry.verdict ?? parseVerdict(entry.output);
+            if (verdict && verdict !== 'REGRESSION') {
+                return { rewriteIndex: i, analyzeIndex: j, verdict };
+            }
+            break;
+        }
+    }
+    return null;
+}
@@ -16,25 +16,65 @@ export type {
 } from './character';
 
 // Stage types
-export type { StageName, StageStatus, StageConfig, StageResult } from './stage';
+export type {
+    StageName,
+    StageStatus,
+    Verdict,
+    StageConfig,
+    StageConnection,
+    StageResult,
+    GenerationMeta,
+    RunSnapshot,
+    RewriteCandidate,
+    CandidateSet,
+    EnsembleMember,
+    CriterionStats,
+    ScoreEnsemble,
+    RubricScore,
+    FieldResult,
+    RewriteFields,
+    ContextReport,
+    PromptSectionId,
+    PromptLayout,
+    IterationStopReason,
+    IterationSummary,
+} from './stage';
 
 // Preset types
 export type {
     PresetId,
     PromptPreset,
     SchemaPreset,
+    RubricCriterion,
+    Rubric,
     StructuredOutputSchema,
     JsonSchemaValue,
 } from './preset';
 
 // Session types
-export type { SessionId, Session, SessionIndex, StorageMeta } from './session';
+export type {
+    SessionId,
+    Session,
+    SessionIndex,
+    StorageMeta,
+    AppliedChange,
+} from './session';
 
 // Settings types
-export type { Settings } from './settings';
+export type {
+    Settings,
+    ContextStrategy,
+    ModelPrice,
+    UsageRecord,
+} from './settings';
 
 // State types
-export type { FieldSelection, StageFieldSelection, PopupState } from './state';
+export type {
+    FieldSelection,
+    StageFieldSelection,
+    StreamingOutput,
+    PopupState,
+} from './state';
 
 // Store types (only export what's used externally)
 export type { StateSlice } from './store';
@@ -3,7 +3,7 @@
 // PRESET TYPE DEFINITIONS
 // =============================================================================
 
-import type { StageName } from './stage';
+import type { PromptLayout, StageName } from './stage';
 
 /**
  * Unique identifier for a preset.
@@ -18,6 +18,8 @@ export interface PromptPreset {
     name: string;
     stages: StageName[]; // empty = all stages
     prompt: string;
+    /** Section layout applied to the stage when the preset is selected */
+    layout?: PromptLayout;
     isBuiltin: boolean;
     version: number;
     createdAt: number;
@@ -32,12 +34,44 @@ export interface SchemaPreset {
     name: string;
     stages: StageName[];
     schema: StructuredOutputSchema;
+    /** Rubric the schema was generated from (its overall score is computed) */
+    rubricId?: PresetId;
     isBuiltin: boolean;
     version: number;
     createdAt: number;
     updatedAt: number;
 }
 
+/**
+ * One scored criterion of a rubric.
+ */
+export interface RubricCriterion {
+    name: string;
+    /** What the criterion looks for, shown to the model */
+    description: string;
+    /** Relative weight in the overall score */
+    weight: number;
+    /** Lowest score the criterion can get */
+    min: number;
+    /** Highest score the criterion can get */
+    max: number;
+}
+
+/**
+ * Weighted scoring criteria. Saving a rubric generates a schema preset
+ * for it; scores run with that preset get their overall score computed
+ * from the rubric instead of taken from the model.
+ */
+export interface Rubric {
+    id: PresetId;
+    name: string;
+    criteria: RubricCriterion[];
+    /** The schema preset generated from the rubric (null = not generated yet) */
+    schemaPresetId: PresetId | null;
+    createdAt: number;
+    updatedAt: number;
+}
+
 /**
  * Schema for structured LLM output.
  */
@@ -4,7 +4,12 @@
 // =============================================================================
 
 import type { CharacterId } from './character';
-import type { StageName, StageConfig, StageResult } from './stage';
+import type {
+    IterationSummary,
+    StageName,
+    StageConfig,
+    StageResult,
+} from './stage';
 import type { FieldSelection, StageFieldSelection } from './state';
 
 /**
@@ -32,12 +37,30 @@ export interface Session {
     stageResults?: Record<StageName, StageResult | null>;
     history: StageResult[];
     iterationCount: number;
+    /** How the last auto-iterate run ended */
+    iterationSummary?: IterationSummary;
     /** User guidance for this session */
     userGuidance?: string;
+    /** Backups taken before each write to the card, most recent first */
+    appliedChanges?: AppliedChange[];
     status: 'active' | 'completed' | 'abandoned';
     version: number;
 }
 
+/**
+ * A write to the character card, with the card as it was before.
+ */
+export interface AppliedChange {
+    id: string;
+    appliedAt: number;
+    /** Keys of the fields written */
+    fields: string[];
+    /** Full character JSON before the write (from the export API) */
+    snapshot: Record<string, unknown>;
+    /** Set when the write restored an earlier backup */
+    rollbackOf?: string;
+}
+
 /**
  * Index mapping character IDs to their session IDs.
  */
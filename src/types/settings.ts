@@ -3,8 +3,40 @@
 // SETTINGS TYPE DEFINITIONS
 // =============================================================================
 
+import type { CONTEXT_STRATEGIES } from '../shared/constants';
 import type { StageName, StageConfig } from './stage';
-import type { PromptPreset, SchemaPreset } from './preset';
+import type { PromptPreset, Rubric, SchemaPreset } from './preset';
+
+/**
+ * How an over-budget prompt is shrunk before sending.
+ * - trim: shorten prior-stage context
+ * - summarize: condense prior-stage context with an extra request
+ * - chunk: run the rewrite field by field
+ * - off: send as-is
+ */
+export type ContextStrategy = (typeof CONTEXT_STRATEGIES)[number];
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+    /** Model id; a trailing * matches any id with that prefix */
+    model: string;
+    input: number;
+    output: number;
+}
+
+/**
+ * Tokens spent on one model on one day, across all sessions.
+ */
+export interface UsageRecord {
+    /** Local date, YYYY-MM-DD */
+    date: string;
+    model: string;
+    runs: number;
+    promptTokens: number;
+    completionTokens: number;
+}
 
 /**
  * Extension settings stored in ST's extensionSettings.
@@ -27,11 +59,31 @@ export interface Settings {
     // Presets (stored in settings, not localforage - they're not that big)
     promptPresets: PromptPreset[];
     schemaPresets: SchemaPreset[];
+    /** Scoring rubrics (each backs a generated schema preset) */
+    rubrics: Rubric[];
 
     // Generation
     generationMode: 'current' | 'profile';
     profileId: string | null;
     maxTokensOverride: number | null;
+    /** Retries for transient failures (rate limits, server errors, timeouts) */
+    maxRetries: number;
+    /** Re-prompts when structured output fails schema validation (0 = off) */
+    maxRepairAttempts: number;
+    /** What to cut when a prompt doesn't fit the context window */
+    contextStrategy: ContextStrategy;
+
+    // Auto-iterate
+    /** Refine → analyze cycles per auto-iterate run */
+    maxIterations: number;
+    /** Estimated tokens an auto-iterate run may spend (null = unlimited) */
+    iterationTokenBudget: number | null;
+
+    // Usage
+    /** User-maintained prices for cost estimates */
+    modelPrices: ModelPrice[];
+    /** Token usage per day and model */
+    usageLog: UsageRecord[];
 
     /** Disable extended thinking for Anthropic models */
     disableThinking: boolean;
@@ -3,7 +3,9 @@
 // STAGE TYPE DEFINITIONS
 // =============================================================================
 
-import type { STAGES } from '../shared/constants';
+import type { PROMPT_SECTIONS, STAGES, VERDICTS } from '../shared/constants';
+import type { ContextStrategy } from './settings';
+import type { FieldSelection } from './state';
 
 /**
  * Pipeline stage names.
@@ -15,6 +17,32 @@ export type StageName = (typeof STAGES)[number];
  */
 export type StageStatus = 'pending' | 'running' | 'complete' | 'error';
 
+/**
+ * Outcome of an Analyze run.
+ */
+export type Verdict = (typeof VERDICTS)[number];
+
+/**
+ * Parts of a stage's user prompt.
+ */
+export type PromptSectionId = (typeof PROMPT_SECTIONS)[number];
+
+/**
+ * How a stage's user prompt is put together.
+ */
+export interface PromptLayout {
+    /** Section order (sections a stage doesn't use are skipped) */
+    order: PromptSectionId[];
+    /** Include Score output in Rewrite and Analyze prompts */
+    includeScore: boolean;
+    /** Include Analyze feedback in refinement rewrites */
+    includeAnalysis: boolean;
+    /** Heading text overrides (without the leading `#`) */
+    headings: Partial<Record<PromptSectionId, string>>;
+    /** Line placed between sections (empty = blank line only) */
+    separator: string;
+}
+
 /**
  * Configuration for a single pipeline stage.
  */
@@ -24,6 +52,73 @@ export interface StageConfig {
     schemaPresetId: string | null;
     customSchema: string;
     useStructuredOutput: boolean;
+    /** Connection profile for this stage (null = global connection) */
+    profileId: string | null;
+    /** Sampling temperature (null = connection/preset default) */
+    temperature: number | null;
+    /** Max response tokens (null = global override or API default) */
+    maxTokens: number | null;
+    /** Assistant prefill (null = global prefill setting) */
+    prefill: string | null;
+    /** Request timeout in seconds (null = no timeout) */
+    timeout: number | null;
+    /** Rewrite one field (or lorebook entry batch) per request */
+    fieldByField: boolean;
+    /** Prompt section layout (null = the stage's default layout) */
+    layout: PromptLayout | null;
+    /** Rewrite candidates generated per run (1 = a single rewrite) */
+    candidateCount: number;
+    /** Profiles that each generate one candidate (empty = sample candidateCount times) */
+    candidateProfiles: string[];
+    /** Ask the model to rank the candidates once they're generated */
+    judgeCandidates: boolean;
+    /** Profiles a score runs against in parallel (fewer than 2 = a single score) */
+    ensembleProfiles: string[];
+}
+
+/**
+ * Connection values a stage will actually generate with,
+ * after falling back to global settings.
+ */
+export interface StageConnection {
+    profileId: string | null;
+    temperature: number | null;
+    maxTokens: number | null;
+    prefill: string;
+    timeout: number | null;
+}
+
+/**
+ * Output for one field (or lorebook entry batch) of a field-by-field run.
+ */
+export interface FieldResult {
+    /** Field key, or `character_book:<indices>` for a lorebook batch */
+    key: string;
+    label: string;
+    /** Selection the request covered (used to retry it) */
+    selection: FieldSelection;
+    input: string;
+    output: string;
+    error?: string;
+}
+
+/**
+ * Rewritten field values keyed by CharacterField key. Alternate greetings
+ * are joined with GREETING_SEPARATOR (see shared/constants).
+ */
+export type RewriteFields = Record<string, string>;
+
+/**
+ * How a prompt was fitted to the model's context window.
+ */
+export interface ContextReport {
+    strategy: ContextStrategy;
+    /** Tokens available for the user prompt */
+    budget: number;
+    /** Estimated prompt tokens after fitting */
+    tokens: number;
+    /** What was cut, in the order it was cut */
+    cuts: string[];
 }
 
 /**
@@ -36,4 +131,186 @@ export interface StageResult {
     output: string;
     guidance?: string;
     error?: string;
+    /** Re-prompts needed to get valid structured output */
+    repairs?: number;
+    /** Path-level schema violations in the structured output */
+    validationErrors?: string[];
+    /** Analyze verdict, when one could be read from the output */
+    verdict?: Verdict;
+    /** Refinement iteration that produced this result */
+    iteration?: number;
+    /** Whether this was a refinement run (rewrite with analysis feedback) */
+    isRefinement?: boolean;
+    /** Per-field sub-results when the stage ran field by field */
+    fieldResults?: FieldResult[];
+    /** Present when the prompt had to be cut to fit the context window */
+    context?: ContextReport;
+    /** System prompt the request was sent with */
+    systemPrompt?: string;
+    /** Why the model stopped, when the API reported it */
+    finishReason?: string;
+    /** What produced the result (missing when no request was sent) */
+    meta?: GenerationMeta;
+    /** Settings and inputs the result was produced from, for reruns */
+    snapshot?: RunSnapshot;
+    /** Rewrites generated side by side, when the run produced several */
+    candidates?: CandidateSet;
+    /** Per-model scores and their aggregate, when the score ran as an ensemble */
+    ensemble?: ScoreEnsemble;
+    /** How the overall score was computed, when the score used a rubric */
+    rubric?: RubricScore;
+}
+
+/**
+ * Why an auto-iterate run stopped.
+ */
+export type IterationStopReason =
+    | 'accepted'
+    | 'regression'
+    | 'max_iterations'
+    | 'token_budget'
+    | 'no_verdict'
+    | 'error'
+    | 'aborted';
+
+/**
+ * Outcome of an auto-iterate run.
+ */
+export interface IterationSummary {
+    /** Refine → analyze cycles that ran */
+    iterations: number;
+    /** Verdict from the last completed analyze */
+    verdict: Verdict | null;
+    stopReason: IterationStopReason;
+    /** Estimated prompt + response tokens spent, by every request of the run */
+    tokensUsed: number;
+    /** When the run ended */
+    finishedAt: number;
+}
+
+/**
+ * One of several rewrites generated by a candidate run.
+ */
+export interface RewriteCandidate {
+    /** Profile the candidate was generated with (null = stage connection) */
+    profileId: string | null;
+    label: string;
+    result: StageResult;
+}
+
+/**
+ * The candidates of a rewrite and what was picked from them.
+ * The rewrite result's output is composed from the picks.
+ */
+export interface CandidateSet {
+    candidates: RewriteCandidate[];
+    /** Candidate whose output is used for fields without a pick */
+    winner: number;
+    /** Field key → candidate index, for fields taken from another candidate */
+    picks: Record<string, number>;
+    /** Candidate indices best first, when a judge ranked them */
+    ranking?: number[];
+    /** The judge request, when one ran */
+    judge?: {
+        output: string;
+        error?: string;
+        meta?: GenerationMeta;
+    };
+}
+
+/**
+ * The settings a stage ran with, kept so the run can be repeated.
+ */
+export interface RunSnapshot {
+    config: StageConfig;
+    selection: FieldSelection;
+    /** Timestamps of the stage results the prompt could draw on */
+    inputs: Partial<Record<StageName, number>>;
+}
+
+/**
+ * What produced a stage result. Results saved before this was recorded
+ * are migrated with nulls for everything that wasn't known.
+ */
+export interface GenerationMeta {
+    /** Model the connection reported */
+    model: string | null;
+    /** API source (openai, claude, ...) */
+    source: string | null;
+    /** Connection profile (null = current ST settings) */
+    profileId: string | null;
+    /** Prompt preset used (null = custom prompt) */
+    promptPresetId: string | null;
+    promptPresetVersion: number | null;
+    /** Schema preset used (null = custom schema or none) */
+    schemaPresetId: string | null;
+    schemaPresetVersion: number | null;
+    /** Structured output matched the schema (null = not requested) */
+    structured: boolean | null;
+    /** Estimated tokens sent: system prompt, user prompt, prefill and repairs */
+    promptTokens: number | null;
+    /** Estimated tokens received */
+    completionTokens: number | null;
+    /** Time spent waiting on the model, in ms */
+    durationMs: number | null;
+    /** Retries after transient failures (rate limits, timeouts, ...) */
+    retries: number | null;
+}
+
+/**
+ * One model's run of an ensemble score.
+ */
+export interface EnsembleMember {
+    profileId: string;
+    label: string;
+    result: StageResult;
+}
+
+/**
+ * How the models of an ensemble scored one criterion.
+ */
+export interface CriterionStats {
+    /** Field name from `fieldScores`, or 'Overall' for `overallScore` */
+    criterion: string;
+    /** Score per member, in member order (null = member didn't score it) */
+    scores: (number | null)[];
+    mean: number;
+    min: number;
+    max: number;
+    /** max - min */
+    spread: number;
+    /** Whether the models disagree enough to flag the criterion */
+    disputed: boolean;
+}
+
+/**
+ * A score run against several models, aggregated per criterion.
+ * The score result's output is the merged CharacterScore.
+ */
+export interface ScoreEnsemble {
+    members: EnsembleMember[];
+    /** Overall score stats (null = no member reported one) */
+    overall: CriterionStats | null;
+    /** Per-field stats, in the order fields were first reported */
+    fields: CriterionStats[];
+}
+
+/**
+ * An overall score computed from a rubric's weighted criteria.
+ */
+export interface RubricScore {
+    rubricId: string;
+    rubricName: string;
+    /** Weighted overall score out of 10 */
+    overall: number;
+    /** The overall score the model wrote itself, if any (ignored) */
+    reported: number | null;
+    criteria: {
+        name: string;
+        weight: number;
+        min: number;
+        max: number;
+        /** Score the model gave, clamped to the scale (null = not scored) */
+        score: number | null;
+    }[];
 }
@@ -4,7 +4,14 @@
 // =============================================================================
 
 import type { Character } from './character';
-import type { StageName, StageStatus, StageConfig, StageResult } from './stage';
+import type {
+    StageName,
+    StageStatus,
+    StageConfig,
+    StageResult,
+    Verdict,
+    IterationSummary,
+} from './stage';
 import type { Session, SessionId } from './session';
 
 /**
@@ -30,6 +37,17 @@ export interface StageFieldSelection {
     overrides: Partial<Record<StageName, FieldSelection>>;
 }
 
+/**
+ * Partial output of a stage that is still generating.
+ */
+export interface StreamingOutput {
+    stage: StageName;
+    /** Text received so far */
+    text: string;
+    /** False when the connection can't stream and the text arrives all at once */
+    streams: boolean;
+}
+
 /**
  * Full popup state for the extension UI.
  */
@@ -54,12 +72,18 @@ export interface PopupState {
     activeStage: StageName;
     iterationCount: number;
     iterationHistory: StageResult[];
+    /** How the last auto-iterate run ended (null = none in this session) */
+    iterationSummary: IterationSummary | null;
+    /** Analyze verdict for the current rewrite (null = not analyzed yet) */
+    verdict: Verdict | null;
     /** User guidance text for the current pipeline run */
     userGuidance: string;
 
     // Generation
     isGenerating: boolean;
     abortController: AbortController | null;
+    /** Text streamed so far for the running stage (null = not streaming) */
+    streamingOutput: StreamingOutput | null;
 
     // Search
     searchQuery: string;
@@ -24,6 +24,7 @@ export type StateSlice =
     | 'character' // Character selection
     | 'session' // Session metadata (id, list, loading)
     | 'pipeline' // Pipeline execution (status, generating, abort)
+    | 'stream' // Partial output of the running stage
     | 'results' // Stage results and history
     | 'config' // Stage configurations
     | 'fields' // Field selection (base + overrides)
@@ -44,7 +45,14 @@ export const SLICE_PROPERTIES: Record<StateSlice, (keyof PopupState)[]> = {
         'hasUnsavedChanges',
     ],
     pipeline: ['stageStatus', 'activeStage', 'isGenerating', 'abortController'],
-    results: ['stageResults', 'iterationHistory', 'iterationCount'],
+    stream: ['streamingOutput'],
+    results: [
+        'stageResults',
+        'iterationHistory',
+        'iterationCount',
+        'iterationSummary',
+        'verdict',
+    ],
     config: ['stageConfigs'],
     fields: ['stageFields', 'selectedFields'],
     search: [
@@ -11,24 +11,11 @@ import {
     hasCMRS,
     getAvailableProfiles,
 } from '../../shared';
-import { getSettings, save } from '../../data';
+import { getSettings, getActiveProfileId, save } from '../../data';
 import { $, on, cx } from './base';
 import { withRenderBoundary } from '../error-boundary';
 import type { ProfileInfo } from '../../shared/profiles';
 
-// =============================================================================
-// STATE
-// =============================================================================
-
-let selectedProfileId: string | null = null;
-
-/**
- * Set selected profile ID.
- */
-export function setSelectedProfile(profileId: string | null): void {
-    selectedProfileId = profileId;
-}
-
 // =============================================================================
 // HTML TEMPLATES
 // =============================================================================
@@ -53,6 +40,7 @@ function renderProfileOption(
  */
 const _renderApiStatus = (): string => {
     const DOMPurify = SillyTavern.libs.DOMPurify;
+    const selectedProfileId = getActiveProfileId();
     const status = getApiStatus(selectedProfileId);
     const cmrsAvailable = hasCMRS();
     const profiles = cmrsAvailable ? getAvailableProfiles() : [];
@@ -107,7 +95,7 @@ export const renderApiStatus = withRenderBoundary(_renderApiStatus, {
  * Render compact API status for header.
  */
 const _renderApiStatusCompact = (): string => {
-    const status = getApiStatus(selectedProfileId);
+    const status = getApiStatus(getActiveProfileId());
 
     const statusIcon = status.isReady
         ? 'fa-circle-check cr-text-success'
@@ -159,11 +147,12 @@ export function bindApiStatusEvents(container: HTMLElement): () => void {
         cleanups.push(
             on(profileSelect, 'change', () => {
                 const newProfile = profileSelect.value || null;
-                setSelectedProfile(newProfile);
 
-                // Persist the selected profile to settings
+                // Persist the selection - choosing a profile switches
+                // generation to it, "Current Settings" switches back
                 const settings = getSettings();
                 settings.profileId = newProfile;
+                settings.generationMode = newProfile ? 'profile' : 'current';
                 save();
 
                 // Update display
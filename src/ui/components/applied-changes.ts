@@ -0,0 +1,155 @@
+// src/ui/components/applied-changes.ts
+// =============================================================================
+// APPLIED CHANGES
+// =============================================================================
+//
+// Every write to the current character, each with the backup taken before
+// it, and a rollback button that puts the backup's fields back.
+//
+// =============================================================================
+
+import { CHARACTER_FIELDS, MODULE_NAME, log, toast } from '../../shared';
+import { getAppliedChanges, getState } from '../../state';
+import type { AppliedChange, Session } from '../../types';
+import { escapeHtml } from '../formatter/helpers';
+import { rollbackAppliedChange } from './apply-suggestions';
+
+// =============================================================================
+// RENDER
+// =============================================================================
+
+function formatDate(timestamp: number): string {
+    return SillyTavern.libs.moment(timestamp).format('MMM D, YYYY h:mm A');
+}
+
+function describeFields(change: AppliedChange): string {
+    return change.fields
+        .map((key) => CHARACTER_FIELDS.find((f) => f.key === key)?.label ?? key)
+        .join(', ');
+}
+
+function renderChange(
+    change: AppliedChange,
+    session: Session,
+    rolledBack: boolean,
+): string {
+    const sessionName =
+        session.name || `Session from ${formatDate(session.createdAt)}`;
+
+    return /* html */ `
+        <li class="cr-applied-change">
+            <div class="cr-applied-change__info">
+                <div class="cr-applied-change__title">
+                    <span>${formatDate(change.appliedAt)}</span>
+                    ${change.rollbackOf ? '<span class="cr-badge cr-badge--info cr-badge--sm">Rollback</span>' : ''}
+                    ${rolledBack ? '<span class="cr-badge cr-badge--muted cr-badge--sm">Rolled back</span>' : ''}
+                </div>
+                <div class="cr-applied-change__fields">${escapeHtml(describeFields(change))}</div>
+                <div class="cr-text-xs cr-text-dim">${escapeHtml(sessionName)}</div>
+            </div>
+            <button class="menu_button menu_button--sm"
+                    type="button"
+                    data-rollback="${escapeHtml(change.id)}"
+                    title="Put the card back to how it was before this change">
+                <i class="fa-solid fa-rotate-left"></i> Roll back
+            </button>
+        </li>
+    `;
+}
+
+/**
+ * Render the applied changes list for the current character.
+ */
+export function renderAppliedChanges(): string {
+    const entries = getAppliedChanges();
+    const rolledBack = new Set(
+        entries.map((e) => e.change.rollbackOf).filter(Boolean),
+    );
+
+    const list =
+        entries.length > 0
+            ? /* html */ `<ul class="cr-applied-changes__list">
+                ${entries
+                    .map(({ change, session }) =>
+                        renderChange(
+                            change,
+                            session,
+                            rolledBack.has(change.id),
+                        ),
+                    )
+                    .join('')}
+            </ul>`
+            : /* html */ `<p class="cr-text-dim">Nothing applied yet. Every time you apply a rewrite, the card is backed up here first.</p>`;
+
+    return /* html */ `
+        <div id="${MODULE_NAME}_applied_changes" class="cr-inspector cr-applied-changes">
+            <h3 class="cr-inspector__title">
+                <i class="fa-solid fa-box-archive"></i>
+                Applied Changes
+            </h3>
+            ${list}
+            <p class="cr-text-xs cr-text-dim">
+                Backups are kept in the session that applied them, so deleting a session deletes its backups.
+            </p>
+        </div>
+    `;
+}
+
+// =============================================================================
+// POPUP
+// =============================================================================
+
+/**
+ * Show the current character's applied changes.
+ */
+export async function showAppliedChanges(): Promise<void> {
+    if (!getState().character) {
+        toast.info('Select a character to see its applied changes');
+        return;
+    }
+
+    let busy = false;
+    const handleClick = (e: Event) => {
+        const btn = (e.target as HTMLElement).closest(
+            '[data-rollback]',
+        ) as HTMLElement | null;
+        if (!btn || busy) return;
+
+        const entry = getAppliedChanges().find(
+            (item) => item.change.id === btn.dataset.rollback,
+        );
+        if (!entry) return;
+
+        busy = true;
+        rollbackAppliedChange(entry.change)
+            .then((restored) => {
+                const container = document.getElementById(
+                    `${MODULE_NAME}_applied_changes`,
+                );
+                if (restored && container) {
+                    container.outerHTML = renderAppliedChanges();
+                }
+            })
+            .catch((error) => {
+                log.error('Rollback failed', error);
+            })
+            .finally(() => {
+                busy = false;
+            });
+    };
+
+    // Popup content is replaced on close, so listen on the document
+    document.addEventListener('click', handleClick);
+
+    try {
+        const ctx = SillyTavern.getContext();
+        await ctx.callGenericPopup(
+            renderAppliedChanges(),
+            ctx.POPUP_TYPE.TEXT,
+            '',
+            { wide: true, allowVerticalScrolling: true },
+        );
+    } finally {
+        document.removeEventListener('click', handleClick);
+    }
+}
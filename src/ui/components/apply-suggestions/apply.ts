@@ -5,56 +5,142 @@
 
 import {
     toast,
-    editCharacterAttribute,
+    popup,
+    mergeCharacterAttributes,
     getCharacterJson,
+    CHARACTER_FIELDS,
 } from '../../../shared';
-import { getState } from '../../../state';
+import { getState, recordAppliedChange } from '../../../state';
 import { downloadCharacterPng } from '../../../domain/png-writer';
+import { getRestoreValues } from '../../../domain/character/snapshot';
+import {
+    buildCardUpdate,
+    mergeCardUpdate,
+} from '../../../domain/character/card-update';
+import type { AppliedChange } from '../../../types';
+
+/**
+ * An edited field: text, or the list of alternate greetings.
+ */
+export interface FieldEdit {
+    key: string;
+    value: string | string[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function getFieldLabel(key: string): string {
+    return CHARACTER_FIELDS.find((f) => f.key === key)?.label ?? key;
+}
+
+/**
+ * Write field values to their V1/V2 locations on the card in one merge.
+ *
+ * @param card - The card's current JSON
+ * @returns Keys of the fields written
+ */
+async function writeCharacterFields(
+    avatarUrl: string,
+    card: Record<string, unknown>,
+    values: Array<{ key: string; value: unknown }>,
+): Promise<string[]> {
+    const success = await mergeCharacterAttributes(
+        avatarUrl,
+        buildCardUpdate(card, values),
+    );
+
+    if (!success) {
+        toast.error(
+            `Failed to update ${values.map((v) => getFieldLabel(v.key)).join(', ')}`,
+        );
+        return [];
+    }
+
+    return values.map((v) => v.key);
+}
 
 // =============================================================================
 // APPLY FUNCTIONS
 // =============================================================================
 
 /**
- * Apply modified fields directly to the character card.
+ * Apply modified fields directly to the character card. The card is backed
+ * up into the session first; without a backup nothing is written.
  */
 export async function applyFieldsToCharacter(
     avatarUrl: string,
-    charName: string,
-    fields: Array<{ key: string; value: string }>,
+    fields: FieldEdit[],
 ): Promise<void> {
-    let successCount = 0;
-
-    for (const field of fields) {
-        // Handle alternate_greetings as array
-        const value =
-            field.key === 'alternate_greetings'
-                ? field.value.split('\n---\n').filter((s) => s.trim())
-                : field.value;
-
-        const success = await editCharacterAttribute(
-            avatarUrl,
-            charName,
-            field.key,
-            value,
-        );
-
-        if (success) {
-            successCount++;
-        } else {
-            toast.error(`Failed to update ${field.key}`);
-        }
+    const snapshot = await getCharacterJson(avatarUrl);
+    if (!snapshot) {
+        toast.error("Couldn't back up the character, so nothing was applied");
+        return;
     }
 
-    if (successCount > 0) {
+    const written = await writeCharacterFields(avatarUrl, snapshot, fields);
+
+    if (written.length > 0) {
+        await recordAppliedChange({ fields: written, snapshot });
+
         const ctx = SillyTavern.getContext();
         await ctx.getCharacters();
         toast.success(
-            `Applied ${successCount} field${successCount > 1 ? 's' : ''} to character!`,
+            `Applied ${written.length} field${written.length > 1 ? 's' : ''} to character!`,
         );
     }
 }
 
+/**
+ * Put the card's fields back to how they were in an applied change's
+ * backup, after confirming. The current card is backed up first, so a
+ * rollback can be rolled back too.
+ *
+ * @returns Whether anything was restored
+ */
+export async function rollbackAppliedChange(
+    change: AppliedChange,
+): Promise<boolean> {
+    const char = getState().character;
+    if (!char) return false;
+
+    const current = await getCharacterJson(char.avatar);
+    if (!current) {
+        toast.error("Couldn't back up the character, so nothing was restored");
+        return false;
+    }
+
+    const values = getRestoreValues(current, change.snapshot);
+    if (values.length === 0) {
+        toast.info('The card already matches this backup');
+        return false;
+    }
+
+    const confirmed = await popup.confirm(
+        'Roll Back Changes',
+        `Restore ${values.map((v) => getFieldLabel(v.key)).join(', ')} to how they were before this change? ` +
+            "The card's current values are backed up first.",
+    );
+    if (!confirmed) return false;
+
+    const written = await writeCharacterFields(char.avatar, current, values);
+    if (written.length === 0) return false;
+
+    await recordAppliedChange({
+        fields: written,
+        snapshot: current,
+        rollbackOf: change.id,
+    });
+
+    const ctx = SillyTavern.getContext();
+    await ctx.getCharacters();
+    toast.success(
+        `Restored ${written.length} field${written.length > 1 ? 's' : ''} from the backup`,
+    );
+    return true;
+}
+
 /**
  * Save character as PNG with modified fields.
  * Creates a new PNG file WITHOUT modifying the original character.
@@ -62,7 +148,7 @@ export async function applyFieldsToCharacter(
 export async function savePngWithFields(
     avatarUrl: string,
     charName: string,
-    fields: Array<{ key: string; value: string }>,
+    fields: FieldEdit[],
 ): Promise<void> {
     // Get current character JSON (for base data)
     const charJson = await getCharacterJson(avatarUrl);
@@ -72,23 +158,15 @@ export async function savePngWithFields(
     }
 
     // Apply modifications to a copy of the JSON (NOT the original)
-    for (const field of fields) {
-        const value =
-            field.key === 'alternate_greetings'
-                ? field.value.split('\n---\n').filter((s) => s.trim())
-                : field.value;
-
-        // Update both top-level and data fields
-        charJson[field.key] = value;
-        if (charJson.data && typeof charJson.data === 'object') {
-            (charJson.data as Record<string, unknown>)[field.key] = value;
-        }
-    }
+    const updated = mergeCardUpdate(
+        charJson,
+        buildCardUpdate(charJson, fields),
+    );
 
     // Create PNG with modified data (client-side, no server changes)
     const success = await downloadCharacterPng(
         avatarUrl,
-        charJson,
+        updated,
         `${charName}_refined.png`,
     );
 
@@ -104,7 +182,7 @@ export async function savePngWithFields(
  */
 export async function saveJsonWithFields(
     avatarUrl: string,
-    fields: Array<{ key: string; value: string }>,
+    fields: FieldEdit[],
 ): Promise<void> {
     const state = getState();
     if (!state.character) return;
@@ -117,21 +195,13 @@ export async function saveJsonWithFields(
     }
 
     // Apply modifications to JSON
-    for (const field of fields) {
-        const value =
-            field.key === 'alternate_greetings'
-                ? field.value.split('\n---\n').filter((s) => s.trim())
-                : field.value;
-
-        // Update both top-level and data fields
-        charJson[field.key] = value;
-        if (charJson.data && typeof charJson.data === 'object') {
-            (charJson.data as Record<string, unknown>)[field.key] = value;
-        }
-    }
+    const updated = mergeCardUpdate(
+        charJson,
+        buildCardUpdate(charJson, fields),
+    );
 
     // Download JSON
-    const jsonString = JSON.stringify(charJson, null, 2);
+    const jsonString = JSON.stringify(updated, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
 
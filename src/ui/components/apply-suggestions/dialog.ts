@@ -3,9 +3,22 @@
 // APPLY DIALOG
 // =============================================================================
 
-import { toast, log, CHARACTER_FIELDS } from '../../../shared';
+import {
+    toast,
+    log,
+    CHARACTER_FIELDS,
+    GREETING_SEPARATOR,
+} from '../../../shared';
 import { getState } from '../../../state';
 import { getPopulatedFields } from '../../../domain/character/fields';
+import { parseRewriteOutput } from '../../../domain/pipeline/rewrite-output';
+import {
+    diffHunks,
+    diffText,
+    mergeHunks,
+    type DiffSegment,
+} from '../../../domain/diff';
+import { renderInlineDiff } from '../compare-view';
 import {
     formatFieldForEditing,
     isEditableFieldType,
@@ -15,8 +28,256 @@ import {
     applyFieldsToCharacter,
     savePngWithFields,
     saveJsonWithFields,
+    type FieldEdit,
 } from './apply';
 
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Hunk-by-hunk review of a rewritten field. Stale once the textarea is
+ * edited by hand, until a source button brings back a text it can rebuild.
+ */
+interface HunkReview {
+    segments: DiffSegment[];
+    accepted: boolean[];
+    stale: boolean;
+}
+
+/**
+ * An alternate greeting being edited, with the card index it started from
+ * (null for added ones), so moved greetings can say where they came from.
+ */
+interface GreetingDraft {
+    value: string;
+    from: number | null;
+}
+
+// =============================================================================
+// TEMPLATES
+// =============================================================================
+
+/**
+ * Render one alternate greeting editor with its move and remove buttons.
+ *
+ * @param count - Number of greetings in the list
+ * @param original - The card's greeting it started from ('' for new ones)
+ */
+function renderGreetingItem(
+    draft: GreetingDraft,
+    index: number,
+    count: number,
+    original: string,
+): string {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const isNew = draft.from === null;
+    const note = isNew
+        ? ' (new)'
+        : draft.from !== index
+          ? ` (was ${(draft.from as number) + 1})`
+          : '';
+
+    return /* html */ `
+        <div class="cr-apply-greetings__item">
+            <div class="cr-apply-greetings__header">
+                <span class="cr-apply-greetings__label">Greeting ${index + 1}${note}</span>
+                <div class="cr-apply-greetings__actions">
+                    <button type="button"
+                            class="menu_button menu_button--sm"
+                            data-action="move-greeting"
+                            data-direction="-1"
+                            data-greeting-index="${index}"
+                            title="Move up"
+                            ${index === 0 ? 'disabled' : ''}>
+                        <i class="fa-solid fa-arrow-up"></i>
+                    </button>
+                    <button type="button"
+                            class="menu_button menu_button--sm"
+                            data-action="move-greeting"
+                            data-direction="1"
+                            data-greeting-index="${index}"
+                            title="Move down"
+                            ${index === count - 1 ? 'disabled' : ''}>
+                        <i class="fa-solid fa-arrow-down"></i>
+                    </button>
+                    <button type="button"
+                            class="menu_button menu_button--sm"
+                            data-action="remove-greeting"
+                            data-greeting-index="${index}"
+                            title="Remove this greeting">
+                        <i class="fa-solid fa-trash-can"></i>
+                    </button>
+                </div>
+            </div>
+            <textarea
+                class="cr-apply-textarea cr-apply-greeting text_pole"
+                data-field-key="alternate_greetings"
+                data-greeting-index="${index}"
+                data-original="${encodeURIComponent(original)}"
+                rows="4"
+                placeholder="${isNew ? 'New greeting...' : `Greeting ${index + 1}...`}"
+            >${DOMPurify.sanitize(draft.value)}</textarea>
+        </div>
+    `;
+}
+
+/**
+ * Render every alternate greeting editor, or a note when there are none.
+ *
+ * @param originals - The card's greetings
+ */
+function renderGreetingItems(
+    drafts: GreetingDraft[],
+    originals: string[],
+): string {
+    if (drafts.length === 0) {
+        return /* html */ `<p class="cr-text-sm cr-text-dim">No alternate greetings defined</p>`;
+    }
+
+    return drafts
+        .map((draft, idx) =>
+            renderGreetingItem(
+                draft,
+                idx,
+                drafts.length,
+                draft.from === null ? '' : (originals[draft.from] ?? ''),
+            ),
+        )
+        .join('');
+}
+
+/**
+ * Render the buttons that switch a field between its rewritten and
+ * original text. Only fields the rewrite covers get them.
+ */
+function renderSourceToggle(fieldKey: string, hasRewrite: boolean): string {
+    if (!hasRewrite) return '';
+
+    return /* html */ `
+        <div class="cr-apply-field__sources">
+            <button type="button"
+                    class="menu_button menu_button--sm"
+                    data-action="use-rewrite"
+                    data-field-key="${fieldKey}"
+                    title="Fill in the rewritten text">
+                <i class="fa-solid fa-wand-magic-sparkles"></i> Rewrite
+            </button>
+            <button type="button"
+                    class="menu_button menu_button--sm"
+                    data-action="use-original"
+                    data-field-key="${fieldKey}"
+                    title="Restore the card's current text">
+                <i class="fa-solid fa-file"></i> Original
+            </button>
+        </div>
+    `;
+}
+
+/**
+ * Start reviewing a rewritten field, every hunk accepted. Fields the
+ * rewrite leaves as they are have nothing to review.
+ */
+function createHunkReview(
+    original: string,
+    rewrite: string | undefined,
+): HunkReview | null {
+    if (rewrite === undefined || rewrite === original) return null;
+
+    const segments = diffHunks(original, rewrite);
+    return {
+        segments,
+        accepted: segments
+            .filter((segment) => segment.type === 'change')
+            .map(() => true),
+        stale: false,
+    };
+}
+
+/**
+ * Render a field's hunks, each with accept and reject buttons.
+ */
+function renderHunkReview(fieldKey: string, review: HunkReview): string {
+    const hunks = review.segments.filter(
+        (segment) => segment.type === 'change',
+    );
+    const acceptedCount = review.accepted.filter(Boolean).length;
+
+    const items = hunks
+        .map((hunk, i) => {
+            const accepted = review.accepted[i];
+            const button = (accept: boolean) => /* html */ `
+                <button type="button"
+                        class="menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                        data-action="${accept ? 'accept-hunk' : 'reject-hunk'}"
+                        data-field-key="${fieldKey}"
+                        data-hunk="${i}"
+                        aria-pressed="${accepted === accept}"
+                        title="${accept ? 'Use the rewritten text' : 'Keep the original text'}"
+                        ${review.stale ? 'disabled' : ''}>
+                    <i class="fa-solid ${accept ? 'fa-check' : 'fa-xmark'}"></i>
+                </button>
+            `;
+
+            return /* html */ `
+                <li class="cr-apply-hunk ${accepted ? 'cr-apply-hunk--accepted' : 'cr-apply-hunk--rejected'}">
+                    <pre class="cr-apply-hunk__text">${renderInlineDiff(
+                        diffText(hunk.original, hunk.rewritten),
+                    )}</pre>
+                    <div class="cr-apply-hunk__actions">
+                        ${button(true)}
+                        ${button(false)}
+                    </div>
+                </li>
+            `;
+        })
+        .join('');
+
+    return /* html */ `
+        <div class="cr-apply-hunks__summary">
+            ${
+                review.stale
+                    ? 'Edited by hand. Use Rewrite or Original to review changes again.'
+                    : `${acceptedCount} of ${hunks.length} change${hunks.length === 1 ? '' : 's'} accepted`
+            }
+        </div>
+        <ul class="cr-apply-hunks__list">${items}</ul>
+    `;
+}
+
+/**
+ * Render the collapsible hunk review for a field, if it has one.
+ */
+function renderHunkSection(
+    fieldKey: string,
+    review: HunkReview | null,
+): string {
+    if (!review) return '';
+
+    return /* html */ `
+        <details class="cr-apply-hunks" data-field-key="${fieldKey}" open>
+            <summary>Review changes</summary>
+            <div class="cr-apply-hunks__body">
+                ${renderHunkReview(fieldKey, review)}
+            </div>
+        </details>
+    `;
+}
+
+/**
+ * Show or hide a field's modified state.
+ */
+function setFieldDirty(fieldEl: Element | null, isDirty: boolean): void {
+    if (!fieldEl) return;
+    fieldEl.classList.toggle('cr-apply-field--dirty', isDirty);
+    const dirtyBadge = fieldEl.querySelector(
+        '.cr-apply-field__dirty',
+    ) as HTMLElement | null;
+    if (dirtyBadge) {
+        dirtyBadge.style.display = isDirty ? 'inline' : 'none';
+    }
+}
+
 // =============================================================================
 // DIALOG
 // =============================================================================
@@ -41,6 +302,9 @@ export async function showApplyDialog(): Promise<void> {
     const rewriteOutput = state.stageResults.rewrite.output;
     const DOMPurify = SillyTavern.libs.DOMPurify;
 
+    // Rewritten values by field key (structured output, or markdown sections)
+    const rewritten = parseRewriteOutput(rewriteOutput);
+
     // Get all populated fields using the shared field extraction
     const populatedFields = getPopulatedFields(char);
     const fieldMap = new Map(populatedFields.map((f) => [f.key, f]));
@@ -51,6 +315,50 @@ export async function showApplyDialog(): Promise<void> {
     if (altGreetingsField && Array.isArray(altGreetingsField.rawValue)) {
         alternateGreetings.push(...(altGreetingsField.rawValue as string[]));
     }
+    const rewrittenList = rewritten.alternate_greetings
+        ?.split(GREETING_SEPARATOR)
+        .filter((g) => g.trim());
+    // A run on some greetings rewrote just those, in card order
+    const greetingSelection =
+        state.stageResults.rewrite.snapshot?.selection.alternate_greetings;
+    const selectedIndices = Array.isArray(greetingSelection)
+        ? [...greetingSelection].sort((a, b) => a - b)
+        : null;
+    const rewrittenGreetings =
+        rewrittenList &&
+        selectedIndices &&
+        rewrittenList.length === selectedIndices.length
+            ? alternateGreetings.map((greeting, idx) => {
+                  const pos = selectedIndices.indexOf(idx);
+                  return pos >= 0 ? rewrittenList[pos] : greeting;
+              })
+            : rewrittenList;
+    const initialGreetings = rewrittenGreetings ?? alternateGreetings;
+    // Rewritten greetings line up with the card's by position
+    const toDrafts = (values: string[]): GreetingDraft[] =>
+        values.map((value, idx) => ({
+            value,
+            from: idx < alternateGreetings.length ? idx : null,
+        }));
+    const greetingsDiffer = (drafts: GreetingDraft[]) =>
+        drafts.length !== alternateGreetings.length ||
+        drafts.some((draft, idx) => draft.value !== alternateGreetings[idx]);
+
+    // Track modified fields - prefilled with rewritten text, updated on
+    // input, read after popup closes
+    const modifiedFields: Map<string, string> = new Map();
+
+    // Hunk reviews of rewritten text fields, by field key
+    const hunkReviews: Map<string, HunkReview> = new Map();
+    const startHunkReview = (
+        fieldKey: string,
+        original: string,
+        rewrite: string | undefined,
+    ) => {
+        const review = createHunkReview(original, rewrite);
+        if (review) hunkReviews.set(fieldKey, review);
+        return renderHunkSection(fieldKey, review);
+    };
 
     // Build collapsible field editors - only for editable fields
     const editableFields = CHARACTER_FIELDS.filter(isEditableFieldType);
@@ -61,41 +369,23 @@ export async function showApplyDialog(): Promise<void> {
 
             // Special handling for alternate greetings - render each as separate textarea
             if (fieldDef.key === 'alternate_greetings') {
-                const greetingsHtml =
-                    alternateGreetings.length > 0
-                        ? alternateGreetings
-                              .map((greeting, idx) => {
-                                  const escapedGreeting =
-                                      DOMPurify.sanitize(greeting);
-                                  return /* html */ `
-                        <div class="cr-apply-greetings__item">
-                            <span class="cr-apply-greetings__label">Greeting ${idx + 1}</span>
-                            <textarea
-                                class="cr-apply-textarea cr-apply-greeting text_pole"
-                                data-field-key="alternate_greetings"
-                                data-greeting-index="${idx}"
-                                data-original="${encodeURIComponent(greeting)}"
-                                rows="4"
-                                placeholder="Greeting ${idx + 1}..."
-                            >${escapedGreeting}</textarea>
-                        </div>
-                    `;
-                              })
-                              .join('')
-                        : /* html */ `<p class="cr-text-sm cr-text-dim">No alternate greetings defined</p>`;
+                const isDirty = greetingsDiffer(toDrafts(initialGreetings));
 
                 return /* html */ `
-                <details class="cr-apply-field" data-field-key="${fieldDef.key}">
+                <details class="cr-apply-field ${isDirty ? 'cr-apply-field--dirty' : ''}"
+                         data-field-key="${fieldDef.key}"
+                         ${isDirty ? 'open' : ''}>
                     <summary class="cr-apply-field__header">
                         <span class="cr-apply-field__label">${fieldDef.label}</span>
                         <span class="cr-apply-field__badge ${alternateGreetings.length > 0 ? 'cr-apply-field__badge--filled' : 'cr-apply-field__badge--empty'}">
                             ${alternateGreetings.length > 0 ? `${alternateGreetings.length} greeting${alternateGreetings.length > 1 ? 's' : ''}` : 'empty'}
                         </span>
-                        <span class="cr-apply-field__dirty" style="display: none;">modified</span>
+                        <span class="cr-apply-field__dirty" style="display: ${isDirty ? 'inline' : 'none'};">modified</span>
                     </summary>
                     <div class="cr-apply-field__content">
+                        ${renderSourceToggle(fieldDef.key, !!rewrittenGreetings)}
                         <div class="cr-apply-greetings">
-                            ${greetingsHtml}
+                            ${renderGreetingItems(toDrafts(initialGreetings), alternateGreetings)}
                             <button type="button" class="cr-apply-greetings__add" data-action="add-greeting">
                                 <i class="fa-solid fa-plus"></i> Add Greeting
                             </button>
@@ -114,28 +404,36 @@ export async function showApplyDialog(): Promise<void> {
                 };
                 const promptValue = dp.prompt || '';
                 const depthInfo = `Depth: ${dp.depth ?? 4}, Role: ${dp.role ?? 'system'}`;
-                const escapedValue = DOMPurify.sanitize(promptValue);
+                const rewrite = rewritten[fieldDef.key];
+                const value = rewrite ?? promptValue;
+                const isDirty = value !== promptValue;
+                if (isDirty) modifiedFields.set(fieldDef.key, value);
 
                 return /* html */ `
-                <details class="cr-apply-field" data-field-key="${fieldDef.key}">
+                <details class="cr-apply-field ${isDirty ? 'cr-apply-field--dirty' : ''}"
+                         data-field-key="${fieldDef.key}"
+                         ${isDirty ? 'open' : ''}>
                     <summary class="cr-apply-field__header">
                         <span class="cr-apply-field__label">${fieldDef.label}</span>
                         <span class="cr-apply-field__badge cr-apply-field__badge--filled">
                             ${depthInfo}
                         </span>
-                        <span class="cr-apply-field__dirty" style="display: none;">modified</span>
+                        <span class="cr-apply-field__dirty" style="display: ${isDirty ? 'inline' : 'none'};">modified</span>
                     </summary>
                     <div class="cr-apply-field__content">
+                        ${renderSourceToggle(fieldDef.key, rewrite !== undefined)}
+                        ${startHunkReview(fieldDef.key, promptValue, rewrite)}
                         <textarea
                             class="cr-apply-textarea text_pole"
                             data-field-key="${fieldDef.key}"
                             data-field-type="depth_prompt"
                             data-original="${encodeURIComponent(promptValue)}"
+                            ${rewrite !== undefined ? `data-rewrite="${encodeURIComponent(rewrite)}"` : ''}
                             data-depth="${dp.depth ?? 4}"
                             data-role="${dp.role ?? 'system'}"
                             rows="6"
                             placeholder="Depth prompt content..."
-                        >${escapedValue}</textarea>
+                        >${DOMPurify.sanitize(value)}</textarea>
                     </div>
                 </details>
             `;
@@ -146,25 +444,33 @@ export async function showApplyDialog(): Promise<void> {
                 ? formatFieldForEditing(populatedField)
                 : '';
             const hasContent = originalValue.length > 0;
-            const escapedValue = DOMPurify.sanitize(originalValue);
+            const rewrite = rewritten[fieldDef.key];
+            const value = rewrite ?? originalValue;
+            const isDirty = value !== originalValue;
+            if (isDirty) modifiedFields.set(fieldDef.key, value);
 
             return /* html */ `
-            <details class="cr-apply-field" data-field-key="${fieldDef.key}">
+            <details class="cr-apply-field ${isDirty ? 'cr-apply-field--dirty' : ''}"
+                     data-field-key="${fieldDef.key}"
+                     ${isDirty ? 'open' : ''}>
                 <summary class="cr-apply-field__header">
                     <span class="cr-apply-field__label">${fieldDef.label}</span>
                     <span class="cr-apply-field__badge cr-apply-field__tokens ${hasContent ? 'cr-apply-field__badge--filled' : 'cr-apply-field__badge--empty'}" data-field="${fieldDef.key}">
                         ${hasContent ? '...' : 'empty'}
                     </span>
-                    <span class="cr-apply-field__dirty" style="display: none;">modified</span>
+                    <span class="cr-apply-field__dirty" style="display: ${isDirty ? 'inline' : 'none'};">modified</span>
                 </summary>
                 <div class="cr-apply-field__content">
+                    ${renderSourceToggle(fieldDef.key, rewrite !== undefined)}
+                    ${startHunkReview(fieldDef.key, originalValue, rewrite)}
                     <textarea
                         class="cr-apply-textarea text_pole"
                         data-field-key="${fieldDef.key}"
                         data-original="${encodeURIComponent(originalValue)}"
+                        ${rewrite !== undefined ? `data-rewrite="${encodeURIComponent(rewrite)}"` : ''}
                         rows="6"
                         placeholder="Paste content here..."
-                    >${escapedValue}</textarea>
+                    >${DOMPurify.sanitize(value)}</textarea>
                 </div>
             </details>
         `;
@@ -202,7 +508,11 @@ export async function showApplyDialog(): Promise<void> {
 
             <div class="cr-apply-footer">
                 <p class="cr-text-sm cr-text-dim">
-                    Copy from the rewrite output and paste into the fields you want to update.
+                    ${
+                        Object.keys(rewritten).length > 0
+                            ? 'Fields the rewrite covers are filled in with the rewritten text. Accept or reject each change under Review changes, or switch a whole field back to the original.'
+                            : 'No fields could be read from the rewrite output. Copy from it and paste into the fields you want to update.'
+                    }
                     Modified fields are highlighted. Changes are only saved when you click an action button.
                 </p>
             </div>
@@ -211,12 +521,25 @@ export async function showApplyDialog(): Promise<void> {
 
     const ctx = SillyTavern.getContext();
 
-    // Track modified fields - updated on input, read after popup closes
-    const modifiedFields: Map<string, string> = new Map();
-    // Track ALL greeting values (we need complete array when saving)
-    const currentGreetings: string[] = [...alternateGreetings];
-    // Track if any greeting was modified
-    let greetingsModified = false;
+    // Track ALL greetings in order (we need complete array when saving)
+    let currentGreetings = toDrafts(initialGreetings);
+
+    // Redraw the greeting editors after greetings are added, removed,
+    // moved or swapped for another source
+    const renderGreetings = (fieldEl: Element) => {
+        const container = fieldEl.querySelector('.cr-apply-greetings');
+        const addBtn = container?.querySelector('[data-action="add-greeting"]');
+        if (!container || !addBtn) return;
+
+        container
+            .querySelectorAll('.cr-apply-greetings__item, :scope > p')
+            .forEach((item) => item.remove());
+        addBtn.insertAdjacentHTML(
+            'beforebegin',
+            renderGreetingItems(currentGreetings, alternateGreetings),
+        );
+        setFieldDirty(fieldEl, greetingsDiffer(currentGreetings));
+    };
 
     // Event delegation handler - works regardless of when elements are created
     const handleInput = (e: Event) => {
@@ -238,48 +561,20 @@ export async function showApplyDialog(): Promise<void> {
             const greetingIndex = parseInt(greetingIndexStr, 10);
 
             // Always update the current value in our tracking array
-            currentGreetings[greetingIndex] = textarea.value;
-
-            if (isDirty) {
-                greetingsModified = true;
-            }
+            currentGreetings[greetingIndex].value = textarea.value;
 
             // Check if ANY greeting differs from original
-            const anyGreetingDirty =
-                currentGreetings.some((val, idx) => {
-                    const orig = alternateGreetings[idx] || '';
-                    return val !== orig;
-                }) || currentGreetings.length !== alternateGreetings.length;
-
-            // Update dirty state for the parent field
-            const fieldEl = textarea.closest('.cr-apply-field');
-            const dirtyBadge = fieldEl?.querySelector(
-                '.cr-apply-field__dirty',
-            ) as HTMLElement;
-            if (fieldEl) {
-                fieldEl.classList.toggle(
-                    'cr-apply-field--dirty',
-                    anyGreetingDirty,
-                );
-            }
-            if (dirtyBadge) {
-                dirtyBadge.style.display = anyGreetingDirty ? 'inline' : 'none';
-            }
+            setFieldDirty(
+                textarea.closest('.cr-apply-field'),
+                greetingsDiffer(currentGreetings),
+            );
             return;
         }
 
         // Standard field handling
         const fieldEl = textarea.closest('.cr-apply-field');
-        const dirtyBadge = fieldEl?.querySelector(
-            '.cr-apply-field__dirty',
-        ) as HTMLElement;
-
-        if (fieldEl) {
-            fieldEl.classList.toggle('cr-apply-field--dirty', isDirty);
-        }
-        if (dirtyBadge) {
-            dirtyBadge.style.display = isDirty ? 'inline' : 'none';
-        }
+        setFieldDirty(fieldEl, isDirty);
+        if (fieldKey) syncHunkReview(fieldKey, fieldEl, textarea);
 
         // Track modified fields for later
         if (fieldKey) {
@@ -291,45 +586,128 @@ export async function showApplyDialog(): Promise<void> {
         }
     };
 
-    // Handle Add Greeting button clicks
+    // Match a field's hunk review to its text: all accepted for the
+    // rewrite, all rejected for the original, stale for anything the
+    // hunks can't rebuild
+    const syncHunkReview = (
+        fieldKey: string,
+        fieldEl: Element | null,
+        textarea: HTMLTextAreaElement,
+    ) => {
+        const review = hunkReviews.get(fieldKey);
+        const body = fieldEl?.querySelector('.cr-apply-hunks__body');
+        if (!review || !body) return;
+
+        const { value } = textarea;
+        const { original, rewrite } = textarea.dataset;
+        if (value === decodeURIComponent(rewrite ?? '')) {
+            review.accepted.fill(true);
+        } else if (value === decodeURIComponent(original ?? '')) {
+            review.accepted.fill(false);
+        }
+        review.stale = mergeHunks(review.segments, review.accepted) !== value;
+        body.innerHTML = renderHunkReview(fieldKey, review);
+    };
+
+    // Accept or reject one hunk and rebuild the field's text
+    const handleHunkClick = (button: HTMLElement) => {
+        const fieldKey = button.dataset.fieldKey ?? '';
+        const review = hunkReviews.get(fieldKey);
+        const textarea = button
+            .closest('.cr-apply-field')
+            ?.querySelector('.cr-apply-textarea') as HTMLTextAreaElement | null;
+        if (!review || review.stale || !textarea) return;
+
+        const index = parseInt(button.dataset.hunk ?? '', 10);
+        review.accepted[index] = button.dataset.action === 'accept-hunk';
+        textarea.value = mergeHunks(review.segments, review.accepted);
+        // Runs the input handler, which tracks the change
+        textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+
+    // Switch a field between its rewritten and original text
+    const handleSourceClick = (button: HTMLElement) => {
+        const fieldKey = button.dataset.fieldKey;
+        const fieldEl = button.closest('.cr-apply-field');
+        const useRewrite = button.dataset.action === 'use-rewrite';
+        if (!fieldKey || !fieldEl) return;
+
+        if (fieldKey === 'alternate_greetings') {
+            currentGreetings = toDrafts(
+                useRewrite ? (rewrittenGreetings ?? []) : alternateGreetings,
+            );
+            renderGreetings(fieldEl);
+            return;
+        }
+
+        const textarea = fieldEl.querySelector(
+            '.cr-apply-textarea',
+        ) as HTMLTextAreaElement | null;
+        if (!textarea) return;
+
+        textarea.value = decodeURIComponent(
+            (useRewrite
+                ? textarea.dataset.rewrite
+                : textarea.dataset.original) ?? '',
+        );
+        // Runs the input handler, which tracks the change
+        textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+
+    // Handle source, hunk and greeting button clicks
     const handleClick = (e: Event) => {
         const target = e.target as HTMLElement;
-        const addBtn = target.closest('[data-action="add-greeting"]');
-        if (!addBtn) return;
+        const sourceBtn = target.closest(
+            '[data-action="use-rewrite"], [data-action="use-original"]',
+        ) as HTMLElement | null;
+        if (sourceBtn) {
+            e.preventDefault();
+            handleSourceClick(sourceBtn);
+            return;
+        }
 
-        e.preventDefault();
-        const container = addBtn.closest('.cr-apply-greetings');
-        if (!container) return;
+        const hunkBtn = target.closest(
+            '[data-action="accept-hunk"], [data-action="reject-hunk"]',
+        ) as HTMLElement | null;
+        if (hunkBtn) {
+            e.preventDefault();
+            handleHunkClick(hunkBtn);
+            return;
+        }
 
-        const newIndex = currentGreetings.length;
-        currentGreetings.push(''); // Add empty slot
-        greetingsModified = true;
+        const greetingBtn = target.closest(
+            '[data-action="add-greeting"], [data-action="remove-greeting"], [data-action="move-greeting"]',
+        ) as HTMLElement | null;
+        const fieldEl = greetingBtn?.closest('.cr-apply-field');
+        if (!greetingBtn || !fieldEl) return;
 
-        const newItem = document.createElement('div');
-        newItem.className = 'cr-apply-greetings__item';
-        newItem.innerHTML = /* html */ `
-            <span class="cr-apply-greetings__label">Greeting ${newIndex + 1} (new)</span>
-            <textarea
-                class="cr-apply-textarea cr-apply-greeting text_pole"
-                data-field-key="alternate_greetings"
-                data-greeting-index="${newIndex}"
-                data-original=""
-                rows="4"
-                placeholder="New greeting..."
-            ></textarea>
-        `;
-        container.insertBefore(newItem, addBtn);
-
-        // Update dirty state
-        const fieldEl = container.closest('.cr-apply-field');
-        const dirtyBadge = fieldEl?.querySelector(
-            '.cr-apply-field__dirty',
-        ) as HTMLElement;
-        if (fieldEl) {
-            fieldEl.classList.add('cr-apply-field--dirty');
+        e.preventDefault();
+        const index = parseInt(greetingBtn.dataset.greetingIndex ?? '', 10);
+
+        switch (greetingBtn.dataset.action) {
+            case 'add-greeting':
+                currentGreetings.push({ value: '', from: null });
+                break;
+            case 'remove-greeting':
+                currentGreetings.splice(index, 1);
+                break;
+            case 'move-greeting': {
+                const to = index + Number(greetingBtn.dataset.direction);
+                if (to < 0 || to >= currentGreetings.length) return;
+                [currentGreetings[index], currentGreetings[to]] = [
+                    currentGreetings[to],
+                    currentGreetings[index],
+                ];
+                break;
+            }
         }
-        if (dirtyBadge) {
-            dirtyBadge.style.display = 'inline';
+        renderGreetings(fieldEl);
+
+        if (greetingBtn.dataset.action === 'add-greeting') {
+            const textareas = fieldEl.querySelectorAll('.cr-apply-greeting');
+            (
+                textareas[textareas.length - 1] as HTMLElement | undefined
+            )?.focus();
         }
     };
 
@@ -371,22 +749,21 @@ export async function showApplyDialog(): Promise<void> {
     }
 
     // Build fields to apply
-    const fieldsToApply = Array.from(modifiedFields.entries()).map(
+    const fieldsToApply: FieldEdit[] = Array.from(modifiedFields.entries()).map(
         ([key, value]) => ({ key, value }),
     );
 
     // Handle alternate greetings - use tracked values (DOM is already removed)
-    if (greetingsModified) {
-        // Filter out empty greetings
-        const nonEmptyGreetings = currentGreetings.filter((g) => g.trim());
-
-        // Add to fields if there are greetings OR if we're clearing them
-        if (nonEmptyGreetings.length > 0 || alternateGreetings.length > 0) {
-            fieldsToApply.push({
-                key: 'alternate_greetings',
-                value: nonEmptyGreetings.join('\n---\n'),
-            });
-        }
+    const nonEmptyGreetings = currentGreetings
+        .map((g) => g.value)
+        .filter((g) => g.trim());
+
+    // Write them only if the list (blank ones dropped) differs from the card's
+    if (greetingsDiffer(toDrafts(nonEmptyGreetings))) {
+        fieldsToApply.push({
+            key: 'alternate_greetings',
+            value: nonEmptyGreetings,
+        });
     }
 
     if (fieldsToApply.length === 0) {
@@ -401,7 +778,7 @@ export async function showApplyDialog(): Promise<void> {
     // - 3: second custom button ('Download JSON')
     if (result === true || result === 1) {
         // Apply to Card - modifies the original character
-        await applyFieldsToCharacter(char.avatar, char.name, fieldsToApply);
+        await applyFieldsToCharacter(char.avatar, fieldsToApply);
     } else if (result === 2) {
         // Download PNG - creates a new file without modifying original
         await savePngWithFields(char.avatar, char.name, fieldsToApply);
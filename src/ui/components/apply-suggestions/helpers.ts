@@ -3,7 +3,7 @@
 // HELPER FUNCTIONS
 // =============================================================================
 
-import { getTokenCountsKeyed } from '../../../shared';
+import { GREETING_SEPARATOR, getTokenCountsKeyed } from '../../../shared';
 import { formatTokenCount } from '../base';
 import type { CharacterField, PopulatedField } from '../../../types';
 
@@ -24,7 +24,7 @@ export function formatFieldForEditing(field: PopulatedField): string {
 
     // Arrays: join with separator
     if (type === 'array' && Array.isArray(rawValue)) {
-        return rawValue.join('\n---\n');
+        return rawValue.join(GREETING_SEPARATOR);
     }
 
     // Objects: special handling based on field type
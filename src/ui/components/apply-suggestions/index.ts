@@ -6,3 +6,6 @@
 
 // Main dialog
 export { showApplyDialog } from './dialog';
+
+// Restoring backups of applied changes
+export { rollbackAppliedChange } from './apply';
@@ -1,14 +1,25 @@
 // src/ui/components/compare-view.ts
 // =============================================================================
 // COMPARE VIEW COMPONENT
-// Side-by-side diff showing Original vs Rewritten for each field
+// Word- or sentence-level diff of Original vs Rewritten for each field, side
+// by side or inline, or the original next to every candidate of a candidate
+// rewrite
 // =============================================================================
 
-import { MODULE_NAME } from '../../shared';
+import { MODULE_NAME, getTokenCountsKeyed } from '../../shared';
 import { getState } from '../../state';
-import { $ } from './base';
+import { $, cx, formatTokenCount } from './base';
 import { withRenderBoundary } from '../error-boundary';
+import { escapeHtml } from '../formatter/helpers';
 import { getPopulatedFields } from '../../domain/character/fields';
+import { parseRewriteOutput } from '../../domain/pipeline/rewrite-output';
+import {
+    diffText,
+    summarizeDiff,
+    type DiffGranularity,
+    type DiffPart,
+} from '../../domain/diff';
+import type { CandidateSet, Character, PopulatedField } from '../../types';
 
 // =============================================================================
 // TYPES
@@ -22,96 +33,79 @@ interface FieldComparison {
     hasChanges: boolean;
 }
 
+type CompareLayout = 'split' | 'unified';
+
 // =============================================================================
-// DIFF UTILITIES
+// MODULE STATE
 // =============================================================================
 
-/**
- * Extract field values from rewrite output.
- * Assumes the rewrite output contains markdown sections with field names.
- */
-function parseRewriteOutput(output: string): Record<string, string> {
-    const fields: Record<string, string> = {};
-
-    // Match sections like "### Description" or "## Personality"
-    const sectionRegex = /^#{2,3}\s*(.+?)[\s:]*$/gm;
-    const sections: { name: string; start: number }[] = [];
-
-    // Safeguard: limit number of sections to prevent UI hang on malformed LLM output
-    const MAX_SECTIONS = 50;
-    let match;
-    while ((match = sectionRegex.exec(output)) !== null) {
-        sections.push({
-            name: match[1].trim().toLowerCase(),
-            start: match.index + match[0].length,
-        });
+let compareLayout: CompareLayout = 'split';
+let diffGranularity: DiffGranularity = 'word';
 
-        // Stop parsing if we hit the limit (unusual for valid output)
-        if (sections.length >= MAX_SECTIONS) break;
-    }
+export function setCompareLayout(layout: CompareLayout): void {
+    compareLayout = layout;
+}
 
-    // Extract content between sections
-    for (let i = 0; i < sections.length; i++) {
-        const section = sections[i];
-        const nextStart = sections[i + 1]?.start ?? output.length;
-        const content = output.slice(section.start, nextStart).trim();
+export function setDiffGranularity(granularity: DiffGranularity): void {
+    diffGranularity = granularity;
+}
 
-        // Remove trailing section markers
-        const cleanContent = content.replace(/^#{2,3}\s*.+$/gm, '').trim();
+// =============================================================================
+// DIFF UTILITIES
+// =============================================================================
 
-        // Map section names to field keys
-        const fieldKey = mapSectionToFieldKey(section.name);
-        if (fieldKey && cleanContent) {
-            fields[fieldKey] = cleanContent;
-        }
+function renderPart(part: DiffPart): string {
+    const text = escapeHtml(part.text);
+    if (part.type === 'insert') {
+        return `<ins class="cr-diff cr-diff--added">${text}</ins>`;
     }
-
-    return fields;
+    if (part.type === 'delete') {
+        return `<del class="cr-diff cr-diff--removed">${text}</del>`;
+    }
+    return text;
 }
 
 /**
- * Map section name to field key.
+ * Render a diff inline, deletions and insertions marked, for a <pre>.
  */
-function mapSectionToFieldKey(sectionName: string): string | null {
-    const normalized = sectionName.toLowerCase().replace(/[^a-z0-9]/g, '');
-
-    const mappings: Record<string, string> = {
-        description: 'description',
-        personality: 'personality',
-        firstmessage: 'first_mes',
-        greeting: 'first_mes',
-        scenario: 'scenario',
-        examplemessages: 'mes_example',
-        examples: 'mes_example',
-        systemprompt: 'system_prompt',
-        system: 'system_prompt',
-        posthistoryinstructions: 'post_history_instructions',
-        posthistory: 'post_history_instructions',
-        creatornotes: 'creator_notes',
-        notes: 'creator_notes',
-        alternategreetings: 'alternate_greetings',
-        greetings: 'alternate_greetings',
-    };
-
-    return mappings[normalized] || null;
+export function renderInlineDiff(parts: DiffPart[]): string {
+    return parts.map(renderPart).join('');
 }
 
 /**
- * Sanitize text for display in the comparison view.
- * Simple side-by-side display without diff highlighting.
+ * Render a diff as the original with deletions marked, the rewrite with
+ * insertions marked, and both inline.
  */
-function highlightDiff(
-    original: string,
-    rewritten: string,
-): { originalHtml: string; rewrittenHtml: string } {
-    const DOMPurify = SillyTavern.libs.DOMPurify;
-
+function highlightDiff(parts: DiffPart[]): {
+    originalHtml: string;
+    rewrittenHtml: string;
+    unifiedHtml: string;
+} {
     return {
-        originalHtml: DOMPurify.sanitize(original),
-        rewrittenHtml: DOMPurify.sanitize(rewritten),
+        originalHtml: parts
+            .filter((p) => p.type !== 'insert')
+            .map(renderPart)
+            .join(''),
+        rewrittenHtml: parts
+            .filter((p) => p.type !== 'delete')
+            .map(renderPart)
+            .join(''),
+        unifiedHtml: renderInlineDiff(parts),
     };
 }
 
+/**
+ * Format a signed change, e.g. "+12" or "−3" (0 has no sign).
+ */
+function formatDelta(
+    delta: number,
+    format: (n: number) => string = String,
+): string {
+    if (delta > 0) return `+${format(delta)}`;
+    if (delta < 0) return `−${format(-delta)}`;
+    return '0';
+}
+
 // =============================================================================
 // COMPARISON BUILDING
 // =============================================================================
@@ -170,16 +164,23 @@ function renderComparisonRow(comparison: FieldComparison): string {
         `;
     }
 
-    const { originalHtml, rewrittenHtml } = highlightDiff(
+    const parts = diffText(
         comparison.original,
         comparison.rewritten,
+        diffGranularity,
     );
-
-    return /* html */ `
-        <div class="cr-compare-row">
-            <div class="cr-compare-row__header">
-                <span class="cr-compare-row__label">${comparison.label}</span>
+    const { originalHtml, rewrittenHtml, unifiedHtml } = highlightDiff(parts);
+    const words = summarizeDiff(parts);
+    const charDelta = comparison.rewritten.length - comparison.original.length;
+
+    const content =
+        compareLayout === 'unified'
+            ? /* html */ `
+            <div class="cr-compare-row__content cr-compare-row__content--single">
+                <pre class="cr-compare-text">${unifiedHtml}</pre>
             </div>
+        `
+            : /* html */ `
             <div class="cr-compare-row__content">
                 <div class="cr-compare-col cr-compare-col--original">
                     <div class="cr-compare-col__header">
@@ -194,10 +195,221 @@ function renderComparisonRow(comparison: FieldComparison): string {
                     <pre class="cr-compare-text">${rewrittenHtml}</pre>
                 </div>
             </div>
+        `;
+
+    return /* html */ `
+        <div class="cr-compare-row ${cx(comparison.hasChanges && 'cr-compare-row--changed')}">
+            <div class="cr-compare-row__header">
+                <span class="cr-compare-row__label">${comparison.label}</span>
+                <span class="cr-compare-row__deltas">
+                    ${
+                        comparison.hasChanges
+                            ? /* html */ `<span class="cr-diff-stats" title="Words added and removed">
+                            <span class="cr-diff-stats__add">+${words.added}</span>
+                            <span class="cr-diff-stats__del">−${words.removed}</span>
+                        </span>`
+                            : '<span class="cr-badge cr-badge--small cr-badge--muted">Identical</span>'
+                    }
+                    <span class="cr-compare-row__delta" title="Change in characters">${formatDelta(charDelta)} chars</span>
+                    <span class="cr-compare-row__delta cr-compare-row__tokens"
+                          data-field="${comparison.key}"
+                          title="Change in tokens"></span>
+                </span>
+            </div>
+            ${content}
         </div>
     `;
 }
 
+/**
+ * Render the layout and granularity toggles.
+ */
+function renderCompareToolbar(): string {
+    const button = (
+        attr: string,
+        value: string,
+        active: boolean,
+        icon: string,
+        label: string,
+        title: string,
+    ) => /* html */ `
+        <button class="cr-view-toggle__btn ${cx(active && 'cr-view-toggle__btn--active')}"
+                ${attr}="${value}"
+                type="button"
+                aria-pressed="${active}"
+                title="${title}">
+            <i class="fa-solid ${icon}"></i> ${label}
+        </button>
+    `;
+
+    return /* html */ `
+        <div class="cr-compare-toolbar">
+            <div class="cr-view-toggle">
+                ${button('data-compare-layout', 'split', compareLayout === 'split', 'fa-table-columns', 'Side by side', 'Original and rewrite in two columns')}
+                ${button('data-compare-layout', 'unified', compareLayout === 'unified', 'fa-align-left', 'Inline', 'Deletions and insertions in one column')}
+            </div>
+            <div class="cr-view-toggle">
+                ${button('data-diff-granularity', 'word', diffGranularity === 'word', 'fa-font', 'Words', 'Highlight changed words')}
+                ${button('data-diff-granularity', 'sentence', diffGranularity === 'sentence', 'fa-paragraph', 'Sentences', 'Highlight changed sentences')}
+            </div>
+        </div>
+    `;
+}
+
+// =============================================================================
+// CANDIDATES
+// =============================================================================
+
+function renderCandidateBar(set: CandidateSet): string {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const hasPicks = Object.keys(set.picks).length > 0;
+
+    const items = set.candidates
+        .map((candidate, i) => {
+            const { error } = candidate.result;
+            const failed = !!error || !candidate.result.output.trim();
+            const rank = set.ranking?.indexOf(i) ?? -1;
+            const isWinner = !failed && i === set.winner;
+
+            return /* html */ `
+                <li class="cr-candidate ${cx(isWinner && 'cr-candidate--winner', failed && 'cr-candidate--failed')}"
+                    ${failed ? `title="${DOMPurify.sanitize(error ?? 'No output').replace(/"/g, '&quot;')}"` : ''}>
+                    <span class="cr-candidate__label">
+                        <i class="fa-solid ${failed ? 'fa-circle-xmark' : isWinner ? 'fa-trophy' : 'fa-file-lines'}"></i>
+                        ${DOMPurify.sanitize(candidate.label)}
+                    </span>
+                    ${rank >= 0 ? `<span class="cr-badge cr-badge--info cr-badge--sm" title="Judge ranking">#${rank + 1}</span>` : ''}
+                    <button class="cr-candidate-use menu_button menu_button--sm"
+                            type="button"
+                            data-candidate="${i}"
+                            title="Use every field from this candidate"
+                            ${failed || (isWinner && !hasPicks) ? 'disabled' : ''}>
+                        Use all
+                    </button>
+                </li>
+            `;
+        })
+        .join('');
+
+    const judge = set.judge
+        ? /* html */ `
+            <details class="cr-collapsible">
+                <summary>
+                    <span class="cr-row">
+                        <i class="fa-solid fa-scale-balanced cr-text-accent"></i>
+                        <span>Judge</span>
+                    </span>
+                    ${set.judge.error ? `<span class="cr-badge cr-badge--warning cr-badge--sm">${DOMPurify.sanitize(set.judge.error)}</span>` : ''}
+                </summary>
+                <div class="cr-collapsible__content">
+                    <pre class="cr-compare-text">${DOMPurify.sanitize(set.judge.output) || '<span class="cr-text-dim">(empty)</span>'}</pre>
+                </div>
+            </details>
+        `
+        : '';
+
+    return /* html */ `
+        <div class="cr-candidates">
+            <ul class="cr-candidates__list">${items}</ul>
+            <div class="cr-form-group__hint">
+                Use a candidate or take fields from several, then run Analyze.
+            </div>
+            ${judge}
+        </div>
+    `;
+}
+
+function renderCandidateRow(
+    field: PopulatedField,
+    set: CandidateSet,
+    parsed: Record<string, string>[],
+): string {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const columns = set.candidates
+        .map((candidate, i) => ({ candidate, i, text: parsed[i][field.key] }))
+        .filter(({ candidate }) => candidate.result.output.trim());
+
+    if (!columns.some((c) => c.text)) {
+        return renderComparisonRow({
+            key: field.key,
+            label: field.label,
+            original: field.value,
+            rewritten: null,
+            hasChanges: false,
+        });
+    }
+
+    const selected = set.picks[field.key] ?? set.winner;
+    const cells = columns
+        .map(({ candidate, i, text }) => {
+            const active = i === selected && !!text;
+            return /* html */ `
+                <div class="cr-compare-col cr-compare-col--candidate ${cx(active && 'cr-compare-col--picked')}">
+                    <div class="cr-compare-col__header">
+                        <span class="cr-flex-1">${DOMPurify.sanitize(candidate.label)}</span>
+                        ${
+                            text
+                                ? /* html */ `<button class="cr-candidate-pick menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                                    type="button"
+                                    data-candidate="${i}"
+                                    data-field="${field.key}"
+                                    aria-pressed="${active}"
+                                    title="Use this ${DOMPurify.sanitize(field.label)}">
+                                <i class="fa-${active ? 'solid fa-circle-dot' : 'regular fa-circle'}"></i>
+                            </button>`
+                                : ''
+                        }
+                    </div>
+                    ${
+                        text
+                            ? `<pre class="cr-compare-text">${DOMPurify.sanitize(text)}</pre>`
+                            : '<div class="cr-text-dim cr-text-xs">Not rewritten</div>'
+                    }
+                </div>
+            `;
+        })
+        .join('');
+
+    return /* html */ `
+        <div class="cr-compare-row">
+            <div class="cr-compare-row__header">
+                <span class="cr-compare-row__label">${field.label}</span>
+            </div>
+            <div class="cr-compare-row__content cr-compare-row__content--candidates"
+                 style="--cr-compare-cols: ${columns.length + 1}">
+                <div class="cr-compare-col cr-compare-col--original">
+                    <div class="cr-compare-col__header">
+                        <i class="fa-solid fa-file"></i> Original
+                    </div>
+                    <pre class="cr-compare-text">${DOMPurify.sanitize(field.value)}</pre>
+                </div>
+                ${cells}
+            </div>
+        </div>
+    `;
+}
+
+function renderCandidateView(character: Character, set: CandidateSet): string {
+    const parsed = set.candidates.map((c) =>
+        parseRewriteOutput(c.result.output),
+    );
+
+    return /* html */ `
+        <div class="cr-compare-view">
+            ${renderCandidateBar(set)}
+            <div class="cr-compare-list cr-scrollable">
+                ${getPopulatedFields(character)
+                    .map((field) => renderCandidateRow(field, set, parsed))
+                    .join('')}
+            </div>
+        </div>
+    `;
+}
+
+// =============================================================================
+// RENDER
+// =============================================================================
+
 /**
  * Render compare view.
  */
@@ -224,10 +436,16 @@ const _renderCompareView = (): string => {
         `;
     }
 
+    const { candidates } = state.stageResults.rewrite;
+    if (candidates) {
+        return renderCandidateView(state.character, candidates);
+    }
+
     const comparisons = buildComparisons();
 
     return /* html */ `
         <div class="cr-compare-view">
+            ${renderCompareToolbar()}
             <div class="cr-compare-list cr-scrollable">
                 ${comparisons.map(renderComparisonRow).join('')}
             </div>
@@ -246,12 +464,45 @@ export function updateCompareView(): void {
     if (!container) return;
 
     container.innerHTML = renderCompareView();
+    void loadCompareTokens();
+}
+
+/**
+ * Fill in per-field token deltas once the counts are in.
+ * Called after the compare view renders.
+ */
+export async function loadCompareTokens(): Promise<void> {
+    const state = getState();
+    if (!state.character || state.stageResults.rewrite?.candidates) return;
+
+    const changed = buildComparisons().filter((c) => c.rewritten !== null);
+    if (changed.length === 0) return;
+
+    const results = await getTokenCountsKeyed(
+        changed.flatMap((c) => [
+            { key: `${c.key}:original`, text: c.original },
+            { key: `${c.key}:rewritten`, text: c.rewritten ?? '' },
+        ]),
+    );
+    const tokens = new Map(results.map((r) => [r.key, r.tokens]));
+
+    for (const { key } of changed) {
+        const before = tokens.get(`${key}:original`);
+        const after = tokens.get(`${key}:rewritten`);
+        const badge = document.querySelector(
+            `.cr-compare-row__tokens[data-field="${key}"]`,
+        );
+        if (badge && before != null && after != null) {
+            badge.textContent = `${formatDelta(after - before, formatTokenCount)} tokens`;
+        }
+    }
 }
 
 /**
  * Bind compare view events.
  */
 export function bindCompareViewEvents(_container: HTMLElement): () => void {
-    // No click events - compare view is read-only display
+    // Candidate picks are delegated from the results panel, which
+    // outlives this container across re-renders
     return () => {};
 }
@@ -14,6 +14,10 @@ export * from './session-dropdown';
 export * from './settings-drawer';
 export * from './preset-drawer';
 export * from './api-status';
+export * from './prompt-inspector';
+export * from './usage-view';
+export * from './rubric-editor';
+export * from './applied-changes';
 
 // UI update coordination
 export * from './update-coordinator';
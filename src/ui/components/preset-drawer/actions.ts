@@ -71,10 +71,16 @@ export async function handleSave(closeDrawer: () => void): Promise<void> {
             result = presetRegistry.getPromptPreset(preset.id)!;
             toast.success('Preset updated');
         } else {
+            // Duplicates keep the original's layout
+            const layout =
+                mode === 'duplicate'
+                    ? (preset as PromptPreset | null)?.layout
+                    : undefined;
             result = presetRegistry.registerPromptPreset({
                 name,
                 prompt,
                 stages: finalStages,
+                ...(layout ? { layout } : {}),
             });
             toast.success('Preset created');
         }
@@ -90,8 +90,13 @@ Your prompt will be combined with the selected character fields and any previous
                           spellcheck="false">${DOMPurify.sanitize(promptText)}</textarea>
             </div>
             <div class="cr-form-group__hint cr-row cr-row--between">
+                <span class="cr-text-dim">Type <code>{{</code> to insert a variable, e.g. <code>{{char}}</code> or <code>{{score.output}}</code></span>
                 <span id="${MODULE_NAME}_drawer_prompt_tokens" class="cr-text-dim">Calculating tokens...</span>
             </div>
+
+            <!-- Validation messages -->
+            <div id="${MODULE_NAME}_drawer_errors" class="cr-errors cr-hidden"></div>
+            <div id="${MODULE_NAME}_drawer_warnings" class="cr-warnings cr-hidden"></div>
         </div>
     `;
 };
@@ -9,6 +9,7 @@ import {
     formatSchema,
     generateSchemaFromDescription,
 } from '../../../domain/schema';
+import { findUnknownVariables } from '../../../domain';
 import { $, $$, on } from '../base';
 import { withRenderBoundary } from '../../error-boundary';
 import { drawerState, addCleanup } from './state';
@@ -18,6 +19,7 @@ import {
     renderPromptEditor,
     renderSchemaEditor,
 } from './form-fields';
+import { bindVariableAutocomplete } from './variable-autocomplete';
 
 // =============================================================================
 // FORM VIEW TEMPLATES
@@ -255,12 +257,26 @@ function bindPromptEvents(drawer: HTMLElement): void {
             tokensEl.textContent = `~${estimate} tokens`;
         }, 300);
 
+        // Unknown {{variables}} are sent as written - flag them while typing
+        const updateWarnings = SillyTavern.libs.lodash.debounce(() => {
+            const unknown = findUnknownVariables(promptTextarea.value);
+            showFormWarnings(
+                unknown.map(
+                    (name) =>
+                        `Unknown variable <code>{{${name}}}</code> will be sent as written`,
+                ),
+            );
+        }, 300);
+
         addCleanup(
             on(promptTextarea, 'input', () => {
                 updateTokens();
+                updateWarnings();
             }),
         );
+        addCleanup(bindVariableAutocomplete(promptTextarea));
         updateTokens();
+        updateWarnings();
     }
 }
 
@@ -454,6 +470,19 @@ export function clearValidationMessages(): void {
     warningsDiv?.classList.add('cr-hidden');
 }
 
+export function showFormWarnings(warnings: string[]): void {
+    const warningsDiv = $(`#${MODULE_NAME}_drawer_warnings`);
+    if (!warningsDiv) return;
+
+    warningsDiv.innerHTML = warnings
+        .map(
+            (w) =>
+                /* html */ `<div class="cr-warning"><i class="fa-solid fa-exclamation-triangle"></i> ${w}</div>`,
+        )
+        .join('');
+    warningsDiv.classList.toggle('cr-hidden', warnings.length === 0);
+}
+
 export function showFormErrors(errors: string[]): void {
     const errorsDiv = $(`#${MODULE_NAME}_drawer_errors`);
     if (errorsDiv) {
@@ -0,0 +1,134 @@
+// src/ui/components/preset-drawer/variable-autocomplete.ts
+// =============================================================================
+// PROMPT VARIABLE AUTOCOMPLETE
+// =============================================================================
+//
+// Suggests prompt variables while typing `{{` in the prompt editor.
+// The list sits at the bottom of the editor rather than at the caret.
+//
+// =============================================================================
+
+import { PROMPT_VARIABLES, type PromptVariable } from '../../../domain';
+import { on } from '../base';
+
+/** Most suggestions shown at once */
+const MAX_SUGGESTIONS = 8;
+
+/** An unfinished `{{name` right before the caret */
+const OPEN_TAG = /\{\{(?:#if\s+)?([\w.]*)$/;
+
+/**
+ * Attach variable autocomplete to a textarea.
+ * Returns a cleanup function that removes the listeners and the list.
+ */
+export function bindVariableAutocomplete(
+    textarea: HTMLTextAreaElement,
+): () => void {
+    const list = document.createElement('ul');
+    list.className = 'cr-var-suggest cr-hidden';
+    list.setAttribute('role', 'listbox');
+    textarea.insertAdjacentElement('afterend', list);
+
+    let matches: PromptVariable[] = [];
+    let active = 0;
+
+    const close = () => {
+        matches = [];
+        list.classList.add('cr-hidden');
+    };
+
+    const render = () => {
+        list.innerHTML = matches
+            .map(
+                (v, i) => /* html */ `
+                <li class="cr-var-suggest__item ${i === active ? 'cr-var-suggest__item--active' : ''}"
+                    role="option"
+                    aria-selected="${i === active}"
+                    data-index="${i}">
+                    <code>{{${v.name}}}</code>
+                    <span class="cr-text-dim">${v.description}</span>
+                </li>
+            `,
+            )
+            .join('');
+        list.classList.remove('cr-hidden');
+    };
+
+    const refresh = () => {
+        const before = textarea.value.slice(0, textarea.selectionStart);
+        const match = OPEN_TAG.exec(before);
+        if (!match) return close();
+
+        const typed = match[1].toLowerCase();
+        matches = PROMPT_VARIABLES.filter((v) =>
+            v.name.toLowerCase().startsWith(typed),
+        ).slice(0, MAX_SUGGESTIONS);
+        active = 0;
+
+        if (matches.length === 0) return close();
+        render();
+    };
+
+    const insert = (variable: PromptVariable) => {
+        const caret = textarea.selectionStart;
+        const before = textarea.value.slice(0, caret);
+        const match = OPEN_TAG.exec(before);
+        if (!match) return close();
+
+        const start = caret - match[1].length;
+        const after = textarea.value.slice(caret).replace(/^[\w.]*(\}\})?/, '');
+        const text = `${variable.name}}}`;
+        textarea.value = textarea.value.slice(0, start) + text + after;
+        textarea.selectionStart = textarea.selectionEnd = start + text.length;
+        close();
+        textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+
+    const cleanups = [
+        on(textarea, 'input', refresh),
+        on(textarea, 'blur', () => {
+            // Let a click on the list land first
+            setTimeout(close, 150);
+        }),
+        on(textarea, 'keydown', (e) => {
+            if (matches.length === 0) return;
+
+            switch (e.key) {
+                case 'ArrowDown':
+                case 'ArrowUp':
+                    e.preventDefault();
+                    active =
+                        (active +
+                            (e.key === 'ArrowDown' ? 1 : -1) +
+                            matches.length) %
+                        matches.length;
+                    render();
+                    break;
+                case 'Enter':
+                case 'Tab':
+                    e.preventDefault();
+                    insert(matches[active]);
+                    break;
+                case 'Escape':
+                    // Keep the drawer open
+                    e.preventDefault();
+                    e.stopPropagation();
+                    close();
+                    break;
+            }
+        }),
+        on(list, 'mousedown', (e) => {
+            const item = (e.target as HTMLElement).closest<HTMLElement>(
+                '.cr-var-suggest__item',
+            );
+            if (!item) return;
+            e.preventDefault();
+            insert(matches[Number(item.dataset.index)]);
+        }),
+    ];
+
+    return () => {
+        cleanups.forEach((fn) => fn());
+        list.remove();
+    };
+}
@@ -0,0 +1,322 @@
+// src/ui/components/prompt-inspector.ts
+// =============================================================================
+// PROMPT INSPECTOR
+// =============================================================================
+//
+// Shows exactly what a stage sends: before a run as a dry run built from the
+// current state, or after one from what the result was sent with and got back.
+//
+// =============================================================================
+
+import { STAGE_LABELS, getProfile, toast } from '../../shared';
+import { inspectStageAction } from '../../state';
+import type { StageInspection } from '../../domain';
+import { getPromptPreset, getSchemaPreset } from '../../data';
+import type { GenerationMeta, StageName, StageResult } from '../../types';
+import { escapeHtml } from '../formatter/helpers';
+import { formatTokenCount } from './base';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function renderRow(label: string, value: string, title = ''): string {
+    return /* html */ `
+        <div class="cr-inspector__row" ${title ? `title="${escapeHtml(title)}"` : ''}>
+            <span class="cr-inspector__label">${escapeHtml(label)}</span>
+            <span class="cr-inspector__value">${value}</span>
+        </div>
+    `;
+}
+
+function renderBlock(
+    title: string,
+    text: string,
+    meta = '',
+    open = false,
+): string {
+    return /* html */ `
+        <details class="cr-collapsible cr-inspector__block" ${open ? 'open' : ''}>
+            <summary>
+                <span>${escapeHtml(title)}</span>
+                ${meta ? `<span class="cr-text-xs cr-text-dim">${escapeHtml(meta)}</span>` : ''}
+            </summary>
+            <div class="cr-collapsible__content">
+                <div class="cr-preview-content">
+                    <pre>${text ? escapeHtml(text) : '<span class="cr-text-dim">(empty)</span>'}</pre>
+                </div>
+            </div>
+        </details>
+    `;
+}
+
+function renderNotes(title: string, notes: string[]): string {
+    if (notes.length === 0) return '';
+    return /* html */ `
+        <div class="cr-alert cr-alert--info">
+            <i class="fa-solid fa-circle-info cr-alert__icon"></i>
+            <div class="cr-alert__content">
+                <div class="cr-alert__title">${escapeHtml(title)}</div>
+                <div class="cr-alert__message">${notes.map((n) => `• ${escapeHtml(n)}`).join('\n')}</div>
+            </div>
+        </div>
+    `;
+}
+
+function tokens(count: number): string {
+    return `~${formatTokenCount(count)}`;
+}
+
+function formatDuration(ms: number): string {
+    return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+async function showInspector(html: string): Promise<void> {
+    const ctx = SillyTavern.getContext();
+    await ctx.callGenericPopup(html, ctx.POPUP_TYPE.TEXT, '', {
+        wide: true,
+        large: true,
+        allowVerticalScrolling: true,
+    });
+}
+
+// =============================================================================
+// RENDER
+// =============================================================================
+
+/**
+ * Render a dry-run inspection of a stage request.
+ */
+export function renderStageInspection(inspection: StageInspection): string {
+    const { api, connection, tokens: counts } = inspection;
+    const budget = Number.isFinite(inspection.budget)
+        ? tokens(Math.max(inspection.budget, 0))
+        : 'unknown';
+
+    const target = [
+        renderRow(
+            'Model',
+            escapeHtml(api.modelDisplay || api.model),
+            api.model,
+        ),
+        renderRow(
+            'Connection',
+            escapeHtml(
+                api.mode === 'profile'
+                    ? `${api.displayName} (profile)`
+                    : `${api.displayName} (current settings)`,
+            ),
+        ),
+        renderRow(
+            'Context',
+            api.contextSize > 0 ? tokens(api.contextSize) : 'unknown',
+        ),
+        renderRow('Response length', tokens(inspection.responseTokens)),
+        renderRow(
+            'Temperature',
+            connection.temperature === null
+                ? 'connection default'
+                : String(connection.temperature),
+        ),
+        renderRow('Structured output', inspection.schema ? 'yes' : 'no'),
+    ].join('');
+
+    const breakdown = [
+        renderRow('System prompt', tokens(counts.system)),
+        ...counts.sections.map((s) =>
+            renderRow(
+                `User · ${s.heading.replace(/^#+\s*/, '')}`,
+                tokens(s.tokens),
+            ),
+        ),
+        counts.schema ? renderRow('JSON schema', tokens(counts.schema)) : '',
+        counts.prefill ? renderRow('Prefill', tokens(counts.prefill)) : '',
+        renderRow('Total', `<strong>${tokens(counts.total)}</strong>`),
+        renderRow(
+            'User prompt budget',
+            budget,
+            'Context size minus response length, system prompt and a safety margin',
+        ),
+    ].join('');
+
+    const statusBadge = inspection.fits
+        ? '<span class="cr-badge cr-badge--success cr-badge--small">fits</span>'
+        : '<span class="cr-badge cr-badge--danger cr-badge--small">over budget</span>';
+
+    return /* html */ `
+        <div class="cr-inspector">
+            <h3 class="cr-inspector__title">
+                <i class="fa-solid fa-magnifying-glass"></i>
+                ${STAGE_LABELS[inspection.stage]} request
+                ${statusBadge}
+            </h3>
+            ${renderNotes('Notes', inspection.notes)}
+            ${renderNotes('Cut to fit the context window', inspection.cuts)}
+            <div class="cr-inspector__grid">
+                <section>
+                    <h4 class="cr-inspector__heading">Target</h4>
+                    ${target}
+                </section>
+                <section>
+                    <h4 class="cr-inspector__heading">Tokens</h4>
+                    ${breakdown}
+                </section>
+            </div>
+            ${renderBlock('System Prompt', inspection.systemPrompt, tokens(counts.system))}
+            ${renderBlock(
+                'User Prompt',
+                inspection.userPrompt,
+                tokens(counts.sections.reduce((sum, s) => sum + s.tokens, 0)),
+                true,
+            )}
+            ${inspection.prefill ? renderBlock('Prefill', inspection.prefill, tokens(counts.prefill)) : ''}
+            ${
+                inspection.schema
+                    ? renderBlock(
+                          'JSON Schema',
+                          JSON.stringify(inspection.schema, null, 2),
+                          tokens(counts.schema),
+                      )
+                    : ''
+            }
+        </div>
+    `;
+}
+
+function describePreset(
+    preset: { name: string } | null,
+    id: string | null,
+    version: number | null,
+): string {
+    if (!id) return 'custom';
+    const name = escapeHtml(preset?.name ?? id);
+    return version !== null ? `${name} v${version}` : name;
+}
+
+function renderGenerationMeta(meta: GenerationMeta): string {
+    const unknown = '<span class="cr-text-dim">not recorded</span>';
+    const count = (value: number | null) =>
+        value !== null ? tokens(value) : unknown;
+
+    return [
+        renderRow('Model', meta.model ? escapeHtml(meta.model) : unknown),
+        renderRow('Source', meta.source ? escapeHtml(meta.source) : unknown),
+        renderRow(
+            'Connection',
+            meta.profileId
+                ? escapeHtml(getProfile(meta.profileId)?.name ?? meta.profileId)
+                : 'current settings',
+        ),
+        renderRow(
+            'Prompt preset',
+            describePreset(
+                meta.promptPresetId
+                    ? getPromptPreset(meta.promptPresetId)
+                    : null,
+                meta.promptPresetId,
+                meta.promptPresetVersion,
+            ),
+        ),
+        renderRow(
+            'Schema preset',
+            describePreset(
+                meta.schemaPresetId
+                    ? getSchemaPreset(meta.schemaPresetId)
+                    : null,
+                meta.schemaPresetId,
+                meta.schemaPresetVersion,
+            ),
+        ),
+        renderRow(
+            'Structured output',
+            meta.structured === null
+                ? 'not used'
+                : meta.structured
+                  ? 'valid'
+                  : 'invalid',
+        ),
+        renderRow('Prompt tokens', count(meta.promptTokens)),
+        renderRow('Completion tokens', count(meta.completionTokens)),
+        renderRow(
+            'Duration',
+            meta.durationMs !== null
+                ? formatDuration(meta.durationMs)
+                : unknown,
+        ),
+        renderRow(
+            'Retries',
+            meta.retries !== null ? String(meta.retries) : unknown,
+        ),
+    ].join('');
+}
+
+/**
+ * Render what a finished stage result was sent with and got back.
+ */
+export function renderResultInspection(result: StageResult): string {
+    const rows = [
+        renderRow('Ran', new Date(result.timestamp).toLocaleString()),
+        renderRow(
+            'Finish reason',
+            result.finishReason
+                ? escapeHtml(result.finishReason)
+                : 'not reported',
+        ),
+        result.repairs ? renderRow('Repairs', String(result.repairs)) : '',
+        result.fieldResults
+            ? renderRow('Requests', String(result.fieldResults.length))
+            : '',
+        result.error ? renderRow('Error', escapeHtml(result.error)) : '',
+    ].join('');
+
+    return /* html */ `
+        <div class="cr-inspector">
+            <h3 class="cr-inspector__title">
+                <i class="fa-solid fa-magnifying-glass"></i>
+                ${STAGE_LABELS[result.stage]} result
+            </h3>
+            ${renderNotes('Cut to fit the context window', result.context?.cuts ?? [])}
+            <div class="cr-inspector__grid">
+                <section>
+                    <h4 class="cr-inspector__heading">Run</h4>
+                    ${rows}
+                </section>
+                ${
+                    result.meta
+                        ? /* html */ `
+                    <section>
+                        <h4 class="cr-inspector__heading">Generation</h4>
+                        ${renderGenerationMeta(result.meta)}
+                    </section>`
+                        : ''
+                }
+            </div>
+            ${result.systemPrompt !== undefined ? renderBlock('System Prompt', result.systemPrompt) : ''}
+            ${renderBlock('User Prompt', result.input)}
+            ${renderBlock('Raw Response', result.output, '', true)}
+        </div>
+    `;
+}
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+/**
+ * Build a stage's request from the current state and show it, unsent.
+ */
+export async function showStageInspector(stage: StageName): Promise<void> {
+    const inspection = await inspectStageAction(stage);
+    if (!inspection) {
+        toast.warning('Select a character first');
+        return;
+    }
+    await showInspector(renderStageInspection(inspection));
+}
+
+/**
+ * Show the request and raw response behind a result.
+ */
+export async function showResultInspector(result: StageResult): Promise<void> {
+    await showInspector(renderResultInspection(result));
+}
@@ -6,15 +6,26 @@
 import { MODULE_NAME, toast, log } from '../../../shared';
 import {
     getState,
+    getViewedHistoryItem,
     toggleHistory,
     viewHistoryItem,
     viewPreviousHistory,
     viewNextHistory,
     restoreHistoryItem,
+    retryFailedFieldsAction,
+    rerunHistoryItemAction,
+    getRerunPresetChanges,
+    pickRewriteCandidate,
 } from '../../../state';
 import { $, on } from '../base';
-import { bindCompareViewEvents } from '../compare-view';
+import {
+    bindCompareViewEvents,
+    setCompareLayout,
+    setDiffGranularity,
+    updateCompareView,
+} from '../compare-view';
 import { showApplyDialog } from '../apply-suggestions';
+import { showResultInspector } from '../prompt-inspector';
 import type { StageName } from '../../../types';
 import {
     getViewMode,
@@ -29,6 +40,61 @@ import {
 import { updateResults } from './update';
 import { copyToClipboard } from './clipboard';
 
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Rerun a history entry with the settings that produced it.
+ */
+function rerunHistoryItem(index: number): void {
+    const state = getState();
+    const entry = state.iterationHistory[index];
+    if (!entry) return;
+
+    for (const change of getRerunPresetChanges(entry)) {
+        toast.info(change, 'Rerun');
+    }
+
+    rerunHistoryItemAction(state, index)
+        .then((result) => {
+            updateResults();
+            if (result && !result.error) {
+                toast.success('Rerun complete');
+            } else if (result?.error) {
+                toast.warning(result.error);
+            }
+        })
+        .catch((error) => {
+            log.error('Rerun failed', error);
+        });
+}
+
+/**
+ * Switch between the result and compare views.
+ */
+function switchView(view: 'result' | 'compare'): void {
+    if (view === getViewMode()) return;
+
+    // Clean up previous compare view listeners before switching
+    const cleanup = getCompareViewCleanup();
+    if (cleanup) {
+        cleanup();
+        setCompareViewCleanup(null);
+    }
+
+    setViewMode(view);
+    updateResults();
+
+    // Bind compare view events if switching to compare
+    if (view === 'compare') {
+        const compareContent = $(`#${MODULE_NAME}_compare_content`);
+        if (compareContent) {
+            setCompareViewCleanup(bindCompareViewEvents(compareContent));
+        }
+    }
+}
+
 // =============================================================================
 // EVENT BINDING
 // =============================================================================
@@ -50,30 +116,85 @@ export function bindResultsPanelEvents(container: HTMLElement): () => void {
             const view = (btn as HTMLElement).dataset.view as
                 | 'result'
                 | 'compare';
-            if (view && view !== getViewMode()) {
-                // Clean up previous compare view listeners before switching
-                const cleanup = getCompareViewCleanup();
-                if (cleanup) {
-                    cleanup();
-                    setCompareViewCleanup(null);
-                }
+            if (view) switchView(view);
+        }),
+    );
+
+    // Rewrite candidates: open the compare view, use a candidate or one
+    // of its fields
+    cleanups.push(
+        on(container, 'click', (e) => {
+            const target = e.target as HTMLElement;
+
+            if (target.closest('.cr-candidates-compare')) {
+                switchView('compare');
+                return;
+            }
+
+            const btn = target.closest(
+                '.cr-candidate-use, .cr-candidate-pick',
+            ) as HTMLElement | null;
+            if (!btn || getState().isGenerating) return;
 
-                setViewMode(view);
+            const index = parseInt(btn.dataset.candidate || '0', 10);
+            if (pickRewriteCandidate(index, btn.dataset.field)) {
                 updateResults();
+            }
+        }),
+    );
 
-                // Bind compare view events if switching to compare
-                if (view === 'compare') {
-                    const compareContent = $(`#${MODULE_NAME}_compare_content`);
-                    if (compareContent) {
-                        setCompareViewCleanup(
-                            bindCompareViewEvents(compareContent),
-                        );
-                    }
-                }
+    // Compare view layout (side by side/inline) and diff granularity
+    cleanups.push(
+        on(container, 'click', (e) => {
+            const btn = (e.target as HTMLElement).closest(
+                '[data-compare-layout], [data-diff-granularity]',
+            ) as HTMLElement | null;
+            if (!btn || btn.getAttribute('aria-pressed') === 'true') return;
+
+            const { compareLayout, diffGranularity } = btn.dataset;
+            if (compareLayout === 'split' || compareLayout === 'unified') {
+                setCompareLayout(compareLayout);
+            } else if (
+                diffGranularity === 'word' ||
+                diffGranularity === 'sentence'
+            ) {
+                setDiffGranularity(diffGranularity);
             }
+            updateCompareView();
         }),
     );
 
+    // Keep the columns of a compare row scrolled together. Scroll events
+    // don't bubble, so this listens in the capture phase.
+    cleanups.push(
+        on(
+            container,
+            'scroll',
+            (e) => {
+                const source = e.target as HTMLElement;
+                if (!source.classList?.contains('cr-compare-text')) return;
+
+                const row = source.closest('.cr-compare-row__content');
+                if (!row) return;
+
+                const range = source.scrollHeight - source.clientHeight;
+                const ratio = range > 0 ? source.scrollTop / range : 0;
+                for (const other of row.querySelectorAll<HTMLElement>(
+                    '.cr-compare-text',
+                )) {
+                    if (other === source) continue;
+                    const top =
+                        ratio * (other.scrollHeight - other.clientHeight);
+                    // Skip tiny differences so synced columns don't echo back
+                    if (Math.abs(other.scrollTop - top) > 1) {
+                        other.scrollTop = top;
+                    }
+                }
+            },
+            true,
+        ),
+    );
+
     // JSON display mode toggle (smart/raw) - per-stage
     cleanups.push(
         on(container, 'click', (e) => {
@@ -126,6 +247,28 @@ export function bindResultsPanelEvents(container: HTMLElement): () => void {
         }),
     );
 
+    // Retry failed fields of a field-by-field rewrite
+    cleanups.push(
+        on(container, 'click', (e) => {
+            const retryBtn = (e.target as HTMLElement).closest(
+                '.cr-retry-fields-btn',
+            );
+            if (!retryBtn) return;
+
+            retryFailedFieldsAction(getState())
+                .then((result) => {
+                    if (result && !result.error) {
+                        toast.success('All fields rewritten');
+                    } else if (result?.error) {
+                        toast.warning(result.error);
+                    }
+                })
+                .catch((error) => {
+                    log.error('Field retry failed', error);
+                });
+        }),
+    );
+
     // Copy buttons (event delegation) - mode-aware copying per-stage
     const resultsContent = $(`#${MODULE_NAME}_results_content`, container);
     if (resultsContent) {
@@ -180,6 +323,41 @@ export function bindResultsPanelEvents(container: HTMLElement): () => void {
         );
     }
 
+    // Inspect buttons (event delegation) - the result shown, current or history
+    if (resultsContent) {
+        cleanups.push(
+            on(resultsContent, 'click', async (e) => {
+                const inspectBtn = (e.target as HTMLElement).closest(
+                    '.cr-result-inspect',
+                ) as HTMLElement | null;
+                if (!inspectBtn) return;
+
+                const stage = inspectBtn.dataset.stage as StageName;
+                const result =
+                    getViewedHistoryItem() ?? getState().stageResults[stage];
+                if (result) await showResultInspector(result);
+            }),
+        );
+
+        // Ensemble members - each model's own request and output
+        cleanups.push(
+            on(resultsContent, 'click', async (e) => {
+                const memberBtn = (e.target as HTMLElement).closest(
+                    '.cr-ensemble-inspect',
+                ) as HTMLElement | null;
+                if (!memberBtn) return;
+
+                const state = getState();
+                const result =
+                    getViewedHistoryItem() ??
+                    state.stageResults[state.activeStage];
+                const index = parseInt(memberBtn.dataset.member || '0', 10);
+                const member = result?.ensemble?.members[index];
+                if (member) await showResultInspector(member.result);
+            }),
+        );
+    }
+
     // History toggle - use event delegation since history section is created dynamically
     cleanups.push(
         on(container, 'click', (e) => {
@@ -218,6 +396,13 @@ export function bindResultsPanelEvents(container: HTMLElement): () => void {
                 return;
             }
 
+            // Rerun button (in nav bar)
+            if (target.closest(`#${MODULE_NAME}_history_rerun`)) {
+                const index = getState().viewingHistoryIndex;
+                if (index !== null) rerunHistoryItem(index);
+                return;
+            }
+
             // Restore button (in nav bar)
             if (target.closest(`#${MODULE_NAME}_history_restore`)) {
                 restoreHistoryItem();
@@ -245,6 +430,19 @@ export function bindResultsPanelEvents(container: HTMLElement): () => void {
             const historyList = target.closest(`#${MODULE_NAME}_history_list`);
             if (!historyList) return;
 
+            // Rerun button on individual item
+            const rerunBtn = target.closest('.cr-history-rerun');
+            if (rerunBtn) {
+                e.stopPropagation();
+                rerunHistoryItem(
+                    parseInt(
+                        (rerunBtn as HTMLElement).dataset.index || '0',
+                        10,
+                    ),
+                );
+                return;
+            }
+
             // Restore button on individual item
             const restoreBtn = target.closest('.cr-history-restore');
             if (restoreBtn) {
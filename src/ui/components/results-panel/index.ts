@@ -5,10 +5,10 @@
 // Panel for displaying pipeline results, history navigation, and compare view.
 
 // Rendering
-export { renderResultsPanel } from './templates';
+export { renderResultsPanel, describeIterationSummary } from './templates';
 
 // Updates
-export { updateResults } from './update';
+export { updateResults, updateStreamingResult } from './update';
 
 // Event binding
 export { bindResultsPanelEvents } from './events';
@@ -9,18 +9,349 @@ import { getSchemaPreset } from '../../../data/settings';
 import { cx, truncate } from '../base';
 import { withRenderBoundary } from '../../error-boundary';
 import { renderCompareView } from '../compare-view';
+import { getResultsUsage, renderUsageSummary } from '../usage-view';
 import {
     formatResponse,
     formatStructuredResponse,
+    formatPartialStructuredResponse,
+    formatScoreEnsemble,
     parseStructuredResponse,
 } from '../../formatter';
-import type { StageName, StageResult } from '../../../types';
+import type {
+    IterationSummary,
+    StageName,
+    StageResult,
+    StreamingOutput,
+    StructuredOutputSchema,
+    Verdict,
+} from '../../../types';
 import { getViewMode, getJsonDisplayMode, getTextDisplayMode } from './state';
 
 // =============================================================================
 // TEMPLATE FUNCTIONS
 // =============================================================================
 
+/**
+ * Get the schema preset for a stage (for schema-aware rendering).
+ */
+function getStageSchema(stage: StageName): StructuredOutputSchema | null {
+    const stageConfig = getState().stageConfigs[stage];
+    if (!stageConfig?.schemaPresetId) return null;
+    return getSchemaPreset(stageConfig.schemaPresetId)?.schema ?? null;
+}
+
+/**
+ * Render a warning badge listing schema violations in a result.
+ */
+function renderValidationBadge(result: StageResult): string {
+    const errors = result.validationErrors ?? [];
+    if (errors.length === 0) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const title = `Response doesn't match the schema:\n${errors.join('\n')}`;
+
+    return /* html */ `
+        <span class="cr-badge cr-badge--sm cr-badge--warning"
+              title="${DOMPurify.sanitize(title).replace(/"/g, '&quot;')}">
+            <i class="fa-solid fa-triangle-exclamation"></i>
+            ${errors.length} schema issue${errors.length === 1 ? '' : 's'}
+        </span>
+    `;
+}
+
+/**
+ * Render the Apply / Export button, highlighted once Analyze accepts.
+ */
+export function renderApplyButton(verdict: Verdict | null): string {
+    const title =
+        verdict === 'ACCEPT'
+            ? 'Analyze accepted this rewrite - apply or export it'
+            : verdict === 'REGRESSION'
+              ? 'Analyze flagged this rewrite as a regression - consider restoring an earlier one first'
+              : 'Apply or export rewritten content';
+
+    return /* html */ `
+        <button class="menu_button menu_button--sm cr-apply-btn ${cx(verdict === 'ACCEPT' && 'menu_button--primary')}"
+                type="button"
+                title="${title}">
+            <i class="fa-solid ${verdict === 'ACCEPT' ? 'fa-circle-check' : 'fa-file-export'}"></i> Apply / Export
+        </button>
+    `;
+}
+
+/**
+ * Render the button that opens the prompt inspector for a result.
+ */
+function renderInspectButton(stage: StageName): string {
+    return /* html */ `
+        <button class="cr-result-inspect menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                data-stage="${stage}"
+                type="button"
+                title="Inspect request and raw response">
+            <i class="fa-solid fa-magnifying-glass"></i>
+        </button>
+    `;
+}
+
+/**
+ * Render what was cut from the prompt to fit the context window.
+ */
+function renderContextNotice(result: StageResult): string {
+    const report = result.context;
+    if (!report?.cuts.length) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const cuts = report.cuts.map((cut) => `• ${cut}`).join('\n');
+
+    return /* html */ `
+        <div class="cr-alert cr-alert--info">
+            <i class="fa-solid fa-scissors cr-alert__icon"></i>
+            <div class="cr-alert__content">
+                <div class="cr-alert__title">Prompt cut to fit the context window</div>
+                <div class="cr-alert__message">${DOMPurify.sanitize(cuts)}</div>
+            </div>
+        </div>
+    `;
+}
+
+/**
+ * Render which candidate a candidate rewrite uses, with a shortcut to the
+ * compare view where candidates are picked (current result only).
+ */
+function renderCandidateNotice(result: StageResult): string {
+    const set = result.candidates;
+    if (!set) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const state = getState();
+    const isCurrent =
+        state.stageResults[result.stage]?.timestamp === result.timestamp;
+    const failed = set.candidates.filter(
+        (c) => c.result.error || !c.result.output.trim(),
+    );
+    const picked = Object.keys(set.picks).length;
+
+    const lines = [
+        result.error
+            ? ''
+            : `Using ${set.candidates[set.winner].label}${picked ? ` with ${picked} field${picked === 1 ? '' : 's'} from other candidates` : ''}`,
+        set.ranking
+            ? `Judge ranking: ${set.ranking.map((i) => set.candidates[i].label).join(' > ')}`
+            : '',
+        set.judge?.error ? `Judge: ${set.judge.error}` : '',
+        failed.length ? `Failed: ${failed.map((c) => c.label).join(', ')}` : '',
+    ].filter(Boolean);
+
+    return /* html */ `
+        <div class="cr-alert cr-alert--info">
+            <i class="fa-solid fa-layer-group cr-alert__icon"></i>
+            <div class="cr-alert__content">
+                <div class="cr-alert__title">${set.candidates.length} rewrite candidates</div>
+                <div class="cr-alert__message">${DOMPurify.sanitize(lines.join('\n'))}</div>
+            </div>
+            ${
+                isCurrent && !result.error
+                    ? /* html */ `<button class="cr-candidates-compare menu_button menu_button--sm"
+                            type="button"
+                            title="Compare candidates and pick fields">
+                        <i class="fa-solid fa-code-compare"></i>
+                        Pick
+                    </button>`
+                    : ''
+            }
+        </div>
+    `;
+}
+
+/**
+ * Render the models of an ensemble score, each with a button to inspect its
+ * own request and output, followed by the per-criterion aggregate.
+ */
+function renderEnsembleNotice(result: StageResult): string {
+    const ensemble = result.ensemble;
+    if (!ensemble) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const members = ensemble.members
+        .map((member, i) => {
+            const failed = !!member.result.error;
+            const unscored =
+                !failed &&
+                ensemble.overall?.scores[i] == null &&
+                ensemble.fields.every((f) => f.scores[i] === null);
+            const title = failed
+                ? DOMPurify.sanitize(member.result.error ?? '').replace(
+                      /"/g,
+                      '&quot;',
+                  )
+                : unscored
+                  ? 'No readable score in the output'
+                  : 'Inspect request and raw response';
+            return /* html */ `
+                <button class="cr-ensemble-inspect menu_button menu_button--sm ${cx((failed || unscored) && 'cr-ensemble-inspect--failed')}"
+                        data-member="${i}"
+                        type="button"
+                        title="${title}">
+                    <i class="fa-solid ${failed || unscored ? 'fa-circle-xmark' : 'fa-magnifying-glass'}"></i>
+                    ${DOMPurify.sanitize(member.label)}
+                </button>
+            `;
+        })
+        .join('');
+
+    return /* html */ `
+        <div class="cr-alert cr-alert--info">
+            <i class="fa-solid fa-people-group cr-alert__icon"></i>
+            <div class="cr-alert__content">
+                <div class="cr-alert__title">Scored by ${ensemble.members.length} models</div>
+                <div class="cr-row cr-row--wrap">${members}</div>
+            </div>
+        </div>
+        ${formatScoreEnsemble(ensemble)}
+    `;
+}
+
+/**
+ * Render how a rubric computed the overall score: each criterion's score on
+ * its scale and weight, plus the model's own overall when it gave one.
+ */
+function renderRubricNotice(result: StageResult): string {
+    const rubric = result.rubric;
+    if (!rubric) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const criteria = rubric.criteria
+        .map(
+            (c) => /* html */ `
+                <span class="cr-badge cr-badge--sm ${cx(c.score === null && 'cr-badge--warning')}"
+                      title="${c.score === null ? 'Not scored - left out of the overall score' : `Weight ${c.weight}`}">
+                    ${DOMPurify.sanitize(c.name)}: ${c.score ?? '-'}/${c.max} ×${c.weight}
+                </span>
+            `,
+        )
+        .join('');
+    const reported =
+        rubric.reported !== null && rubric.reported !== rubric.overall
+            ? ` The model reported ${rubric.reported}.`
+            : '';
+
+    return /* html */ `
+        <div class="cr-alert cr-alert--info">
+            <i class="fa-solid fa-scale-balanced cr-alert__icon"></i>
+            <div class="cr-alert__content">
+                <div class="cr-alert__title">Overall ${rubric.overall}/10 from rubric "${DOMPurify.sanitize(rubric.rubricName)}"</div>
+                <div class="cr-alert__message">Weighted mean of the criterion scores.${reported}</div>
+                <div class="cr-row cr-row--wrap">${criteria}</div>
+            </div>
+        </div>
+    `;
+}
+
+/**
+ * Render the per-field status of a field-by-field rewrite, with a retry
+ * button for failed fields on the current result.
+ */
+function renderFieldResults(result: StageResult): string {
+    const fields = result.fieldResults ?? [];
+    if (fields.length === 0) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const state = getState();
+    const failed = fields.filter((f) => f.error).length;
+    const canRetry =
+        failed > 0 &&
+        state.stageResults[result.stage]?.timestamp === result.timestamp;
+
+    const items = fields
+        .map((field) => {
+            const title = field.error
+                ? DOMPurify.sanitize(field.error).replace(/"/g, '&quot;')
+                : 'Rewritten';
+            return /* html */ `
+                <li class="cr-field-results__item ${cx(field.error && 'cr-field-results__item--failed')}"
+                    title="${title}">
+                    <i class="fa-solid ${field.error ? 'fa-circle-xmark' : 'fa-circle-check'}"></i>
+                    ${DOMPurify.sanitize(field.label)}
+                </li>
+            `;
+        })
+        .join('');
+
+    return /* html */ `
+        <div class="cr-field-results">
+            <div class="cr-row cr-row--between">
+                <span class="cr-text-xs cr-text-dim">
+                    ${fields.length - failed} of ${fields.length} fields rewritten
+                </span>
+                ${
+                    canRetry
+                        ? /* html */ `<button class="cr-retry-fields-btn menu_button menu_button--sm"
+                                type="button"
+                                ${state.isGenerating ? 'disabled' : ''}
+                                title="Run only the failed fields again">
+                            <i class="fa-solid fa-rotate-right"></i>
+                            Retry ${failed} failed
+                        </button>`
+                        : ''
+                }
+            </div>
+            <ul class="cr-field-results__list">${items}</ul>
+        </div>
+    `;
+}
+
+/**
+ * Render output that is still streaming in.
+ * Structured output is rendered progressively from partial JSON.
+ */
+const _renderStreamingContent = (stream: StreamingOutput): string => {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const { stage, text, streams } = stream;
+    const config = getState().stageConfigs[stage];
+
+    const looksStructured =
+        config?.useStructuredOutput || /^\s*(```|[{[])/.test(text);
+    const partialHtml = looksStructured
+        ? formatPartialStructuredResponse(text, getStageSchema(stage))
+        : null;
+
+    let contentHtml: string;
+    if (!text && !streams) {
+        contentHtml = /* html */ `
+            <div class="cr-text-dim cr-text-sm">
+                <i class="fa-solid fa-circle-info"></i>
+                Streaming isn't available for text completion APIs. The output appears when the stage finishes, or select a connection profile to stream it.
+            </div>`;
+    } else if (!text) {
+        contentHtml = /* html */ `<div class="cr-text-dim cr-text-sm">Waiting for response...</div>`;
+    } else if (partialHtml !== null) {
+        contentHtml = partialHtml;
+    } else if (looksStructured) {
+        contentHtml = /* html */ `<pre class="cr-result__raw">${DOMPurify.sanitize(text)}</pre>`;
+    } else {
+        contentHtml = formatResponse(text);
+    }
+
+    return /* html */ `
+        <div class="cr-result cr-result--streaming" data-stage="${stage}" aria-busy="true">
+            <div class="cr-result__header">
+                <span class="cr-result__type">
+                    <i class="fa-solid fa-spinner fa-spin"></i>
+                    ${STAGE_LABELS[stage]} - Generating...
+                </span>
+                <span class="cr-text-xs cr-text-dim">${text.length.toLocaleString()} chars</span>
+            </div>
+            <div class="cr-result__content" aria-live="polite">
+                ${contentHtml}
+            </div>
+        </div>
+    `;
+};
+export const renderStreamingContent = withRenderBoundary(
+    _renderStreamingContent,
+    { name: 'StreamingContent' },
+);
+
 /**
  * Render the content for a single result.
  */
@@ -41,7 +372,8 @@ const _renderResultContent = (
         `;
     }
 
-    if (result.error) {
+    // Failed before anything usable arrived
+    if (result.error && !result.output) {
         return /* html */ `
             <div class="cr-alert cr-alert--danger">
                 <i class="fa-solid fa-exclamation-triangle cr-alert__icon"></i>
@@ -49,10 +381,35 @@ const _renderResultContent = (
                     <div class="cr-alert__title">Error</div>
                     <div class="cr-alert__message">${DOMPurify.sanitize(result.error)}</div>
                 </div>
+                ${renderInspectButton(stage)}
             </div>
+            ${renderContextNotice(result)}
+            ${renderCandidateNotice(result)}
+            ${renderEnsembleNotice(result)}
+            ${renderFieldResults(result)}
         `;
     }
 
+    // Interrupted mid-stream - keep what was received, flagged as partial
+    const partialNotice = result.error
+        ? /* html */ `
+            <div class="cr-alert cr-alert--warning">
+                <i class="fa-solid fa-triangle-exclamation cr-alert__icon"></i>
+                <div class="cr-alert__content">
+                    <div class="cr-alert__title">Partial output</div>
+                    <div class="cr-alert__message">${DOMPurify.sanitize(result.error)}</div>
+                </div>
+            </div>
+        `
+        : '';
+    const notices =
+        partialNotice +
+        renderContextNotice(result) +
+        renderCandidateNotice(result) +
+        renderEnsembleNotice(result) +
+        renderRubricNotice(result) +
+        renderFieldResults(result);
+
     // Check if content is JSON
     const parsedJson = parseStructuredResponse(result.output);
     const isJson = parsedJson !== null && typeof parsedJson === 'object';
@@ -62,13 +419,7 @@ const _renderResultContent = (
         const formattedJson = JSON.stringify(parsedJson, null, 2);
 
         // Get schema from state if available (for schema-aware rendering)
-        const state = getState();
-        const stageConfig = state.stageConfigs[stage];
-        let schema = null;
-        if (stageConfig?.schemaPresetId) {
-            const preset = getSchemaPreset(stageConfig.schemaPresetId);
-            schema = preset?.schema ?? null;
-        }
+        const schema = getStageSchema(stage);
 
         // Render based on display mode (per-stage)
         const jsonMode = getJsonDisplayMode(stage);
@@ -89,11 +440,21 @@ const _renderResultContent = (
         }
 
         return /* html */ `
+            ${notices}
             <div class="cr-result" data-stage="${stage}">
                 <div class="cr-result__header">
                     <span class="cr-result__type">
                         <i class="fa-solid fa-brackets-curly"></i>
                         Structured Output
+                        ${
+                            result.repairs
+                                ? /* html */ `<span class="cr-badge cr-badge--sm"
+                                      title="The model needed ${result.repairs} follow-up request${result.repairs === 1 ? '' : 's'} to match the schema">
+                                    repaired ×${result.repairs}
+                                </span>`
+                                : ''
+                        }
+                        ${renderValidationBadge(result)}
                     </span>
                     <div class="cr-result__actions">
                         <div class="cr-json-toggle" data-stage="${stage}">
@@ -119,6 +480,7 @@ const _renderResultContent = (
                                 title="Copy to clipboard">
                             <i class="fa-solid fa-copy"></i>
                         </button>
+                        ${renderInspectButton(stage)}
                     </div>
                 </div>
                 <div class="cr-result__content">
@@ -139,6 +501,7 @@ const _renderResultContent = (
     }
 
     return /* html */ `
+        ${notices}
         <div class="cr-result" data-stage="${stage}">
             <div class="cr-result__header">
                 <span class="cr-result__type">
@@ -168,6 +531,7 @@ const _renderResultContent = (
                             title="Copy to clipboard">
                         <i class="fa-solid fa-copy"></i>
                     </button>
+                    ${renderInspectButton(stage)}
                 </div>
             </div>
             <div class="cr-result__content">
@@ -215,8 +579,23 @@ const _renderHistoryItem = (result: StageResult, index: number): string => {
                     <span class="cr-text-xs cr-text-dim" title="${fullTime}">${timeStr}</span>
                 </div>
                 <div class="cr-list-item__subtitle cr-truncate">${DOMPurify.sanitize(preview)}</div>
+                ${
+                    result.meta?.model
+                        ? /* html */ `<div class="cr-text-xs cr-text-dim cr-truncate" title="Model">
+                              <i class="fa-solid fa-microchip"></i>
+                              ${DOMPurify.sanitize(result.meta.model)}
+                          </div>`
+                        : ''
+                }
             </div>
             <div class="cr-list-item__actions">
+                <button class="cr-history-rerun menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                        data-index="${index}"
+                        type="button"
+                        title="${result.snapshot ? 'Run again with the same settings' : 'Settings were not recorded for this result'}"
+                        ${result.snapshot ? '' : 'disabled'}>
+                    <i class="fa-solid fa-rotate-right"></i>
+                </button>
                 <button class="cr-history-restore menu_button menu_button--icon menu_button--sm menu_button--ghost"
                         data-index="${index}"
                         type="button"
@@ -231,6 +610,43 @@ export const renderHistoryItem = withRenderBoundary(_renderHistoryItem, {
     name: 'HistoryItem',
 });
 
+const STOP_REASON_MESSAGES: Record<IterationSummary['stopReason'], string> = {
+    accepted: 'Analyze accepted the rewrite',
+    regression: 'Stopped: the last rewrite regressed',
+    max_iterations: 'Stopped: iteration limit reached',
+    token_budget: 'Stopped: token budget reached',
+    no_verdict: 'Stopped: no verdict found in the analysis',
+    error: 'Stopped after an error',
+    aborted: 'Stopped by user',
+};
+
+/**
+ * Describe how an auto-iterate run ended.
+ */
+export function describeIterationSummary(summary: IterationSummary): string {
+    return `${STOP_REASON_MESSAGES[summary.stopReason]} after ${summary.iterations} iteration${summary.iterations === 1 ? '' : 's'} (~${summary.tokensUsed.toLocaleString()} tokens).`;
+}
+
+/**
+ * Render the last auto-iterate run's outcome at the top of the run history.
+ */
+export function renderIterationSummary(
+    summary: IterationSummary | null,
+): string {
+    if (!summary) return '';
+
+    const moment = SillyTavern.libs.moment;
+    const m = moment(summary.finishedAt);
+
+    return /* html */ `
+        <div class="cr-history__summary">
+            <i class="fa-solid fa-arrows-rotate"></i>
+            <span>Last auto-iterate: ${describeIterationSummary(summary)}</span>
+            <span class="cr-text-dim" title="${m.format('MMM D, h:mm A')}">${m.fromNow()}</span>
+        </div>
+    `;
+}
+
 /**
  * Render the complete results panel.
  */
@@ -279,6 +695,13 @@ const _renderResultsPanel = (): string => {
                             ${state.viewingHistoryIndex === state.iterationHistory.length - 1 ? 'disabled' : ''}>
                         <i class="fa-solid fa-chevron-right"></i>
                     </button>
+                    <button class="cr-history-nav__btn menu_button menu_button--sm"
+                            id="${MODULE_NAME}_history_rerun"
+                            type="button"
+                            title="${viewedHistoryItem.snapshot ? 'Run again with the same settings' : 'Settings were not recorded for this result'}"
+                            ${viewedHistoryItem.snapshot ? '' : 'disabled'}>
+                        <i class="fa-solid fa-rotate-right"></i> Rerun
+                    </button>
                     <button class="cr-history-nav__btn menu_button menu_button--primary menu_button--sm"
                             id="${MODULE_NAME}_history_restore"
                             type="button"
@@ -313,17 +736,7 @@ const _renderResultsPanel = (): string => {
                     <i class="fa-solid fa-code-compare"></i> Compare
                 </button>
             </div>
-            ${
-                hasUpdates
-                    ? /* html */ `
-                <button class="menu_button menu_button--primary menu_button--sm cr-apply-btn"
-                        type="button"
-                        title="Apply or export rewritten content">
-                    <i class="fa-solid fa-file-export"></i> Apply / Export
-                </button>
-            `
-                    : ''
-            }
+            ${hasUpdates ? renderApplyButton(state.verdict) : ''}
         `
         : '';
 
@@ -335,7 +748,9 @@ const _renderResultsPanel = (): string => {
           )
         : currentViewMode === 'compare' && showCompareToggle
           ? /* html */ `<div id="${MODULE_NAME}_compare_content">${renderCompareView()}</div>`
-          : renderResultContent(displayResult, state.activeStage);
+          : state.streamingOutput?.stage === state.activeStage
+            ? renderStreamingContent(state.streamingOutput)
+            : renderResultContent(displayResult, state.activeStage);
 
     // Only show history section if there's actual history
     const historySection = hasHistory
@@ -347,9 +762,11 @@ const _renderResultsPanel = (): string => {
                         title="Previous pipeline runs in this session">
                     <i class="fa-solid fa-clock-rotate-left"></i>
                     <span>Run History (${state.iterationHistory.length})</span>
+                    <span class="cr-history__usage">${renderUsageSummary(getResultsUsage(state.iterationHistory))}</span>
                     <i class="fa-solid fa-chevron-down cr-history__toggle-icon"></i>
                 </button>
                 <div id="${MODULE_NAME}_history_list" class="cr-history__list cr-list">
+                    ${renderIterationSummary(state.iterationSummary)}
                     ${state.iterationHistory
                         .map((r, i) => renderHistoryItem(r, i))
                         .join('')}
@@ -6,9 +6,16 @@
 import { MODULE_NAME } from '../../../shared';
 import { getState, getViewedHistoryItem } from '../../../state';
 import { $, morphUpdate } from '../base';
-import { renderCompareView } from '../compare-view';
+import { loadCompareTokens, renderCompareView } from '../compare-view';
+import { getResultsUsage, renderUsageSummary } from '../usage-view';
 import { getViewMode } from './state';
-import { renderResultContent, renderHistoryItem } from './templates';
+import {
+    renderResultContent,
+    renderHistoryItem,
+    renderStreamingContent,
+    renderApplyButton,
+    renderIterationSummary,
+} from './templates';
 
 // =============================================================================
 // UPDATE FUNCTION
@@ -63,6 +70,13 @@ export function updateResults(): void {
                         ${state.viewingHistoryIndex === state.iterationHistory.length - 1 ? 'disabled' : ''}>
                     <i class="fa-solid fa-chevron-right"></i>
                 </button>
+                <button class="cr-history-nav__btn menu_button menu_button--sm"
+                        id="${MODULE_NAME}_history_rerun"
+                        type="button"
+                        title="${viewedHistoryItem.snapshot ? 'Run again with the same settings' : 'Settings were not recorded for this result'}"
+                        ${viewedHistoryItem.snapshot ? '' : 'disabled'}>
+                    <i class="fa-solid fa-rotate-right"></i> Rerun
+                </button>
                 <button class="cr-history-nav__btn menu_button menu_button--primary menu_button--sm"
                         id="${MODULE_NAME}_history_restore"
                         type="button"
@@ -112,17 +126,7 @@ export function updateResults(): void {
                     <i class="fa-solid fa-code-compare"></i> Compare
                 </button>
             </div>
-            ${
-                hasUpdates
-                    ? /* html */ `
-                <button class="menu_button menu_button--primary menu_button--sm cr-apply-btn"
-                        type="button"
-                        title="Apply or export rewritten content">
-                    <i class="fa-solid fa-file-export"></i> Apply / Export
-                </button>
-            `
-                    : ''
-            }
+            ${hasUpdates ? renderApplyButton(state.verdict) : ''}
         `;
 
         if (!toolbar) {
@@ -150,6 +154,10 @@ export function updateResults(): void {
         );
     } else if (currentViewMode === 'compare' && showCompareToggle) {
         container.innerHTML = /* html */ `<div id="${MODULE_NAME}_compare_content">${renderCompareView()}</div>`;
+        void loadCompareTokens();
+    } else if (state.streamingOutput?.stage === state.activeStage) {
+        // Generation in progress for this stage
+        container.innerHTML = renderStreamingContent(state.streamingOutput);
     } else {
         // Show current stage result
         const activeResult = state.stageResults[state.activeStage];
@@ -175,6 +183,7 @@ export function updateResults(): void {
                         title="Previous pipeline runs in this session">
                     <i class="fa-solid fa-clock-rotate-left"></i>
                     <span>Run History (${state.iterationHistory.length})</span>
+                    <span class="cr-history__usage"></span>
                     <i class="fa-solid fa-chevron-down cr-history__toggle-icon"></i>
                 </button>
                 <div id="${MODULE_NAME}_history_list" class="cr-history__list cr-list">
@@ -186,9 +195,11 @@ export function updateResults(): void {
         // Update history list
         const historyList = $(`#${MODULE_NAME}_history_list`);
         if (historyList) {
-            const historyHtml = state.iterationHistory
-                .map((r, i) => renderHistoryItem(r, i))
-                .join('');
+            const historyHtml =
+                renderIterationSummary(state.iterationSummary) +
+                state.iterationHistory
+                    .map((r, i) => renderHistoryItem(r, i))
+                    .join('');
             morphUpdate(historyList, historyHtml);
         }
 
@@ -199,7 +210,49 @@ export function updateResults(): void {
         if (toggleSpan) {
             toggleSpan.textContent = `Run History (${state.iterationHistory.length})`;
         }
+        const usage = historySection.querySelector('.cr-history__usage');
+        if (usage) {
+            usage.innerHTML = renderUsageSummary(
+                getResultsUsage(state.iterationHistory),
+            );
+        }
     } else if (historySection) {
         historySection.remove();
     }
 }
+
+// =============================================================================
+// STREAMING UPDATE
+// =============================================================================
+
+// Pending animation frame for coalescing stream chunks
+let streamFrame: number | null = null;
+
+/**
+ * Update the results content with partial output while a stage streams.
+ * Chunks can arrive faster than the browser paints, so renders are
+ * coalesced to one per frame.
+ */
+export function updateStreamingResult(): void {
+    if (streamFrame !== null) return;
+
+    streamFrame = requestAnimationFrame(() => {
+        streamFrame = null;
+
+        const container = $(`#${MODULE_NAME}_results_content`);
+        if (!container) return;
+
+        const state = getState();
+        const stream = state.streamingOutput;
+        if (!stream || stream.stage !== state.activeStage) {
+            // Stream ended without a result update - drop the stale view
+            if (container.querySelector('.cr-result--streaming')) {
+                updateResults();
+            }
+            return;
+        }
+        if (getViewedHistoryItem() !== null) return;
+
+        container.innerHTML = renderStreamingContent(stream);
+    });
+}
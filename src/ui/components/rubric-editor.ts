@@ -0,0 +1,556 @@
+// src/ui/components/rubric-editor.ts
+// =============================================================================
+// RUBRIC EDITOR
+// =============================================================================
+//
+// Create and edit scoring rubrics: weighted criteria, each with its own
+// scale. Saving a rubric (re)generates its schema preset, which is how the
+// Score stage picks it up. Rubrics import and export as JSON files.
+//
+// =============================================================================
+
+import {
+    MODULE_NAME,
+    VERSION,
+    generateUniqueName,
+    log,
+    popup,
+    toast,
+} from '../../shared';
+import {
+    deleteRubric,
+    getRubrics,
+    getSchemaPreset,
+    presetRegistry,
+    saveRubric,
+} from '../../data';
+import {
+    MAX_RUBRIC_CRITERIA,
+    buildRubricSchema,
+    validateRubric,
+} from '../../domain';
+import type { Rubric, RubricCriterion } from '../../types';
+import { escapeHtml } from '../formatter/helpers';
+
+// =============================================================================
+// DRAFTS
+// =============================================================================
+
+function createCriterion(
+    name = '',
+    description = '',
+    max = 10,
+): RubricCriterion {
+    return { name, description, weight: 1, min: 1, max };
+}
+
+/**
+ * A new rubric covering the main card fields, equally weighted.
+ */
+export function createRubricDraft(): Rubric {
+    return {
+        id: crypto.randomUUID(),
+        name: 'New Rubric',
+        criteria: [
+            createCriterion(
+                'Description',
+                'Vivid, specific appearance and background without filler',
+            ),
+            createCriterion(
+                'Personality',
+                'Distinct traits that show in how the character acts and speaks',
+            ),
+            createCriterion(
+                'Scenario',
+                'A clear starting situation that gives the roleplay direction',
+            ),
+            createCriterion(
+                'First Message',
+                'An engaging opener in the character’s voice that invites a reply',
+            ),
+        ],
+        schemaPresetId: null,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+    };
+}
+
+// =============================================================================
+// SAVE / DELETE
+// =============================================================================
+
+/**
+ * Save a rubric and regenerate its schema preset (created if it's missing,
+ * e.g. deleted from the preset drawer).
+ */
+export function saveRubricWithSchema(rubric: Rubric): Rubric {
+    const schema = buildRubricSchema(rubric);
+    const baseName = `Rubric: ${rubric.name.trim()}`;
+    const existing = rubric.schemaPresetId
+        ? getSchemaPreset(rubric.schemaPresetId)
+        : null;
+
+    const name = presetRegistry.isNameUnique('schema', baseName, existing?.id)
+        ? baseName
+        : generateUniqueName(
+              baseName,
+              presetRegistry
+                  .getSchemaPresets()
+                  .filter((p) => p.id !== existing?.id)
+                  .map((p) => p.name),
+          );
+
+    let schemaPresetId: string;
+    if (existing) {
+        presetRegistry.updateSchemaPreset(existing.id, {
+            name,
+            schema,
+            stages: ['score'],
+            rubricId: rubric.id,
+        });
+        schemaPresetId = existing.id;
+    } else {
+        schemaPresetId = presetRegistry.registerSchemaPreset({
+            name,
+            schema,
+            stages: ['score'],
+            rubricId: rubric.id,
+        }).id;
+    }
+
+    return saveRubric({ ...rubric, name: rubric.name.trim(), schemaPresetId });
+}
+
+/**
+ * Delete a rubric and the schema preset generated from it.
+ */
+export async function deleteRubricWithSchema(rubric: Rubric): Promise<boolean> {
+    const confirmed = await popup.confirm(
+        'Delete Rubric',
+        `Delete "${rubric.name}" and its schema preset? Stages using the preset fall back to no schema.`,
+    );
+    if (!confirmed) return false;
+
+    if (rubric.schemaPresetId) {
+        presetRegistry.deleteSchemaPreset(rubric.schemaPresetId);
+    }
+    deleteRubric(rubric.id);
+    toast.success('Rubric deleted');
+    return true;
+}
+
+// =============================================================================
+// EDITOR
+// =============================================================================
+
+function totalWeight(draft: Rubric): number {
+    return draft.criteria.reduce(
+        (sum, c) => sum + (c.weight > 0 ? c.weight : 0),
+        0,
+    );
+}
+
+function describeShare(draft: Rubric, criterion: RubricCriterion): string {
+    const total = totalWeight(draft);
+    return total > 0 && criterion.weight > 0
+        ? `${Math.round((criterion.weight / total) * 100)}%`
+        : '-';
+}
+
+function renderCriterionRow(
+    draft: Rubric,
+    criterion: RubricCriterion,
+    index: number,
+): string {
+    return /* html */ `
+        <div class="cr-rubric-criterion" data-index="${index}">
+            <div class="cr-rubric-criterion__main">
+                <input type="text"
+                       class="cr-input text_pole"
+                       data-criterion="name"
+                       value="${escapeHtml(criterion.name)}"
+                       placeholder="Criterion"
+                       aria-label="Criterion name"/>
+                <input type="text"
+                       class="cr-input text_pole"
+                       data-criterion="description"
+                       value="${escapeHtml(criterion.description)}"
+                       placeholder="What a high score looks like"
+                       aria-label="Criterion description"/>
+            </div>
+            <label class="cr-rubric-criterion__number" title="Relative weight in the overall score">
+                <span>Weight</span>
+                <input type="number"
+                       class="cr-number-input text_pole"
+                       data-criterion="weight"
+                       value="${criterion.weight}"
+                       min="0"
+                       step="0.5"/>
+            </label>
+            <label class="cr-rubric-criterion__number" title="Lowest score">
+                <span>Min</span>
+                <input type="number"
+                       class="cr-number-input text_pole"
+                       data-criterion="min"
+                       value="${criterion.min}"
+                       step="1"/>
+            </label>
+            <label class="cr-rubric-criterion__number" title="Highest score">
+                <span>Max</span>
+                <input type="number"
+                       class="cr-number-input text_pole"
+                       data-criterion="max"
+                       value="${criterion.max}"
+                       step="1"/>
+            </label>
+            <span class="cr-rubric-criterion__share cr-text-xs cr-text-dim"
+                  title="Share of the overall score">${describeShare(draft, criterion)}</span>
+            <button class="cr-rubric-remove menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                    type="button"
+                    title="Remove criterion"
+                    ${draft.criteria.length <= 1 ? 'disabled' : ''}>
+                <i class="fa-solid fa-trash"></i>
+            </button>
+        </div>
+    `;
+}
+
+function renderCriteria(draft: Rubric): string {
+    return draft.criteria
+        .map((c, i) => renderCriterionRow(draft, c, i))
+        .join('');
+}
+
+/**
+ * Render the rubric editor form for a draft.
+ */
+export function renderRubricEditor(draft: Rubric): string {
+    return /* html */ `
+        <div class="cr-inspector cr-rubric-editor">
+            <h3 class="cr-inspector__title">
+                <i class="fa-solid fa-scale-balanced"></i>
+                Scoring Rubric
+            </h3>
+            <div class="cr-form-group">
+                <label class="cr-form-group__label" for="${MODULE_NAME}_rubric_name">Name</label>
+                <input type="text"
+                       id="${MODULE_NAME}_rubric_name"
+                       class="cr-input text_pole"
+                       value="${escapeHtml(draft.name)}"/>
+            </div>
+            <div id="${MODULE_NAME}_rubric_criteria" class="cr-stack cr-stack--tight">
+                ${renderCriteria(draft)}
+            </div>
+            <button id="${MODULE_NAME}_rubric_add"
+                    class="cr-btn cr-btn--small menu_button"
+                    type="button"
+                    ${draft.criteria.length >= MAX_RUBRIC_CRITERIA ? 'disabled' : ''}>
+                <i class="fa-solid fa-plus"></i>
+                Add Criterion
+            </button>
+            <p class="cr-text-xs cr-text-dim">
+                The model scores each criterion on its own scale. The overall score is the
+                weighted mean of the criterion scores, out of 10, computed after the response
+                arrives. Saving generates a "Rubric: …" schema preset to select in the Score stage.
+            </p>
+        </div>
+    `;
+}
+
+/**
+ * Read an edited input back into the draft.
+ */
+function readCriterionInput(draft: Rubric, input: HTMLInputElement): void {
+    if (input.id === `${MODULE_NAME}_rubric_name`) {
+        draft.name = input.value;
+        return;
+    }
+
+    const row = input.closest('.cr-rubric-criterion') as HTMLElement | null;
+    const criterion = draft.criteria[parseInt(row?.dataset.index ?? '', 10)];
+    const key = input.dataset.criterion;
+    if (!criterion || !key) return;
+
+    if (key === 'name' || key === 'description') {
+        criterion[key] = input.value;
+    } else if (key === 'weight' || key === 'min' || key === 'max') {
+        criterion[key] = parseFloat(input.value);
+    }
+}
+
+/**
+ * Edit a rubric (or a new one) in a popup and save it.
+ * Invalid rubrics reopen the editor with the errors shown.
+ *
+ * @returns The saved rubric, or null when cancelled
+ */
+export async function showRubricEditor(
+    rubric: Rubric | null = null,
+): Promise<Rubric | null> {
+    const { lodash } = SillyTavern.libs;
+    const draft: Rubric = rubric
+        ? lodash.cloneDeep(rubric)
+        : createRubricDraft();
+
+    const inEditor = (target: EventTarget | null) =>
+        target instanceof HTMLElement && !!target.closest('.cr-rubric-editor');
+    const refreshCriteria = () => {
+        const list = document.getElementById(`${MODULE_NAME}_rubric_criteria`);
+        if (list) list.innerHTML = renderCriteria(draft);
+        const addBtn = document.getElementById(
+            `${MODULE_NAME}_rubric_add`,
+        ) as HTMLButtonElement | null;
+        if (addBtn) {
+            addBtn.disabled = draft.criteria.length >= MAX_RUBRIC_CRITERIA;
+        }
+    };
+
+    const handleInput = (e: Event) => {
+        if (!inEditor(e.target)) return;
+        const input = e.target as HTMLInputElement;
+        readCriterionInput(draft, input);
+
+        // Weight shares depend on every row
+        if (input.dataset.criterion === 'weight') {
+            document
+                .querySelectorAll<HTMLElement>('.cr-rubric-criterion')
+                .forEach((row) => {
+                    const criterion =
+                        draft.criteria[parseInt(row.dataset.index ?? '', 10)];
+                    const share = row.querySelector(
+                        '.cr-rubric-criterion__share',
+                    );
+                    if (criterion && share) {
+                        share.textContent = describeShare(draft, criterion);
+                    }
+                });
+        }
+    };
+    const handleClick = (e: Event) => {
+        if (!inEditor(e.target)) return;
+        const target = e.target as HTMLElement;
+
+        if (target.closest(`#${MODULE_NAME}_rubric_add`)) {
+            draft.criteria.push(createCriterion());
+            refreshCriteria();
+            return;
+        }
+
+        const removeBtn = target.closest('.cr-rubric-remove');
+        const row = removeBtn?.closest(
+            '.cr-rubric-criterion',
+        ) as HTMLElement | null;
+        if (row && draft.criteria.length > 1) {
+            draft.criteria.splice(parseInt(row.dataset.index ?? '', 10), 1);
+            refreshCriteria();
+        }
+    };
+
+    document.addEventListener('input', handleInput);
+    document.addEventListener('click', handleClick);
+
+    try {
+        const ctx = SillyTavern.getContext();
+        for (;;) {
+            const result = await ctx.callGenericPopup(
+                renderRubricEditor(draft),
+                ctx.POPUP_TYPE.CONFIRM,
+                '',
+                {
+                    okButton: 'Save',
+                    cancelButton: 'Cancel',
+                    wide: true,
+                    allowVerticalScrolling: true,
+                },
+            );
+            if (result !== true && result !== 1) return null;
+
+            const validation = validateRubric(draft);
+            if (!validation.valid) {
+                toast.error(validation.errors.join('\n'), 'Rubric not saved');
+                continue;
+            }
+            if (validation.warnings.length > 0) {
+                toast.warning(validation.warnings.join('\n'));
+            }
+
+            const saved = saveRubricWithSchema(draft);
+            toast.success(rubric ? 'Rubric updated' : 'Rubric created');
+            return saved;
+        }
+    } finally {
+        document.removeEventListener('input', handleInput);
+        document.removeEventListener('click', handleClick);
+    }
+}
+
+// =============================================================================
+// LIST
+// =============================================================================
+
+/**
+ * Render the saved rubrics, each with edit and delete buttons.
+ */
+export function renderRubricList(): string {
+    const rubrics = getRubrics();
+    if (rubrics.length === 0) {
+        return /* html */ `<div class="cr-text-sm cr-text-dim">No rubrics yet.</div>`;
+    }
+
+    return rubrics
+        .map((rubric) => {
+            const preset = rubric.schemaPresetId
+                ? getSchemaPreset(rubric.schemaPresetId)
+                : null;
+            return /* html */ `
+                <div class="cr-rubric-row" data-rubric="${escapeHtml(rubric.id)}">
+                    <div class="cr-rubric-row__info">
+                        <span class="cr-rubric-row__name">${escapeHtml(rubric.name)}</span>
+                        <span class="cr-text-xs cr-text-dim">
+                            ${rubric.criteria.length} criteri${rubric.criteria.length === 1 ? 'on' : 'a'} ·
+                            ${preset ? `schema "${escapeHtml(preset.name)}"` : 'schema missing - save to regenerate'}
+                        </span>
+                    </div>
+                    <button class="cr-rubric-edit menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                            type="button"
+                            title="Edit">
+                        <i class="fa-solid fa-pen"></i>
+                    </button>
+                    <button class="cr-rubric-delete menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                            type="button"
+                            title="Delete">
+                        <i class="fa-solid fa-trash"></i>
+                    </button>
+                </div>
+            `;
+        })
+        .join('');
+}
+
+// =============================================================================
+// IMPORT / EXPORT
+// =============================================================================
+
+/**
+ * Download every rubric as a JSON file.
+ */
+export function exportRubrics(): void {
+    const rubrics = getRubrics();
+    if (rubrics.length === 0) {
+        toast.warning('No rubrics to export');
+        return;
+    }
+
+    const data = {
+        version: VERSION,
+        exportedAt: new Date().toISOString(),
+        // Schema presets are regenerated on import
+        rubrics: rubrics.map((r) => ({ ...r, schemaPresetId: null })),
+    };
+
+    const blob = new Blob([JSON.stringify(data, null, 2)], {
+        type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `card-refinery-rubrics-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+
+    URL.revokeObjectURL(url);
+    toast.success(
+        `Exported ${rubrics.length} rubric${rubrics.length !== 1 ? 's' : ''}`,
+    );
+}
+
+/**
+ * Read rubrics from exported JSON (an export file, or a single rubric).
+ * Each one gets a new ID and a unique name; invalid ones are skipped.
+ */
+export function readRubricImport(
+    data: unknown,
+    existingNames: string[],
+): { rubrics: Rubric[]; skipped: number } {
+    const raw = data as { rubrics?: unknown; criteria?: unknown } | null;
+    const items: unknown[] = Array.isArray(raw?.rubrics)
+        ? raw.rubrics
+        : raw && Array.isArray(raw.criteria)
+          ? [raw]
+          : [];
+
+    const names = [...existingNames];
+    const rubrics: Rubric[] = [];
+    let skipped = 0;
+
+    for (const item of items) {
+        const source = (item ?? {}) as Partial<Rubric>;
+        const criteria = Array.isArray(source.criteria)
+            ? source.criteria.map((c: Partial<RubricCriterion>) => ({
+                  name: String(c?.name ?? ''),
+                  description: String(c?.description ?? ''),
+                  weight: Number(c?.weight),
+                  min: Number(c?.min),
+                  max: Number(c?.max),
+              }))
+            : [];
+        const candidate: Rubric = {
+            id: crypto.randomUUID(),
+            name: String(source.name ?? '').trim(),
+            criteria,
+            schemaPresetId: null,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+        };
+
+        if (!validateRubric(candidate).valid) {
+            skipped++;
+            continue;
+        }
+
+        candidate.name = generateUniqueName(candidate.name, names);
+        names.push(candidate.name);
+        rubrics.push(candidate);
+    }
+
+    return { rubrics, skipped };
+}
+
+/**
+ * Import rubrics from a JSON file, generating their schema presets.
+ *
+ * @param onImported - Called after at least one rubric was imported
+ */
+export function importRubrics(onImported?: () => void): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+
+    input.onchange = async (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) return;
+
+        try {
+            const { rubrics, skipped } = readRubricImport(
+                JSON.parse(await file.text()),
+                getRubrics().map((r) => r.name),
+            );
+            rubrics.forEach(saveRubricWithSchema);
+
+            if (rubrics.length === 0) {
+                toast.warning('No valid rubrics found in the file');
+                return;
+            }
+            toast.success(
+                `Imported ${rubrics.length} rubric${rubrics.length !== 1 ? 's' : ''}` +
+                    (skipped ? ` (${skipped} invalid skipped)` : ''),
+            );
+            onImported?.();
+        } catch (error) {
+            toast.error('Failed to import rubrics');
+            log.error('Rubric import error:', error);
+        }
+    };
+
+    input.click();
+}
@@ -15,6 +15,7 @@ import {
 import { $, on, cx } from './base';
 import { withRenderBoundary } from '../error-boundary';
 import { refreshAfterSessionChange } from './update-coordinator';
+import { getResultsUsage, renderUsageSummary } from './usage-view';
 import type { Session } from '../../types';
 
 // =============================================================================
@@ -95,6 +96,7 @@ function renderSessionOption(session: Session, isActive: boolean): string {
                 <div class="cr-session-option__meta">
                     <span>${fieldCount} fields</span>
                     <span>${historyCount} runs</span>
+                    ${renderUsageSummary(getResultsUsage(session.history))}
                 </div>
             </div>
             <div class="cr-session-option__actions ${cx(isEditing && 'cr-session-option__actions--editing')}">
@@ -10,6 +10,7 @@ import {
     log,
     getAvailableProfiles,
     getApiStatus,
+    CONTEXT_STRATEGIES,
 } from '../../../shared';
 import {
     getSettings,
@@ -18,6 +19,9 @@ import {
     BASE_SYSTEM_PROMPT,
     BASE_REFINEMENT_PROMPT,
     purgeAllSessions,
+    setModelPrices,
+    clearUsageLog,
+    getRubrics,
 } from '../../../data';
 import { $, $$, on } from '../base';
 import { isDrawerOpen, addCleanupFn, clearCleanupFns } from './state';
@@ -27,8 +31,18 @@ import {
     renderDrawerHeader,
     renderDrawerBody,
     renderDrawerFooter,
+    renderPriceRow,
 } from './templates';
+import type { ContextStrategy, ModelPrice } from '../../../types';
 import { closeSettingsDrawer } from './lifecycle';
+import { showUsageView } from '../usage-view';
+import {
+    deleteRubricWithSchema,
+    exportRubrics,
+    importRubrics,
+    renderRubricList,
+    showRubricEditor,
+} from '../rubric-editor';
 
 // =============================================================================
 // API STATUS UPDATE
@@ -101,6 +115,64 @@ export function saveSettingsFromDrawer(): void {
             : null;
     }
 
+    // Automatic retries
+    const maxRetriesInput = $(
+        `#${MODULE_NAME}_max_retries`,
+        drawer,
+    ) as HTMLInputElement;
+    if (maxRetriesInput) {
+        const value = parseInt(maxRetriesInput.value, 10);
+        settings.maxRetries = Number.isFinite(value)
+            ? Math.min(Math.max(value, 0), 5)
+            : 0;
+    }
+
+    // Structured output repairs
+    const maxRepairsInput = $(
+        `#${MODULE_NAME}_max_repairs`,
+        drawer,
+    ) as HTMLInputElement;
+    if (maxRepairsInput) {
+        const value = parseInt(maxRepairsInput.value, 10);
+        settings.maxRepairAttempts = Number.isFinite(value)
+            ? Math.min(Math.max(value, 0), 5)
+            : 0;
+    }
+
+    // Context strategy
+    const contextStrategySelect = $(
+        `#${MODULE_NAME}_context_strategy`,
+        drawer,
+    ) as HTMLSelectElement;
+    if (contextStrategySelect) {
+        const value = contextStrategySelect.value as ContextStrategy;
+        settings.contextStrategy = CONTEXT_STRATEGIES.includes(value)
+            ? value
+            : 'trim';
+    }
+
+    // Auto-iterate limits
+    const maxIterationsInput = $(
+        `#${MODULE_NAME}_max_iterations`,
+        drawer,
+    ) as HTMLInputElement;
+    if (maxIterationsInput) {
+        const value = parseInt(maxIterationsInput.value, 10);
+        settings.maxIterations = Number.isFinite(value)
+            ? Math.min(Math.max(value, 1), 20)
+            : 1;
+    }
+
+    const tokenBudgetInput = $(
+        `#${MODULE_NAME}_iteration_token_budget`,
+        drawer,
+    ) as HTMLInputElement;
+    if (tokenBudgetInput) {
+        const value = parseInt(tokenBudgetInput.value, 10);
+        settings.iterationTokenBudget =
+            Number.isFinite(value) && value > 0 ? value : null;
+    }
+
     // System prompt
     const userSystemPrompt = $(
         `#${MODULE_NAME}_user_system_prompt`,
@@ -172,10 +244,41 @@ export function saveSettingsFromDrawer(): void {
         settings.assistantPrefill = assistantPrefill.value;
     }
 
+    // Model prices
+    const priceRows = $(`#${MODULE_NAME}_price_rows`, drawer);
+    if (priceRows) {
+        setModelPrices(readPriceRows(priceRows));
+    }
+
     save();
     toast.success('Settings saved');
 }
 
+/**
+ * Read the price table rows. Missing or invalid prices count as free.
+ */
+function readPriceRows(container: HTMLElement): ModelPrice[] {
+    return Array.from(container.querySelectorAll('.cr-price-row')).map(
+        (row) => {
+            const read = (field: string) =>
+                (
+                    row.querySelector(
+                        `[data-price="${field}"]`,
+                    ) as HTMLInputElement | null
+                )?.value ?? '';
+            const price = (field: string) => {
+                const value = parseFloat(read(field));
+                return Number.isFinite(value) && value > 0 ? value : 0;
+            };
+            return {
+                model: read('model'),
+                input: price('input'),
+                output: price('output'),
+            };
+        },
+    );
+}
+
 // =============================================================================
 // DRAWER CONTENT REFRESH
 // =============================================================================
@@ -398,6 +501,110 @@ export function bindDrawerEvents(drawer: HTMLElement): void {
         );
     }
 
+    // Model price table
+    const priceRows = $(`#${MODULE_NAME}_price_rows`, drawer);
+    const addPriceBtn = $(`#${MODULE_NAME}_price_add`, drawer);
+    if (priceRows && addPriceBtn) {
+        addCleanupFn(
+            on(addPriceBtn, 'click', () => {
+                priceRows.insertAdjacentHTML('beforeend', renderPriceRow());
+                (
+                    priceRows.lastElementChild?.querySelector(
+                        'input',
+                    ) as HTMLInputElement | null
+                )?.focus();
+            }),
+        );
+        addCleanupFn(
+            on(priceRows, 'click', (e) => {
+                const removeBtn = (e.target as HTMLElement).closest(
+                    '.cr-price-remove',
+                );
+                removeBtn?.closest('.cr-price-row')?.remove();
+            }),
+        );
+    }
+
+    // Usage view
+    const usageViewBtn = $(`#${MODULE_NAME}_usage_view`, drawer);
+    if (usageViewBtn) {
+        addCleanupFn(
+            on(usageViewBtn, 'click', () => {
+                showUsageView().catch((error) => {
+                    log.error('Usage view failed', error);
+                });
+            }),
+        );
+    }
+
+    // Clear usage
+    const clearUsageBtn = $(`#${MODULE_NAME}_usage_clear`, drawer);
+    if (clearUsageBtn) {
+        addCleanupFn(
+            on(clearUsageBtn, 'click', async () => {
+                const confirmed = await popup.confirm(
+                    'Clear Usage?',
+                    'This forgets the token usage recorded across all sessions. Runs stored in sessions keep their own counts.',
+                );
+                if (!confirmed) return;
+
+                clearUsageLog();
+                toast.success('Usage cleared');
+            }),
+        );
+    }
+
+    // Scoring rubrics
+    const rubricList = $(`#${MODULE_NAME}_rubric_list`, drawer);
+    if (rubricList) {
+        const refreshRubrics = () => {
+            rubricList.innerHTML = renderRubricList();
+        };
+        const findRubric = (target: EventTarget | null) => {
+            const row = (target as HTMLElement).closest(
+                '.cr-rubric-row',
+            ) as HTMLElement | null;
+            return getRubrics().find((r) => r.id === row?.dataset.rubric);
+        };
+
+        addCleanupFn(
+            on(rubricList, 'click', async (e) => {
+                const target = e.target as HTMLElement;
+                const rubric = findRubric(target);
+                if (!rubric) return;
+
+                if (target.closest('.cr-rubric-edit')) {
+                    if (await showRubricEditor(rubric)) refreshRubrics();
+                } else if (target.closest('.cr-rubric-delete')) {
+                    if (await deleteRubricWithSchema(rubric)) refreshRubrics();
+                }
+            }),
+        );
+
+        const newRubricBtn = $(`#${MODULE_NAME}_rubric_new`, drawer);
+        if (newRubricBtn) {
+            addCleanupFn(
+                on(newRubricBtn, 'click', async () => {
+                    if (await showRubricEditor()) refreshRubrics();
+                }),
+            );
+        }
+
+        const importRubricBtn = $(`#${MODULE_NAME}_rubric_import`, drawer);
+        if (importRubricBtn) {
+            addCleanupFn(
+                on(importRubricBtn, 'click', () =>
+                    importRubrics(refreshRubrics),
+                ),
+            );
+        }
+
+        const exportRubricBtn = $(`#${MODULE_NAME}_rubric_export`, drawer);
+        if (exportRubricBtn) {
+            addCleanupFn(on(exportRubricBtn, 'click', exportRubrics));
+        }
+    }
+
     // Purge all sessions (global)
     const purgeBtn = $(`#${MODULE_NAME}_purge_all_sessions`, drawer);
     if (purgeBtn) {
@@ -10,10 +10,21 @@ import {
     getAvailableProfiles,
     getApiStatus,
     hasCMRS,
+    CONTEXT_STRATEGIES,
 } from '../../../shared';
 import type { ProfileInfo, ApiStatus } from '../../../shared';
 import { getSettings } from '../../../data';
+import type { ContextStrategy, ModelPrice } from '../../../types';
 import { withRenderBoundary } from '../../error-boundary';
+import { renderRubricList } from '../rubric-editor';
+
+/** Labels for the context strategy select, in CONTEXT_STRATEGIES order */
+const CONTEXT_STRATEGY_LABELS: Record<ContextStrategy, string> = {
+    trim: 'Trim prior-stage context',
+    summarize: 'Summarize prior-stage context',
+    chunk: 'Split rewrite by field',
+    off: 'Send as-is',
+};
 
 // =============================================================================
 // HELPER FUNCTIONS
@@ -173,6 +184,49 @@ export const renderDrawerHeader = withRenderBoundary(_renderDrawerHeader, {
     name: 'SettingsDrawerHeader',
 });
 
+/**
+ * Render one row of the model price table.
+ */
+export function renderPriceRow(price: ModelPrice | null = null): string {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const model = price ? DOMPurify.sanitize(price.model) : '';
+    const placeholder = DOMPurify.sanitize(getApiStatus().model || 'model-id');
+
+    return /* html */ `
+        <div class="cr-price-row">
+            <input type="text"
+                   class="cr-input text_pole"
+                   data-price="model"
+                   value="${model}"
+                   placeholder="${placeholder}"
+                   aria-label="Model"/>
+            <input type="number"
+                   class="cr-number-input text_pole"
+                   data-price="input"
+                   value="${price?.input ?? ''}"
+                   min="0"
+                   step="0.01"
+                   placeholder="Input"
+                   title="Input (prompt) price per million tokens"
+                   aria-label="Input price per million tokens"/>
+            <input type="number"
+                   class="cr-number-input text_pole"
+                   data-price="output"
+                   value="${price?.output ?? ''}"
+                   min="0"
+                   step="0.01"
+                   placeholder="Output"
+                   title="Output (completion) price per million tokens"
+                   aria-label="Output price per million tokens"/>
+            <button class="cr-price-remove menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                    type="button"
+                    title="Remove">
+                <i class="fa-solid fa-trash"></i>
+            </button>
+        </div>
+    `;
+}
+
 /**
  * Render the drawer body with settings sections.
  */
@@ -290,6 +344,87 @@ const _renderDrawerBody = (): string => {
                 <details class="cr-collapsible">
                     <summary>Advanced Options</summary>
                     <div class="cr-setting-item">
+                        <label class="cr-setting-label" for="${MODULE_NAME}_max_retries">
+                            Automatic retries
+                        </label>
+                        <input type="number"
+                               id="${MODULE_NAME}_max_retries"
+                               class="cr-number-input text_pole"
+                               value="${settings.maxRetries}"
+                               min="0"
+                               max="5"
+                               step="1"/>
+                        <span class="cr-setting-hint">
+                            Retries rate limits, server errors, timeouts and network failures with increasing delays.
+                            Authentication and content filter errors are never retried.
+                        </span>
+                    </div>
+                    <div class="cr-setting-item cr-mt-3">
+                        <label class="cr-setting-label" for="${MODULE_NAME}_max_repairs">
+                            Structured output repairs
+                        </label>
+                        <input type="number"
+                               id="${MODULE_NAME}_max_repairs"
+                               class="cr-number-input text_pole"
+                               value="${settings.maxRepairAttempts}"
+                               min="0"
+                               max="5"
+                               step="1"/>
+                        <span class="cr-setting-hint">
+                            When a JSON response doesn't match the schema, ask the model to fix it this many times.
+                            Set to 0 to keep the first response as-is.
+                        </span>
+                    </div>
+                    <div class="cr-setting-item cr-mt-3">
+                        <label class="cr-setting-label" for="${MODULE_NAME}_context_strategy">
+                            When a prompt is too long
+                        </label>
+                        <select id="${MODULE_NAME}_context_strategy" class="cr-select text_pole">
+                            ${CONTEXT_STRATEGIES.map(
+                                (strategy) => /* html */ `
+                            <option value="${strategy}" ${strategy === settings.contextStrategy ? 'selected' : ''}>
+                                ${CONTEXT_STRATEGY_LABELS[strategy]}
+                            </option>
+                            `,
+                            ).join('')}
+                        </select>
+                        <span class="cr-setting-hint">
+                            Prompts are measured against the model's context window before sending.
+                            Disabled lorebook entries are dropped first; then score and analysis context is trimmed or summarized,
+                            or an oversized rewrite runs one field at a time. What was cut is shown with the result.
+                        </span>
+                    </div>
+                    <div class="cr-setting-item cr-mt-3">
+                        <label class="cr-setting-label" for="${MODULE_NAME}_max_iterations">
+                            Auto-iterate limit
+                        </label>
+                        <input type="number"
+                               id="${MODULE_NAME}_max_iterations"
+                               class="cr-number-input text_pole"
+                               value="${settings.maxIterations}"
+                               min="1"
+                               max="20"
+                               step="1"/>
+                        <span class="cr-setting-hint">
+                            Refine → analyze cycles before auto-iterate gives up without an ACCEPT verdict.
+                        </span>
+                    </div>
+                    <div class="cr-setting-item cr-mt-3">
+                        <label class="cr-setting-label" for="${MODULE_NAME}_iteration_token_budget">
+                            Auto-iterate token budget
+                        </label>
+                        <input type="number"
+                               id="${MODULE_NAME}_iteration_token_budget"
+                               class="cr-number-input text_pole"
+                               value="${settings.iterationTokenBudget ?? ''}"
+                               min="1000"
+                               step="1000"
+                               placeholder="Unlimited"/>
+                        <span class="cr-setting-hint">
+                            Stops before the next cycle once prompts and responses reach this many tokens (estimated).
+                        </span>
+                    </div>
+                    <div class="cr-setting-item cr-mt-3">
                         <label class="cr-setting-label cr-checkbox-label">
                             <input type="checkbox"
                                    id="${MODULE_NAME}_disable_thinking"
@@ -326,6 +461,77 @@ const _renderDrawerBody = (): string => {
                 </details>
             </section>
 
+            <!-- Usage & Costs -->
+            <section class="cr-settings-section">
+                <h3>
+                    <i class="fa-solid fa-chart-column"></i>
+                    Usage &amp; Costs
+                </h3>
+                <p class="cr-setting-desc">
+                    Prices in USD per million tokens, used to estimate costs. End a model with <code>*</code> to match every model starting with it.
+                </p>
+
+                <div id="${MODULE_NAME}_price_rows" class="cr-price-table">
+                    ${settings.modelPrices.map(renderPriceRow).join('')}
+                </div>
+                <div class="cr-row cr-mt-2">
+                    <button id="${MODULE_NAME}_price_add"
+                            class="cr-btn cr-btn--small menu_button"
+                            type="button">
+                        <i class="fa-solid fa-plus"></i>
+                        Add Model
+                    </button>
+                    <button id="${MODULE_NAME}_usage_view"
+                            class="cr-btn cr-btn--small menu_button"
+                            type="button">
+                        <i class="fa-solid fa-chart-column"></i>
+                        View Usage
+                    </button>
+                    <button id="${MODULE_NAME}_usage_clear"
+                            class="cr-btn cr-btn--small menu_button"
+                            type="button"
+                            title="Forget token usage recorded so far">
+                        <i class="fa-solid fa-eraser"></i>
+                        Clear Usage
+                    </button>
+                </div>
+            </section>
+
+            <!-- Scoring Rubrics -->
+            <section class="cr-settings-section">
+                <h3>
+                    <i class="fa-solid fa-scale-balanced"></i>
+                    Scoring Rubrics
+                </h3>
+                <p class="cr-setting-desc">
+                    Weighted criteria with their own scales. Each rubric generates a "Rubric: …" schema preset; select it in the Score stage and the overall score is computed from the criterion scores.
+                </p>
+
+                <div id="${MODULE_NAME}_rubric_list" class="cr-rubric-list">
+                    ${renderRubricList()}
+                </div>
+                <div class="cr-row cr-mt-2">
+                    <button id="${MODULE_NAME}_rubric_new"
+                            class="cr-btn cr-btn--small menu_button"
+                            type="button">
+                        <i class="fa-solid fa-plus"></i>
+                        New Rubric
+                    </button>
+                    <button id="${MODULE_NAME}_rubric_import"
+                            class="cr-btn cr-btn--small menu_button"
+                            type="button">
+                        <i class="fa-solid fa-file-import"></i>
+                        Import
+                    </button>
+                    <button id="${MODULE_NAME}_rubric_export"
+                            class="cr-btn cr-btn--small menu_button"
+                            type="button">
+                        <i class="fa-solid fa-file-export"></i>
+                        Export
+                    </button>
+                </div>
+            </section>
+
             <!-- System Prompt -->
             <section class="cr-settings-section">
                 <h3>
@@ -0,0 +1,152 @@
+// src/ui/components/stage-config/candidates.ts
+// =============================================================================
+// REWRITE CANDIDATES - RENDER & UPDATE
+// =============================================================================
+//
+// Rewrite-only settings for generating several candidates per run: how many
+// samples, or which connection profiles, and whether a judge ranks them.
+//
+// =============================================================================
+
+import { MODULE_NAME, hasCMRS, getAvailableProfiles } from '../../../shared';
+import { MAX_CANDIDATES, planCandidates } from '../../../domain';
+import { $, cx } from '../base';
+import type { StageConfig, StageName } from '../../../types';
+
+// =============================================================================
+// RENDER
+// =============================================================================
+
+function renderProfileChecks(config: StageConfig): string {
+    if (!hasCMRS()) return '';
+
+    const profiles = getAvailableProfiles().filter((p) => p.isSupported);
+    if (profiles.length === 0) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const selected = config.candidateProfiles ?? [];
+
+    return /* html */ `
+        <div class="cr-form-group">
+            <span class="cr-form-group__label">One Candidate per Profile</span>
+            <div class="cr-stack cr-stack--tight">
+                ${profiles
+                    .map(
+                        (p) => /* html */ `
+                    <label class="cr-checkbox">
+                        <input type="checkbox"
+                               data-candidate-profile="${DOMPurify.sanitize(p.id)}"
+                               ${selected.includes(p.id) ? 'checked' : ''}/>
+                        <span>${DOMPurify.sanitize(p.name)} <span class="cr-text-dim">(${DOMPurify.sanitize(p.model)})</span></span>
+                    </label>
+                `,
+                    )
+                    .join('')}
+            </div>
+        </div>
+    `;
+}
+
+function countLabel(config: StageConfig): string {
+    const count = planCandidates(config).length;
+    return count > 1 ? `×${count}` : '';
+}
+
+/**
+ * Render the rewrite candidates section (hidden on other stages).
+ */
+export function renderStageCandidates(
+    stage: StageName,
+    config: StageConfig,
+): string {
+    const label = countLabel(config);
+    const byProfile = (config.candidateProfiles ?? []).length > 0;
+
+    return /* html */ `
+        <details id="${MODULE_NAME}_stage_candidates"
+                 class="cr-collapsible cr-mt-4 ${cx(stage !== 'rewrite' && 'cr-hidden')}"
+                 ${label ? 'open' : ''}>
+            <summary>
+                <span class="cr-row">
+                    <i class="fa-solid fa-layer-group cr-text-accent"></i>
+                    <span>Candidates</span>
+                </span>
+                <span id="${MODULE_NAME}_candidates_badge"
+                      class="cr-badge cr-badge--info cr-badge--sm ${cx(!label && 'cr-hidden')}">${label}</span>
+            </summary>
+            <div class="cr-collapsible__content cr-stack cr-stack--tight">
+                <div class="cr-form-group">
+                    <label class="cr-form-group__label" for="${MODULE_NAME}_candidate_count">
+                        Samples
+                    </label>
+                    <input type="number"
+                           id="${MODULE_NAME}_candidate_count"
+                           class="text_pole"
+                           min="1"
+                           max="${MAX_CANDIDATES}"
+                           step="1"
+                           value="${config.candidateCount ?? 1}"
+                           ${byProfile ? 'disabled' : ''}/>
+                </div>
+                ${renderProfileChecks(config)}
+                <label class="cr-checkbox">
+                    <input type="checkbox"
+                           id="${MODULE_NAME}_judge_candidates"
+                           ${config.judgeCandidates ? 'checked' : ''}/>
+                    <span>Rank candidates with a judge request</span>
+                </label>
+                <div class="cr-form-group__hint">
+                    Up to ${MAX_CANDIDATES} rewrites side by side. Checked profiles replace samples.
+                    Pick a candidate, or fields from several, in Compare before Analyze runs.
+                </div>
+            </div>
+        </details>
+    `;
+}
+
+// =============================================================================
+// UPDATE
+// =============================================================================
+
+/**
+ * Sync candidate controls with the stage config.
+ */
+export function updateStageCandidates(
+    stage: StageName,
+    config: StageConfig,
+): void {
+    const details = $(`#${MODULE_NAME}_stage_candidates`);
+    if (!details) return;
+
+    details.classList.toggle('cr-hidden', stage !== 'rewrite');
+
+    const profiles = config.candidateProfiles ?? [];
+    const countInput = $(
+        `#${MODULE_NAME}_candidate_count`,
+    ) as HTMLInputElement | null;
+    if (countInput) {
+        countInput.disabled = profiles.length > 0;
+        // Don't clobber what the user is typing
+        if (document.activeElement !== countInput) {
+            countInput.value = String(config.candidateCount ?? 1);
+        }
+    }
+
+    for (const input of details.querySelectorAll<HTMLInputElement>(
+        '[data-candidate-profile]',
+    )) {
+        input.checked = profiles.includes(input.dataset.candidateProfile ?? '');
+    }
+
+    const judge = $(
+        `#${MODULE_NAME}_judge_candidates`,
+    ) as HTMLInputElement | null;
+    if (judge) judge.checked = !!config.judgeCandidates;
+
+    const badge = $(`#${MODULE_NAME}_candidates_badge`);
+    if (badge) {
+        const label = countLabel(config);
+        badge.textContent = label;
+        badge.classList.toggle('cr-hidden', !label);
+    }
+}
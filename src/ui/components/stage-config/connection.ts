@@ -0,0 +1,192 @@
+// src/ui/components/stage-config/connection.ts
+// =============================================================================
+// STAGE CONNECTION OVERRIDES - RENDER & UPDATE
+// =============================================================================
+//
+// Per-stage connection profile and sampler overrides. Empty inputs inherit
+// the global settings; the summary badge shows the model the stage will hit.
+//
+// =============================================================================
+
+import {
+    MODULE_NAME,
+    getApiStatus,
+    hasCMRS,
+    getAvailableProfiles,
+} from '../../../shared';
+import { resolveStageConnection } from '../../../data';
+import { $, cx } from '../base';
+import type { StageConfig } from '../../../types';
+
+// =============================================================================
+// RENDER
+// =============================================================================
+
+/**
+ * Render the badge showing which model a stage will generate with.
+ */
+export function renderStageModelBadge(config: StageConfig): string {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const connection = resolveStageConnection(config);
+    const status = getApiStatus(connection.profileId);
+    const title = `${status.displayName}: ${status.model}${status.error ? ` (${status.error})` : ''}`;
+
+    return /* html */ `
+        <span id="${MODULE_NAME}_stage_model"
+              class="cr-api-badge ${cx(!status.isReady && 'cr-api-badge--error')}"
+              title="${DOMPurify.sanitize(title)}">
+            <i class="fa-solid ${status.isReady ? 'fa-circle-check cr-text-success' : 'fa-circle-xmark cr-text-danger'}"></i>
+            <span>${DOMPurify.sanitize(status.modelDisplay)}</span>
+        </span>
+    `;
+}
+
+function renderProfileSelect(config: StageConfig): string {
+    if (!hasCMRS()) return '';
+
+    const profiles = getAvailableProfiles();
+    if (profiles.length === 0) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+
+    return /* html */ `
+        <div class="cr-form-group">
+            <label class="cr-form-group__label" for="${MODULE_NAME}_stage_profile">
+                Connection Profile
+            </label>
+            <select id="${MODULE_NAME}_stage_profile" class="cr-select text_pole">
+                <option value="" ${!config.profileId ? 'selected' : ''}>
+                    Default connection
+                </option>
+                ${profiles
+                    .map(
+                        (p) => /* html */ `
+                    <option value="${DOMPurify.sanitize(p.id)}"
+                            ${p.id === config.profileId ? 'selected' : ''}
+                            ${!p.isSupported ? 'disabled' : ''}>
+                        ${DOMPurify.sanitize(p.name)} (${DOMPurify.sanitize(p.model)})
+                    </option>
+                `,
+                    )
+                    .join('')}
+            </select>
+        </div>
+    `;
+}
+
+/**
+ * Render the per-stage connection section.
+ */
+export function renderStageConnection(config: StageConfig): string {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const hasOverrides =
+        !!config.profileId ||
+        config.temperature != null ||
+        config.maxTokens != null ||
+        config.prefill != null ||
+        config.timeout != null;
+
+    return /* html */ `
+        <details id="${MODULE_NAME}_stage_connection"
+                 class="cr-collapsible cr-mt-4"
+                 ${hasOverrides ? 'open' : ''}>
+            <summary>
+                <span class="cr-row">
+                    <i class="fa-solid fa-plug cr-text-accent"></i>
+                    <span>Connection</span>
+                </span>
+                ${renderStageModelBadge(config)}
+            </summary>
+            <div class="cr-collapsible__content cr-stack cr-stack--tight">
+                ${renderProfileSelect(config)}
+                <div class="cr-grid cr-grid--2col">
+                    <div class="cr-form-group">
+                        <label class="cr-form-group__label" for="${MODULE_NAME}_stage_temperature">
+                            Temperature
+                        </label>
+                        <input type="number"
+                               id="${MODULE_NAME}_stage_temperature"
+                               class="text_pole"
+                               min="0"
+                               max="2"
+                               step="0.05"
+                               placeholder="Default"
+                               value="${config.temperature ?? ''}"/>
+                    </div>
+                    <div class="cr-form-group">
+                        <label class="cr-form-group__label" for="${MODULE_NAME}_stage_max_tokens">
+                            Max Tokens
+                        </label>
+                        <input type="number"
+                               id="${MODULE_NAME}_stage_max_tokens"
+                               class="text_pole"
+                               min="1"
+                               step="100"
+                               placeholder="Default"
+                               value="${config.maxTokens ?? ''}"/>
+                    </div>
+                </div>
+                <div class="cr-grid cr-grid--2col">
+                    <div class="cr-form-group">
+                        <label class="cr-form-group__label" for="${MODULE_NAME}_stage_prefill">
+                            Assistant Prefill
+                        </label>
+                        <input type="text"
+                               id="${MODULE_NAME}_stage_prefill"
+                               class="text_pole"
+                               placeholder="Default"
+                               value="${DOMPurify.sanitize(config.prefill ?? '')}"/>
+                    </div>
+                    <div class="cr-form-group">
+                        <label class="cr-form-group__label" for="${MODULE_NAME}_stage_timeout">
+                            Timeout (seconds)
+                        </label>
+                        <input type="number"
+                               id="${MODULE_NAME}_stage_timeout"
+                               class="text_pole"
+                               min="1"
+                               step="10"
+                               placeholder="None"
+                               value="${config.timeout ?? ''}"/>
+                    </div>
+                </div>
+                <div class="cr-form-group__hint">
+                    Empty fields use the global connection settings.
+                </div>
+            </div>
+        </details>
+    `;
+}
+
+// =============================================================================
+// UPDATE
+// =============================================================================
+
+/**
+ * Sync connection inputs and model badge with the stage config.
+ */
+export function updateStageConnection(config: StageConfig): void {
+    const badge = $(`#${MODULE_NAME}_stage_model`);
+    if (badge) {
+        badge.outerHTML = renderStageModelBadge(config);
+    }
+
+    const profileSelect = $(
+        `#${MODULE_NAME}_stage_profile`,
+    ) as HTMLSelectElement | null;
+    if (profileSelect) {
+        profileSelect.value = config.profileId ?? '';
+    }
+
+    syncInput(`#${MODULE_NAME}_stage_temperature`, config.temperature);
+    syncInput(`#${MODULE_NAME}_stage_max_tokens`, config.maxTokens);
+    syncInput(`#${MODULE_NAME}_stage_prefill`, config.prefill);
+    syncInput(`#${MODULE_NAME}_stage_timeout`, config.timeout);
+}
+
+function syncInput(selector: string, value: number | string | null): void {
+    const input = $(selector) as HTMLInputElement | null;
+    // Don't clobber what the user is typing
+    if (!input || document.activeElement === input) return;
+    input.value = value == null ? '' : String(value);
+}
@@ -0,0 +1,108 @@
+// src/ui/components/stage-config/ensemble.ts
+// =============================================================================
+// ENSEMBLE SCORING - RENDER & UPDATE
+// =============================================================================
+//
+// Score-only settings for running the score against several connection
+// profiles in parallel and aggregating the results.
+//
+// =============================================================================
+
+import { MODULE_NAME, hasCMRS, getAvailableProfiles } from '../../../shared';
+import { MAX_ENSEMBLE_PROFILES, planEnsemble } from '../../../domain';
+import { $, cx } from '../base';
+import type { StageConfig, StageName } from '../../../types';
+
+// =============================================================================
+// RENDER
+// =============================================================================
+
+function countLabel(config: StageConfig): string {
+    const count = planEnsemble(config).length;
+    return count > 1 ? `×${count}` : '';
+}
+
+/**
+ * Render the ensemble scoring section (hidden on other stages, and when
+ * there are no connection profiles to pick from).
+ */
+export function renderStageEnsemble(
+    stage: StageName,
+    config: StageConfig,
+): string {
+    if (!hasCMRS()) return '';
+
+    const profiles = getAvailableProfiles().filter((p) => p.isSupported);
+    if (profiles.length < 2) return '';
+
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const selected = config.ensembleProfiles ?? [];
+    const label = countLabel(config);
+
+    return /* html */ `
+        <details id="${MODULE_NAME}_stage_ensemble"
+                 class="cr-collapsible cr-mt-4 ${cx(stage !== 'score' && 'cr-hidden')}"
+                 ${label ? 'open' : ''}>
+            <summary>
+                <span class="cr-row">
+                    <i class="fa-solid fa-people-group cr-text-accent"></i>
+                    <span>Ensemble</span>
+                </span>
+                <span id="${MODULE_NAME}_ensemble_badge"
+                      class="cr-badge cr-badge--info cr-badge--sm ${cx(!label && 'cr-hidden')}">${label}</span>
+            </summary>
+            <div class="cr-collapsible__content cr-stack cr-stack--tight">
+                <div class="cr-stack cr-stack--tight">
+                    ${profiles
+                        .map(
+                            (p) => /* html */ `
+                        <label class="cr-checkbox">
+                            <input type="checkbox"
+                                   data-ensemble-profile="${DOMPurify.sanitize(p.id)}"
+                                   ${selected.includes(p.id) ? 'checked' : ''}/>
+                            <span>${DOMPurify.sanitize(p.name)} <span class="cr-text-dim">(${DOMPurify.sanitize(p.model)})</span></span>
+                        </label>
+                    `,
+                        )
+                        .join('')}
+                </div>
+                <div class="cr-form-group__hint">
+                    Check 2 to ${MAX_ENSEMBLE_PROFILES} profiles to score with all of them at once.
+                    Scores are averaged per criterion and disagreements are flagged.
+                    Needs structured output with the Score Schema.
+                </div>
+            </div>
+        </details>
+    `;
+}
+
+// =============================================================================
+// UPDATE
+// =============================================================================
+
+/**
+ * Sync ensemble controls with the stage config.
+ */
+export function updateStageEnsemble(
+    stage: StageName,
+    config: StageConfig,
+): void {
+    const details = $(`#${MODULE_NAME}_stage_ensemble`);
+    if (!details) return;
+
+    details.classList.toggle('cr-hidden', stage !== 'score');
+
+    const profiles = config.ensembleProfiles ?? [];
+    for (const input of details.querySelectorAll<HTMLInputElement>(
+        '[data-ensemble-profile]',
+    )) {
+        input.checked = profiles.includes(input.dataset.ensembleProfile ?? '');
+    }
+
+    const badge = $(`#${MODULE_NAME}_ensemble_badge`);
+    if (badge) {
+        const label = countLabel(config);
+        badge.textContent = label;
+        badge.classList.toggle('cr-hidden', !label);
+    }
+}
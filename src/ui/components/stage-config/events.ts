@@ -29,11 +29,21 @@ import {
 } from '../../../data';
 import {
     getPopulatedFields,
-    buildCharacterSummary,
     generateSchemaFromDescription,
+    getPromptLayout,
+    moveLayoutSection,
+    MAX_CANDIDATES,
+    MAX_ENSEMBLE_PROFILES,
 } from '../../../domain';
+import type {
+    PromptLayout,
+    PromptPreset,
+    PromptSectionId,
+    StageConfig,
+} from '../../../types';
 import { $, $$, on } from '../base';
 import { openDrawerWithList } from '../preset-drawer';
+import { showStageInspector } from '../prompt-inspector';
 import { addPendingInput, removePendingInput } from './state';
 import {
     updateFieldCheckboxes,
@@ -41,6 +51,7 @@ import {
 } from './field-selector';
 import { updatePromptTokenCount } from './token-display';
 import { updateStageConfig } from './stage-config';
+import { updateStageConnection } from './connection';
 
 // =============================================================================
 // EVENT BINDING
@@ -50,7 +61,6 @@ import { updateStageConfig } from './stage-config';
  * Bind stage config events.
  */
 export function bindStageConfigEvents(container: HTMLElement): () => void {
-    const DOMPurify = SillyTavern.libs.DOMPurify;
     const cleanups: Array<() => void> = [];
 
     // Link/unlink fields toggle
@@ -85,8 +95,20 @@ export function bindStageConfigEvents(container: HTMLElement): () => void {
     // Schema events
     bindSchemaEvents(container, cleanups);
 
+    // Connection override events
+    bindConnectionEvents(container, cleanups);
+
+    // Prompt layout events
+    bindLayoutEvents(container, cleanups);
+
+    // Rewrite candidate events
+    bindCandidateEvents(container, cleanups);
+
+    // Ensemble scoring events
+    bindEnsembleEvents(container, cleanups);
+
     // Preview button
-    bindPreviewEvents(container, cleanups, DOMPurify);
+    bindPreviewEvents(container, cleanups);
 
     // Preset manage buttons
     bindPresetManageEvents(container, cleanups);
@@ -300,6 +322,9 @@ function bindPromptEvents(
                 updateStateConfig(state.activeStage, {
                     promptPresetId: presetId,
                     customPrompt: '', // Clear custom when selecting preset
+                    ...presetLayout(
+                        presetId ? getPromptPreset(presetId) : null,
+                    ),
                 });
 
                 // Update textarea with preset content or clear it
@@ -342,6 +367,7 @@ function bindPromptEvents(
                 if (currentPreset && !currentPreset.isBuiltin) {
                     updatePromptPreset(currentPreset.id, {
                         prompt: promptText,
+                        layout: stageConfig.layout ?? undefined,
                     });
                     toast.success(`Updated preset "${currentPreset.name}"`);
                     updateStageConfig();
@@ -369,6 +395,9 @@ function bindPromptEvents(
                     name: name.trim(),
                     stages: [state.activeStage],
                     prompt: promptText,
+                    ...(stageConfig?.layout
+                        ? { layout: stageConfig.layout }
+                        : {}),
                 });
 
                 // Switch to the new preset
@@ -386,6 +415,275 @@ function bindPromptEvents(
     }
 }
 
+/**
+ * Config update for a selected prompt preset's layout (if it has one).
+ * Presets without a layout leave the stage's layout alone.
+ */
+function presetLayout(
+    preset: PromptPreset | null,
+): Pick<StageConfig, 'layout'> | Record<string, never> {
+    return preset?.layout
+        ? { layout: SillyTavern.libs.lodash.cloneDeep(preset.layout) }
+        : {};
+}
+
+// =============================================================================
+// CONNECTION EVENTS
+// =============================================================================
+
+function bindConnectionEvents(
+    container: HTMLElement,
+    cleanups: Array<() => void>,
+): void {
+    const refreshBadge = () => {
+        const state = getState();
+        updateStageConnection(state.stageConfigs[state.activeStage]);
+    };
+
+    const profileSelect = $(
+        `#${MODULE_NAME}_stage_profile`,
+        container,
+    ) as HTMLSelectElement | null;
+    if (profileSelect) {
+        cleanups.push(
+            on(profileSelect, 'change', () => {
+                const state = getState();
+                updateStateConfig(state.activeStage, {
+                    profileId: profileSelect.value || null,
+                });
+                refreshBadge();
+            }),
+        );
+    }
+
+    const parseNumber = (value: string): number | null => {
+        const num = parseFloat(value);
+        return value.trim() && Number.isFinite(num) ? num : null;
+    };
+
+    const temperatureInput = $(
+        `#${MODULE_NAME}_stage_temperature`,
+        container,
+    ) as HTMLInputElement | null;
+    if (temperatureInput) {
+        cleanups.push(
+            on(temperatureInput, 'change', () => {
+                const state = getState();
+                updateStateConfig(state.activeStage, {
+                    temperature: parseNumber(temperatureInput.value),
+                });
+            }),
+        );
+    }
+
+    const maxTokensInput = $(
+        `#${MODULE_NAME}_stage_max_tokens`,
+        container,
+    ) as HTMLInputElement | null;
+    if (maxTokensInput) {
+        cleanups.push(
+            on(maxTokensInput, 'change', () => {
+                const state = getState();
+                const value = parseNumber(maxTokensInput.value);
+                updateStateConfig(state.activeStage, {
+                    maxTokens:
+                        value !== null && value > 0 ? Math.round(value) : null,
+                });
+            }),
+        );
+    }
+
+    const prefillInput = $(
+        `#${MODULE_NAME}_stage_prefill`,
+        container,
+    ) as HTMLInputElement | null;
+    if (prefillInput) {
+        cleanups.push(
+            on(prefillInput, 'change', () => {
+                const state = getState();
+                updateStateConfig(state.activeStage, {
+                    prefill: prefillInput.value || null,
+                });
+            }),
+        );
+    }
+
+    const timeoutInput = $(
+        `#${MODULE_NAME}_stage_timeout`,
+        container,
+    ) as HTMLInputElement | null;
+    if (timeoutInput) {
+        cleanups.push(
+            on(timeoutInput, 'change', () => {
+                const state = getState();
+                const value = parseNumber(timeoutInput.value);
+                updateStateConfig(state.activeStage, {
+                    timeout:
+                        value !== null && value > 0 ? Math.round(value) : null,
+                });
+            }),
+        );
+    }
+}
+
+// =============================================================================
+// LAYOUT EVENTS
+// =============================================================================
+
+function bindLayoutEvents(
+    container: HTMLElement,
+    cleanups: Array<() => void>,
+): void {
+    const details = $(`#${MODULE_NAME}_stage_layout`, container);
+    if (!details) return;
+
+    // Any edit turns the default layout into the stage's own
+    const editLayout = (edit: (layout: PromptLayout) => PromptLayout) => {
+        const state = getState();
+        const config = state.stageConfigs[state.activeStage];
+        updateStateConfig(state.activeStage, {
+            layout: edit(getPromptLayout(config)),
+        });
+    };
+
+    cleanups.push(
+        on(details, 'click', (e) => {
+            const target = e.target as HTMLElement;
+
+            const moveBtn = target.closest<HTMLElement>('[data-layout-move]');
+            if (moveBtn) {
+                const id = moveBtn.closest<HTMLElement>('[data-section]')
+                    ?.dataset.section as PromptSectionId | undefined;
+                if (!id) return;
+                const direction = Number(moveBtn.dataset.layoutMove) as -1 | 1;
+                editLayout((layout) =>
+                    moveLayoutSection(
+                        layout,
+                        getState().activeStage,
+                        id,
+                        direction,
+                    ),
+                );
+                return;
+            }
+
+            if (target.closest(`#${MODULE_NAME}_layout_reset`)) {
+                updateStateConfig(getState().activeStage, { layout: null });
+            }
+        }),
+    );
+
+    cleanups.push(
+        on(details, 'change', (e) => {
+            const input = e.target as HTMLInputElement;
+
+            if (input.dataset.layoutHeading) {
+                const id = input.dataset.layoutHeading as PromptSectionId;
+                const heading = input.value.trim();
+                editLayout((layout) => {
+                    const headings = { ...layout.headings };
+                    if (heading) headings[id] = heading;
+                    else delete headings[id];
+                    return { ...layout, headings };
+                });
+            } else if (input.id === `${MODULE_NAME}_layout_include_score`) {
+                editLayout((layout) => ({
+                    ...layout,
+                    includeScore: input.checked,
+                }));
+            } else if (input.id === `${MODULE_NAME}_layout_include_analysis`) {
+                editLayout((layout) => ({
+                    ...layout,
+                    includeAnalysis: input.checked,
+                }));
+            } else if (input.id === `${MODULE_NAME}_layout_separator`) {
+                editLayout((layout) => ({
+                    ...layout,
+                    separator: input.value.trim(),
+                }));
+            }
+        }),
+    );
+}
+
+// =============================================================================
+// CANDIDATE EVENTS
+// =============================================================================
+
+function bindCandidateEvents(
+    container: HTMLElement,
+    cleanups: Array<() => void>,
+): void {
+    const details = $(`#${MODULE_NAME}_stage_candidates`, container);
+    if (!details) return;
+
+    cleanups.push(
+        on(details, 'change', (e) => {
+            const input = e.target as HTMLInputElement;
+            const stage = getState().activeStage;
+            const config = getState().stageConfigs[stage];
+
+            if (input.dataset.candidateProfile) {
+                const id = input.dataset.candidateProfile;
+                const profiles = (config.candidateProfiles ?? []).filter(
+                    (p) => p !== id,
+                );
+                updateStateConfig(stage, {
+                    candidateProfiles: input.checked
+                        ? [...profiles, id]
+                        : profiles,
+                });
+            } else if (input.id === `${MODULE_NAME}_candidate_count`) {
+                const count = parseInt(input.value, 10);
+                updateStateConfig(stage, {
+                    candidateCount: Number.isFinite(count)
+                        ? Math.min(Math.max(count, 1), MAX_CANDIDATES)
+                        : 1,
+                });
+            } else if (input.id === `${MODULE_NAME}_judge_candidates`) {
+                updateStateConfig(stage, { judgeCandidates: input.checked });
+            }
+        }),
+    );
+}
+
+// =============================================================================
+// ENSEMBLE EVENTS
+// =============================================================================
+
+function bindEnsembleEvents(
+    container: HTMLElement,
+    cleanups: Array<() => void>,
+): void {
+    const details = $(`#${MODULE_NAME}_stage_ensemble`, container);
+    if (!details) return;
+
+    cleanups.push(
+        on(details, 'change', (e) => {
+            const input = e.target as HTMLInputElement;
+            const id = input.dataset.ensembleProfile;
+            if (!id) return;
+
+            const stage = getState().activeStage;
+            const profiles = (
+                getState().stageConfigs[stage].ensembleProfiles ?? []
+            ).filter((p) => p !== id);
+
+            if (input.checked && profiles.length >= MAX_ENSEMBLE_PROFILES) {
+                input.checked = false;
+                toast.warning(
+                    `An ensemble can score with up to ${MAX_ENSEMBLE_PROFILES} profiles`,
+                );
+                return;
+            }
+
+            updateStateConfig(stage, {
+                ensembleProfiles: input.checked ? [...profiles, id] : profiles,
+            });
+        }),
+    );
+}
+
 // =============================================================================
 // SCHEMA EVENTS
 // =============================================================================
@@ -394,6 +692,21 @@ function bindSchemaEvents(
     container: HTMLElement,
     cleanups: Array<() => void>,
 ): void {
+    // Field-by-field toggle (rewrite only)
+    const fieldByFieldToggle = $(
+        `#${MODULE_NAME}_field_by_field`,
+        container,
+    ) as HTMLInputElement;
+    if (fieldByFieldToggle) {
+        cleanups.push(
+            on(fieldByFieldToggle, 'change', () => {
+                updateStateConfig(getState().activeStage, {
+                    fieldByField: fieldByFieldToggle.checked,
+                });
+            }),
+        );
+    }
+
     // Schema toggle
     const schemaToggle = $(
         `#${MODULE_NAME}_use_schema`,
@@ -659,7 +972,6 @@ function bindSchemaEvents(
 function bindPreviewEvents(
     container: HTMLElement,
     cleanups: Array<() => void>,
-    DOMPurify: typeof SillyTavern.libs.DOMPurify,
 ): void {
     const previewBtn = $(`#${MODULE_NAME}_preview`, container);
     if (previewBtn) {
@@ -671,21 +983,7 @@ function bindPreviewEvents(
                     return;
                 }
 
-                const summary = buildCharacterSummary(
-                    state.character,
-                    state.selectedFields,
-                );
-
-                // Include guidance in preview if present
-                let preview = summary;
-                if (state.userGuidance.trim()) {
-                    preview += `\n\n---\n\n## USER GUIDANCE\n\n${state.userGuidance}`;
-                }
-
-                await popup.alert(
-                    'Prompt Preview',
-                    `<div class="cr-preview-content"><pre>${DOMPurify.sanitize(preview)}</pre></div>`,
-                );
+                await showStageInspector(state.activeStage);
             }),
         );
     }
@@ -715,6 +1013,7 @@ function bindPresetManageEvents(
                             updateStateConfig(state.activeStage, {
                                 promptPresetId: preset.id,
                                 customPrompt: '',
+                                ...presetLayout(preset as PromptPreset),
                             });
                         } else {
                             updateStateConfig(state.activeStage, {
@@ -0,0 +1,204 @@
+// src/ui/components/stage-config/layout.ts
+// =============================================================================
+// STAGE PROMPT LAYOUT - RENDER & UPDATE
+// =============================================================================
+//
+// Per-stage section order, heading names, context toggles and separator.
+// A stage with no layout of its own shows (and runs with) the default.
+//
+// =============================================================================
+
+import { MODULE_NAME, PROMPT_SECTION_LABELS } from '../../../shared';
+import {
+    STAGE_PROMPT_SECTIONS,
+    getDefaultSectionTitle,
+    getPromptLayout,
+} from '../../../domain';
+import { $, cx } from '../base';
+import type {
+    PromptLayout,
+    PromptSectionId,
+    StageConfig,
+    StageName,
+} from '../../../types';
+
+// =============================================================================
+// RENDER
+// =============================================================================
+
+function visibleSections(layout: PromptLayout, stage: StageName) {
+    return layout.order.filter((id) =>
+        STAGE_PROMPT_SECTIONS[stage].includes(id),
+    );
+}
+
+function renderSectionRows(layout: PromptLayout, stage: StageName): string {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const sections = visibleSections(layout, stage);
+
+    return sections
+        .map(
+            (id, i) => /* html */ `
+        <li class="cr-layout-row" data-section="${id}">
+            <span class="cr-layout-row__label cr-text-sm">${PROMPT_SECTION_LABELS[id]}</span>
+            <input type="text"
+                   class="text_pole cr-layout-row__heading"
+                   data-layout-heading="${id}"
+                   placeholder="${DOMPurify.sanitize(getDefaultSectionTitle(stage, id))}"
+                   value="${DOMPurify.sanitize(layout.headings[id] ?? '')}"
+                   aria-label="${PROMPT_SECTION_LABELS[id]} heading"/>
+            <button class="menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                    type="button"
+                    data-layout-move="-1"
+                    title="Move up"
+                    aria-label="Move ${PROMPT_SECTION_LABELS[id]} up"
+                    ${i === 0 ? 'disabled' : ''}>
+                <i class="fa-solid fa-arrow-up"></i>
+            </button>
+            <button class="menu_button menu_button--icon menu_button--sm menu_button--ghost"
+                    type="button"
+                    data-layout-move="1"
+                    title="Move down"
+                    aria-label="Move ${PROMPT_SECTION_LABELS[id]} down"
+                    ${i === sections.length - 1 ? 'disabled' : ''}>
+                <i class="fa-solid fa-arrow-down"></i>
+            </button>
+        </li>
+    `,
+        )
+        .join('');
+}
+
+/**
+ * Render the per-stage prompt layout section.
+ */
+export function renderStageLayout(
+    stage: StageName,
+    config: StageConfig,
+): string {
+    const DOMPurify = SillyTavern.libs.DOMPurify;
+    const layout = getPromptLayout(config);
+    const sections = STAGE_PROMPT_SECTIONS[stage];
+
+    return /* html */ `
+        <details id="${MODULE_NAME}_stage_layout"
+                 class="cr-collapsible cr-mt-4"
+                 ${config.layout ? 'open' : ''}>
+            <summary>
+                <span class="cr-row">
+                    <i class="fa-solid fa-layer-group cr-text-accent"></i>
+                    <span>Prompt Layout</span>
+                </span>
+                <span id="${MODULE_NAME}_layout_badge"
+                      class="cr-badge cr-badge--info cr-badge--small ${cx(!config.layout && 'cr-hidden')}">custom</span>
+            </summary>
+            <div class="cr-collapsible__content cr-stack cr-stack--tight">
+                <ol id="${MODULE_NAME}_layout_sections"
+                    class="cr-layout-list"
+                    data-order="${visibleSections(layout, stage).join(',')}">
+                    ${renderSectionRows(layout, stage)}
+                </ol>
+                <label class="cr-checkbox ${cx(!sections.includes('score') && 'cr-hidden')}">
+                    <input type="checkbox"
+                           id="${MODULE_NAME}_layout_include_score"
+                           ${layout.includeScore ? 'checked' : ''}/>
+                    <span>Include Score results</span>
+                </label>
+                <label class="cr-checkbox ${cx(!sections.includes('analysis') && 'cr-hidden')}">
+                    <input type="checkbox"
+                           id="${MODULE_NAME}_layout_include_analysis"
+                           ${layout.includeAnalysis ? 'checked' : ''}/>
+                    <span>Include Analyze feedback (refinements)</span>
+                </label>
+                <div class="cr-row cr-row--between">
+                    <div class="cr-form-group cr-flex-1">
+                        <label class="cr-form-group__label" for="${MODULE_NAME}_layout_separator">
+                            Section Separator
+                        </label>
+                        <input type="text"
+                               id="${MODULE_NAME}_layout_separator"
+                               class="text_pole"
+                               placeholder="None (blank line)"
+                               value="${DOMPurify.sanitize(layout.separator)}"/>
+                    </div>
+                    <button id="${MODULE_NAME}_layout_reset"
+                            class="menu_button menu_button--sm"
+                            type="button"
+                            title="Use the default layout for this stage"
+                            ${!config.layout ? 'disabled' : ''}>
+                        <i class="fa-solid fa-rotate-left"></i>
+                        Reset
+                    </button>
+                </div>
+                <div class="cr-form-group__hint">
+                    Empty headings use the default. Saved with prompt presets.
+                </div>
+            </div>
+        </details>
+    `;
+}
+
+// =============================================================================
+// UPDATE
+// =============================================================================
+
+/**
+ * Sync layout controls with the stage config.
+ * Rows are only re-rendered when the stage or order changed.
+ */
+export function updateStageLayout(stage: StageName, config: StageConfig): void {
+    const details = $(`#${MODULE_NAME}_stage_layout`);
+    if (!details) return;
+
+    const layout = getPromptLayout(config);
+    const sections = STAGE_PROMPT_SECTIONS[stage];
+
+    const list = $(`#${MODULE_NAME}_layout_sections`);
+    const order = visibleSections(layout, stage).join(',');
+    if (list && list.dataset.order !== order) {
+        list.innerHTML = renderSectionRows(layout, stage);
+        list.dataset.order = order;
+    } else if (list) {
+        for (const input of list.querySelectorAll<HTMLInputElement>(
+            '[data-layout-heading]',
+        )) {
+            if (document.activeElement === input) continue;
+            const id = input.dataset.layoutHeading as PromptSectionId;
+            input.value = layout.headings[id] ?? '';
+        }
+    }
+
+    syncCheckbox(
+        `#${MODULE_NAME}_layout_include_score`,
+        layout.includeScore,
+        sections.includes('score'),
+    );
+    syncCheckbox(
+        `#${MODULE_NAME}_layout_include_analysis`,
+        layout.includeAnalysis,
+        sections.includes('analysis'),
+    );
+
+    const separator = $(
+        `#${MODULE_NAME}_layout_separator`,
+    ) as HTMLInputElement | null;
+    if (separator && document.activeElement !== separator) {
+        separator.value = layout.separator;
+    }
+
+    $(`#${MODULE_NAME}_layout_badge`)?.classList.toggle(
+        'cr-hidden',
+        !config.layout,
+    );
+    const resetBtn = $(
+        `#${MODULE_NAME}_layout_reset`,
+    ) as HTMLButtonElement | null;
+    if (resetBtn) resetBtn.disabled = !config.layout;
+}
+
+function syncCheckbox(selector: string, checked: boolean, shown: boolean) {
+    const input = $(selector) as HTMLInputElement | null;
+    if (!input) return;
+    input.checked = checked;
+    input.closest('.cr-checkbox')?.classList.toggle('cr-hidden', !shown);
+}
@@ -6,11 +6,16 @@
 import { MODULE_NAME, STAGE_LABELS, STAGE_ICONS } from '../../../shared';
 import { getState, areStagesLinked } from '../../../state';
 import { getPromptPreset, getSchemaPreset } from '../../../data';
+import { LOREBOOK_BATCH_SIZE } from '../../../domain';
 import { $, cx } from '../base';
 import { withRenderBoundary } from '../../error-boundary';
 import { renderFieldSelector, updateFieldCheckboxes } from './field-selector';
 import { renderPresetDropdown, refreshPresetDropdown } from './preset-dropdown';
 import { updatePromptTokenCount } from './token-display';
+import { renderStageConnection, updateStageConnection } from './connection';
+import { renderStageLayout, updateStageLayout } from './layout';
+import { renderStageCandidates, updateStageCandidates } from './candidates';
+import { renderStageEnsemble, updateStageEnsemble } from './ensemble';
 
 // =============================================================================
 // RENDER
@@ -96,6 +101,26 @@ const _renderStageConfig = (): string => {
                 </div>
             </div>
 
+            <!-- Field-by-Field Toggle (rewrite only) -->
+            <div id="${MODULE_NAME}_field_by_field_section"
+                 class="${cx(stage !== 'rewrite' && 'cr-hidden')} cr-stack cr-stack--tight cr-mt-4">
+                <label class="cr-checkbox">
+                    <input type="checkbox"
+                           id="${MODULE_NAME}_field_by_field"
+                           ${config.fieldByField ? 'checked' : ''}/>
+                    <span>Rewrite Field by Field</span>
+                </label>
+                <div class="cr-form-group__hint">
+                    One request per field (lorebooks in batches of ${LOREBOOK_BATCH_SIZE} entries). Failed fields can be retried on their own.
+                </div>
+            </div>
+
+            <!-- Rewrite Candidates (rewrite only) -->
+            ${renderStageCandidates(stage, config)}
+
+            <!-- Ensemble Scoring (score only) -->
+            ${renderStageEnsemble(stage, config)}
+
             <!-- Structured Output Toggle -->
             <div class="cr-stack cr-stack--tight cr-mt-4">
                 <label class="cr-checkbox">
@@ -151,14 +176,21 @@ const _renderStageConfig = (): string => {
                 </div>
             </div>
 
+            <!-- Prompt Layout -->
+            ${renderStageLayout(stage, config)}
+
+            <!-- Connection Overrides -->
+            ${renderStageConnection(config)}
+
             <!-- Preview -->
             <div class="cr-mt-4">
                 <button id="${MODULE_NAME}_preview"
                         class="menu_button menu_button--full"
                         type="button"
+                        title="See the full request this stage would send, without sending it"
                         ${!state.character ? 'disabled' : ''}>
-                    <i class="fa-solid fa-eye"></i>
-                    Preview Full Prompt
+                    <i class="fa-solid fa-magnifying-glass"></i>
+                    Inspect Prompt
                 </button>
             </div>
         </section>
@@ -229,6 +261,24 @@ export function updateStageConfig(): void {
     // Refresh prompt preset dropdown (re-render options, not just value)
     refreshPresetDropdown('prompt', stage, config.promptPresetId);
 
+    // Update field-by-field toggle
+    $(`#${MODULE_NAME}_field_by_field_section`)?.classList.toggle(
+        'cr-hidden',
+        stage !== 'rewrite',
+    );
+    const fieldByFieldToggle = $(
+        `#${MODULE_NAME}_field_by_field`,
+    ) as HTMLInputElement;
+    if (fieldByFieldToggle) {
+        fieldByFieldToggle.checked = config.fieldByField;
+    }
+
+    // Update rewrite candidates
+    updateStageCandidates(stage, config);
+
+    // Update ensemble scoring
+    updateStageEnsemble(stage, config);
+
     // Update schema toggle
     const schemaToggle = $(`#${MODULE_NAME}_use_schema`) as HTMLInputElement;
     if (schemaToggle) {
@@ -258,6 +308,12 @@ export function updateStageConfig(): void {
         schemaTextarea.value = schemaText;
     }
 
+    // Update prompt layout
+    updateStageLayout(stage, config);
+
+    // Update connection overrides and model badge
+    updateStageConnection(config);
+
     // Update preview button disabled state
     const previewBtn = $(`#${MODULE_NAME}_preview`) as HTMLButtonElement;
     if (previewBtn) {
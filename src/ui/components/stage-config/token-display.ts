@@ -10,7 +10,7 @@ import {
     getApiStatus,
 } from '../../../shared';
 import { getState, getCurrentFieldSelection } from '../../../state';
-import { getSettings } from '../../../data';
+import { resolveStageConnection } from '../../../data';
 import { $, formatTokenCount } from '../base';
 import { fieldTokenCounts } from './state';
 import type { PopulatedField, CharacterBookEntry } from '../../../types';
@@ -167,13 +167,10 @@ export function updateTokenWarning(characterTokens: number): void {
         return;
     }
 
-    // Get max output tokens - override takes precedence
-    const settings = getSettings();
-    const status = getApiStatus(settings.profileId);
+    // Get max output tokens for the rewrite stage - overrides take precedence
+    const connection = resolveStageConnection(state.stageConfigs.rewrite);
     const maxOutput =
-        settings.maxTokensOverride !== null
-            ? settings.maxTokensOverride
-            : status.maxOutput;
+        connection.maxTokens ?? getApiStatus(connection.profileId).maxOutput;
 
     // Thresholds: warning if under 80% headroom, critical if under character tokens
     const criticalThreshold = characterTokens;
@@ -14,23 +14,28 @@ import {
     STAGE_LABELS,
     STAGE_ICONS,
     log,
+    toast,
 } from '../../shared';
+import { getSettings } from '../../data';
 import {
     getState,
     setActiveStage,
     executeStageAction,
     executeAllStagesAction,
     executeQuickIterateAction,
+    executeAutoIterateAction,
     abortPipelineAction,
     resetPipelineAction,
     setUserGuidance,
     getUserGuidance,
+    getRegressionRestoreTarget,
+    restoreLastGoodRewrite,
 } from '../../state';
 import { $, on, cx } from './base';
 import { withRenderBoundary } from '../error-boundary';
 import { updateStageConfig } from './stage-config';
-import { updateResults } from './results-panel';
-import type { StageName, StageStatus } from '../../types';
+import { updateResults, describeIterationSummary } from './results-panel';
+import type { StageName, StageStatus, Verdict } from '../../types';
 
 // =============================================================================
 // STATUS CONFIGURATION
@@ -50,6 +55,30 @@ const STATUS_CLASSES: Record<StageStatus, string> = {
     error: 'cr-stage-tab--error',
 };
 
+const VERDICT_BADGES: Record<
+    Verdict,
+    { label: string; icon: string; className: string; title: string }
+> = {
+    ACCEPT: {
+        label: 'Accepted',
+        icon: 'fa-circle-check',
+        className: 'cr-badge--success',
+        title: 'Analyze accepted this rewrite - ready to apply',
+    },
+    NEEDS_REFINEMENT: {
+        label: 'Needs work',
+        icon: 'fa-wrench',
+        className: 'cr-badge--warning',
+        title: 'Analyze found issues - iterate to address them',
+    },
+    REGRESSION: {
+        label: 'Regression',
+        icon: 'fa-arrow-trend-down',
+        className: 'cr-badge--danger',
+        title: 'Analyze found this rewrite worse than the previous one',
+    },
+};
+
 // =============================================================================
 // HTML TEMPLATES
 // =============================================================================
@@ -95,7 +124,7 @@ export const renderStageTabs = withRenderBoundary(_renderStageTabs, {
  * Render pipeline controls (run buttons, status).
  *
  * Compact design:
- * - Single row: Run/Redo, Run All, Reset, [Iterate when available]
+ * - Single row: Run/Redo, Run All, Reset, [Iterate/Auto when available]
  * - Guidance input appears inline when iterate is available
  */
 const _renderPipelineControls = (): string => {
@@ -181,23 +210,55 @@ const _renderPipelineControls = (): string => {
             <i class="fa-solid fa-eraser"></i>
         </button>`;
 
-    // Iteration controls - compact inline design
+    // Iteration controls - compact inline design, driven by the verdict
+    const verdict = state.verdict;
+    const verdictBadge = verdict
+        ? /* html */ `
+            <span class="cr-badge cr-badge--sm ${VERDICT_BADGES[verdict].className}"
+                  title="${VERDICT_BADGES[verdict].title}">
+                <i class="fa-solid ${VERDICT_BADGES[verdict].icon}"></i>
+                ${VERDICT_BADGES[verdict].label}
+            </span>`
+        : '';
+
+    // Offer the last rewrite that passed analysis after a regression
+    const restoreTarget = getRegressionRestoreTarget();
+    const restoreButton = restoreTarget
+        ? /* html */ `
+            <button id="${MODULE_NAME}_restore_good"
+                    class="menu_button menu_button--primary"
+                    type="button"
+                    title="Restore the last rewrite Analyze didn't flag as a regression (${restoreTarget.verdict === 'ACCEPT' ? 'accepted' : 'needed refinement'})">
+                <i class="fa-solid fa-rotate-left"></i>
+                Restore
+            </button>`
+        : '';
+
     const iterationControls = canIterate
         ? /* html */ `
             <div class="cr-iteration-controls">
+                ${verdictBadge}
                 <input type="text"
                        id="${MODULE_NAME}_guidance_input"
                        class="cr-iteration-controls__input"
                        placeholder="Guidance..."
                        value="${DOMPurify.sanitize(getUserGuidance())}"
                        title="Optional: Focus areas or constraints for the next iteration"/>
+                ${restoreButton}
                 <button id="${MODULE_NAME}_iterate"
-                        class="menu_button menu_button--primary"
+                        class="menu_button ${cx(verdict !== 'ACCEPT' && !restoreTarget && 'menu_button--primary')}"
                         type="button"
                         title="Refine with feedback, then re-analyze (Iteration ${state.iterationCount + 1})">
                     <i class="fa-solid fa-wand-magic-sparkles"></i>
                     Iterate
                 </button>
+                <button id="${MODULE_NAME}_auto_iterate"
+                        class="menu_button menu_button--icon"
+                        type="button"
+                        ${verdict === 'ACCEPT' ? 'disabled' : ''}
+                        title="${verdict === 'ACCEPT' ? 'Analyze already accepted this rewrite' : `Iterate until Analyze accepts (up to ${getSettings().maxIterations} cycles)`}">
+                    <i class="fa-solid fa-arrows-spin"></i>
+                </button>
             </div>`
         : '';
 
@@ -253,7 +314,7 @@ async function executeStage(stage: StageName): Promise<void> {
     updateStageTabs();
     updatePipelineControls();
 
-    await executeStageAction(state, {
+    const result = await executeStageAction(state, {
         stage,
         callbacks: {
             onStageStart: () => {
@@ -273,12 +334,9 @@ async function executeStage(stage: StageName): Promise<void> {
     });
 
     // Cascade: If we just ran rewrite, auto-run analyze (since analyze depends on rewrite)
-    // This prevents leaving the user with a stale analyze result
-    if (
-        stage === 'rewrite' &&
-        state.stageResults.rewrite &&
-        !state.stageResults.rewrite.error
-    ) {
+    // This prevents leaving the user with a stale analyze result. Candidate
+    // rewrites wait for the user to pick before analysis.
+    if (stage === 'rewrite' && result && !result.error && !result.candidates) {
         await executeStageAction(state, {
             stage: 'analyze',
             callbacks: {
@@ -379,6 +437,54 @@ async function executeQuickIterate(): Promise<void> {
     updatePipelineControls();
 }
 
+/**
+ * Execute auto-iterate via state action.
+ * Repeats Refine → Analyze until the verdict is ACCEPT or a limit is hit.
+ */
+async function executeAutoIterate(): Promise<void> {
+    const state = getState();
+
+    updateStageTabs();
+    updatePipelineControls();
+
+    const summary = await executeAutoIterateAction(state, {
+        callbacks: {
+            onStageStart: () => {
+                updateStageTabs();
+                updatePipelineControls();
+            },
+            onStageComplete: () => {
+                updateResults();
+                updateStageTabs();
+                updatePipelineControls();
+            },
+            onError: () => {
+                updateStageTabs();
+                updatePipelineControls();
+            },
+            onIterateComplete: () => {
+                setActiveStage('analyze');
+                updateStageTabs();
+                updateStageConfig();
+                updateResults();
+            },
+        },
+    });
+
+    updatePipelineControls();
+
+    if (summary) {
+        const message = describeIterationSummary(summary);
+        if (summary.stopReason === 'accepted') {
+            toast.success(message, 'Auto-iterate');
+        } else if (summary.stopReason === 'aborted') {
+            toast.info(message, 'Auto-iterate');
+        } else {
+            toast.warning(message, 'Auto-iterate');
+        }
+    }
+}
+
 // =============================================================================
 // EVENT BINDING
 // =============================================================================
@@ -447,6 +553,34 @@ function bindPipelineControlEvents(container: HTMLElement): void {
         );
     }
 
+    // Auto-iterate (refine + analyze until accepted)
+    const autoIterateBtn = $(`#${MODULE_NAME}_auto_iterate`, container);
+    if (autoIterateBtn) {
+        pipelineControlCleanups.push(
+            on(autoIterateBtn, 'click', () => {
+                executeAutoIterate().catch((e) => {
+                    log.error('Auto-iterate failed', e);
+                });
+            }),
+        );
+    }
+
+    // Restore the last good rewrite after a regression
+    const restoreGoodBtn = $(`#${MODULE_NAME}_restore_good`, container);
+    if (restoreGoodBtn) {
+        pipelineControlCleanups.push(
+            on(restoreGoodBtn, 'click', () => {
+                if (restoreLastGoodRewrite()) {
+                    setActiveStage('rewrite');
+                    updateStageTabs();
+                    updateStageConfig();
+                    updateResults();
+                    updatePipelineControls();
+                }
+            }),
+        );
+    }
+
     // Reset pipeline
     const resetBtn = $(`#${MODULE_NAME}_reset`, container);
     if (resetBtn) {
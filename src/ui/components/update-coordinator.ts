@@ -31,6 +31,7 @@ export type UpdateCategory =
     | 'session' // Session loaded/created/deleted
     | 'stage' // Active stage changed
     | 'pipeline' // Pipeline status changed (running/complete/error)
+    | 'stream' // Streamed output of the running stage
     | 'fields' // Field selection changed
     | 'config' // Stage config changed
     | 'results' // Results updated
@@ -58,6 +59,7 @@ const CATEGORY_TO_SLICES: Record<UpdateCategory, StateSlice[]> = {
     session: ['session'],
     stage: ['pipeline'], // activeStage is in pipeline slice
     pipeline: ['pipeline'],
+    stream: ['stream'],
     fields: ['fields'],
     config: ['config'],
     results: ['results'],
@@ -65,6 +67,7 @@ const CATEGORY_TO_SLICES: Record<UpdateCategory, StateSlice[]> = {
         'character',
         'session',
         'pipeline',
+        'stream',
         'results',
         'config',
         'fields',
@@ -0,0 +1,189 @@
+// src/ui/components/usage-view.ts
+// =============================================================================
+// USAGE VIEW
+// =============================================================================
+//
+// Token and cost totals: compact summaries for the session dropdown and
+// results panel, and a popup with everything recorded, by day and by model.
+//
+// =============================================================================
+
+import { getModelPrices, getUsageLog } from '../../data';
+import {
+    groupUsage,
+    sumResultUsage,
+    sumUsageRecords,
+    type UsageGroup,
+    type UsageTotals,
+} from '../../domain';
+import type { StageResult } from '../../types';
+import { escapeHtml } from '../formatter/helpers';
+import { formatTokenCount } from './base';
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/**
+ * Format a USD cost, with more precision for small amounts.
+ */
+export function formatCost(cost: number): string {
+    if (cost > 0 && cost < 0.0001) return '<$0.0001';
+    return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function describeCost(totals: UsageTotals): string {
+    if (totals.cost === null) return 'no price';
+    return totals.unpriced > 0
+        ? `${formatCost(totals.cost)}+`
+        : formatCost(totals.cost);
+}
+
+function describeTotals(totals: UsageTotals): string {
+    const lines = [
+        `${totals.runs} run${totals.runs === 1 ? '' : 's'}`,
+        `Prompt: ~${totals.promptTokens.toLocaleString()} tokens`,
+        `Completion: ~${totals.completionTokens.toLocaleString()} tokens`,
+    ];
+    if (totals.cost !== null) lines.push(`Cost: ${formatCost(totals.cost)}`);
+    if (totals.unpriced > 0) {
+        lines.push(
+            `${totals.unpriced} run${totals.unpriced === 1 ? '' : 's'} on models without a price`,
+        );
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Token and cost totals of a set of results.
+ */
+export function getResultsUsage(results: StageResult[]): UsageTotals {
+    return sumResultUsage(results, getModelPrices());
+}
+
+/**
+ * Render a one-line usage summary ('' when nothing was recorded).
+ */
+export function renderUsageSummary(
+    totals: UsageTotals,
+    className = '',
+): string {
+    if (totals.runs === 0) return '';
+    const tokens = totals.promptTokens + totals.completionTokens;
+    const cost = totals.cost !== null ? ` · ${describeCost(totals)}` : '';
+
+    return /* html */ `<span class="cr-usage-summary ${className}"
+              title="${escapeHtml(describeTotals(totals))}">~${formatTokenCount(tokens)} tokens${cost}</span>`;
+}
+
+// =============================================================================
+// USAGE VIEW
+// =============================================================================
+
+function renderGroupTable(title: string, groups: UsageGroup[]): string {
+    if (groups.length === 0) return '';
+    const rows = groups
+        .map(
+            ({ key, totals }) => /* html */ `
+            <tr>
+                <td class="cr-usage-table__key" title="${escapeHtml(key)}">${escapeHtml(key)}</td>
+                <td>${totals.runs}</td>
+                <td>${formatTokenCount(totals.promptTokens)}</td>
+                <td>${formatTokenCount(totals.completionTokens)}</td>
+                <td>${describeCost(totals)}</td>
+            </tr>
+        `,
+        )
+        .join('');
+
+    return /* html */ `
+        <section>
+            <h4 class="cr-inspector__heading">${escapeHtml(title)}</h4>
+            <table class="cr-usage-table">
+                <thead>
+                    <tr>
+                        <th></th>
+                        <th>Runs</th>
+                        <th>Prompt</th>
+                        <th>Completion</th>
+                        <th>Cost</th>
+                    </tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>
+        </section>
+    `;
+}
+
+/**
+ * Render recorded usage across all sessions.
+ */
+export function renderUsageView(): string {
+    const log = getUsageLog();
+    const prices = getModelPrices();
+
+    if (log.length === 0) {
+        return /* html */ `
+            <div class="cr-inspector">
+                <h3 class="cr-inspector__title">
+                    <i class="fa-solid fa-chart-column"></i>
+                    Usage
+                </h3>
+                <p class="cr-text-dim">Nothing recorded yet. Token usage is recorded for every stage run.</p>
+            </div>
+        `;
+    }
+
+    const totals = sumUsageRecords(log, prices);
+    const unpricedModels = groupUsage(log, 'model', prices)
+        .filter((g) => g.totals.unpriced > 0)
+        .map((g) => g.key);
+
+    return /* html */ `
+        <div class="cr-inspector cr-usage">
+            <h3 class="cr-inspector__title">
+                <i class="fa-solid fa-chart-column"></i>
+                Usage
+            </h3>
+            ${
+                unpricedModels.length
+                    ? /* html */ `
+                <div class="cr-alert cr-alert--info">
+                    <i class="fa-solid fa-circle-info cr-alert__icon"></i>
+                    <div class="cr-alert__content">
+                        <div class="cr-alert__message">
+                            No price set for ${unpricedModels.map((m) => `<code>${escapeHtml(m)}</code>`).join(', ')}.
+                            Add prices under Settings → Usage &amp; Costs.
+                        </div>
+                    </div>
+                </div>`
+                    : ''
+            }
+            <div class="cr-usage__totals">
+                <div><strong>${totals.runs}</strong><span>runs</span></div>
+                <div><strong>~${formatTokenCount(totals.promptTokens)}</strong><span>prompt tokens</span></div>
+                <div><strong>~${formatTokenCount(totals.completionTokens)}</strong><span>completion tokens</span></div>
+                <div><strong>${describeCost(totals)}</strong><span>estimated cost</span></div>
+            </div>
+            <div class="cr-inspector__grid">
+                ${renderGroupTable('By model', groupUsage(log, 'model', prices))}
+                ${renderGroupTable('By day', groupUsage(log, 'date', prices))}
+            </div>
+            <p class="cr-text-xs cr-text-dim">
+                Token counts are estimates from the prompts sent and responses received.
+                Costs use the current price table.
+            </p>
+        </div>
+    `;
+}
+
+/**
+ * Show recorded usage across all sessions.
+ */
+export async function showUsageView(): Promise<void> {
+    const ctx = SillyTavern.getContext();
+    await ctx.callGenericPopup(renderUsageView(), ctx.POPUP_TYPE.TEXT, '', {
+        wide: true,
+        allowVerticalScrolling: true,
+    });
+}
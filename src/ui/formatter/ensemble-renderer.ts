@@ -0,0 +1,80 @@
+// src/ui/formatter/ensemble-renderer.ts
+// =============================================================================
+// ENSEMBLE SCORE RENDERING
+// =============================================================================
+
+import type { CriterionStats, ScoreEnsemble } from '../../types';
+import { renderScoreBadge } from './json-renderer';
+import { escapeHtml } from './helpers';
+
+function formatScore(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function renderCriterionRow(stats: CriterionStats): string {
+    const scores = stats.scores
+        .map(
+            (score) => /* html */ `
+            <td class="cr-ensemble__cell">
+                ${score === null ? '<span class="cr-text-dim">-</span>' : formatScore(score)}
+            </td>
+        `,
+        )
+        .join('');
+
+    return /* html */ `
+        <tr class="cr-ensemble__row ${stats.disputed ? 'cr-ensemble__row--disputed' : ''}">
+            <th class="cr-ensemble__criterion" scope="row">
+                ${stats.disputed ? '<i class="fa-solid fa-triangle-exclamation" title="Models disagree"></i>' : ''}
+                ${escapeHtml(stats.criterion)}
+            </th>
+            ${scores}
+            <td class="cr-ensemble__cell">${renderScoreBadge(stats.mean)}</td>
+            <td class="cr-ensemble__cell cr-text-dim">${formatScore(stats.min)}-${formatScore(stats.max)}</td>
+            <td class="cr-ensemble__cell cr-ensemble__spread">${formatScore(stats.spread)}</td>
+        </tr>
+    `;
+}
+
+/**
+ * Render an ensemble score as a table: each model's score per criterion,
+ * with the mean, range and spread. Criteria the models disagree on are
+ * highlighted and named in the heading.
+ */
+export function renderScoreEnsemble(ensemble: ScoreEnsemble): string {
+    const rows = [
+        ...(ensemble.overall ? [ensemble.overall] : []),
+        ...ensemble.fields,
+    ];
+    if (rows.length === 0) return '';
+
+    const disputed = rows.filter((r) => r.disputed);
+    const heading = disputed.length
+        ? `Models disagree on ${disputed.map((r) => escapeHtml(r.criterion)).join(', ')}`
+        : 'Models broadly agree';
+
+    return /* html */ `
+        <div class="cr-ensemble">
+            <div class="cr-ensemble__heading ${disputed.length ? 'cr-ensemble__heading--disputed' : ''}">
+                <i class="fa-solid ${disputed.length ? 'fa-triangle-exclamation' : 'fa-circle-check'}"></i>
+                ${heading}
+            </div>
+            <div class="cr-ensemble__scroll">
+                <table class="cr-ensemble__table">
+                    <thead>
+                        <tr>
+                            <th scope="col">Criterion</th>
+                            ${ensemble.members.map((m) => `<th scope="col">${escapeHtml(m.label)}</th>`).join('')}
+                            <th scope="col">Mean</th>
+                            <th scope="col">Range</th>
+                            <th scope="col" title="Highest minus lowest score">Spread</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${rows.map(renderCriterionRow).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    `;
+}
@@ -7,10 +7,12 @@
 // them with the same visual treatment as structured JSON output.
 // =============================================================================
 
-import type { StructuredOutputSchema } from '../../types';
+import type { ScoreEnsemble, StructuredOutputSchema } from '../../types';
 import { parseMarkdownSections } from './markdown-parser';
 import { renderSections } from './section-renderer';
 import { inferSchema, renderStructuredRoot } from './json-renderer';
+import { parsePartialJson } from './partial-json';
+import { renderScoreEnsemble } from './ensemble-renderer';
 
 // =============================================================================
 // PUBLIC API
@@ -65,6 +67,37 @@ export function formatStructuredResponse(
     return DOMPurify.sanitize(html);
 }
 
+/**
+ * Format a structured response that is still streaming in.
+ * Returns null until enough JSON has arrived to render an object.
+ */
+export function formatPartialStructuredResponse(
+    response: string,
+    schema: StructuredOutputSchema | null,
+): string | null {
+    const { DOMPurify } = SillyTavern.libs;
+    const parsed = parsePartialJson(response);
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return null;
+    }
+
+    const html = renderStructuredRoot(
+        parsed as Record<string, unknown>,
+        schema?.value ?? inferSchema(parsed),
+    );
+
+    return DOMPurify.sanitize(html);
+}
+
+/**
+ * Format the per-criterion aggregate of an ensemble score.
+ */
+export function formatScoreEnsemble(ensemble: ScoreEnsemble): string {
+    const { DOMPurify } = SillyTavern.libs;
+    return DOMPurify.sanitize(renderScoreEnsemble(ensemble));
+}
+
 /**
  * Parse a structured response (handles JSON and code blocks)
  */
@@ -94,4 +127,5 @@ export type { ParsedSection, ScoreMatch, ExtractedList } from './types';
 
 // For components that need direct access
 export { renderSections } from './section-renderer';
+export { parsePartialJson } from './partial-json';
 export { formatInlineContent } from './section-renderer';
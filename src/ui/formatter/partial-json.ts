@@ -0,0 +1,128 @@
+// src/ui/formatter/partial-json.ts
+// =============================================================================
+// TOLERANT PARTIAL-JSON PARSING
+// =============================================================================
+//
+// Parses JSON that is still streaming in. Unterminated strings are closed,
+// dangling keys and half-written values are trimmed back to the last
+// complete member, and open containers are closed in order.
+//
+// =============================================================================
+
+/** Upper bound on trim-back attempts before giving up */
+const MAX_REPAIR_ATTEMPTS = 64;
+
+interface ScanState {
+    /** Closing characters for currently open containers (innermost last) */
+    closers: string[];
+    inString: boolean;
+    /** Last char was a backslash inside a string */
+    escaped: boolean;
+    /** Index just past the first complete top-level value, or -1 */
+    completeEnd: number;
+    /** Index of the last structural comma outside strings */
+    lastComma: number;
+    /** Index just past the last opening brace/bracket outside strings */
+    lastOpen: number;
+}
+
+function scan(src: string): ScanState {
+    const state: ScanState = {
+        closers: [],
+        inString: false,
+        escaped: false,
+        completeEnd: -1,
+        lastComma: -1,
+        lastOpen: -1,
+    };
+
+    for (let i = 0; i < src.length; i++) {
+        const ch = src[i];
+
+        if (state.inString) {
+            if (state.escaped) {
+                state.escaped = false;
+            } else if (ch === '\\') {
+                state.escaped = true;
+            } else if (ch === '"') {
+                state.inString = false;
+            }
+            continue;
+        }
+
+        if (ch === '"') {
+            state.inString = true;
+        } else if (ch === '{' || ch === '[') {
+            state.closers.push(ch === '{' ? '}' : ']');
+            state.lastOpen = i + 1;
+        } else if (ch === '}' || ch === ']') {
+            state.closers.pop();
+            if (state.closers.length === 0) {
+                state.completeEnd = i + 1;
+                return state;
+            }
+        } else if (ch === ',') {
+            state.lastComma = i;
+        }
+    }
+
+    return state;
+}
+
+function tryParse(text: string): { ok: boolean; value?: unknown } {
+    try {
+        return { ok: true, value: JSON.parse(text) };
+    } catch {
+        return { ok: false };
+    }
+}
+
+/**
+ * Parse possibly-incomplete JSON into the most complete value available.
+ *
+ * Leading prose or a ```json fence is skipped. Returns null when no
+ * object or array has started yet.
+ *
+ * @example
+ * ```ts
+ * parsePartialJson('{"score": 7, "summary": "Stro');
+ * // → { score: 7, summary: 'Stro' }
+ * ```
+ */
+export function parsePartialJson(text: string): unknown | null {
+    const start = text.search(/[{[]/);
+    if (start === -1) return null;
+
+    let candidate = text.slice(start);
+
+    for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+        const state = scan(candidate);
+
+        // Complete value (ignore anything trailing, e.g. a closing fence)
+        if (state.completeEnd !== -1) {
+            const complete = tryParse(candidate.slice(0, state.completeEnd));
+            if (complete.ok) return complete.value;
+        }
+
+        let repaired = candidate;
+        if (state.inString) {
+            // Drop a dangling escape, then close the string
+            if (state.escaped) repaired = repaired.slice(0, -1);
+            repaired += '"';
+        }
+
+        const closed = tryParse(
+            repaired + [...state.closers].reverse().join(''),
+        );
+        if (closed.ok) return closed.value;
+
+        // Trim back to the last complete member and retry
+        const cut = Math.max(state.lastComma, state.lastOpen);
+        if (cut <= 0 || cut >= candidate.length) {
+            return null;
+        }
+        candidate = candidate.slice(0, cut);
+    }
+
+    return null;
+}
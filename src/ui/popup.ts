@@ -30,11 +30,14 @@ import {
     renderResultsPanel,
     bindResultsPanelEvents,
     updateResults,
+    updateStreamingResult,
     renderApiStatusCompact,
     bindApiStatusEvents,
     openSettingsDrawer,
     initSettingsDrawer,
     destroySettingsDrawer,
+    showUsageView,
+    showAppliedChanges,
     cleanupPipelineControls,
     initDrawer,
     destroyDrawer,
@@ -94,6 +97,20 @@ function _renderPopupContent(): string {
             </div>
         </div>
         <div class="cr-header__right">
+            <button id="${MODULE_NAME}_applied_btn"
+                    class="menu_button menu_button--icon menu_button--ghost"
+                    type="button"
+                    title="Applied changes and rollback"
+                    aria-label="Applied changes and rollback">
+                <i class="fa-solid fa-box-archive"></i>
+            </button>
+            <button id="${MODULE_NAME}_usage_btn"
+                    class="menu_button menu_button--icon menu_button--ghost"
+                    type="button"
+                    title="Token usage and costs"
+                    aria-label="Token usage and costs">
+                <i class="fa-solid fa-chart-column"></i>
+            </button>
             <button id="${MODULE_NAME}_settings_btn"
                     class="menu_button menu_button--icon menu_button--ghost"
                     type="button"
@@ -158,6 +175,9 @@ const safeUpdateStageConfig = withUpdateBoundary(updateStageConfig, {
 const safeUpdateResults = withUpdateBoundary(updateResults, {
     name: 'Results',
 });
+const safeUpdateStreamingResult = withUpdateBoundary(updateStreamingResult, {
+    name: 'StreamingResult',
+});
 const safeUpdateSessionDropdown = withUpdateBoundary(updateSessionDropdown, {
     name: 'SessionDropdown',
 });
@@ -273,10 +293,11 @@ function registerComponentUpdates(): void {
         registerUpdate('stageTabs', safeUpdateStageTabs, ['stage', 'pipeline']),
     );
 
-    // Pipeline controls update on pipeline changes
+    // Pipeline controls update on pipeline/result changes (verdict gating)
     eventCleanups.push(
         registerUpdate('pipelineControls', safeUpdatePipelineControls, [
             'pipeline',
+            'results',
             'character',
         ]),
     );
@@ -297,6 +318,13 @@ function registerComponentUpdates(): void {
         registerUpdate('results', safeUpdateResults, ['results', 'stage']),
     );
 
+    // Streaming output only touches the results content area
+    eventCleanups.push(
+        registerUpdate('streamingResult', safeUpdateStreamingResult, [
+            'stream',
+        ]),
+    );
+
     // Session dropdown updates on session/character changes
     eventCleanups.push(
         registerUpdate('sessionDropdown', safeUpdateSessionDropdown, [
@@ -346,6 +374,30 @@ function bindAllEvents(container: HTMLElement): void {
         );
     }
 
+    // Usage button
+    const usageBtn = $(`#${MODULE_NAME}_usage_btn`, container);
+    if (usageBtn) {
+        eventCleanups.push(
+            on(usageBtn, 'click', () => {
+                showUsageView().catch((error) => {
+                    log.error('Usage view failed', error);
+                });
+            }),
+        );
+    }
+
+    // Applied changes button
+    const appliedBtn = $(`#${MODULE_NAME}_applied_btn`, container);
+    if (appliedBtn) {
+        eventCleanups.push(
+            on(appliedBtn, 'click', () => {
+                showAppliedChanges().catch((error) => {
+                    log.error('Applied changes view failed', error);
+                });
+            }),
+        );
+    }
+
     // Close button
     const closeBtn = $(`#${MODULE_NAME}_close_btn`, container);
     if (closeBtn) {
@@ -17,7 +17,7 @@ vi.mock('../../src/shared', async () => {
             SESSION_INDEX: 'cr_session_index',
             STORAGE_META: 'cr_storage_meta',
         },
-        STORAGE_VERSION: 2,
+        STORAGE_VERSION: 3,
         MAX_SESSIONS_PER_CHARACTER: 5,
         loadLargeData: vi.fn(),
         storeLargeData: vi.fn(),
@@ -130,7 +130,7 @@ function resetMockStorage() {
     // Default: return current version meta
     vi.mocked(loadLargeData).mockImplementation(async (key: string) => {
         if (key === 'cr_storage_meta') {
-            return { version: 2, lastMigration: Date.now() };
+            return { version: 3, lastMigration: Date.now() };
         }
         if (key === 'cr_sessions') {
             return {};
@@ -605,7 +605,7 @@ describe('Storage Migration', () => {
 
         expect(storeLargeData).toHaveBeenCalledWith(
             'cr_storage_meta',
-            expect.objectContaining({ version: 2 }),
+            expect.objectContaining({ version: 3 }),
         );
     });
 
@@ -648,6 +648,52 @@ describe('Storage Migration', () => {
             }),
         );
     });
+
+    it('adds empty generation metadata to older results', async () => {
+        const result = {
+            stage: 'score',
+            timestamp: 1,
+            input: '',
+            output: 'Score: 7/10',
+        };
+        const oldSession = {
+            id: 'old-session',
+            characterId: 'char-1',
+            characterName: 'Old Hero',
+            stageFields: { base: {}, linked: true, overrides: {} },
+            history: [result],
+            stageResults: {
+                score: { ...result },
+                rewrite: null,
+                analyze: null,
+            },
+        };
+
+        vi.mocked(loadLargeData).mockImplementation(async (key: string) => {
+            if (key === 'cr_storage_meta') return { version: 2 };
+            if (key === 'cr_sessions') return { 'old-session': oldSession };
+            return {};
+        });
+
+        await getSessionsForCharacter('char-1');
+
+        const emptyMeta = expect.objectContaining({
+            model: null,
+            promptTokens: null,
+            retries: null,
+        });
+        expect(storeLargeData).toHaveBeenCalledWith(
+            'cr_sessions',
+            expect.objectContaining({
+                'old-session': expect.objectContaining({
+                    history: [expect.objectContaining({ meta: emptyMeta })],
+                    stageResults: expect.objectContaining({
+                        score: expect.objectContaining({ meta: emptyMeta }),
+                    }),
+                }),
+            }),
+        );
+    });
 });
 
 // =============================================================================
@@ -124,6 +124,7 @@ import {
     setStageDefaults,
     getSystemPrompt,
     getRefinementPrompt,
+    resolveStageConnection,
 } from '../../src/data/settings/settings';
 
 // =============================================================================
@@ -231,6 +232,21 @@ describe('Settings Initialization', () => {
             expect(settings.promptPresets).toHaveLength(0);
         });
 
+        it('keeps recorded usage', () => {
+            const usageLog = [
+                {
+                    date: '2026-10-19',
+                    model: 'gpt-4o',
+                    runs: 1,
+                    promptTokens: 100,
+                    completionTokens: 50,
+                },
+            ];
+            mockExtensionSettings['cardrefinery'] = { version: 2, usageLog };
+
+            expect(resetSettings().usageLog).toEqual(usageLog);
+        });
+
         it('saves after reset', () => {
             resetSettings();
             expect(mockSaveSettingsDebounced).toHaveBeenCalled();
@@ -581,3 +597,111 @@ describe('System Prompts', () => {
         });
     });
 });
+
+// =============================================================================
+// TESTS: Stage Connection
+// =============================================================================
+
+describe('Stage Connection', () => {
+    const baseConfig = {
+        promptPresetId: null,
+        customPrompt: '',
+        schemaPresetId: null,
+        customSchema: '',
+        useStructuredOutput: false,
+        profileId: null,
+        temperature: null,
+        maxTokens: null,
+        prefill: null,
+        timeout: null,
+    };
+
+    function setGlobals(overrides: Record<string, unknown> = {}) {
+        mockExtensionSettings['cardrefinery'] = {
+            version: 2,
+            promptPresets: [],
+            schemaPresets: [],
+            stageDefaults: { score: {}, rewrite: {}, analyze: {} },
+            generationMode: 'profile',
+            profileId: 'global-profile',
+            maxTokensOverride: 2000,
+            useAssistantPrefill: true,
+            assistantPrefill: 'Global prefill',
+            ...overrides,
+        };
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        Object.keys(mockExtensionSettings).forEach(
+            (key) => delete mockExtensionSettings[key],
+        );
+    });
+
+    it('falls back to global settings when stage has no overrides', () => {
+        setGlobals();
+
+        const connection = resolveStageConnection(baseConfig);
+
+        expect(connection).toEqual({
+            profileId: 'global-profile',
+            temperature: null,
+            maxTokens: 2000,
+            prefill: 'Global prefill',
+            timeout: null,
+        });
+    });
+
+    it('uses no profile when global mode is current settings', () => {
+        setGlobals({ generationMode: 'current' });
+
+        const connection = resolveStageConnection(baseConfig);
+
+        expect(connection.profileId).toBeNull();
+    });
+
+    it('prefers per-stage overrides', () => {
+        setGlobals();
+
+        const connection = resolveStageConnection({
+            ...baseConfig,
+            profileId: 'fast-model',
+            temperature: 0.2,
+            maxTokens: 500,
+            prefill: 'Stage prefill',
+            timeout: 90,
+        });
+
+        expect(connection).toEqual({
+            profileId: 'fast-model',
+            temperature: 0.2,
+            maxTokens: 500,
+            prefill: 'Stage prefill',
+            timeout: 90,
+        });
+    });
+
+    it('ignores global prefill when disabled', () => {
+        setGlobals({ useAssistantPrefill: false });
+
+        const connection = resolveStageConnection(baseConfig);
+
+        expect(connection.prefill).toBe('');
+    });
+
+    it('treats missing fields on older configs as unset', () => {
+        setGlobals();
+
+        const connection = resolveStageConnection({
+            promptPresetId: null,
+            customPrompt: '',
+            schemaPresetId: null,
+            customSchema: '',
+            useStructuredOutput: false,
+        } as typeof baseConfig);
+
+        expect(connection.profileId).toBe('global-profile');
+        expect(connection.maxTokens).toBe(2000);
+        expect(connection.timeout).toBeNull();
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Usage Log Tests
+ *
+ * Tests for recording token usage per day and model.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { GenerationMeta, Settings } from '../../src/types';
+
+// =============================================================================
+// MOCKS
+// =============================================================================
+
+const mockSettings = vi.hoisted(() => ({
+    current: {} as Pick<Settings, 'usageLog' | 'modelPrices'>,
+}));
+
+vi.mock('../../src/data/settings/settings', () => ({
+    getSettings: vi.fn(() => mockSettings.current),
+    save: vi.fn(),
+}));
+
+import {
+    recordUsage,
+    setModelPrices,
+    toUsageDate,
+} from '../../src/data/settings/usage';
+import { save } from '../../src/data/settings/settings';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function meta(overrides: Partial<GenerationMeta> = {}): GenerationMeta {
+    return {
+        model: 'gpt-4o',
+        source: 'openai',
+        profileId: null,
+        promptPresetId: null,
+        promptPresetVersion: null,
+        schemaPresetId: null,
+        schemaPresetVersion: null,
+        structured: null,
+        promptTokens: 100,
+        completionTokens: 50,
+        durationMs: 1000,
+        retries: 0,
+        ...overrides,
+    };
+}
+
+const noon = new Date(2026, 9, 19, 12).getTime();
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('recordUsage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockSettings.current = { usageLog: [], modelPrices: [] };
+    });
+
+    it('adds runs of the same model and day together', () => {
+        recordUsage(meta(), noon);
+        recordUsage(meta({ promptTokens: 200 }), noon + 60_000);
+
+        expect(mockSettings.current.usageLog).toEqual([
+            {
+                date: '2026-10-19',
+                model: 'gpt-4o',
+                runs: 2,
+                promptTokens: 300,
+                completionTokens: 100,
+            },
+        ]);
+        expect(save).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps days and models apart', () => {
+        recordUsage(meta(), noon);
+        recordUsage(meta(), noon + 24 * 60 * 60 * 1000);
+        recordUsage(meta({ model: null }), noon);
+
+        expect(
+            mockSettings.current.usageLog.map((r) => `${r.date} ${r.model}`),
+        ).toEqual([
+            '2026-10-19 gpt-4o',
+            '2026-10-20 gpt-4o',
+            '2026-10-19 unknown',
+        ]);
+    });
+
+    it('skips runs without token counts', () => {
+        recordUsage(meta({ promptTokens: null, completionTokens: null }), noon);
+
+        expect(mockSettings.current.usageLog).toEqual([]);
+    });
+});
+
+describe('setModelPrices', () => {
+    it('drops rows without a model', () => {
+        mockSettings.current = { usageLog: [], modelPrices: [] };
+
+        setModelPrices([
+            { model: ' gpt-4o ', input: 2.5, output: 10 },
+            { model: '', input: 1, output: 1 },
+        ]);
+
+        expect(mockSettings.current.modelPrices).toEqual([
+            { model: 'gpt-4o', input: 2.5, output: 10 },
+        ]);
+    });
+});
+
+describe('toUsageDate', () => {
+    it('uses the local calendar date', () => {
+        expect(toUsageDate(new Date(2026, 0, 5, 23, 59).getTime())).toBe(
+            '2026-01-05',
+        );
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * Card Update Tests
+ *
+ * Tests for writing field values to their V1/V2 card locations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildCardUpdate,
+    mergeCardUpdate,
+} from '../../src/domain/character/card-update';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function createCardJson(): Record<string, unknown> {
+    return {
+        name: 'Test Character',
+        description: 'A brave warrior.',
+        creatorcomment: 'Old notes.',
+        data: {
+            name: 'Test Character',
+            description: 'A brave warrior.',
+            creator_notes: 'Old notes.',
+            alternate_greetings: ['Hi.', 'Hey.', 'Yo.'],
+            extensions: {
+                talkativeness: '0.5',
+                depth_prompt: {
+                    prompt: 'Stay in character.',
+                    depth: 2,
+                    role: 'user',
+                },
+            },
+        },
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('buildCardUpdate', () => {
+    it('mirrors V1 fields under data', () => {
+        expect(
+            buildCardUpdate(createCardJson(), [
+                { key: 'description', value: 'Tall.' },
+            ]),
+        ).toEqual({ description: 'Tall.', data: { description: 'Tall.' } });
+    });
+
+    it('writes V2-only fields under data, with their V1 key if the card has one', () => {
+        expect(
+            buildCardUpdate(createCardJson(), [
+                { key: 'system_prompt', value: 'Be terse.' },
+                { key: 'creator_notes', value: 'New notes.' },
+            ]),
+        ).toEqual({
+            creatorcomment: 'New notes.',
+            data: { system_prompt: 'Be terse.', creator_notes: 'New notes.' },
+        });
+    });
+
+    it("keeps the depth prompt's depth and role", () => {
+        const update = buildCardUpdate(createCardJson(), [
+            { key: 'depth_prompt', value: 'Speak in rhyme.' },
+        ]);
+
+        expect(update).toEqual({
+            data: {
+                extensions: {
+                    depth_prompt: {
+                        prompt: 'Speak in rhyme.',
+                        depth: 2,
+                        role: 'user',
+                    },
+                },
+            },
+        });
+    });
+
+    it('gives a new depth prompt the default depth and role', () => {
+        const update = buildCardUpdate({ data: {} }, [
+            { key: 'depth_prompt', value: 'Speak in rhyme.' },
+        ]);
+
+        expect(update).toEqual({
+            data: {
+                extensions: {
+                    depth_prompt: {
+                        prompt: 'Speak in rhyme.',
+                        depth: 4,
+                        role: 'system',
+                    },
+                },
+            },
+        });
+    });
+
+    it('writes greetings as a list, dropping blank ones', () => {
+        const card = createCardJson();
+
+        expect(
+            buildCardUpdate(card, [
+                { key: 'alternate_greetings', value: ['Yo.', ' ', 'Hi.'] },
+            ]),
+        ).toEqual({ data: { alternate_greetings: ['Yo.', 'Hi.'] } });
+    });
+
+    it('never splits a greeting on its own markdown rules', () => {
+        const greeting = 'Before.\n---\nAfter.';
+
+        expect(
+            buildCardUpdate(createCardJson(), [
+                { key: 'alternate_greetings', value: [greeting] },
+            ]),
+        ).toEqual({ data: { alternate_greetings: [greeting] } });
+        expect(
+            buildCardUpdate(createCardJson(), [
+                { key: 'alternate_greetings', value: greeting },
+            ]),
+        ).toEqual({ data: { alternate_greetings: [greeting] } });
+    });
+
+    it('ignores unknown keys', () => {
+        expect(
+            buildCardUpdate(createCardJson(), [{ key: 'avatar', value: 'x' }]),
+        ).toEqual({});
+    });
+});
+
+describe('mergeCardUpdate', () => {
+    it('merges objects and replaces arrays', () => {
+        const card = createCardJson();
+        const merged = mergeCardUpdate(
+            card,
+            buildCardUpdate(card, [
+                { key: 'alternate_greetings', value: ['Yo.', 'Hi.'] },
+                { key: 'depth_prompt', value: 'Speak in rhyme.' },
+            ]),
+        );
+        const data = merged.data as Record<string, unknown>;
+
+        expect(data.alternate_greetings).toEqual(['Yo.', 'Hi.']);
+        expect(data.extensions).toEqual({
+            talkativeness: '0.5',
+            depth_prompt: {
+                prompt: 'Speak in rhyme.',
+                depth: 2,
+                role: 'user',
+            },
+        });
+        expect(data.description).toBe('A brave warrior.');
+    });
+
+    it('leaves the card unchanged', () => {
+        const card = createCardJson();
+        mergeCardUpdate(
+            card,
+            buildCardUpdate(card, [{ key: 'description', value: 'Tall.' }]),
+        );
+
+        expect(card).toEqual(createCardJson());
+    });
+});
@@ -0,0 +1,186 @@
+/**
+ * Text Diff Tests
+ *
+ * Tests for tokenizing and word- and sentence-level diffs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    MAX_DIFF_EDITS,
+    diffHunks,
+    diffText,
+    mergeHunks,
+    summarizeDiff,
+    tokenizeText,
+} from '../../src/domain/diff';
+import type { DiffPart } from '../../src/domain/diff';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function join(parts: DiffPart[], skip: DiffPart['type']): string {
+    return parts
+        .filter((p) => p.type !== skip)
+        .map((p) => p.text)
+        .join('');
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('tokenizeText', () => {
+    const text = 'She\'s tall — "really" tall.\n\nIs she? Yes… mostly!';
+
+    it('splits words, whitespace and symbols', () => {
+        expect(tokenizeText("It's late. Go!", 'word')).toEqual([
+            "It's",
+            ' ',
+            'late',
+            '.',
+            ' ',
+            'Go',
+            '!',
+        ]);
+    });
+
+    it('splits sentences, spaces and line breaks', () => {
+        expect(tokenizeText(text, 'sentence')).toEqual([
+            'She\'s tall — "really" tall.',
+            '\n\n',
+            'Is she?',
+            ' ',
+            'Yes…',
+            ' ',
+            'mostly!',
+        ]);
+    });
+
+    it('keeps every character', () => {
+        expect(tokenizeText(text, 'word').join('')).toBe(text);
+        expect(tokenizeText(text, 'sentence').join('')).toBe(text);
+        expect(tokenizeText('', 'word')).toEqual([]);
+    });
+});
+
+describe('diffText', () => {
+    it('marks replaced words', () => {
+        expect(diffText('A brave warrior.', 'A bold warrior.')).toEqual([
+            { type: 'equal', text: 'A ' },
+            { type: 'delete', text: 'brave' },
+            { type: 'insert', text: 'bold' },
+            { type: 'equal', text: ' warrior.' },
+        ]);
+    });
+
+    it('finds insertions and deletions in the middle of the text', () => {
+        const parts = diffText(
+            'He smiles and waves at you.',
+            'He smiles warmly and waves.',
+        );
+
+        const changed = (type: DiffPart['type']) =>
+            parts.filter((p) => p.type === type).map((p) => p.text.trim());
+
+        expect(changed('insert')).toEqual(['warmly']);
+        expect(changed('delete')).toEqual(['at you']);
+    });
+
+    it('rebuilds both texts from the parts', () => {
+        const original = 'Line one.\nLine two has words. End.';
+        const rewritten = 'Line one!\nLine two has more words. Finish.';
+
+        for (const granularity of ['word', 'sentence'] as const) {
+            const parts = diffText(original, rewritten, granularity);
+            expect(join(parts, 'insert')).toBe(original);
+            expect(join(parts, 'delete')).toBe(rewritten);
+        }
+    });
+
+    it('diffs whole sentences at sentence granularity', () => {
+        expect(
+            diffText('One. Two. Three.', 'One. Deux. Three.', 'sentence'),
+        ).toEqual([
+            { type: 'equal', text: 'One. ' },
+            { type: 'delete', text: 'Two.' },
+            { type: 'insert', text: 'Deux.' },
+            { type: 'equal', text: ' Three.' },
+        ]);
+    });
+
+    it('handles empty and identical texts', () => {
+        expect(diffText('', 'New text')).toEqual([
+            { type: 'insert', text: 'New text' },
+        ]);
+        expect(diffText('Same', 'Same')).toEqual([
+            { type: 'equal', text: 'Same' },
+        ]);
+    });
+
+    it('replaces the whole text past the edit limit', () => {
+        const words = (prefix: string) =>
+            Array.from(
+                { length: MAX_DIFF_EDITS },
+                (_, i) => `${prefix}${i}`,
+            ).join(' ');
+        const original = words('a');
+        const rewritten = words('b');
+
+        expect(diffText(original, rewritten)).toEqual([
+            { type: 'delete', text: original },
+            { type: 'insert', text: rewritten },
+        ]);
+    });
+});
+
+describe('summarizeDiff', () => {
+    it('counts words added and removed', () => {
+        const parts = diffText(
+            'The old grey cat sleeps.',
+            "The cat's sleeping soundly, ok?",
+        );
+
+        expect(summarizeDiff(parts)).toEqual({ added: 4, removed: 4 });
+    });
+});
+
+describe('diffHunks', () => {
+    it('groups changed sentences into hunks', () => {
+        expect(
+            diffHunks('One. Two. Three.', 'One. Deux. Three. Four.'),
+        ).toEqual([
+            { type: 'equal', text: 'One. ' },
+            { type: 'change', original: 'Two.', rewritten: 'Deux.' },
+            { type: 'equal', text: ' Three.' },
+            { type: 'change', original: '', rewritten: ' Four.' },
+        ]);
+    });
+
+    it('keeps paragraphs apart', () => {
+        const hunks = diffHunks(
+            'First line.\nSecond line.',
+            'First one.\nSecond one.',
+        ).filter((s) => s.type === 'change');
+
+        expect(hunks).toHaveLength(2);
+    });
+});
+
+describe('mergeHunks', () => {
+    const original = 'Calm. Quiet. Kind.';
+    const rewritten = 'Calm. Loud. Kind. Brave.';
+    const segments = diffHunks(original, rewritten);
+
+    it('rebuilds the rewrite or the original', () => {
+        expect(mergeHunks(segments, [true, true])).toBe(rewritten);
+        expect(mergeHunks(segments, [false, false])).toBe(original);
+    });
+
+    it('mixes accepted and rejected hunks', () => {
+        expect(mergeHunks(segments, [false, true])).toBe(
+            'Calm. Quiet. Kind. Brave.',
+        );
+        expect(mergeHunks(segments, [true, false])).toBe('Calm. Loud. Kind.');
+    });
+});
@@ -0,0 +1,792 @@
+/**
+ * Generation Tests
+ *
+ * Tests routing of generation requests between ST's generateRaw and
+ * Connection Manager profiles.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getMockContext } from '../setup';
+
+// =============================================================================
+// MOCKS
+// =============================================================================
+
+vi.mock('../../src/shared', async () => {
+    const actual = await vi.importActual('../../src/shared');
+    return {
+        ...actual,
+        log: {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        },
+        isApiReady: vi.fn(() => true),
+        getApiStatus: vi.fn(() => ({
+            isReady: true,
+            source: 'openai',
+            model: 'gpt-4o',
+            apiType: 'cc',
+            maxOutput: 2048,
+            error: null,
+        })),
+    };
+});
+
+const mockSettings = vi.hoisted(() => ({
+    current: {} as Record<string, unknown>,
+}));
+const mockGetActiveProfileId = vi.hoisted(() => vi.fn(() => null));
+
+vi.mock('../../src/data', () => ({
+    getSettings: vi.fn(() => mockSettings.current),
+    getActiveProfileId: mockGetActiveProfileId,
+}));
+
+import { generate } from '../../src/domain/generation';
+import { isApiReady } from '../../src/shared';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function setupContext() {
+    const ctx = getMockContext() as unknown as Record<string, unknown>;
+    const generateRaw = vi.fn().mockResolvedValue('raw response');
+    const sendRequest = vi
+        .fn()
+        .mockResolvedValue({ content: 'profile response' });
+    ctx.generateRaw = generateRaw;
+    ctx.chatCompletionSettings = { reasoning_effort: 'high' };
+    ctx.ConnectionManagerRequestService = {
+        sendRequest,
+        getSupportedProfiles: vi.fn(() => []),
+    };
+    return { ctx, generateRaw, sendRequest };
+}
+
+/** Build a CMRS-style streaming response from cumulative chunks */
+function streamOf(chunks: string[], onChunk?: (i: number) => void) {
+    return () =>
+        (async function* () {
+            for (let i = 0; i < chunks.length; i++) {
+                onChunk?.(i);
+                yield { text: chunks[i], swipes: [], state: {} };
+            }
+        })();
+}
+
+const schema = {
+    name: 'Test',
+    strict: true,
+    value: {
+        type: 'object' as const,
+        properties: { ok: { type: 'boolean' as const } },
+        required: ['ok'],
+        additionalProperties: false,
+    },
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('generate', () => {
+    beforeEach(() => {
+        mockSettings.current = {
+            maxTokensOverride: null,
+            disableThinking: false,
+            useAssistantPrefill: false,
+            assistantPrefill: '',
+        };
+        mockGetActiveProfileId.mockReturnValue(null);
+    });
+
+    describe('current settings', () => {
+        it('uses generateRaw when no profile is active', async () => {
+            const { generateRaw, sendRequest } = setupContext();
+
+            const result = await generate({
+                prompt: 'Hello',
+                systemPrompt: 'System',
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.response).toBe('raw response');
+            expect(generateRaw).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    prompt: 'Hello',
+                    systemPrompt: 'System',
+                }),
+            );
+            expect(sendRequest).not.toHaveBeenCalled();
+        });
+
+        it('restores reasoning_effort after disabling it', async () => {
+            const { ctx, generateRaw } = setupContext();
+            mockSettings.current.disableThinking = true;
+            let effortDuringCall: unknown;
+            generateRaw.mockImplementation(async () => {
+                effortDuringCall = (
+                    ctx.chatCompletionSettings as Record<string, unknown>
+                ).reasoning_effort;
+                return 'done';
+            });
+
+            await generate({ prompt: 'Hello' });
+
+            expect(effortDuringCall).toBe('auto');
+            expect(
+                (ctx.chatCompletionSettings as Record<string, unknown>)
+                    .reasoning_effort,
+            ).toBe('high');
+        });
+
+        it('temporarily overrides temperature', async () => {
+            const { ctx, generateRaw } = setupContext();
+            const ccs = ctx.chatCompletionSettings as Record<string, unknown>;
+            ccs.temp_openai = 1;
+            let temperatureDuringCall: unknown;
+            generateRaw.mockImplementation(async () => {
+                temperatureDuringCall = ccs.temp_openai;
+                return 'done';
+            });
+
+            await generate({ prompt: 'Hello', temperature: 0.4 });
+
+            expect(temperatureDuringCall).toBe(0.4);
+            expect(ccs.temp_openai).toBe(1);
+        });
+
+        it('streams chat completions through ChatCompletionService', async () => {
+            const { ctx, generateRaw } = setupContext();
+            const createRequestData = vi.fn((data) => data);
+            const sendRequest = vi
+                .fn()
+                .mockResolvedValue(streamOf(['{"ok":', '{"ok":true}']));
+            ctx.mainApi = 'openai';
+            ctx.ChatCompletionService = { createRequestData, sendRequest };
+            const onStream = vi.fn();
+
+            const result = await generate({
+                prompt: 'Hello',
+                jsonSchema: schema,
+                onStream,
+            });
+
+            expect(generateRaw).not.toHaveBeenCalled();
+            expect(createRequestData).toHaveBeenCalledWith(
+                expect.objectContaining({ stream: true, json_schema: schema }),
+            );
+            expect(onStream).toHaveBeenLastCalledWith('{"ok":true}');
+            expect(result.parsed).toEqual({ ok: true });
+        });
+
+        it("sends the user's samplers and post-processing", async () => {
+            const { ctx } = setupContext();
+            const createRequestData = vi.fn((data) => data);
+            ctx.mainApi = 'openai';
+            ctx.ChatCompletionService = {
+                createRequestData,
+                sendRequest: vi.fn().mockResolvedValue({ content: 'ok' }),
+            };
+            ctx.chatCompletionSettings = {
+                reasoning_effort: 'high',
+                temp_openai: 0.9,
+                top_p_openai: 0.8,
+                top_k_openai: 40,
+                freq_pen_openai: 0.3,
+                pres_pen_openai: 0.2,
+                custom_prompt_post_processing: 'merge',
+                seed: -1,
+            };
+
+            await generate({ prompt: 'Hello' });
+
+            const data = createRequestData.mock.calls[0][0];
+            expect(data).toMatchObject({
+                temperature: 0.9,
+                top_p: 0.8,
+                top_k: 40,
+                frequency_penalty: 0.3,
+                presence_penalty: 0.2,
+                custom_prompt_post_processing: 'merge',
+            });
+            expect(data).not.toHaveProperty('seed');
+            expect(data).not.toHaveProperty('min_p');
+        });
+
+        it('falls back to generateRaw for text completion', async () => {
+            const { ctx, generateRaw } = setupContext();
+            ctx.mainApi = 'textgenerationwebui';
+            ctx.ChatCompletionService = {
+                createRequestData: vi.fn(),
+                sendRequest: vi.fn(),
+            };
+
+            const result = await generate({
+                prompt: 'Hello',
+                onStream: vi.fn(),
+            });
+
+            expect(generateRaw).toHaveBeenCalled();
+            expect(result.response).toBe('raw response');
+        });
+
+        it('uses an explicit prefill over the global setting', async () => {
+            const { generateRaw } = setupContext();
+
+            await generate({ prompt: 'Hello', prefill: 'Stage:' });
+
+            expect(generateRaw).toHaveBeenCalledWith(
+                expect.objectContaining({ prefill: 'Stage:' }),
+            );
+        });
+    });
+
+    describe('connection profile', () => {
+        beforeEach(() => {
+            mockGetActiveProfileId.mockReturnValue('profile-1' as never);
+        });
+
+        it('sends through CMRS with the profile id', async () => {
+            const { generateRaw, sendRequest } = setupContext();
+
+            const result = await generate({
+                prompt: 'Hello',
+                systemPrompt: 'System',
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.response).toBe('profile response');
+            expect(generateRaw).not.toHaveBeenCalled();
+            expect(sendRequest).toHaveBeenCalledWith(
+                'profile-1',
+                [
+                    { role: 'system', content: 'System' },
+                    { role: 'user', content: 'Hello' },
+                ],
+                2048,
+                expect.objectContaining({ includePreset: true }),
+                {},
+            );
+        });
+
+        it('checks readiness of the active profile', async () => {
+            setupContext();
+
+            await generate({ prompt: 'Hello' });
+
+            expect(isApiReady).toHaveBeenCalledWith('profile-1');
+        });
+
+        it('prefers the max tokens override', async () => {
+            const { sendRequest } = setupContext();
+            mockSettings.current.maxTokensOverride = 512;
+
+            await generate({ prompt: 'Hello' });
+
+            expect(sendRequest.mock.calls[0][2]).toBe(512);
+        });
+
+        it('appends assistant prefill as the last message', async () => {
+            const { sendRequest } = setupContext();
+            mockSettings.current.useAssistantPrefill = true;
+            mockSettings.current.assistantPrefill = 'Sure:';
+
+            await generate({ prompt: 'Hello' });
+
+            const messages = sendRequest.mock.calls[0][1];
+            expect(messages[messages.length - 1]).toEqual({
+                role: 'assistant',
+                content: 'Sure:',
+            });
+        });
+
+        it('passes schema and reasoning overrides in the payload', async () => {
+            const { ctx, sendRequest } = setupContext();
+            mockSettings.current.disableThinking = true;
+            sendRequest.mockResolvedValue({ content: '{"ok":true}' });
+
+            const result = await generate({
+                prompt: 'Hello',
+                jsonSchema: schema,
+            });
+
+            expect(sendRequest.mock.calls[0][4]).toEqual({
+                json_schema: schema,
+                reasoning_effort: 'auto',
+            });
+            // Global settings are never touched on the profile path
+            expect(
+                (ctx.chatCompletionSettings as Record<string, unknown>)
+                    .reasoning_effort,
+            ).toBe('high');
+            expect(result.parsed).toEqual({ ok: true });
+        });
+
+        it('reports the finish reason when the API returns one', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest.mockResolvedValue({
+                content: 'cut off',
+                finish_reason: 'length',
+            });
+
+            const result = await generate({ prompt: 'Hello' });
+
+            expect(result.finishReason).toBe('length');
+        });
+
+        it('passes temperature in the payload', async () => {
+            const { sendRequest } = setupContext();
+
+            await generate({ prompt: 'Hello', temperature: 0.3 });
+
+            expect(sendRequest.mock.calls[0][4]).toEqual({ temperature: 0.3 });
+        });
+
+        it('honors an explicit profile over the active setting', async () => {
+            const { generateRaw, sendRequest } = setupContext();
+
+            await generate({ prompt: 'Hello', profileId: null });
+
+            expect(generateRaw).toHaveBeenCalled();
+            expect(sendRequest).not.toHaveBeenCalled();
+        });
+
+        it('streams accumulated text to onStream', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest.mockResolvedValue(streamOf(['He', 'Hell', 'Hello']));
+            const onStream = vi.fn();
+
+            const result = await generate({ prompt: 'Hi', onStream });
+
+            expect(sendRequest.mock.calls[0][3]).toEqual(
+                expect.objectContaining({ stream: true }),
+            );
+            expect(onStream.mock.calls.map((c) => c[0])).toEqual([
+                'He',
+                'Hell',
+                'Hello',
+            ]);
+            expect(result.success).toBe(true);
+            expect(result.response).toBe('Hello');
+        });
+
+        it('keeps partial text when aborted mid-stream', async () => {
+            const { sendRequest } = setupContext();
+            const controller = new AbortController();
+            sendRequest.mockResolvedValue(
+                streamOf(['Par', 'Partial', 'Partial out'], (i) => {
+                    if (i === 2) controller.abort();
+                }),
+            );
+
+            const result = await generate({
+                prompt: 'Hi',
+                signal: controller.signal,
+                onStream: vi.fn(),
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toBe('Generation cancelled');
+            expect(result.response).toBe('Partial');
+        });
+
+        it('passes the abort signal to the request', async () => {
+            const { sendRequest } = setupContext();
+            const controller = new AbortController();
+            let abortedDuringRequest = false;
+            sendRequest.mockImplementation(
+                async (_id, _messages, _tokens, custom) => {
+                    controller.abort();
+                    abortedDuringRequest = custom.signal.aborted;
+                    return { content: 'late' };
+                },
+            );
+
+            const result = await generate({
+                prompt: 'Hello',
+                signal: controller.signal,
+            });
+
+            expect(abortedDuringRequest).toBe(true);
+            expect(result.error).toBe('Generation cancelled');
+        });
+
+        it('categorizes errors from the profile request', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest.mockRejectedValue(new Error('429 Too Many Requests'));
+
+            const result = await generate({ prompt: 'Hello' });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Rate limited');
+        });
+    });
+
+    describe('cancellation', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('sends chat completions with the signal and no global mutation', async () => {
+            const { ctx, generateRaw } = setupContext();
+            mockSettings.current.disableThinking = true;
+            const createRequestData = vi.fn((data) => data);
+            const sendRequest = vi.fn().mockResolvedValue({ content: 'ok' });
+            ctx.mainApi = 'openai';
+            ctx.ChatCompletionService = { createRequestData, sendRequest };
+            const controller = new AbortController();
+
+            const result = await generate({
+                prompt: 'Hello',
+                temperature: 0.5,
+                signal: controller.signal,
+            });
+
+            expect(result.response).toBe('ok');
+            expect(generateRaw).not.toHaveBeenCalled();
+            expect(createRequestData).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    stream: false,
+                    temperature: 0.5,
+                    reasoning_effort: 'auto',
+                }),
+            );
+            expect(sendRequest.mock.calls[0][2]).toBeInstanceOf(AbortSignal);
+            expect(
+                (ctx.chatCompletionSettings as Record<string, unknown>)
+                    .reasoning_effort,
+            ).toBe('high');
+        });
+
+        it('abandons generateRaw on abort and restores settings immediately', async () => {
+            const { ctx, generateRaw } = setupContext();
+            mockSettings.current.disableThinking = true;
+            const controller = new AbortController();
+            generateRaw.mockImplementation(() => {
+                controller.abort();
+                return new Promise(() => {});
+            });
+
+            const result = await generate({
+                prompt: 'Hello',
+                signal: controller.signal,
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toBe('Generation cancelled');
+            expect(
+                (ctx.chatCompletionSettings as Record<string, unknown>)
+                    .reasoning_effort,
+            ).toBe('high');
+        });
+
+        it('turns a hung request into a timeout error', async () => {
+            vi.useFakeTimers();
+            const { generateRaw } = setupContext();
+            generateRaw.mockReturnValue(new Promise(() => {}));
+
+            const pending = generate({ prompt: 'Hello', timeoutMs: 30000 });
+            await vi.advanceTimersByTimeAsync(30000);
+            const result = await pending;
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('timed out after 30s');
+        });
+
+        it('aborts the profile request when the timeout elapses', async () => {
+            vi.useFakeTimers();
+            mockGetActiveProfileId.mockReturnValue('profile-1' as never);
+            const { sendRequest } = setupContext();
+            let requestSignal: AbortSignal | null = null;
+            sendRequest.mockImplementation(
+                (_id, _messages, _tokens, custom: { signal: AbortSignal }) => {
+                    requestSignal = custom.signal;
+                    return new Promise((_resolve, reject) => {
+                        custom.signal.addEventListener('abort', () =>
+                            reject(new DOMException('Aborted', 'AbortError')),
+                        );
+                    });
+                },
+            );
+
+            const pending = generate({ prompt: 'Hello', timeoutMs: 5000 });
+            await vi.advanceTimersByTimeAsync(5000);
+            const result = await pending;
+
+            expect(requestSignal!.aborted).toBe(true);
+            expect(result.error).toContain('timed out');
+        });
+
+        it('does not time out a request that finishes in time', async () => {
+            vi.useFakeTimers();
+            setupContext();
+
+            const result = await generate({ prompt: 'Hello', timeoutMs: 5000 });
+            await vi.advanceTimersByTimeAsync(10000);
+
+            expect(result.success).toBe(true);
+        });
+    });
+
+    describe('retries', () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+            mockSettings.current.maxRetries = 2;
+            mockGetActiveProfileId.mockReturnValue('profile-1' as never);
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('retries rate limits with backoff and reports each attempt', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest
+                .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+                .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+                .mockResolvedValue({ content: 'recovered' });
+            const onRetry = vi.fn();
+
+            const pending = generate({ prompt: 'Hello', onRetry });
+            await vi.runAllTimersAsync();
+            const result = await pending;
+
+            expect(result.success).toBe(true);
+            expect(result.response).toBe('recovered');
+            expect(sendRequest).toHaveBeenCalledTimes(3);
+            expect(result.retries).toBe(2);
+            expect(onRetry.mock.calls.map((c) => c[0])).toEqual([
+                expect.objectContaining({
+                    attempt: 1,
+                    maxRetries: 2,
+                    delayMs: 2000,
+                    error: expect.stringContaining('Rate limited'),
+                }),
+                expect.objectContaining({
+                    attempt: 2,
+                    delayMs: 4000,
+                    error: expect.stringContaining('server error'),
+                }),
+            ]);
+        });
+
+        it('honors Retry-After from the error', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest
+                .mockRejectedValueOnce(
+                    new Error('429 rate limit exceeded. Retry-After: 7'),
+                )
+                .mockResolvedValue({ content: 'ok' });
+            const onRetry = vi.fn();
+
+            const pending = generate({ prompt: 'Hello', onRetry });
+            await vi.runAllTimersAsync();
+            await pending;
+
+            expect(onRetry.mock.calls[0][0].delayMs).toBe(7000);
+        });
+
+        it('reads "try again in" hints', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest
+                .mockRejectedValueOnce(
+                    new Error('Rate limit reached. Please try again in 850ms.'),
+                )
+                .mockResolvedValue({ content: 'ok' });
+            const onRetry = vi.fn();
+
+            const pending = generate({ prompt: 'Hello', onRetry });
+            await vi.runAllTimersAsync();
+            await pending;
+
+            expect(onRetry.mock.calls[0][0].delayMs).toBe(850);
+        });
+
+        it('gives up after the configured number of retries', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest.mockRejectedValue(new Error('502 Bad Gateway'));
+
+            const pending = generate({ prompt: 'Hello' });
+            await vi.runAllTimersAsync();
+            const result = await pending;
+
+            expect(sendRequest).toHaveBeenCalledTimes(3);
+            expect(result.success).toBe(false);
+            expect(result.errorCategory).toBe('server');
+        });
+
+        it('never retries authentication errors', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest.mockRejectedValue(new Error('401 Unauthorized'));
+
+            const result = await generate({ prompt: 'Hello' });
+
+            expect(sendRequest).toHaveBeenCalledTimes(1);
+            expect(result.errorCategory).toBe('auth');
+        });
+
+        it('never retries content filter errors', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest.mockRejectedValue(
+                new Error('Request blocked by content filter'),
+            );
+
+            const result = await generate({ prompt: 'Hello' });
+
+            expect(sendRequest).toHaveBeenCalledTimes(1);
+            expect(result.errorCategory).toBe('content_filter');
+        });
+
+        it('retries a request that timed out before responding', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest
+                .mockImplementationOnce(
+                    (_id, _messages, _tokens, custom) =>
+                        new Promise((_resolve, reject) => {
+                            custom.signal.addEventListener('abort', () =>
+                                reject(
+                                    new DOMException('Aborted', 'AbortError'),
+                                ),
+                            );
+                        }),
+                )
+                .mockResolvedValue({ content: 'second try' });
+
+            const pending = generate({ prompt: 'Hello', timeoutMs: 1000 });
+            await vi.runAllTimersAsync();
+            const result = await pending;
+
+            expect(sendRequest).toHaveBeenCalledTimes(2);
+            expect(result.response).toBe('second try');
+        });
+
+        it('stops retrying when cancelled during backoff', async () => {
+            const { sendRequest } = setupContext();
+            sendRequest.mockRejectedValue(new Error('429 Too Many Requests'));
+            const controller = new AbortController();
+
+            const pending = generate({
+                prompt: 'Hello',
+                signal: controller.signal,
+            });
+            await vi.advanceTimersByTimeAsync(0);
+            controller.abort();
+            const result = await pending;
+
+            expect(sendRequest).toHaveBeenCalledTimes(1);
+            expect(result.error).toBe('Generation cancelled');
+        });
+    });
+
+    describe('structured output repair', () => {
+        it('extracts JSON from prose without a repair', async () => {
+            const { generateRaw } = setupContext();
+            mockSettings.current.maxRepairAttempts = 2;
+            generateRaw.mockResolvedValue('Here you go: {"ok": true} Enjoy!');
+
+            const result = await generate({
+                prompt: 'Hello',
+                jsonSchema: schema,
+            });
+
+            expect(generateRaw).toHaveBeenCalledTimes(1);
+            expect(result.parsed).toEqual({ ok: true });
+            expect(result.response).toBe('{"ok": true}');
+            expect(result.repairs).toBe(0);
+        });
+
+        it('re-prompts with validation errors until the output is valid', async () => {
+            const { generateRaw } = setupContext();
+            mockSettings.current.maxRepairAttempts = 2;
+            generateRaw
+                .mockResolvedValueOnce('{"ok": "yes"}')
+                .mockResolvedValueOnce('{"ok": true}');
+            const onRepair = vi.fn();
+
+            const result = await generate({
+                prompt: 'Hello',
+                jsonSchema: schema,
+                onRepair,
+            });
+
+            expect(generateRaw).toHaveBeenCalledTimes(2);
+            const repairPrompt = generateRaw.mock.calls[1][0].prompt;
+            expect(repairPrompt).toContain('Hello');
+            expect(repairPrompt).toContain('{"ok": "yes"}');
+            expect(repairPrompt).toContain('ok: expected boolean, got string');
+            expect(onRepair).toHaveBeenCalledWith({
+                attempt: 1,
+                maxRepairs: 2,
+                errors: ['ok: expected boolean, got string'],
+            });
+            expect(result.parsed).toEqual({ ok: true });
+            expect(result.repairs).toBe(1);
+            expect(result.validationErrors).toBeUndefined();
+        });
+
+        it('keeps the last response with its errors when repairs run out', async () => {
+            const { generateRaw } = setupContext();
+            mockSettings.current.maxRepairAttempts = 1;
+            generateRaw.mockResolvedValue('not json at all');
+
+            const result = await generate({
+                prompt: 'Hello',
+                jsonSchema: schema,
+            });
+
+            expect(generateRaw).toHaveBeenCalledTimes(2);
+            expect(result.success).toBe(true);
+            expect(result.isStructured).toBe(false);
+            expect(result.repairs).toBe(1);
+            expect(result.validationErrors).toEqual([
+                '(root): response is not valid JSON',
+            ]);
+        });
+
+        it("doesn't stream repairs and counts their tokens", async () => {
+            const { ctx } = setupContext();
+            mockSettings.current.maxRepairAttempts = 1;
+            const sendRequest = vi
+                .fn()
+                .mockResolvedValueOnce(streamOf(['{"ok": "yes"}']))
+                .mockResolvedValueOnce({ content: '{"ok": true}' });
+            ctx.mainApi = 'openai';
+            ctx.ChatCompletionService = {
+                createRequestData: vi.fn((data) => data),
+                sendRequest,
+            };
+            const onStream = vi.fn();
+
+            const result = await generate({
+                prompt: 'Hello',
+                jsonSchema: schema,
+                onStream,
+            });
+
+            expect(sendRequest.mock.calls[1][0].stream).toBe(false);
+            expect(onStream).toHaveBeenCalledTimes(1);
+            expect(result.parsed).toEqual({ ok: true });
+            expect(result.repairUsage?.promptTokens).toBeGreaterThan(0);
+            expect(result.repairUsage?.completionTokens).toBeGreaterThan(0);
+        });
+
+        it('does not repair when disabled', async () => {
+            const { generateRaw } = setupContext();
+            mockSettings.current.maxRepairAttempts = 0;
+            generateRaw.mockResolvedValue('{}');
+
+            const result = await generate({
+                prompt: 'Hello',
+                jsonSchema: schema,
+            });
+
+            expect(generateRaw).toHaveBeenCalledTimes(1);
+            expect(result.isStructured).toBe(true);
+            expect(result.validationErrors).toEqual(['ok: required']);
+        });
+    });
+});
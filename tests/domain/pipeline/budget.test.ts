@@ -0,0 +1,250 @@
+/**
+ * Context Budget Planning Tests
+ *
+ * Tests for fitting stage prompts to the model's context window and
+ * reporting what was cut.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock shared module
+vi.mock('../../../src/shared', async () => {
+    const actual = await vi.importActual('../../../src/shared');
+    return {
+        ...actual,
+        log: {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        },
+    };
+});
+
+import {
+    planPromptBudget,
+    dropInactiveLorebookEntries,
+    type BudgetOptions,
+} from '../../../src/domain/pipeline/budget';
+import type { PromptContext } from '../../../src/domain/pipeline/prompt';
+import type { Character, StageConfig } from '../../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function createCharacter(): Character {
+    return {
+        name: 'Test Hero',
+        avatar: 'hero.png',
+        description: 'A brave adventurer seeking glory.',
+        personality: 'Bold, courageous, and kind.',
+        first_mes: '',
+        scenario: '',
+        mes_example: '',
+        data: {
+            character_book: {
+                entries: [
+                    { keys: ['sword'], content: 'A legendary blade.' },
+                    {
+                        keys: ['old'],
+                        content: 'Retired lore. '.repeat(100),
+                        enabled: false,
+                    },
+                ],
+            },
+        },
+    } as Character;
+}
+
+function createContext(overrides: Partial<PromptContext> = {}): PromptContext {
+    return {
+        character: createCharacter(),
+        selection: { description: true, personality: true },
+        stage: 'rewrite',
+        config: {
+            promptPresetId: null,
+            customPrompt: 'Improve the character.',
+        } as StageConfig,
+        previousResults: {
+            score: {
+                stage: 'score',
+                timestamp: 1,
+                input: '',
+                output: 'Description: 6/10 - needs more voice.\n'.repeat(50),
+            },
+            rewrite: null,
+            analyze: null,
+        },
+        iterationCount: 0,
+        ...overrides,
+    };
+}
+
+const deps = { getPromptPreset: vi.fn(() => null) };
+
+function options(overrides: Partial<BudgetOptions> = {}): BudgetOptions {
+    return {
+        budget: 10_000,
+        strategy: 'trim',
+        measure: async (text) => Math.ceil(text.length / 4),
+        ...overrides,
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('planPromptBudget', () => {
+    it('leaves a prompt that fits untouched', async () => {
+        const plan = await planPromptBudget(createContext(), deps, options());
+
+        expect(plan.fits).toBe(true);
+        expect(plan.cuts).toEqual([]);
+        expect(plan.sizes.map((s) => s.id)).toEqual([
+            'task',
+            'instructions',
+            'character',
+            'score',
+        ]);
+    });
+
+    it('only measures with strategy off', async () => {
+        const plan = await planPromptBudget(
+            createContext(),
+            deps,
+            options({ budget: 100, strategy: 'off' }),
+        );
+
+        expect(plan.fits).toBe(false);
+        expect(plan.cuts).toEqual([]);
+    });
+
+    it('drops disabled lorebook entries first', async () => {
+        const ctx = createContext({
+            selection: { description: true, character_book: [0, 1] },
+            previousResults: { score: null, rewrite: null, analyze: null },
+        });
+
+        const plan = await planPromptBudget(
+            ctx,
+            deps,
+            options({ budget: 150 }),
+        );
+
+        expect(plan.fits).toBe(true);
+        expect(plan.cuts).toEqual(['Dropped 1 disabled lorebook entry']);
+        expect(plan.context.selection.character_book).toEqual([0]);
+    });
+
+    it('trims prior-stage output to the room left', async () => {
+        const plan = await planPromptBudget(
+            createContext(),
+            deps,
+            options({ budget: 200 }),
+        );
+
+        const score = plan.sections.find((s) => s.id === 'score');
+        expect(plan.fits).toBe(true);
+        expect(plan.cuts[0]).toMatch(
+            /^Trimmed score results \(~\d+ → ~\d+ tokens\)$/,
+        );
+        expect(score?.body).toContain(
+            '[... trimmed to fit the context window]',
+        );
+    });
+
+    it('summarizes prior-stage output with the summarize strategy', async () => {
+        const summarize = vi.fn(async () => 'Description 6/10: add voice.');
+
+        const plan = await planPromptBudget(
+            createContext(),
+            deps,
+            options({ budget: 200, strategy: 'summarize', summarize }),
+        );
+
+        expect(summarize).toHaveBeenCalledWith(
+            expect.stringContaining('needs more voice'),
+            expect.any(Number),
+        );
+        expect(plan.sections.find((s) => s.id === 'score')?.body).toBe(
+            'Description 6/10: add voice.',
+        );
+        expect(plan.cuts[0]).toMatch(/^Summarized score results/);
+    });
+
+    it('falls back to trimming when summarizing fails', async () => {
+        const plan = await planPromptBudget(
+            createContext(),
+            deps,
+            options({
+                budget: 200,
+                strategy: 'summarize',
+                summarize: async () => null,
+            }),
+        );
+
+        expect(plan.cuts[0]).toMatch(/^Trimmed score results/);
+    });
+
+    it('drops prior-stage output when there is no room for it', async () => {
+        const plan = await planPromptBudget(
+            createContext(),
+            deps,
+            options({ budget: 60 }),
+        );
+
+        expect(plan.sections.some((s) => s.id === 'score')).toBe(false);
+        expect(plan.cuts).toEqual(['Dropped score results']);
+    });
+
+    it('hands an oversized rewrite to field-by-field mode with chunk', async () => {
+        const plan = await planPromptBudget(
+            createContext(),
+            deps,
+            options({ budget: 200, strategy: 'chunk' }),
+        );
+
+        expect(plan.chunk).toBe(true);
+        expect(plan.cuts).toEqual([]);
+    });
+
+    it('reports a prompt that still does not fit', async () => {
+        const plan = await planPromptBudget(
+            createContext({
+                previousResults: { score: null, rewrite: null, analyze: null },
+            }),
+            deps,
+            options({ budget: 10 }),
+        );
+
+        expect(plan.fits).toBe(false);
+        expect(plan.tokens).toBeGreaterThan(10);
+    });
+});
+
+describe('dropInactiveLorebookEntries', () => {
+    it('expands a whole-lorebook selection to the enabled entries', () => {
+        const result = dropInactiveLorebookEntries(createCharacter(), {
+            character_book: true,
+        });
+
+        expect(result).toEqual({
+            selection: { character_book: [0] },
+            dropped: 1,
+        });
+    });
+
+    it('keeps the selection when every entry is enabled', () => {
+        const selection = { character_book: [0] };
+
+        const result = dropInactiveLorebookEntries(
+            createCharacter(),
+            selection,
+        );
+
+        expect(result.selection).toBe(selection);
+        expect(result.dropped).toBe(0);
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * Rewrite Candidate Tests
+ *
+ * Tests for composing a rewrite from candidates and reading judge rankings.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    composeCandidateOutput,
+    parseCandidateRanking,
+    selectCandidates,
+} from '../../../src/domain/pipeline/candidates';
+import { parseRewriteSections } from '../../../src/domain/pipeline/rewrite-output';
+import type { CandidateSet, StageResult } from '../../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function createResult(output: string, error?: string): StageResult {
+    return {
+        stage: 'rewrite',
+        timestamp: 1,
+        input: `prompt for ${output}`,
+        output,
+        ...(error ? { error } : {}),
+    };
+}
+
+function createSet(overrides: Partial<CandidateSet> = {}): CandidateSet {
+    return {
+        candidates: [
+            {
+                profileId: null,
+                label: 'Candidate 1',
+                result: createResult(
+                    'Intro.\n\n### Description\n\nDesc A.\n\n### Personality\n\nPers A.\n\n### Lorebook Notes\n\nKeep A.',
+                ),
+            },
+            {
+                profileId: null,
+                label: 'Candidate 2',
+                result: createResult(
+                    '## Personality:\nPers B.\n\n## First Message\nHello B.',
+                ),
+            },
+            {
+                profileId: null,
+                label: 'Candidate 3',
+                result: createResult('', 'Timed out'),
+            },
+        ],
+        winner: 0,
+        picks: {},
+        ...overrides,
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('parseRewriteSections', () => {
+    it('keeps text before the first heading and unknown sections', () => {
+        const sections = parseRewriteSections(
+            createSet().candidates[0].result.output,
+        );
+
+        expect(sections.map((s) => [s.heading, s.key])).toEqual([
+            ['', null],
+            ['### Description', 'description'],
+            ['### Personality', 'personality'],
+            ['### Lorebook Notes', null],
+        ]);
+        expect(sections[2].content).toBe('Pers A.');
+    });
+});
+
+describe('composeCandidateOutput', () => {
+    it('uses the winner as-is without picks', () => {
+        const set = createSet({ winner: 1 });
+
+        expect(composeCandidateOutput(set)).toBe(
+            set.candidates[1].result.output,
+        );
+    });
+
+    it('swaps in picked fields and keeps the rest of the winner', () => {
+        const output = composeCandidateOutput(
+            createSet({ picks: { personality: 1, first_mes: 1 } }),
+        );
+
+        expect(output).toBe(
+            'Intro.\n\n### Description\n\nDesc A.\n\n### Personality\n\nPers B.\n\n' +
+                '### Lorebook Notes\n\nKeep A.\n\n### First Message\n\nHello B.',
+        );
+    });
+
+    it('keeps structured winners structured', () => {
+        const set = createSet({ picks: { personality: 1 } });
+        set.candidates[0].result.output =
+            '{"description": "Desc A.", "personality": "Pers A."}';
+
+        expect(JSON.parse(composeCandidateOutput(set))).toEqual({
+            description: 'Desc A.',
+            personality: 'Pers B.',
+        });
+    });
+});
+
+describe('selectCandidates', () => {
+    it('recomposes the result and drops picks of the winner', () => {
+        const result = selectCandidates(
+            { ...createResult(''), candidates: createSet() },
+            1,
+            { personality: 1, description: 0 },
+        );
+
+        expect(result.candidates?.winner).toBe(1);
+        expect(result.candidates?.picks).toEqual({ description: 0 });
+        expect(result.input).toBe(createSet().candidates[1].result.input);
+        expect(result.output).toContain('### Description\n\nDesc A.');
+    });
+
+    it('ignores candidates without output', () => {
+        const result = selectCandidates(
+            { ...createResult(''), candidates: createSet() },
+            2,
+            { personality: 2 },
+        );
+
+        expect(result.candidates?.winner).toBe(0);
+        expect(result.candidates?.picks).toEqual({});
+    });
+});
+
+describe('parseCandidateRanking', () => {
+    it('reads the ranking and appends candidates the judge left out', () => {
+        expect(
+            parseCandidateRanking('**Ranking:** 3 > 1\n\nWhy...', [0, 1, 2]),
+        ).toEqual([2, 0, 1]);
+    });
+
+    it('skips candidates that were not judged', () => {
+        expect(parseCandidateRanking('Ranking: 2, 1, 1', [0, 2])).toEqual([
+            0, 2,
+        ]);
+    });
+
+    it('returns null without a ranking line', () => {
+        expect(parseCandidateRanking('Candidate 2 is best.', [0, 1])).toBe(
+            null,
+        );
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Ensemble Scoring Tests
+ *
+ * Tests for reading CharacterScore responses and aggregating them per criterion.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    aggregateScores,
+    computeStats,
+    readCharacterScore,
+    type CharacterScore,
+} from '../../../src/domain/pipeline/ensemble';
+import type { EnsembleMember } from '../../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function createMember(label: string): EnsembleMember {
+    return {
+        profileId: label.toLowerCase(),
+        label,
+        result: { stage: 'score', timestamp: 1, input: '', output: '' },
+    };
+}
+
+function createScore(
+    fields: Record<string, number>,
+    overallScore?: number,
+): CharacterScore {
+    return {
+        fieldScores: Object.entries(fields).map(([field, score]) => ({
+            field,
+            score,
+        })),
+        ...(overallScore !== undefined ? { overallScore } : {}),
+        priorityImprovements: [],
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('readCharacterScore', () => {
+    it('reads a score wrapped in prose and code fences', () => {
+        const score = readCharacterScore(
+            'Here it is:\n```json\n{"fieldScores":[{"field":"Description","score":7}],"overallScore":6,"priorityImprovements":["More voice"],"summary":"Solid."}\n```',
+        );
+
+        expect(score).toEqual({
+            fieldScores: [{ field: 'Description', score: 7 }],
+            overallScore: 6,
+            priorityImprovements: ['More voice'],
+            summary: 'Solid.',
+        });
+    });
+
+    it('drops field scores without a name or numeric score', () => {
+        const score = readCharacterScore(
+            JSON.stringify({
+                fieldScores: [
+                    { field: 'Description', score: '7' },
+                    { field: ' ', score: 5 },
+                    { field: 'Personality', score: 8 },
+                ],
+            }),
+        );
+
+        expect(score?.fieldScores).toEqual([
+            { field: 'Personality', score: 8 },
+        ]);
+        expect(score?.overallScore).toBeUndefined();
+    });
+
+    it('returns null for output without scores', () => {
+        expect(readCharacterScore('7/10, nice card.')).toBeNull();
+        expect(readCharacterScore('{"summary":"No numbers"}')).toBeNull();
+        expect(readCharacterScore('[1, 2]')).toBeNull();
+    });
+});
+
+describe('computeStats', () => {
+    it('computes mean, range and spread over the scores present', () => {
+        expect(computeStats('Description', [6, null, 9, 7])).toEqual({
+            criterion: 'Description',
+            scores: [6, null, 9, 7],
+            mean: 7.3,
+            min: 6,
+            max: 9,
+            spread: 3,
+            disputed: true,
+        });
+    });
+
+    it('scales the disagreement threshold for 100-point scores', () => {
+        expect(computeStats('Overall', [60, 85])?.disputed).toBe(false);
+        expect(computeStats('Overall', [50, 85])?.disputed).toBe(true);
+    });
+
+    it('never flags a criterion only one model scored', () => {
+        expect(computeStats('Scenario', [2, null])?.disputed).toBe(false);
+        expect(computeStats('Scenario', [null, null])).toBeNull();
+    });
+});
+
+describe('aggregateScores', () => {
+    it('matches fields by name across models, in first-reported order', () => {
+        const ensemble = aggregateScores(
+            [createMember('A'), createMember('B'), createMember('C')],
+            [
+                createScore({ Personality: 8, Description: 6 }, 7),
+                null,
+                createScore({ description: 7, Scenario: 5 }),
+            ],
+        );
+
+        expect(ensemble.fields.map((f) => [f.criterion, f.scores])).toEqual([
+            ['Personality', [8, null, null]],
+            ['Description', [6, null, 7]],
+            ['Scenario', [null, null, 5]],
+        ]);
+        expect(ensemble.overall).toMatchObject({
+            criterion: 'Overall',
+            scores: [7, null, null],
+            mean: 7,
+        });
+    });
+
+    it('has no overall stats when no model reported one', () => {
+        const ensemble = aggregateScores(
+            [createMember('A'), createMember('B')],
+            [createScore({ Description: 6 }), createScore({ Description: 8 })],
+        );
+
+        expect(ensemble.overall).toBeNull();
+        expect(ensemble.fields[0]).toMatchObject({ mean: 7, spread: 2 });
+    });
+});
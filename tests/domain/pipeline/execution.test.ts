@@ -0,0 +1,145 @@
+/**
+ * Stage Execution Tests
+ *
+ * Tests for sending a stage request and recording what it cost.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ApiStatus } from '../../../src/shared/profiles';
+
+// =============================================================================
+// MOCKS
+// =============================================================================
+
+const mockApi = vi.hoisted(() => ({
+    current: {} as Partial<ApiStatus>,
+}));
+const mockSettings = vi.hoisted(() => ({
+    current: {} as Record<string, unknown>,
+}));
+
+vi.mock('../../../src/shared', async () => {
+    const actual = await vi.importActual('../../../src/shared');
+    return {
+        ...actual,
+        log: {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        },
+        getApiStatus: vi.fn(() => mockApi.current),
+        getTokenCount: vi.fn(async () => null),
+    };
+});
+
+vi.mock('../../../src/data/settings', () => ({
+    getSettings: vi.fn(() => mockSettings.current),
+    resolveStageConnection: vi.fn(() => ({
+        profileId: null,
+        temperature: null,
+        maxTokens: null,
+        prefill: '',
+        timeout: null,
+    })),
+}));
+
+vi.mock('../../../src/data', () => ({
+    getSettings: vi.fn(() => mockSettings.current),
+    getActiveProfileId: vi.fn(() => null),
+}));
+
+vi.mock('../../../src/domain/generation', async () => {
+    const actual = await vi.importActual('../../../src/domain/generation');
+    return { ...actual, generate: vi.fn() };
+});
+
+import { runStage } from '../../../src/domain/pipeline/execution';
+import { generate } from '../../../src/domain/generation';
+import type { StageContext } from '../../../src/domain/pipeline';
+import type { Character, StageConfig } from '../../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+const deps = {
+    getPromptPreset: () => null,
+    getSchemaPreset: () => null,
+    getSystemPrompt: (stage: string) => `You run the ${stage} stage.`,
+    getRefinementPrompt: () => 'You refine.',
+};
+
+function createContext(): StageContext {
+    return {
+        character: {
+            name: 'Test Hero',
+            avatar: 'hero.png',
+            description: 'A brave adventurer seeking glory.',
+            personality: 'Bold, courageous, and kind.',
+            first_mes: '',
+            scenario: '',
+            mes_example: '',
+        } as Character,
+        selection: { description: true, personality: true },
+        stage: 'rewrite',
+        config: {
+            promptPresetId: null,
+            customPrompt: 'Improve the character.',
+            useStructuredOutput: false,
+            customSchema: '',
+            layout: null,
+        } as unknown as StageConfig,
+        previousResults: {
+            score: {
+                stage: 'score',
+                timestamp: 1,
+                input: '',
+                output: 'Description: 6/10 - needs more voice.\n'.repeat(50),
+            },
+            rewrite: null,
+            analyze: null,
+        },
+        iterationCount: 0,
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('runStage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockApi.current = {
+            source: 'openai',
+            model: 'gpt-4o',
+            contextSize: 128000,
+            maxOutput: 2048,
+        };
+        mockSettings.current = { contextStrategy: 'trim' };
+    });
+
+    it("counts the summarizer's tokens in the stage usage", async () => {
+        mockSettings.current.contextStrategy = 'summarize';
+        mockApi.current.contextSize = 700;
+        mockApi.current.maxOutput = 100;
+        vi.mocked(generate)
+            .mockResolvedValueOnce({ success: true, response: 'Needs voice.' })
+            .mockResolvedValueOnce({ success: true, response: 'Rewritten.' });
+
+        const result = await runStage(createContext(), deps);
+
+        expect(generate).toHaveBeenCalledTimes(2);
+        expect(result.context?.cuts[0]).toMatch(/^Summarized/);
+        // Token counts fall back to a quarter of the length
+        expect(result.meta?.completionTokens).toBe(
+            Math.ceil('Needs voice.'.length / 4) +
+                Math.ceil('Rewritten.'.length / 4),
+        );
+        const summaryPrompt = vi.mocked(generate).mock.calls[0][0];
+        expect(result.meta?.promptTokens).toBeGreaterThan(
+            Math.ceil(summaryPrompt.prompt.length / 4),
+        );
+    });
+});
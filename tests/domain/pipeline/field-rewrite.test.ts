@@ -0,0 +1,138 @@
+/**
+ * Field-by-Field Planning Tests
+ *
+ * Tests for splitting a field selection into per-field requests and
+ * combining their outputs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    planFieldUnits,
+    combineFieldOutputs,
+} from '../../../src/domain/pipeline/field-rewrite';
+import type { Character, FieldResult } from '../../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function createCharacter(entryCount = 7): Character {
+    return {
+        name: 'Test Character',
+        avatar: 'test.png',
+        description: 'A brave warrior.',
+        personality: 'Bold and courageous.',
+        first_mes: 'Hello, traveler!',
+        scenario: '',
+        mes_example: '',
+        data: {
+            character_book: {
+                entries: Array.from({ length: entryCount }, (_, i) => ({
+                    keys: [`key${i}`],
+                    content: `Entry ${i}`,
+                })),
+            },
+        },
+    } as Character;
+}
+
+function fieldResult(overrides: Partial<FieldResult> = {}): FieldResult {
+    return {
+        key: 'description',
+        label: 'Description',
+        selection: { description: true },
+        input: 'prompt',
+        output: 'New description.',
+        ...overrides,
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('planFieldUnits', () => {
+    it('creates one unit per selected field in card order', () => {
+        const units = planFieldUnits(createCharacter(), {
+            personality: true,
+            description: true,
+        });
+
+        expect(units.map((u) => u.key)).toEqual(['description', 'personality']);
+        expect(units[0].selection).toEqual({ description: true });
+    });
+
+    it('skips unselected and empty fields', () => {
+        const units = planFieldUnits(createCharacter(), {
+            description: false,
+            scenario: true,
+            character_book: [],
+        });
+
+        expect(units).toEqual([]);
+    });
+
+    it('splits lorebook entries into batches', () => {
+        const units = planFieldUnits(createCharacter(), {
+            character_book: [6, 0, 1, 2, 3, 4, 5],
+        });
+
+        expect(units).toEqual([
+            {
+                key: 'character_book:0,1,2,3,4',
+                label: 'Character Lorebook (entries 1-5)',
+                selection: { character_book: [0, 1, 2, 3, 4] },
+            },
+            {
+                key: 'character_book:5,6',
+                label: 'Character Lorebook (entries 6-7)',
+                selection: { character_book: [5, 6] },
+            },
+        ]);
+    });
+
+    it('batches every entry when the whole lorebook is selected', () => {
+        const units = planFieldUnits(createCharacter(6), {
+            character_book: true,
+        });
+
+        expect(units.map((u) => u.label)).toEqual([
+            'Character Lorebook (entries 1-5)',
+            'Character Lorebook (entry 6)',
+        ]);
+    });
+});
+
+describe('combineFieldOutputs', () => {
+    it('joins outputs under field headings', () => {
+        const combined = combineFieldOutputs([
+            fieldResult(),
+            fieldResult({
+                key: 'personality',
+                label: 'Personality',
+                output: '  Calm.\n',
+            }),
+        ]);
+
+        expect(combined).toBe(
+            '### Description\n\nNew description.\n\n### Personality\n\nCalm.',
+        );
+    });
+
+    it('leaves out failed and empty fields', () => {
+        const combined = combineFieldOutputs([
+            fieldResult({ output: 'partial', error: 'Timed out' }),
+            fieldResult({ key: 'scenario', label: 'Scenario', output: ' ' }),
+        ]);
+
+        expect(combined).toBe('');
+    });
+
+    it('unwraps field-keyed structured output', () => {
+        const combined = combineFieldOutputs([
+            fieldResult({ output: '{"description": " Sharper. "}' }),
+        ]);
+
+        expect(combined).toBe('### Description\n\nSharper.');
+    });
+});
@@ -0,0 +1,200 @@
+/**
+ * Prompt Inspection Tests
+ *
+ * Tests for building a stage request without sending it.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ApiStatus } from '../../../src/shared/profiles';
+
+// =============================================================================
+// MOCKS
+// =============================================================================
+
+const mockApi = vi.hoisted(() => ({
+    current: {} as Partial<ApiStatus>,
+}));
+const mockSettings = vi.hoisted(() => ({
+    current: {} as Record<string, unknown>,
+}));
+const mockConnection = vi.hoisted(() => ({
+    current: {} as Record<string, unknown>,
+}));
+
+vi.mock('../../../src/shared', async () => {
+    const actual = await vi.importActual('../../../src/shared');
+    return {
+        ...actual,
+        log: {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        },
+        getApiStatus: vi.fn(() => mockApi.current),
+        getTokenCount: vi.fn(async () => null),
+    };
+});
+
+vi.mock('../../../src/data/settings', () => ({
+    getSettings: vi.fn(() => mockSettings.current),
+    resolveStageConnection: vi.fn(() => mockConnection.current),
+}));
+
+vi.mock('../../../src/data', () => ({
+    getSettings: vi.fn(() => mockSettings.current),
+    getActiveProfileId: vi.fn(() => null),
+}));
+
+vi.mock('../../../src/domain/generation', async () => {
+    const actual = await vi.importActual('../../../src/domain/generation');
+    return { ...actual, generate: vi.fn() };
+});
+
+import { inspectStage } from '../../../src/domain/pipeline/inspect';
+import { generate } from '../../../src/domain/generation';
+import type { PromptContext } from '../../../src/domain/pipeline/prompt';
+import type { Character, StageConfig } from '../../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+const deps = {
+    getPromptPreset: () => null,
+    getSchemaPreset: () => null,
+    getSystemPrompt: (stage: string) => `You run the ${stage} stage.`,
+    getRefinementPrompt: () => 'You refine.',
+};
+
+function createContext(overrides: Partial<PromptContext> = {}): PromptContext {
+    return {
+        character: {
+            name: 'Test Hero',
+            avatar: 'hero.png',
+            description: 'A brave adventurer seeking glory.',
+            personality: 'Bold, courageous, and kind.',
+            first_mes: '',
+            scenario: '',
+            mes_example: '',
+        } as Character,
+        selection: { description: true, personality: true },
+        stage: 'rewrite',
+        config: {
+            promptPresetId: null,
+            customPrompt: 'Improve the character.',
+            useStructuredOutput: false,
+            customSchema: '',
+            layout: null,
+        } as unknown as StageConfig,
+        previousResults: {
+            score: {
+                stage: 'score',
+                timestamp: 1,
+                input: '',
+                output: 'Description: 6/10 - needs more voice.\n'.repeat(50),
+            },
+            rewrite: null,
+            analyze: null,
+        },
+        iterationCount: 0,
+        ...overrides,
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('inspectStage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockApi.current = {
+            source: 'openai',
+            model: 'gpt-4o',
+            contextSize: 128000,
+            maxOutput: 2048,
+        };
+        mockSettings.current = { contextStrategy: 'trim' };
+        mockConnection.current = {
+            profileId: null,
+            temperature: null,
+            maxTokens: null,
+            prefill: '',
+            timeout: null,
+        };
+    });
+
+    it('builds the request without sending it', async () => {
+        const inspection = await inspectStage(createContext(), deps);
+
+        expect(generate).not.toHaveBeenCalled();
+        expect(inspection.systemPrompt).toBe('You run the rewrite stage.');
+        expect(inspection.userPrompt).toContain('Improve the character.');
+        expect(inspection.userPrompt).toContain('A brave adventurer');
+        expect(inspection.fits).toBe(true);
+        expect(inspection.notes).toEqual([]);
+    });
+
+    it('adds up tokens per section', async () => {
+        const { tokens } = await inspectStage(createContext(), deps);
+
+        expect(tokens.sections.map((s) => s.id)).toEqual([
+            'task',
+            'instructions',
+            'character',
+            'score',
+        ]);
+        expect(tokens.total).toBe(
+            tokens.system +
+                tokens.sections.reduce((sum, s) => sum + s.tokens, 0),
+        );
+    });
+
+    it('drops the prefill Anthropic would reject with a schema', async () => {
+        mockApi.current.source = 'anthropic';
+        mockConnection.current.prefill = 'Sure:';
+
+        const inspection = await inspectStage(
+            createContext({
+                config: {
+                    ...createContext().config,
+                    useStructuredOutput: true,
+                    customSchema: '{"name":"x","value":{"type":"object"}}',
+                },
+            }),
+            deps,
+        );
+
+        expect(inspection.schema).toMatchObject({ name: 'x' });
+        expect(inspection.prefill).toBe('');
+        expect(inspection.notes[0]).toMatch(/Prefill skipped/);
+    });
+
+    it('shows the first request of a field-by-field rewrite', async () => {
+        const inspection = await inspectStage(
+            createContext({
+                config: { ...createContext().config, fieldByField: true },
+            }),
+            deps,
+        );
+
+        expect(inspection.userPrompt).toContain('A brave adventurer');
+        expect(inspection.userPrompt).not.toContain('Bold, courageous');
+        expect(inspection.notes[0]).toMatch(/2 requests/);
+    });
+
+    it('trims instead of summarizing', async () => {
+        mockSettings.current.contextStrategy = 'summarize';
+        mockApi.current.contextSize = 700;
+        mockApi.current.maxOutput = 100;
+
+        const inspection = await inspectStage(createContext(), deps);
+
+        expect(generate).not.toHaveBeenCalled();
+        expect(inspection.cuts).not.toEqual([]);
+        expect(inspection.notes).toContainEqual(
+            expect.stringMatching(/Summarize strategy/),
+        );
+    });
+});
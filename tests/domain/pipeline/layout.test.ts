@@ -0,0 +1,102 @@
+/**
+ * Prompt Layout Tests
+ *
+ * Tests for resolving stored prompt layouts and reordering sections.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createDefaultLayout,
+    resolvePromptLayout,
+    getSectionTitle,
+    moveLayoutSection,
+} from '../../../src/domain/pipeline/layout';
+import { PROMPT_SECTIONS, PROMPT_SECTION_LABELS } from '../../../src/shared';
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('resolvePromptLayout', () => {
+    it('uses the default layout when none is stored', () => {
+        expect(resolvePromptLayout(null)).toEqual(createDefaultLayout());
+    });
+
+    it('puts sections missing from the order back in their default place', () => {
+        const layout = resolvePromptLayout({
+            order: ['character', 'instructions', 'guidance'],
+        });
+
+        expect(layout.order).toEqual([
+            'task',
+            'character',
+            'rewrite',
+            'score',
+            'analysis',
+            'instructions',
+            'scope',
+            'guidance',
+        ]);
+    });
+
+    it('drops unknown and duplicate sections', () => {
+        const layout = resolvePromptLayout({
+            order: ['guidance', 'bogus', 'guidance'] as never,
+        });
+
+        expect(layout.order).toEqual(createDefaultLayout().order);
+    });
+
+    it('fills missing options from the default', () => {
+        const layout = resolvePromptLayout({ includeScore: false });
+
+        expect(layout).toMatchObject({
+            includeScore: false,
+            includeAnalysis: true,
+            separator: '---',
+        });
+    });
+});
+
+describe('getSectionTitle', () => {
+    it('uses the stage default unless renamed', () => {
+        const layout = createDefaultLayout();
+        layout.headings.character = 'Card';
+
+        expect(getSectionTitle('analyze', 'score', layout)).toBe(
+            'Score Results (Context)',
+        );
+        expect(getSectionTitle('score', 'character', layout)).toBe('Card');
+    });
+
+    it('defaults to the section label shown in the layout editor', () => {
+        const layout = createDefaultLayout();
+
+        for (const id of PROMPT_SECTIONS.filter((s) => s !== 'task')) {
+            expect(getSectionTitle('rewrite', id, layout)).toBe(
+                PROMPT_SECTION_LABELS[id],
+            );
+        }
+    });
+});
+
+describe('moveLayoutSection', () => {
+    it('skips sections the stage does not use', () => {
+        const layout = moveLayoutSection(
+            createDefaultLayout(),
+            'score',
+            'character',
+            1,
+        );
+
+        expect(layout.order.indexOf('character')).toBeGreaterThan(
+            layout.order.indexOf('guidance'),
+        );
+    });
+
+    it('leaves the first section in place when moved up', () => {
+        const layout = createDefaultLayout();
+
+        expect(moveLayoutSection(layout, 'score', 'task', -1)).toBe(layout);
+    });
+});
@@ -293,6 +293,36 @@ describe('buildUserPrompt', () => {
         expect(result).toContain('Rate on a scale');
     });
 
+    it('fills template variables in instructions', () => {
+        const ctx = {
+            stage: 'rewrite' as const,
+            character: createMockCharacter(),
+            selection: { description: true },
+            config: createMockConfig({
+                customPrompt:
+                    'Rewrite {{char}}.{{#if score.output}} Address: {{score.output}}{{/if}}{{#if guidance}} Skip this.{{/if}}',
+            }),
+            previousResults: createPreviousResults({
+                score: {
+                    stage: 'score',
+                    timestamp: 1,
+                    input: '',
+                    output: 'Too generic.',
+                },
+            }),
+            isRefinement: false,
+            iterationCount: 0,
+        };
+        const deps = createMockDeps();
+
+        const result = buildUserPrompt(ctx, deps);
+
+        expect(result).toContain(
+            '## Instructions\n\nRewrite Test Hero. Address: Too generic.\n',
+        );
+        expect(result).not.toContain('Skip this');
+    });
+
     describe('rewrite stage', () => {
         it('includes score results for rewrite stage', () => {
             const ctx = {
@@ -353,4 +383,67 @@ describe('buildUserPrompt', () => {
             expect(result).toContain('Improved version');
         });
     });
+
+    describe('prompt layout', () => {
+        function createRewriteContext(layout: StageConfig['layout']) {
+            return {
+                stage: 'rewrite' as const,
+                character: createMockCharacter(),
+                selection: { description: true },
+                config: createMockConfig({
+                    customPrompt: 'Improve it.',
+                    layout,
+                }),
+                previousResults: createPreviousResults({
+                    score: {
+                        stage: 'score' as const,
+                        timestamp: Date.now(),
+                        input: '',
+                        output: 'Score: 5/10',
+                    },
+                }),
+                isRefinement: false,
+                iterationCount: 0,
+            };
+        }
+
+        it('orders sections by the layout', () => {
+            const result = buildUserPrompt(
+                createRewriteContext({
+                    order: ['task', 'character', 'score', 'instructions'],
+                    includeScore: true,
+                    includeAnalysis: true,
+                    headings: {},
+                    separator: '---',
+                }),
+                createMockDeps(),
+            );
+
+            expect(result.indexOf('## Instructions')).toBeGreaterThan(
+                result.indexOf('## Score Results'),
+            );
+            expect(result.indexOf('## Score Results')).toBeGreaterThan(
+                result.indexOf('## Character Data'),
+            );
+        });
+
+        it('renames headings, drops score context and changes the separator', () => {
+            const result = buildUserPrompt(
+                createRewriteContext({
+                    order: [],
+                    includeScore: false,
+                    includeAnalysis: true,
+                    headings: { task: 'Job', instructions: 'Rules' },
+                    separator: '***',
+                }),
+                createMockDeps(),
+            );
+
+            expect(result).toMatch(
+                /^# Job\n\n\*\*\*\n\n## Rules\n\nImprove it\./,
+            );
+            expect(result).not.toContain('Score Results');
+            expect(result).not.toContain('---');
+        });
+    });
 });
@@ -0,0 +1,113 @@
+/**
+ * Rewrite Output Tests
+ *
+ * Tests for the field-keyed rewrite schema and reading field values from
+ * structured and markdown rewrite output.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildRewriteSchema,
+    formatRewriteFields,
+    mapSectionToFieldKey,
+    parseRewriteOutput,
+    readRewriteFields,
+} from '../../../src/domain/pipeline/rewrite-output';
+import { validateSchema } from '../../../src/domain/schema';
+import { BUILTIN_SCHEMA_PRESETS } from '../../../src/data/settings/defaults';
+import { FIELD_REWRITE_SCHEMA_ID } from '../../../src/shared/constants';
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('buildRewriteSchema', () => {
+    it('has one required property per selected field', () => {
+        const schema = buildRewriteSchema({
+            personality: true,
+            alternate_greetings: [0, 2],
+            scenario: false,
+            character_book: true,
+        });
+
+        expect(validateSchema(schema).valid).toBe(true);
+        expect(schema.value.required).toEqual([
+            'personality',
+            'alternate_greetings',
+        ]);
+        expect(schema.value.properties?.alternate_greetings).toMatchObject({
+            type: 'array',
+            items: { type: 'string' },
+        });
+    });
+
+    it('covers every field when nothing covered is selected', () => {
+        const schema = buildRewriteSchema({ character_book: true });
+
+        expect(schema.value.required).toHaveLength(10);
+        expect(schema.value.required).not.toContain('character_book');
+    });
+
+    it('matches the builtin preset when covering every field', () => {
+        const builtin = BUILTIN_SCHEMA_PRESETS.find(
+            (p) => p.id === FIELD_REWRITE_SCHEMA_ID,
+        );
+
+        expect(buildRewriteSchema()).toEqual(builtin?.schema);
+    });
+});
+
+describe('readRewriteFields', () => {
+    it('reads covered fields by key', () => {
+        const fields = readRewriteFields(
+            '```json\n{"description": " New. ", "personality": "", "mood": "x", "alternate_greetings": ["Hi.", " ", "Yo."]}\n```',
+        );
+
+        expect(fields).toEqual({
+            description: 'New.',
+            alternate_greetings: 'Hi.\n---\nYo.',
+        });
+    });
+
+    it('returns null for markdown and unrelated JSON', () => {
+        expect(readRewriteFields('### Description\n\nNew.')).toBeNull();
+        expect(readRewriteFields('{"score": 7}')).toBeNull();
+    });
+
+    it('round-trips through formatRewriteFields', () => {
+        const fields = {
+            alternate_greetings: 'Hi.\n---\nYo.',
+            description: 'New.',
+        };
+
+        expect(readRewriteFields(formatRewriteFields(fields))).toEqual(fields);
+        expect(JSON.parse(formatRewriteFields(fields))).toEqual({
+            description: 'New.',
+            alternate_greetings: ['Hi.', 'Yo.'],
+        });
+    });
+});
+
+describe('parseRewriteOutput', () => {
+    it('prefers structured output', () => {
+        expect(parseRewriteOutput('{"first_mes": "Hello."}')).toEqual({
+            first_mes: 'Hello.',
+        });
+    });
+
+    it('falls back to markdown headings', () => {
+        expect(
+            parseRewriteOutput(
+                '## Description\nNew.\n\n### Depth Prompt:\nStay calm.',
+            ),
+        ).toEqual({ description: 'New.', depth_prompt: 'Stay calm.' });
+    });
+});
+
+describe('mapSectionToFieldKey', () => {
+    it('maps heading aliases to field keys', () => {
+        expect(mapSectionToFieldKey('First Message')).toBe('first_mes');
+        expect(mapSectionToFieldKey('Greetings')).toBe('alternate_greetings');
+        expect(mapSectionToFieldKey('Lorebook Notes')).toBeNull();
+    });
+});
@@ -0,0 +1,214 @@
+/**
+ * Rubric Scoring Tests
+ *
+ * Tests for rubric schemas, prompt instructions and computed overall scores.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    applyRubric,
+    buildRubricInstructions,
+    buildRubricSchema,
+    getStageRubric,
+    scoreRubric,
+} from '../../../src/domain/pipeline/rubric';
+import { validateRubric } from '../../../src/domain/preset-validation';
+import { validateSchema } from '../../../src/domain/schema';
+import type { Rubric, StageConfig, StageResult } from '../../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function createRubric(overrides: Partial<Rubric> = {}): Rubric {
+    return {
+        id: 'rubric-1',
+        name: 'Voice First',
+        criteria: [
+            {
+                name: 'Voice',
+                description: 'Distinct speech',
+                weight: 3,
+                min: 1,
+                max: 5,
+            },
+            { name: 'Lore', description: '', weight: 1, min: 1, max: 5 },
+        ],
+        schemaPresetId: 'schema-1',
+        createdAt: 1,
+        updatedAt: 1,
+        ...overrides,
+    };
+}
+
+function createResult(output: unknown): StageResult {
+    return {
+        stage: 'score',
+        timestamp: 1,
+        input: '',
+        output: JSON.stringify(output),
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('buildRubricSchema', () => {
+    it('generates a valid schema limited to the criterion names', () => {
+        const schema = buildRubricSchema(createRubric());
+        const fieldScores = schema.value.properties?.fieldScores as {
+            items: { properties: { field: { enum: string[] } } };
+        };
+
+        expect(validateSchema(schema).valid).toBe(true);
+        expect(fieldScores.items.properties.field.enum).toEqual([
+            'Voice',
+            'Lore',
+        ]);
+        expect(schema.value.properties).not.toHaveProperty('overallScore');
+    });
+});
+
+describe('buildRubricInstructions', () => {
+    it('lists every criterion with its scale and weight', () => {
+        const text = buildRubricInstructions(createRubric());
+
+        expect(text).toContain('### Scoring Rubric: Voice First');
+        expect(text).toContain('- **Voice** (1-5, weight 3): Distinct speech');
+        expect(text).toMatch(/- \*\*Lore\*\* \(1-5, weight 1\)$/);
+    });
+});
+
+describe('scoreRubric', () => {
+    it('computes the weighted mean on a 10-point scale', () => {
+        const score = scoreRubric(createRubric(), { Voice: 5, Lore: 3 });
+
+        expect(score?.overall).toBe(8.8);
+        expect(score?.criteria.map((c) => c.score)).toEqual([5, 3]);
+    });
+
+    it('matches names ignoring case and clamps out-of-scale scores', () => {
+        const score = scoreRubric(createRubric(), { voice: 9, LORE: -2 });
+
+        expect(score?.criteria.map((c) => c.score)).toEqual([5, 1]);
+        expect(score?.overall).toBe(7.5);
+    });
+
+    it('leaves unscored criteria out of the mean', () => {
+        const score = scoreRubric(createRubric(), { Lore: 5 });
+
+        expect(score?.overall).toBe(10);
+        expect(score?.criteria[0].score).toBeNull();
+    });
+
+    it('returns null when nothing was scored', () => {
+        expect(scoreRubric(createRubric(), { Other: 4 })).toBeNull();
+    });
+});
+
+describe('applyRubric', () => {
+    it('replaces the overall score and records the reported one', () => {
+        const result = applyRubric(
+            createResult({
+                fieldScores: [
+                    { field: 'Voice', score: 5 },
+                    { field: 'Lore', score: 3 },
+                ],
+                overallScore: 6,
+                priorityImprovements: [],
+            }),
+            createRubric(),
+        );
+
+        expect(JSON.parse(result.output).overallScore).toBe(8.8);
+        expect(result.rubric).toMatchObject({
+            rubricId: 'rubric-1',
+            overall: 8.8,
+            reported: 6,
+        });
+    });
+
+    it('leaves errors and unreadable output unchanged', () => {
+        const failed = { ...createResult({}), error: 'Timed out' };
+        const prose = { ...createResult({}), output: 'Pretty good.' };
+
+        expect(applyRubric(failed, createRubric())).toBe(failed);
+        expect(applyRubric(prose, createRubric())).toBe(prose);
+    });
+});
+
+describe('getStageRubric', () => {
+    const deps = {
+        getSchemaPreset: (id: string) =>
+            id === 'schema-1'
+                ? {
+                      schema: buildRubricSchema(createRubric()),
+                      rubricId: 'rubric-1',
+                  }
+                : null,
+        getRubric: (id: string) => (id === 'rubric-1' ? createRubric() : null),
+    };
+    const config = {
+        useStructuredOutput: true,
+        schemaPresetId: 'schema-1',
+        customSchema: '',
+    } as StageConfig;
+
+    it('finds the rubric behind the selected schema preset', () => {
+        expect(getStageRubric(config, deps)?.id).toBe('rubric-1');
+    });
+
+    it('ignores unstructured runs and custom schemas', () => {
+        expect(
+            getStageRubric({ ...config, useStructuredOutput: false }, deps),
+        ).toBeNull();
+        expect(
+            getStageRubric(
+                { ...config, customSchema: '{"type":"object"}' },
+                deps,
+            ),
+        ).toBeNull();
+    });
+});
+
+describe('validateRubric', () => {
+    it('accepts a complete rubric, warning about missing descriptions', () => {
+        const result = validateRubric(createRubric());
+
+        expect(result.valid).toBe(true);
+        expect(result.warnings).toEqual([
+            '"Lore" has no description - the model only sees its name',
+        ]);
+    });
+
+    it('rejects duplicate names, zero weights and inverted scales', () => {
+        const result = validateRubric(
+            createRubric({
+                criteria: [
+                    {
+                        name: 'Voice',
+                        description: 'a',
+                        weight: 1,
+                        min: 1,
+                        max: 5,
+                    },
+                    {
+                        name: 'voice',
+                        description: 'b',
+                        weight: 0,
+                        min: 5,
+                        max: 1,
+                    },
+                ],
+            }),
+        );
+
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([
+            '"voice" is listed twice',
+            '"voice" needs a weight above 0',
+            '"voice" needs a scale whose minimum is below its maximum',
+        ]);
+    });
+});
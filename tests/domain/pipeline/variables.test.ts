@@ -0,0 +1,151 @@
+/**
+ * Prompt Template Variable Tests
+ *
+ * Tests for the variables prompt presets can reference and for flagging
+ * unknown ones in the editor.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock shared module
+vi.mock('../../../src/shared', async () => {
+    const actual = await vi.importActual('../../../src/shared');
+    return {
+        ...actual,
+        log: {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        },
+    };
+});
+
+import {
+    buildPromptVariables,
+    renderPromptTemplate,
+    findUnknownVariables,
+    PROMPT_VARIABLES,
+} from '../../../src/domain/pipeline/variables';
+import type { PromptContext } from '../../../src/domain/pipeline/prompt';
+import type { Character, StageConfig } from '../../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function createContext(overrides: Partial<PromptContext> = {}): PromptContext {
+    return {
+        character: {
+            name: 'Test Hero',
+            avatar: 'hero.png',
+            description: '{{char}} is a brave adventurer.',
+            personality: 'Bold and kind.',
+            first_mes: '',
+            scenario: '',
+            mes_example: '',
+        } as Character,
+        selection: { description: true, personality: false, scenario: true },
+        stage: 'rewrite',
+        config: { promptPresetId: null, customPrompt: '' } as StageConfig,
+        previousResults: {
+            score: {
+                stage: 'score',
+                timestamp: 1,
+                input: '',
+                output: 'Description: 6/10',
+            },
+            rewrite: null,
+            analyze: {
+                stage: 'analyze',
+                timestamp: 2,
+                input: '',
+                output: 'Much better.\n\nVerdict: ACCEPT',
+            },
+        },
+        iterationCount: 0,
+        ...overrides,
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('buildPromptVariables', () => {
+    it('fills variables from the pipeline context', () => {
+        const vars = buildPromptVariables(
+            createContext({ guidance: ' Darker ' }),
+        );
+
+        expect(vars).toMatchObject({
+            char: 'Test Hero',
+            stage: 'rewrite',
+            iteration: '',
+            guidance: 'Darker',
+            selectedfields: 'Description',
+            'score.output': 'Description: 6/10',
+            'rewrite.output': '',
+            'analyze.verdict': 'ACCEPT',
+        });
+    });
+
+    it('resolves {{char}} inside field values', () => {
+        const vars = buildPromptVariables(createContext());
+
+        expect(vars['field.description']).toBe(
+            'Test Hero is a brave adventurer.',
+        );
+        expect(vars['field.scenario']).toBe('');
+    });
+
+    it('numbers refinements like the task header', () => {
+        const vars = buildPromptVariables(createContext({ iterationCount: 2 }));
+
+        expect(vars.iteration).toBe('3');
+    });
+
+    it('has a value for every listed variable', () => {
+        const vars = buildPromptVariables(createContext());
+
+        for (const { name } of PROMPT_VARIABLES) {
+            expect(vars).toHaveProperty([name.toLowerCase()]);
+        }
+    });
+});
+
+describe('renderPromptTemplate', () => {
+    it('replaces variables case-insensitively and keeps ST macros', () => {
+        const result = renderPromptTemplate(
+            'Fields: {{selectedFields}}. Talk to {{user}}. {{mystery}}',
+            createContext(),
+        );
+
+        expect(result).toBe(
+            'Fields: Description. Talk to {{user}}. {{mystery}}',
+        );
+    });
+
+    it('drops conditional blocks for empty variables', () => {
+        const result = renderPromptTemplate(
+            '{{#if rewrite.output}}Previous: {{rewrite.output}}{{/if}}Go.',
+            createContext(),
+        );
+
+        expect(result).toBe('Go.');
+    });
+});
+
+describe('findUnknownVariables', () => {
+    it('flags misspelled placeholders and conditionals', () => {
+        expect(
+            findUnknownVariables(
+                '{{char}} {{score.ouput}} {{#if verdict}}x{{/if}} {{Field.Description}}',
+            ),
+        ).toEqual(['score.ouput', 'verdict']);
+    });
+
+    it('accepts ST macros', () => {
+        expect(findUnknownVariables('{{user}} and {{persona}}')).toEqual([]);
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Analyze Verdict Parsing Tests
+ *
+ * Tests for reading ACCEPT / NEEDS_REFINEMENT / REGRESSION from structured
+ * and markdown Analyze output.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseVerdict } from '../../../src/domain/pipeline/verdict';
+
+describe('parseVerdict', () => {
+    it('reads the verdict field from structured output', () => {
+        const output = JSON.stringify({
+            soulScore: 8,
+            verdict: 'REGRESSION',
+            issues: ['Lost her sarcasm'],
+        });
+
+        expect(parseVerdict(output)).toBe('REGRESSION');
+    });
+
+    it('reads structured output wrapped in a code fence', () => {
+        const output =
+            'Here is the analysis:\n```json\n{"verdict": "ACCEPT"}\n```';
+
+        expect(parseVerdict(output)).toBe('ACCEPT');
+    });
+
+    it('returns null for a structured verdict outside the enum', () => {
+        expect(parseVerdict('{"verdict": "MAYBE"}')).toBeNull();
+    });
+
+    it('reads the verdict section of a markdown response', () => {
+        const output = [
+            '## What Was Preserved',
+            'Her dry humor and accept-nothing attitude.',
+            '',
+            '## Verdict',
+            '**NEEDS_REFINEMENT** - the scenario still contradicts the description',
+        ].join('\n');
+
+        expect(parseVerdict(output)).toBe('NEEDS_REFINEMENT');
+    });
+
+    it('tolerates case, spacing and "accepted"', () => {
+        expect(parseVerdict('Verdict: Needs Refinement')).toBe(
+            'NEEDS_REFINEMENT',
+        );
+        expect(parseVerdict('4. Verdict: accepted')).toBe('ACCEPT');
+    });
+
+    it('reads a bold label with a dash', () => {
+        expect(parseVerdict('**Verdict** - **REGRESSION**')).toBe('REGRESSION');
+    });
+
+    it('prefers the last verdict label', () => {
+        const output = 'Last time: Verdict: REGRESSION.\n\n## Verdict\nACCEPT';
+
+        expect(parseVerdict(output)).toBe('ACCEPT');
+    });
+
+    it('ignores verdict words that are not right after the label', () => {
+        expect(
+            parseVerdict('## Verdict\nHard to say. ACCEPT would be premature.'),
+        ).toBeNull();
+        expect(
+            parseVerdict('The previous verdict was REGRESSION. Tone shifted.'),
+        ).toBeNull();
+    });
+
+    it('returns null for an unlabeled verdict', () => {
+        expect(parseVerdict('Overall: REGRESSION. Tone shifted.')).toBeNull();
+    });
+
+    it('returns null when no verdict is stated', () => {
+        expect(parseVerdict('Soul score: 7/10')).toBeNull();
+        expect(parseVerdict('')).toBeNull();
+    });
+});
@@ -6,7 +6,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { validateSchema, autoFixSchema } from '../../src/domain/schema';
+import {
+    validateSchema,
+    autoFixSchema,
+    extractJson,
+    validateResponse,
+    parseStructuredResponse,
+} from '../../src/domain/schema';
 
 describe('validateSchema', () => {
     describe('input handling', () => {
@@ -341,3 +347,212 @@ describe('autoFixSchema', () => {
         }
     });
 });
+
+describe('extractJson', () => {
+    it('parses a bare JSON response', () => {
+        expect(extractJson('{"a": 1}')?.data).toEqual({ a: 1 });
+    });
+
+    it('extracts from a code fence', () => {
+        const result = extractJson('Sure!\n```json\n{"a": 1}\n```\nDone.');
+        expect(result).toEqual({ data: { a: 1 }, json: '{"a": 1}' });
+    });
+
+    it('extracts from surrounding prose', () => {
+        const result = extractJson(
+            'Here is the analysis: {"verdict": "ACCEPT", "notes": "uses {braces}"} Hope that helps!',
+        );
+        expect(result?.data).toEqual({
+            verdict: 'ACCEPT',
+            notes: 'uses {braces}',
+        });
+    });
+
+    it('skips brackets that are not JSON', () => {
+        const result = extractJson('[Note] see below {"ok": true}');
+        expect(result?.data).toEqual({ ok: true });
+    });
+
+    it('returns null when there is no JSON', () => {
+        expect(extractJson('No JSON here.')).toBeNull();
+        expect(extractJson('{"unterminated": ')).toBeNull();
+    });
+});
+
+describe('validateResponse', () => {
+    const schema = {
+        type: 'object',
+        properties: {
+            score: { type: 'number' },
+            fields: {
+                type: 'object',
+                properties: {
+                    description: {
+                        type: 'object',
+                        properties: { score: { type: 'number' } },
+                        required: ['score'],
+                    },
+                },
+            },
+            tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['score', 'fields'],
+    };
+
+    it('returns no errors for matching data', () => {
+        expect(
+            validateResponse(
+                {
+                    score: 7,
+                    fields: { description: { score: 6 } },
+                    tags: ['a'],
+                },
+                schema,
+            ),
+        ).toEqual([]);
+    });
+
+    it('reports path-level type errors', () => {
+        const errors = validateResponse(
+            { score: 7, fields: { description: { score: 'high' } } },
+            schema,
+        );
+        expect(errors).toEqual([
+            'fields.description.score: expected number, got string',
+        ]);
+    });
+
+    it('reports missing required keys', () => {
+        expect(validateResponse({ score: 1 }, schema)).toEqual([
+            'fields: required',
+        ]);
+    });
+
+    it('reports array item errors with indices', () => {
+        const errors = validateResponse(
+            { score: 1, fields: {}, tags: ['ok', 3] },
+            schema,
+        );
+        expect(errors).toEqual(['tags[1]: expected string, got number']);
+    });
+
+    it('reports a root type mismatch', () => {
+        expect(validateResponse([], schema)).toEqual([
+            '(root): expected object, got array',
+        ]);
+    });
+});
+
+describe('validateResponse - constraints', () => {
+    it('checks enum values', () => {
+        const errors = validateResponse(
+            { verdict: 'MAYBE' },
+            {
+                type: 'object',
+                properties: {
+                    verdict: {
+                        type: 'string',
+                        enum: ['ACCEPT', 'NEEDS_REFINEMENT', 'REGRESSION'],
+                    },
+                },
+            },
+        );
+        expect(errors).toEqual([
+            'verdict: expected one of "ACCEPT", "NEEDS_REFINEMENT", "REGRESSION", got "MAYBE"',
+        ]);
+    });
+
+    it('checks number ranges and integers', () => {
+        const schema = {
+            type: 'object',
+            properties: {
+                score: { type: 'integer', minimum: 1, maximum: 10 },
+                weight: { type: 'number', exclusiveMinimum: 0 },
+            },
+        };
+        expect(validateResponse({ score: 11, weight: 0 }, schema)).toEqual([
+            'score: must be <= 10, got 11',
+            'weight: must be > 0, got 0',
+        ]);
+        expect(validateResponse({ score: 2.5 }, schema)).toEqual([
+            'score: expected integer, got number',
+        ]);
+    });
+
+    it('checks string and array lengths', () => {
+        const errors = validateResponse(
+            { name: '', tags: ['a', 'b', 'c'] },
+            {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', minLength: 1 },
+                    tags: { type: 'array', maxItems: 2 },
+                },
+            },
+        );
+        expect(errors).toEqual([
+            'name: must be at least 1 characters',
+            'tags: expected at most 2 items',
+        ]);
+    });
+
+    it('flags unexpected properties when additionalProperties is false', () => {
+        const errors = validateResponse(
+            { ok: true, extra: 1 },
+            {
+                type: 'object',
+                properties: { ok: { type: 'boolean' } },
+                additionalProperties: false,
+            },
+        );
+        expect(errors).toEqual(['extra: unexpected property']);
+    });
+
+    it('resolves local $refs', () => {
+        const errors = validateResponse(
+            { items: [{ score: 'x' }] },
+            {
+                type: 'object',
+                properties: {
+                    items: { type: 'array', items: { $ref: '#/$defs/Item' } },
+                },
+                $defs: {
+                    Item: {
+                        type: 'object',
+                        properties: { score: { type: 'number' } },
+                    },
+                },
+            },
+        );
+        expect(errors).toEqual(['items[0].score: expected number, got string']);
+    });
+
+    it('accepts any matching anyOf variant', () => {
+        const schema = {
+            type: 'object',
+            properties: {
+                value: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+            },
+        };
+        expect(validateResponse({ value: null }, schema)).toEqual([]);
+        expect(validateResponse({ value: 3 }, schema)).toEqual([
+            'value: does not match any allowed variant',
+        ]);
+    });
+});
+
+describe('parseStructuredResponse', () => {
+    it('returns the extracted JSON and validation warnings', () => {
+        const result = parseStructuredResponse('Result: {"ok": "yes"}', {
+            name: 'Test',
+            value: {
+                type: 'object',
+                properties: { ok: { type: 'boolean' } },
+                required: ['ok'],
+            },
+        });
+
+        expect(result?.json).toBe('{"ok": "yes"}');
+        expect(result?.warnings).toEqual(['ok: expected boolean, got string']);
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Character Snapshot Tests
+ *
+ * Tests for comparing a character with a backup and restoring its fields.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    findChangedFields,
+    getRestoreValues,
+} from '../../src/domain/character/snapshot';
+import {
+    buildCardUpdate,
+    mergeCardUpdate,
+} from '../../src/domain/character/card-update';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+function createCardJson(
+    data: Record<string, unknown> = {},
+): Record<string, unknown> {
+    return {
+        name: 'Test Character',
+        description: 'A brave warrior.',
+        first_mes: 'Hello!',
+        data: {
+            name: 'Test Character',
+            description: 'A brave warrior.',
+            first_mes: 'Hello!',
+            system_prompt: '',
+            alternate_greetings: ['Hi.', 'Hey.'],
+            extensions: {
+                depth_prompt: {
+                    prompt: 'Stay in character.',
+                    depth: 4,
+                    role: 'system',
+                },
+            },
+            ...data,
+        },
+    };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('findChangedFields', () => {
+    it('finds fields that differ, V1 or V2', () => {
+        const current = {
+            ...createCardJson({
+                system_prompt: 'Be terse.',
+                alternate_greetings: ['Hi.'],
+            }),
+            description: 'A bold warrior.',
+        };
+
+        expect(
+            findChangedFields(current, createCardJson()).map((f) => f.key),
+        ).toEqual(['description', 'system_prompt', 'alternate_greetings']);
+    });
+
+    it('compares nested objects by value', () => {
+        const current = createCardJson({
+            extensions: {
+                depth_prompt: {
+                    prompt: 'Stay in character.',
+                    depth: 2,
+                    role: 'system',
+                },
+            },
+        });
+
+        expect(
+            findChangedFields(current, createCardJson()).map((f) => f.key),
+        ).toEqual(['depth_prompt']);
+    });
+
+    it('treats missing and empty values as the same', () => {
+        const current = createCardJson({ post_history_instructions: '' });
+
+        expect(findChangedFields(current, createCardJson())).toEqual([]);
+    });
+});
+
+describe('getRestoreValues', () => {
+    it('returns the backup values of changed fields', () => {
+        const current = createCardJson({
+            alternate_greetings: ['Hi.', 'Hey.', 'Yo.'],
+        });
+
+        expect(getRestoreValues(current, createCardJson())).toEqual([
+            { key: 'alternate_greetings', value: ['Hi.', 'Hey.'] },
+        ]);
+    });
+
+    it('clears fields the backup did not have', () => {
+        const current = createCardJson({
+            system_prompt: 'Be terse.',
+            creator_notes: 'Notes.',
+        });
+        const snapshot = createCardJson();
+        delete (snapshot.data as Record<string, unknown>).system_prompt;
+
+        expect(getRestoreValues(current, snapshot)).toEqual([
+            { key: 'system_prompt', value: '' },
+            { key: 'creator_notes', value: '' },
+        ]);
+    });
+
+    it('removes a depth prompt the backup did not have', () => {
+        const snapshot = createCardJson({ extensions: {} });
+        const applied = mergeCardUpdate(
+            snapshot,
+            buildCardUpdate(snapshot, [
+                { key: 'depth_prompt', value: 'Speak in rhyme.' },
+            ]),
+        );
+
+        const values = getRestoreValues(applied, snapshot);
+        const restored = mergeCardUpdate(
+            applied,
+            buildCardUpdate(applied, values),
+        );
+
+        expect(values).toEqual([{ key: 'depth_prompt', value: null }]);
+        expect(
+            (restored.data as { extensions: Record<string, unknown> })
+                .extensions.depth_prompt,
+        ).toBeNull();
+        expect(findChangedFields(restored, snapshot)).toEqual([]);
+    });
+});
@@ -0,0 +1,234 @@
+/**
+ * Usage & Cost Tests
+ *
+ * Tests for pricing models and adding up token usage.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    findModelPrice,
+    estimateCost,
+    sumResultUsage,
+    sumUsageRecords,
+    groupUsage,
+} from '../../src/domain/usage';
+import type {
+    GenerationMeta,
+    ModelPrice,
+    StageResult,
+    UsageRecord,
+} from '../../src/types';
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+const prices: ModelPrice[] = [
+    { model: 'gpt-4o', input: 2.5, output: 10 },
+    { model: 'claude-*', input: 3, output: 15 },
+    { model: 'claude-3-haiku*', input: 0.25, output: 1.25 },
+];
+
+function result(meta: Partial<GenerationMeta> | null): StageResult {
+    return {
+        stage: 'score',
+        timestamp: 1,
+        input: '',
+        output: '',
+        ...(meta
+            ? {
+                  meta: {
+                      model: null,
+                      source: null,
+                      profileId: null,
+                      promptPresetId: null,
+                      promptPresetVersion: null,
+                      schemaPresetId: null,
+                      schemaPresetVersion: null,
+                      structured: null,
+                      promptTokens: null,
+                      completionTokens: null,
+                      durationMs: null,
+                      retries: null,
+                      ...meta,
+                  },
+              }
+            : {}),
+    };
+}
+
+function record(
+    date: string,
+    model: string,
+    promptTokens: number,
+    completionTokens = 0,
+): UsageRecord {
+    return { date, model, runs: 1, promptTokens, completionTokens };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('findModelPrice', () => {
+    it('prefers an exact match, ignoring case', () => {
+        expect(findModelPrice(prices, 'GPT-4o')?.input).toBe(2.5);
+    });
+
+    it('uses the longest matching prefix pattern', () => {
+        expect(findModelPrice(prices, 'claude-3-haiku-20240307')?.input).toBe(
+            0.25,
+        );
+        expect(findModelPrice(prices, 'claude-sonnet-4')?.input).toBe(3);
+    });
+
+    it('returns null for unknown models', () => {
+        expect(findModelPrice(prices, 'gpt-4o-mini')).toBeNull();
+        expect(findModelPrice(prices, null)).toBeNull();
+    });
+});
+
+describe('estimateCost', () => {
+    it('prices tokens per million', () => {
+        expect(estimateCost(prices[0], 1_000_000, 100_000)).toBeCloseTo(3.5);
+    });
+});
+
+describe('sumResultUsage', () => {
+    it('adds up tokens and prices the known models', () => {
+        const totals = sumResultUsage(
+            [
+                result({
+                    model: 'gpt-4o',
+                    promptTokens: 1000,
+                    completionTokens: 500,
+                }),
+                result({
+                    model: 'local-llama',
+                    promptTokens: 2000,
+                    completionTokens: 100,
+                }),
+            ],
+            prices,
+        );
+
+        expect(totals).toMatchObject({
+            runs: 2,
+            promptTokens: 3000,
+            completionTokens: 600,
+            unpriced: 1,
+        });
+        expect(totals.cost).toBeCloseTo(0.0075);
+    });
+
+    it('skips results without recorded usage', () => {
+        const totals = sumResultUsage(
+            [result(null), result({ model: 'gpt-4o' })],
+            prices,
+        );
+
+        expect(totals.runs).toBe(0);
+        expect(totals.cost).toBeNull();
+    });
+
+    it('prices each candidate and the judge with its own model', () => {
+        const candidate = (model: string) => ({
+            profileId: null,
+            label: model,
+            result: result({
+                model,
+                promptTokens: 1_000_000,
+                completionTokens: 0,
+            }),
+        });
+        const totals = sumResultUsage(
+            [
+                {
+                    ...result({ model: 'gpt-4o', promptTokens: 3_000_000 }),
+                    candidates: {
+                        candidates: [
+                            candidate('gpt-4o'),
+                            candidate('claude-3-5-sonnet'),
+                        ],
+                        winner: 0,
+                        picks: {},
+                        judge: {
+                            output: 'Ranking: 1, 2',
+                            meta: result({
+                                model: 'claude-3-haiku',
+                                promptTokens: 1_000_000,
+                                completionTokens: 0,
+                            }).meta,
+                        },
+                    },
+                },
+            ],
+            prices,
+        );
+
+        expect(totals.runs).toBe(3);
+        expect(totals.cost).toBeCloseTo(2.5 + 3 + 0.25);
+    });
+
+    it('prices each ensemble member with its own model', () => {
+        const member = (model: string) => ({
+            profileId: model,
+            label: model,
+            result: result({
+                model,
+                promptTokens: 1_000_000,
+                completionTokens: 0,
+            }),
+        });
+        const totals = sumResultUsage(
+            [
+                {
+                    ...result({ model: 'gpt-4o', promptTokens: 2_000_000 }),
+                    ensemble: {
+                        members: [
+                            member('gpt-4o'),
+                            member('claude-3-5-sonnet'),
+                        ],
+                        overall: null,
+                        fields: [],
+                    },
+                },
+            ],
+            prices,
+        );
+
+        expect(totals.runs).toBe(2);
+        expect(totals.cost).toBeCloseTo(2.5 + 3);
+    });
+});
+
+describe('groupUsage', () => {
+    const log = [
+        record('2026-10-01', 'gpt-4o', 100),
+        record('2026-10-02', 'gpt-4o', 100),
+        record('2026-10-02', 'claude-sonnet-4', 1000),
+    ];
+
+    it('groups by day, newest first', () => {
+        const groups = groupUsage(log, 'date', prices);
+
+        expect(groups.map((g) => g.key)).toEqual(['2026-10-02', '2026-10-01']);
+        expect(groups[0].totals.runs).toBe(2);
+    });
+
+    it('groups by model, most tokens first', () => {
+        const groups = groupUsage(log, 'model', prices);
+
+        expect(groups.map((g) => g.key)).toEqual(['claude-sonnet-4', 'gpt-4o']);
+        expect(groups[1].totals.promptTokens).toBe(200);
+    });
+
+    it('matches the overall totals', () => {
+        const total = sumUsageRecords(log, prices);
+        const byModel = groupUsage(log, 'model', prices);
+
+        expect(total.promptTokens).toBe(
+            byModel.reduce((sum, g) => sum + g.totals.promptTokens, 0),
+        );
+    });
+});
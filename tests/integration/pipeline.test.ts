@@ -32,6 +32,8 @@ vi.mock('../../src/shared', async () => {
         isApiReady: vi.fn(() => true),
         getApiStatus: vi.fn(() => ({
             isReady: true,
+            source: 'openai',
+            model: 'gpt-4',
             modelDisplay: 'gpt-4',
             statusText: 'Ready',
             error: null,
@@ -41,7 +43,8 @@ vi.mock('../../src/shared', async () => {
 
 // Mock generation module - use vi.hoisted for proper hoisting
 const mockGenerate = vi.hoisted(() => vi.fn());
-vi.mock('../../src/domain/generation', () => ({
+vi.mock('../../src/domain/generation', async () => ({
+    ...(await vi.importActual('../../src/domain/generation')),
     generate: mockGenerate,
 }));
 
@@ -58,8 +61,18 @@ vi.mock('../../src/data', () => ({
     save: vi.fn(),
 }));
 
-import { runStage } from '../../src/domain/pipeline/execution';
-import type { StageConfig, StageName } from '../../src/types';
+import {
+    runStage,
+    retryFailedFields,
+} from '../../src/domain/pipeline/execution';
+import { getApiStatus, type ApiStatus } from '../../src/shared';
+import { buildRubricSchema } from '../../src/domain/pipeline/rubric';
+import {
+    buildRewriteSchema,
+    parseRewriteOutput,
+} from '../../src/domain/pipeline/rewrite-output';
+import { FIELD_REWRITE_SCHEMA_ID } from '../../src/shared/constants';
+import type { Rubric, StageConfig, StageName } from '../../src/types';
 
 // =============================================================================
 // TEST FIXTURES
@@ -72,6 +85,12 @@ function createMockConfig(overrides: Partial<StageConfig> = {}): StageConfig {
         schemaPresetId: null,
         customSchema: '',
         useStructuredOutput: false,
+        profileId: null,
+        temperature: null,
+        maxTokens: null,
+        prefill: null,
+        timeout: null,
+        fieldByField: false,
         ...overrides,
     };
 }
@@ -93,6 +112,7 @@ function createMockDeps() {
         getSchemaPreset: vi.fn(() => null),
         getSystemPrompt: vi.fn((stage: string) => `System prompt for ${stage}`),
         getRefinementPrompt: vi.fn(() => 'Refinement system prompt'),
+        getRubric: vi.fn(() => null),
     };
 }
 
@@ -166,6 +186,153 @@ describe('runStage', () => {
         expect(result.output).toBe('');
     });
 
+    it('records repairs and remaining schema violations', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response: '{"score": "high"}',
+            isStructured: true,
+            repairs: 2,
+            validationErrors: ['score: expected number, got string'],
+        });
+
+        const ctx = createStageContext('score');
+        const deps = createMockDeps();
+
+        const result = await runStage(ctx, deps);
+
+        expect(result.repairs).toBe(2);
+        expect(result.validationErrors).toEqual([
+            'score: expected number, got string',
+        ]);
+    });
+
+    it('records the system prompt and finish reason', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response: 'Cut off mid',
+            finishReason: 'length',
+        });
+
+        const result = await runStage(
+            createStageContext('score'),
+            createMockDeps(),
+        );
+
+        expect(result.systemPrompt).toBe('System prompt for score');
+        expect(result.finishReason).toBe('length');
+    });
+
+    it('records generation metadata', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response: '{"score": 8}',
+            isStructured: true,
+            retries: 1,
+        });
+        const deps = createMockDeps();
+        deps.getPromptPreset.mockReturnValue({
+            prompt: 'Score it.',
+            version: 3,
+        } as never);
+
+        const result = await runStage(
+            createStageContext('score', {
+                config: createMockConfig({
+                    promptPresetId: 'preset-1',
+                    useStructuredOutput: true,
+                    customSchema: '{"name":"s","value":{"type":"object"}}',
+                }),
+            }),
+            deps,
+        );
+
+        expect(result.meta).toMatchObject({
+            model: 'gpt-4',
+            source: 'openai',
+            profileId: null,
+            promptPresetId: 'preset-1',
+            promptPresetVersion: 3,
+            schemaPresetId: null,
+            structured: true,
+            retries: 1,
+        });
+        expect(result.meta?.promptTokens).toBeGreaterThan(0);
+        expect(result.meta?.completionTokens).toBeGreaterThan(0);
+        expect(result.meta?.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('records the settings and inputs it ran with', async () => {
+        mockGenerate.mockResolvedValue({ success: true, response: 'Better.' });
+        const score = {
+            stage: 'score' as const,
+            timestamp: 42,
+            input: '',
+            output: 'Score: 6/10',
+        };
+        const ctx = createStageContext('rewrite', {
+            previousResults: { score, rewrite: null, analyze: null },
+        });
+
+        const result = await runStage(ctx, createMockDeps());
+
+        expect(result.snapshot).toEqual({
+            config: ctx.config,
+            selection: ctx.selection,
+            inputs: { score: 42 },
+        });
+        expect(result.snapshot?.config).not.toBe(ctx.config);
+    });
+
+    it('records the verdict and iteration on analyze results', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response: '## Verdict\n**ACCEPT** - ready to apply',
+        });
+
+        const result = await runStage(
+            createStageContext('analyze', { iterationCount: 2 }),
+            createMockDeps(),
+        );
+
+        expect(result.verdict).toBe('ACCEPT');
+        expect(result.iteration).toBe(2);
+    });
+
+    it('does not read verdicts from other stages', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response: 'Verdict: ACCEPT',
+        });
+
+        const result = await runStage(
+            createStageContext('score'),
+            createMockDeps(),
+        );
+
+        expect(result.verdict).toBeUndefined();
+        expect(result.iteration).toBeUndefined();
+    });
+
+    it('keeps partial output when cancelled mid-stream', async () => {
+        mockGenerate.mockResolvedValue({
+            success: false,
+            error: 'Generation cancelled',
+            response: 'Partial ana',
+        });
+
+        const onStream = vi.fn();
+        const ctx = createStageContext('score');
+        const deps = createMockDeps();
+
+        const result = await runStage(ctx, deps, { onStream });
+
+        expect(result.error).toBe('Generation cancelled');
+        expect(result.output).toBe('Partial ana');
+        expect(mockGenerate).toHaveBeenCalledWith(
+            expect.objectContaining({ onStream }),
+        );
+    });
+
     it('handles abort signal', async () => {
         const controller = new AbortController();
         controller.abort();
@@ -196,6 +363,55 @@ describe('runStage', () => {
         );
     });
 
+    it('reports retries through the progress callback', async () => {
+        mockGenerate.mockImplementation(async (options) => {
+            options.onRetry({
+                attempt: 1,
+                maxRetries: 2,
+                delayMs: 4000,
+                error: 'Rate limited. Please wait and try again.',
+            });
+            return { success: true, response: 'Done.' };
+        });
+
+        const onProgress = vi.fn();
+        const ctx = createStageContext('score');
+        const deps = createMockDeps();
+
+        await runStage(ctx, deps, { onProgress });
+
+        expect(onProgress).toHaveBeenCalledWith(
+            expect.stringMatching(/Retrying score in 4s \(attempt 1 of 2\)/),
+        );
+    });
+
+    it('generates with per-stage connection overrides', async () => {
+        mockGenerate.mockResolvedValue({ success: true, response: 'Done.' });
+
+        const ctx = createStageContext('score', {
+            config: createMockConfig({
+                profileId: 'fast-profile',
+                temperature: 0.2,
+                maxTokens: 800,
+                prefill: '{',
+                timeout: 45,
+            }),
+        });
+        const deps = createMockDeps();
+
+        await runStage(ctx, deps);
+
+        expect(mockGenerate).toHaveBeenCalledWith(
+            expect.objectContaining({
+                profileId: 'fast-profile',
+                temperature: 0.2,
+                responseLength: 800,
+                prefill: '{',
+                timeoutMs: 45000,
+            }),
+        );
+    });
+
     it('includes user guidance in prompt', async () => {
         mockGenerate.mockResolvedValue({
             success: true,
@@ -213,3 +429,583 @@ describe('runStage', () => {
         expect(result.guidance).toBe('Focus more on backstory and motivation.');
     });
 });
+
+// =============================================================================
+// TESTS: Field-by-field rewrite
+// =============================================================================
+
+describe('field-by-field rewrite', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGenerate.mockReset();
+    });
+
+    function fieldByFieldContext(overrides = {}) {
+        return createStageContext('rewrite', {
+            config: createMockConfig({ fieldByField: true }),
+            ...overrides,
+        });
+    }
+
+    it('runs one request per field and combines the outputs', async () => {
+        mockGenerate
+            .mockResolvedValueOnce({ success: true, response: 'New desc.' })
+            .mockResolvedValueOnce({ success: true, response: 'New pers.' });
+
+        const result = await runStage(fieldByFieldContext(), createMockDeps());
+
+        expect(mockGenerate).toHaveBeenCalledTimes(2);
+        expect(mockGenerate.mock.calls[0][0].prompt).toContain(
+            'This request covers only **Description**',
+        );
+        expect(mockGenerate.mock.calls[0][0].prompt).not.toContain(
+            'Bold, courageous',
+        );
+        expect(result.error).toBeUndefined();
+        expect(result.output).toBe(
+            '### Description\n\nNew desc.\n\n### Personality\n\nNew pers.',
+        );
+        expect(result.fieldResults?.map((r) => r.key)).toEqual([
+            'description',
+            'personality',
+        ]);
+        expect(result.snapshot?.selection).toEqual(
+            fieldByFieldContext().selection,
+        );
+    });
+
+    it('adds up usage across the field requests', async () => {
+        mockGenerate
+            .mockResolvedValueOnce({ success: true, response: 'New desc.' })
+            .mockResolvedValueOnce({
+                success: true,
+                response: 'New pers.',
+                retries: 2,
+            });
+
+        const result = await runStage(fieldByFieldContext(), createMockDeps());
+
+        // Token counts fall back to length / 4 without a tokenizer
+        expect(result.meta).toMatchObject({
+            model: 'gpt-4',
+            completionTokens: 6,
+            retries: 2,
+        });
+    });
+
+    it('reports progress per field', async () => {
+        mockGenerate.mockResolvedValue({ success: true, response: 'Done.' });
+        const onProgress = vi.fn();
+
+        await runStage(fieldByFieldContext(), createMockDeps(), {
+            onProgress,
+        });
+
+        expect(onProgress).toHaveBeenCalledWith(
+            'Rewriting Description (1 of 2)...',
+        );
+        expect(onProgress).toHaveBeenCalledWith(
+            'Rewriting Personality (2 of 2)...',
+        );
+    });
+
+    it('keeps going when a field fails and names it in the error', async () => {
+        mockGenerate
+            .mockResolvedValueOnce({ success: false, error: 'Timed out' })
+            .mockResolvedValueOnce({ success: true, response: 'New pers.' });
+
+        const result = await runStage(fieldByFieldContext(), createMockDeps());
+
+        expect(result.error).toBe('1 of 2 fields failed: Description');
+        expect(result.output).toBe('### Personality\n\nNew pers.');
+        expect(result.fieldResults?.[0].error).toBe('Timed out');
+    });
+
+    it('retries only the failed fields', async () => {
+        mockGenerate
+            .mockResolvedValueOnce({ success: false, error: 'Timed out' })
+            .mockResolvedValueOnce({ success: true, response: 'New pers.' });
+        const ctx = fieldByFieldContext({ guidance: 'Keep it short.' });
+        const deps = createMockDeps();
+        const first = await runStage(ctx, deps);
+
+        mockGenerate.mockReset();
+        mockGenerate.mockResolvedValueOnce({
+            success: true,
+            response: 'New desc.',
+        });
+
+        const retried = await retryFailedFields(
+            { ...ctx, guidance: 'Something else' },
+            deps,
+            first,
+        );
+
+        expect(mockGenerate).toHaveBeenCalledTimes(1);
+        expect(mockGenerate.mock.calls[0][0].prompt).toContain(
+            '**Description**',
+        );
+        expect(retried.error).toBeUndefined();
+        expect(retried.guidance).toBe('Keep it short.');
+        expect(retried.output).toBe(
+            '### Description\n\nNew desc.\n\n### Personality\n\nNew pers.',
+        );
+    });
+
+    it('returns an error when no fields are selected', async () => {
+        const result = await runStage(
+            fieldByFieldContext({ selection: {} }),
+            createMockDeps(),
+        );
+
+        expect(result.error).toBe('No fields selected');
+        expect(mockGenerate).not.toHaveBeenCalled();
+    });
+
+    it('runs other stages as a single request', async () => {
+        mockGenerate.mockResolvedValue({ success: true, response: 'Score.' });
+
+        const result = await runStage(
+            createStageContext('score', {
+                config: createMockConfig({ fieldByField: true }),
+            }),
+            createMockDeps(),
+        );
+
+        expect(mockGenerate).toHaveBeenCalledTimes(1);
+        expect(result.fieldResults).toBeUndefined();
+    });
+});
+
+// =============================================================================
+// TESTS: Rewrite candidates
+// =============================================================================
+
+describe('rewrite candidates', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGenerate.mockReset();
+    });
+
+    function candidateContext(config: Partial<StageConfig> = {}) {
+        return createStageContext('rewrite', {
+            config: createMockConfig({ candidateCount: 3, ...config }),
+        });
+    }
+
+    it('samples each candidate and uses the first as the winner', async () => {
+        mockGenerate
+            .mockResolvedValueOnce({ success: true, response: 'First.' })
+            .mockResolvedValueOnce({ success: true, response: 'Second.' })
+            .mockResolvedValueOnce({ success: true, response: 'Third.' });
+
+        const result = await runStage(candidateContext(), createMockDeps());
+
+        expect(mockGenerate).toHaveBeenCalledTimes(3);
+        expect(result.output).toBe('First.');
+        expect(result.candidates?.winner).toBe(0);
+        expect(
+            result.candidates?.candidates.map((c) => [
+                c.label,
+                c.result.output,
+            ]),
+        ).toEqual([
+            ['Candidate 1', 'First.'],
+            ['Candidate 2', 'Second.'],
+            ['Candidate 3', 'Third.'],
+        ]);
+        expect(result.snapshot).toBeDefined();
+        expect(
+            result.candidates?.candidates[0].result.snapshot,
+        ).toBeUndefined();
+        expect(result.meta?.completionTokens).toBe(6);
+    });
+
+    it('generates one candidate per profile', async () => {
+        mockGenerate.mockResolvedValue({ success: true, response: 'Done.' });
+
+        const result = await runStage(
+            candidateContext({ candidateProfiles: ['fast', 'smart'] }),
+            createMockDeps(),
+        );
+
+        expect(mockGenerate.mock.calls.map((c) => c[0].profileId)).toEqual([
+            'fast',
+            'smart',
+        ]);
+        expect(result.candidates?.candidates.map((c) => c.profileId)).toEqual([
+            'fast',
+            'smart',
+        ]);
+    });
+
+    it('lets a judge pick the winner', async () => {
+        mockGenerate
+            .mockResolvedValueOnce({ success: true, response: 'First.' })
+            .mockResolvedValueOnce({ success: false, error: 'Timed out' })
+            .mockResolvedValueOnce({ success: true, response: 'Third.' })
+            .mockResolvedValueOnce({
+                success: true,
+                response: 'Ranking: 3, 1\n\nThe third reads better.',
+            });
+
+        const result = await runStage(
+            candidateContext({ judgeCandidates: true }),
+            createMockDeps(),
+        );
+
+        const judgePrompt = mockGenerate.mock.calls[3][0].prompt;
+        expect(judgePrompt).toContain('# CANDIDATE 3\n\nThird.');
+        expect(judgePrompt).not.toContain('# CANDIDATE 2');
+        expect(result.error).toBeUndefined();
+        expect(result.candidates?.ranking).toEqual([2, 0]);
+        expect(result.output).toBe('Third.');
+    });
+
+    it('fails only when no candidate produced output', async () => {
+        mockGenerate.mockResolvedValue({ success: false, error: 'Timed out' });
+
+        const result = await runStage(
+            candidateContext({ candidateCount: 2 }),
+            createMockDeps(),
+        );
+
+        expect(result.error).toBe(
+            'All 2 candidates failed: Candidate 1 (Timed out), Candidate 2 (Timed out)',
+        );
+        expect(result.candidates?.candidates).toHaveLength(2);
+    });
+
+    it('runs a single rewrite for configs without candidate settings', async () => {
+        mockGenerate.mockResolvedValue({ success: true, response: 'Done.' });
+
+        const result = await runStage(
+            createStageContext('rewrite'),
+            createMockDeps(),
+        );
+
+        expect(mockGenerate).toHaveBeenCalledTimes(1);
+        expect(result.candidates).toBeUndefined();
+    });
+});
+
+describe('ensemble scoring', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGenerate.mockReset();
+    });
+
+    function ensembleContext(profiles: string[]) {
+        return createStageContext('score', {
+            config: createMockConfig({ ensembleProfiles: profiles }),
+        });
+    }
+
+    function score(overall: number, personality: number, summary: string) {
+        return JSON.stringify({
+            fieldScores: [
+                {
+                    field: 'Personality',
+                    score: personality,
+                    strengths: `${summary} strengths`,
+                    weaknesses: '',
+                    suggestions: '',
+                },
+            ],
+            overallScore: overall,
+            priorityImprovements: ['Add quirks'],
+            summary,
+        });
+    }
+
+    it('scores with every profile and merges the results', async () => {
+        const responses: Record<string, string> = {
+            fast: score(6, 8, 'Fast'),
+            smart: score(8, 4, 'Smart'),
+        };
+        mockGenerate.mockImplementation(async ({ profileId }) => ({
+            success: true,
+            response: responses[profileId],
+        }));
+
+        const result = await runStage(
+            ensembleContext(['fast', 'smart']),
+            createMockDeps(),
+        );
+
+        expect(mockGenerate).toHaveBeenCalledTimes(2);
+        expect(result.error).toBeUndefined();
+        expect(result.ensemble?.members.map((m) => m.profileId)).toEqual([
+            'fast',
+            'smart',
+        ]);
+        expect(result.ensemble?.overall).toMatchObject({
+            mean: 7,
+            spread: 2,
+            disputed: false,
+        });
+        expect(result.ensemble?.fields[0]).toMatchObject({
+            criterion: 'Personality',
+            scores: [8, 4],
+            disputed: true,
+        });
+
+        const merged = JSON.parse(result.output);
+        expect(merged.overallScore).toBe(7);
+        expect(merged.fieldScores[0].score).toBe(6);
+        expect(merged.priorityImprovements).toEqual(['Add quirks']);
+        expect(result.snapshot).toBeDefined();
+        expect(result.ensemble?.members[0].result.snapshot).toBeUndefined();
+    });
+
+    it('leaves failed members out of the aggregate', async () => {
+        mockGenerate.mockImplementation(async ({ profileId }) =>
+            profileId === 'fast'
+                ? { success: false, error: 'Timed out' }
+                : { success: true, response: score(7, 5, 'Smart') },
+        );
+
+        const result = await runStage(
+            ensembleContext(['fast', 'smart']),
+            createMockDeps(),
+        );
+
+        expect(result.error).toBeUndefined();
+        expect(result.ensemble?.members[0].result.error).toBe('Timed out');
+        expect(result.ensemble?.overall).toMatchObject({
+            scores: [null, 7],
+            mean: 7,
+        });
+    });
+
+    it('fails when no member returned a readable score', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response: 'Looks fine to me.',
+        });
+
+        const result = await runStage(
+            ensembleContext(['fast', 'smart']),
+            createMockDeps(),
+        );
+
+        expect(result.error).toContain('No model returned a readable score');
+        expect(result.output).toBe('');
+        expect(result.ensemble?.members).toHaveLength(2);
+    });
+
+    it('runs a single score with fewer than two profiles', async () => {
+        mockGenerate.mockResolvedValue({ success: true, response: '7/10' });
+
+        const result = await runStage(
+            ensembleContext(['fast']),
+            createMockDeps(),
+        );
+
+        expect(mockGenerate).toHaveBeenCalledTimes(1);
+        expect(result.ensemble).toBeUndefined();
+    });
+});
+
+// =============================================================================
+// TESTS: Context budget
+// =============================================================================
+
+describe('context budget', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGenerate.mockReset();
+        vi.mocked(getApiStatus).mockReturnValue({
+            isReady: true,
+            contextSize: 2000,
+            maxOutput: 100,
+        } as ApiStatus);
+    });
+
+    it('trims prior-stage output that does not fit and reports it', async () => {
+        mockGenerate.mockResolvedValue({ success: true, response: 'Done.' });
+        const score = {
+            stage: 'score' as const,
+            timestamp: 1,
+            input: '',
+            output: 'Description: 6/10 - needs more voice.\n'.repeat(200),
+        };
+
+        const result = await runStage(
+            createStageContext('rewrite', {
+                previousResults: { score, rewrite: null, analyze: null },
+            }),
+            createMockDeps(),
+        );
+
+        expect(mockGenerate).toHaveBeenCalledTimes(1);
+        expect(mockGenerate.mock.calls[0][0].prompt).toContain(
+            '[... trimmed to fit the context window]',
+        );
+        expect(result.context?.strategy).toBe('trim');
+        expect(result.context?.cuts[0]).toMatch(/^Trimmed score results/);
+    });
+
+    it('refuses to send a prompt that cannot fit', async () => {
+        const ctx = createStageContext('score');
+        ctx.character.description = 'A very long backstory. '.repeat(500);
+
+        const result = await runStage(ctx, createMockDeps());
+
+        expect(mockGenerate).not.toHaveBeenCalled();
+        expect(result.error).toMatch(
+            /^Prompt is ~\d+ tokens but only ~\d+ fit in the context window \(largest: Character Data/,
+        );
+    });
+
+    it('leaves prompts alone when the context size is unknown', async () => {
+        vi.mocked(getApiStatus).mockReturnValue({
+            isReady: true,
+        } as ApiStatus);
+        mockGenerate.mockResolvedValue({ success: true, response: 'Done.' });
+        const ctx = createStageContext('score');
+        ctx.character.description = 'A very long backstory. '.repeat(500);
+
+        const result = await runStage(ctx, createMockDeps());
+
+        expect(mockGenerate).toHaveBeenCalledTimes(1);
+        expect(result.context).toBeUndefined();
+    });
+});
+
+// =============================================================================
+// TESTS: Rubric scoring
+// =============================================================================
+
+describe('rubric scoring', () => {
+    const rubric: Rubric = {
+        id: 'rubric-1',
+        name: 'Voice First',
+        criteria: [
+            {
+                name: 'Voice',
+                description: 'Distinct speech',
+                weight: 3,
+                min: 1,
+                max: 5,
+            },
+            {
+                name: 'Lore',
+                description: 'Consistent world',
+                weight: 1,
+                min: 1,
+                max: 5,
+            },
+        ],
+        schemaPresetId: 'rubric-schema',
+        createdAt: 1,
+        updatedAt: 1,
+    };
+
+    function rubricDeps() {
+        return {
+            ...createMockDeps(),
+            getSchemaPreset: vi.fn(() => ({
+                schema: buildRubricSchema(rubric),
+                rubricId: rubric.id,
+            })),
+            getRubric: vi.fn(() => rubric),
+        };
+    }
+
+    function rubricContext() {
+        return createStageContext('score', {
+            config: createMockConfig({
+                useStructuredOutput: true,
+                schemaPresetId: 'rubric-schema',
+            }),
+        });
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGenerate.mockReset();
+    });
+
+    it('adds the rubric to the prompt and computes the overall score', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response: JSON.stringify({
+                fieldScores: [
+                    { field: 'Voice', score: 5 },
+                    { field: 'Lore', score: 3 },
+                ],
+                overallScore: 4,
+                priorityImprovements: [],
+                summary: 'Good.',
+            }),
+        });
+
+        const result = await runStage(rubricContext(), rubricDeps());
+
+        expect(result.input).toContain('### Scoring Rubric: Voice First');
+        expect(JSON.parse(result.output).overallScore).toBe(8.8);
+        expect(result.rubric).toMatchObject({ overall: 8.8, reported: 4 });
+    });
+
+    it('leaves scores from other schema presets alone', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response:
+                '{"fieldScores":[{"field":"Voice","score":5}],"overallScore":4,"priorityImprovements":[]}',
+        });
+        const deps = rubricDeps();
+        deps.getSchemaPreset.mockReturnValue({
+            schema: buildRubricSchema(rubric),
+            rubricId: undefined as unknown as string,
+        });
+
+        const result = await runStage(rubricContext(), deps);
+
+        expect(result.input).not.toContain('Scoring Rubric');
+        expect(JSON.parse(result.output).overallScore).toBe(4);
+        expect(result.rubric).toBeUndefined();
+    });
+});
+
+// =============================================================================
+// TESTS: Field-keyed rewrite schema
+// =============================================================================
+
+describe('field-keyed rewrite schema', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGenerate.mockReset();
+    });
+
+    it('narrows the schema to the selected fields', async () => {
+        mockGenerate.mockResolvedValue({
+            success: true,
+            response: '{"description": "New.", "personality": "Calm."}',
+        });
+        const deps = {
+            ...createMockDeps(),
+            getSchemaPreset: vi.fn(() => ({
+                schema: buildRewriteSchema(),
+            })),
+        };
+
+        const result = await runStage(
+            createStageContext('rewrite', {
+                config: createMockConfig({
+                    useStructuredOutput: true,
+                    schemaPresetId: FIELD_REWRITE_SCHEMA_ID,
+                }),
+            }),
+            deps,
+        );
+
+        expect(mockGenerate.mock.calls[0][0].jsonSchema.value.required).toEqual(
+            ['description', 'personality'],
+        );
+        expect(parseRewriteOutput(result.output)).toEqual({
+            description: 'New.',
+            personality: 'Calm.',
+        });
+    });
+});
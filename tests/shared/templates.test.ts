@@ -346,6 +346,17 @@ describe('detectPlaceholders', () => {
         expect(result).toEqual([]);
     });
 
+    it('detects dotted names', () => {
+        const result = detectPlaceholders(
+            '{{score.output}} {{#if analyze.verdict}}{{/if}}',
+        );
+
+        expect(result).toEqual(['score.output']);
+        expect(detectConditionals('{{#if analyze.verdict}}x{{/if}}')).toEqual([
+            'analyze.verdict',
+        ]);
+    });
+
     it('detects placeholders inside conditional content', () => {
         const result = detectPlaceholders('{{#if show}}Hello {{name}}{{/if}}');
 
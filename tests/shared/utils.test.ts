@@ -2,9 +2,9 @@
  * Shared Utilities Tests
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { generateUniqueName } from '../../src/shared';
-import { hasContent, hashString } from '../../src/shared/utils';
+import { hasContent, hashString, retry } from '../../src/shared/utils';
 
 describe('generateUniqueName', () => {
     it('returns base name if unique', () => {
@@ -88,3 +88,70 @@ describe('hashString', () => {
         expect(hash.length).toBeGreaterThan(0);
     });
 });
+
+describe('retry', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns the first successful result', async () => {
+        const fn = vi
+            .fn()
+            .mockRejectedValueOnce(new Error('flaky'))
+            .mockResolvedValue('ok');
+
+        await expect(retry(fn, 3, 0)).resolves.toBe('ok');
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws the last error after exhausting retries', async () => {
+        const fn = vi.fn().mockRejectedValue(new Error('down'));
+
+        await expect(retry(fn, 2, 0)).rejects.toThrow('down');
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('rethrows immediately when shouldRetry declines', async () => {
+        const fn = vi.fn().mockRejectedValue(new Error('fatal'));
+
+        await expect(
+            retry(fn, 3, 0, { shouldRetry: () => false }),
+        ).rejects.toThrow('fatal');
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('backs off exponentially unless a delay is provided', async () => {
+        vi.useFakeTimers();
+        const fn = vi.fn().mockRejectedValue(new Error('busy'));
+        const onRetry = vi.fn();
+
+        const pending = retry(fn, 3, 100, {
+            getDelay: (_err, attempt) => (attempt === 3 ? 5000 : null),
+            onRetry,
+        }).catch((e: Error) => e);
+        await vi.runAllTimersAsync();
+        await pending;
+
+        expect(onRetry.mock.calls.map((c) => [c[1], c[2]])).toEqual([
+            [1, 100],
+            [2, 200],
+            [3, 5000],
+        ]);
+    });
+
+    it('stops waiting when the signal aborts', async () => {
+        vi.useFakeTimers();
+        const controller = new AbortController();
+        const fn = vi.fn().mockRejectedValue(new Error('busy'));
+
+        const pending = retry(fn, 3, 10000, {
+            signal: controller.signal,
+        }).catch((e: Error) => e);
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+        const error = await pending;
+
+        expect((error as Error).message).toBe('busy');
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+});
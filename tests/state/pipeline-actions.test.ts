@@ -14,7 +14,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { StageName, StageResult, PopupState } from '../../src/types';
+import type {
+    StageName,
+    StageResult,
+    PopupState,
+    Verdict,
+} from '../../src/types';
 
 // =============================================================================
 // MOCKS
@@ -43,6 +48,7 @@ vi.mock('../../src/shared', async () => {
 vi.mock('../../src/data', () => ({
     getPromptPreset: vi.fn(() => null),
     getSchemaPreset: vi.fn(() => null),
+    getRubric: vi.fn(() => null),
     getSystemPrompt: vi.fn(() => 'System prompt'),
     getRefinementPrompt: vi.fn(() => 'Refinement prompt'),
     getSettings: vi.fn(() => ({
@@ -77,6 +83,9 @@ vi.mock('../../src/data', () => ({
         customSchema: '',
         useStructuredOutput: false,
     })),
+    setStageDefaults: vi.fn(),
+    resolveStageConnection: vi.fn(() => ({ profileId: null })),
+    recordUsage: vi.fn(),
     save: vi.fn(),
     saveSession: vi.fn(),
     createSession: vi.fn(() =>
@@ -100,18 +109,37 @@ vi.mock('../../src/data', () => ({
     deleteAllSessionsForCharacter: vi.fn(() => Promise.resolve()),
 }));
 
-// Hoisted mock for runStage
+// Hoisted mocks for runStage and retryFailedFields
 const mockRunStage = vi.hoisted(() => vi.fn());
+const mockRetryFailedFields = vi.hoisted(() => vi.fn());
+const mockCanStream = vi.hoisted(() => vi.fn(() => true));
 
 // Mock the domain module
 vi.mock('../../src/domain', () => ({
     runStage: mockRunStage,
+    retryFailedFields: mockRetryFailedFields,
+    canStream: mockCanStream,
+    parseVerdict: vi.fn(() => null),
     buildOriginalData: vi.fn(() => ({
         description: 'test description',
         personality: 'test personality',
     })),
     ensureUnshallowed: vi.fn((char) => char),
     getPopulatedFields: vi.fn(() => []),
+    collectGenerationMeta: vi.fn((result: StageResult) =>
+        result.meta ? [result.meta] : [],
+    ),
+    selectCandidates: vi.fn((result: StageResult) => result),
+    sumResultUsage: vi.fn((results: StageResult[]) => ({
+        promptTokens: results.reduce(
+            (sum, r) => sum + (r.meta?.promptTokens ?? 0),
+            0,
+        ),
+        completionTokens: results.reduce(
+            (sum, r) => sum + (r.meta?.completionTokens ?? 0),
+            0,
+        ),
+    })),
 }));
 
 // Mock popup-state - we need partial mocks
@@ -125,10 +153,14 @@ vi.mock('../../src/state/popup-state', async () => {
 import {
     executeStageAction,
     executeQuickIterateAction,
+    executeAutoIterateAction,
     executeAllStagesAction,
+    retryFailedFieldsAction,
+    rerunHistoryItemAction,
 } from '../../src/state/pipeline-actions';
 import { initState, clearState, getState } from '../../src/state/popup-state';
 import { setState } from '../../src/state/store';
+import { recordUsage } from '../../src/data';
 import { createMockCharacter } from '../setup';
 
 // =============================================================================
@@ -205,6 +237,61 @@ describe('executeStageAction', () => {
         expect(freshState.stageResults.score).toEqual(expectedResult);
     });
 
+    it('adds the run to the usage log', async () => {
+        createMockState();
+        const meta = { model: 'gpt-4o', promptTokens: 10 };
+        mockRunStage.mockResolvedValue(
+            createStageResult('score', 'Score: 8/10', {
+                timestamp: 5,
+                meta: meta as StageResult['meta'],
+            }),
+        );
+
+        await executeStageAction(getState(), { stage: 'score' });
+
+        expect(recordUsage).toHaveBeenCalledWith(meta, 5);
+    });
+
+    it('publishes streamed text and clears it once the result lands', async () => {
+        createMockState();
+        let streamedState: PopupState['streamingOutput'] = null;
+
+        mockRunStage.mockImplementation(async (_ctx, _deps, options) => {
+            options.onStream('Partial score');
+            streamedState = getState().streamingOutput;
+            return createStageResult('score', 'Score: 8/10');
+        });
+
+        await executeStageAction(getState(), { stage: 'score' });
+
+        expect(streamedState).toEqual({
+            stage: 'score',
+            text: 'Partial score',
+            streams: true,
+        });
+        expect(getState().streamingOutput).toBeNull();
+    });
+
+    it("tells the panel up front when the connection can't stream", async () => {
+        createMockState();
+        mockCanStream.mockReturnValueOnce(false);
+        let streamedState: PopupState['streamingOutput'] = null;
+
+        mockRunStage.mockImplementation(async () => {
+            streamedState = getState().streamingOutput;
+            return createStageResult('score', 'Score: 8/10');
+        });
+
+        await executeStageAction(getState(), { stage: 'score' });
+
+        expect(streamedState).toEqual({
+            stage: 'score',
+            text: '',
+            streams: false,
+        });
+        expect(getState().streamingOutput).toBeNull();
+    });
+
     it('does not run if no character selected', async () => {
         initState(); // No character
 
@@ -431,6 +518,398 @@ describe('executeQuickIterateAction - Iteration Staleness', () => {
     });
 });
 
+// =============================================================================
+// TESTS: Auto Iterate
+// =============================================================================
+
+describe('executeAutoIterateAction', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearState();
+        mockRunStage.mockReset();
+    });
+
+    function setupAnalyzed(): void {
+        createMockState();
+        setState('results', {
+            stageResults: {
+                score: null,
+                rewrite: null,
+                analyze: createStageResult('analyze', 'Initial', {
+                    verdict: 'NEEDS_REFINEMENT',
+                }),
+            },
+            iterationHistory: [],
+        });
+    }
+
+    /** Analyze returns these verdicts in order (the last one repeats) */
+    function mockVerdicts(verdicts: Array<Verdict | undefined>): void {
+        let analyzeRuns = 0;
+        // Each stage starts after the previous one finished
+        let timestamp = Date.now();
+        mockRunStage.mockImplementation(async (ctx) => {
+            if (ctx.stage === 'analyze') {
+                const verdict =
+                    verdicts[Math.min(analyzeRuns++, verdicts.length - 1)];
+                return createStageResult('analyze', `Analysis ${analyzeRuns}`, {
+                    verdict,
+                    timestamp: ++timestamp,
+                });
+            }
+            return createStageResult(
+                ctx.stage,
+                `Rewrite v${ctx.iterationCount}`,
+                { timestamp: ++timestamp },
+            );
+        });
+    }
+
+    it('loops until the verdict is ACCEPT', async () => {
+        setupAnalyzed();
+        mockVerdicts(['NEEDS_REFINEMENT', 'NEEDS_REFINEMENT', 'ACCEPT']);
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 5,
+            tokenBudget: null,
+        });
+
+        expect(summary).toMatchObject({
+            iterations: 3,
+            verdict: 'ACCEPT',
+            stopReason: 'accepted',
+        });
+        expect(getState().iterationCount).toBe(3);
+        expect(getState().isGenerating).toBe(false);
+    });
+
+    it('records every iteration in iterationHistory', async () => {
+        setupAnalyzed();
+        mockVerdicts(['NEEDS_REFINEMENT', 'ACCEPT']);
+
+        await executeAutoIterateAction(getState(), {
+            maxIterations: 5,
+            tokenBudget: null,
+        });
+
+        const history = getState().iterationHistory;
+        expect(history.map((r) => r.stage)).toEqual([
+            'rewrite',
+            'analyze',
+            'rewrite',
+            'analyze',
+        ]);
+        expect(history[2].output).toBe('Rewrite v2');
+    });
+
+    it('stops on a regression', async () => {
+        setupAnalyzed();
+        mockVerdicts(['NEEDS_REFINEMENT', 'REGRESSION', 'ACCEPT']);
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 5,
+            tokenBudget: null,
+        });
+
+        expect(summary?.stopReason).toBe('regression');
+        expect(summary?.iterations).toBe(2);
+    });
+
+    it('stops at the iteration limit', async () => {
+        setupAnalyzed();
+        mockVerdicts(['NEEDS_REFINEMENT']);
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 2,
+            tokenBudget: null,
+        });
+
+        expect(summary).toMatchObject({
+            iterations: 2,
+            verdict: 'NEEDS_REFINEMENT',
+            stopReason: 'max_iterations',
+        });
+        expect(mockRunStage).toHaveBeenCalledTimes(4);
+    });
+
+    it('stops once the token budget is spent', async () => {
+        setupAnalyzed();
+        mockVerdicts(['NEEDS_REFINEMENT']);
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 10,
+            tokenBudget: 1,
+        });
+
+        expect(summary?.stopReason).toBe('token_budget');
+        expect(summary?.iterations).toBe(1);
+        expect(summary?.tokensUsed).toBeGreaterThan(0);
+        // Checked after the rewrite, so no analysis is paid for
+        expect(mockRunStage).toHaveBeenCalledTimes(1);
+    });
+
+    it("counts the requests' reported tokens against the budget", async () => {
+        setupAnalyzed();
+        mockRunStage.mockImplementation(async (ctx) =>
+            createStageResult(ctx.stage, 'Short', {
+                verdict:
+                    ctx.stage === 'analyze' ? 'NEEDS_REFINEMENT' : undefined,
+                meta: { promptTokens: 600, completionTokens: 400 },
+            }),
+        );
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 10,
+            tokenBudget: 3000,
+        });
+
+        expect(summary).toMatchObject({
+            iterations: 2,
+            stopReason: 'token_budget',
+            tokensUsed: 3000,
+        });
+        expect(mockRunStage).toHaveBeenCalledTimes(3);
+    });
+
+    it('keeps the summary in state after the run', async () => {
+        setupAnalyzed();
+        mockVerdicts(['ACCEPT']);
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 5,
+            tokenBudget: null,
+        });
+
+        expect(getState().iterationSummary).toEqual(summary);
+        expect(getState().iterationSummary?.finishedAt).toBeGreaterThan(0);
+    });
+
+    it('stops when the analysis has no readable verdict', async () => {
+        setupAnalyzed();
+        mockVerdicts([undefined]);
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 5,
+            tokenBudget: null,
+        });
+
+        expect(summary?.stopReason).toBe('no_verdict');
+        expect(summary?.iterations).toBe(1);
+    });
+
+    it('stops when a stage fails', async () => {
+        setupAnalyzed();
+        mockRunStage.mockImplementation(async (ctx) =>
+            createStageResult(ctx.stage, '', { error: 'Rate limited' }),
+        );
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 5,
+            tokenBudget: null,
+        });
+
+        expect(summary?.stopReason).toBe('error');
+        expect(mockRunStage).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports the summary through the callback', async () => {
+        setupAnalyzed();
+        mockVerdicts(['ACCEPT']);
+        const onAutoIterateComplete = vi.fn();
+
+        const summary = await executeAutoIterateAction(getState(), {
+            maxIterations: 5,
+            tokenBudget: null,
+            callbacks: { onAutoIterateComplete },
+        });
+
+        expect(onAutoIterateComplete).toHaveBeenCalledWith(summary);
+    });
+
+    it('tracks the verdict of each analysis in state', async () => {
+        setupAnalyzed();
+        const verdicts: Array<Verdict | null> = [];
+        mockVerdicts(['NEEDS_REFINEMENT', 'ACCEPT']);
+
+        await executeAutoIterateAction(getState(), {
+            maxIterations: 5,
+            tokenBudget: null,
+            callbacks: {
+                onStageComplete: () => verdicts.push(getState().verdict),
+            },
+        });
+
+        // A fresh rewrite has no verdict until it's analyzed
+        expect(verdicts).toEqual([null, 'NEEDS_REFINEMENT', null, 'ACCEPT']);
+        expect(getState().verdict).toBe('ACCEPT');
+    });
+
+    it('requires an analyze result to run', async () => {
+        createMockState();
+
+        const summary = await executeAutoIterateAction(getState(), {});
+
+        expect(summary).toBeNull();
+        expect(mockRunStage).not.toHaveBeenCalled();
+    });
+});
+
+// =============================================================================
+// TESTS: Field Retry
+// =============================================================================
+
+describe('retryFailedFieldsAction', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearState();
+        mockRetryFailedFields.mockReset();
+    });
+
+    function createFieldRewrite(failed: boolean): StageResult {
+        return createStageResult('rewrite', '### Personality\n\nCalm.', {
+            fieldResults: [
+                {
+                    key: 'description',
+                    label: 'Description',
+                    selection: { description: true },
+                    input: 'Input',
+                    output: failed ? '' : 'Brave.',
+                    ...(failed ? { error: 'Timed out' } : {}),
+                },
+                {
+                    key: 'personality',
+                    label: 'Personality',
+                    selection: { personality: true },
+                    input: 'Input',
+                    output: 'Calm.',
+                },
+            ],
+        });
+    }
+
+    it('retries the current rewrite and records the merged result', async () => {
+        createMockState();
+        const previous = createFieldRewrite(true);
+        setState('results', {
+            stageResults: { ...getState().stageResults, rewrite: previous },
+        });
+        const merged = createFieldRewrite(false);
+        mockRetryFailedFields.mockResolvedValue(merged);
+
+        const result = await retryFailedFieldsAction(getState());
+
+        expect(result).toBe(merged);
+        expect(mockRetryFailedFields.mock.calls[0][2]).toBe(previous);
+        expect(mockRetryFailedFields.mock.calls[0][0].stage).toBe('rewrite');
+        expect(getState().stageResults.rewrite).toBe(merged);
+        expect(getState().iterationHistory).toContain(merged);
+        expect(getState().isGenerating).toBe(false);
+    });
+
+    it('does nothing when no fields failed', async () => {
+        createMockState();
+        setState('results', {
+            stageResults: {
+                ...getState().stageResults,
+                rewrite: createFieldRewrite(false),
+            },
+        });
+
+        const result = await retryFailedFieldsAction(getState());
+
+        expect(result).toBeNull();
+        expect(mockRetryFailedFields).not.toHaveBeenCalled();
+    });
+});
+
+// =============================================================================
+// TESTS: Rerun
+// =============================================================================
+
+describe('rerunHistoryItemAction', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearState();
+        mockRunStage.mockReset();
+    });
+
+    function seedHistory(): void {
+        const oldScore = createStageResult('score', 'Score: 4/10', {
+            timestamp: 100,
+        });
+        const newScore = createStageResult('score', 'Score: 9/10', {
+            timestamp: 300,
+        });
+        const rewrite = createStageResult('rewrite', 'Old rewrite', {
+            timestamp: 200,
+            guidance: 'Keep it short',
+            iteration: 2,
+            isRefinement: true,
+            snapshot: {
+                config: {
+                    ...getState().stageConfigs.rewrite,
+                    customPrompt: 'Original prompt',
+                    temperature: 0.3,
+                },
+                selection: { description: true },
+                inputs: { score: 100 },
+            },
+        });
+        setState('results', {
+            stageResults: {
+                ...getState().stageResults,
+                score: newScore,
+                rewrite,
+            },
+            iterationHistory: [oldScore, rewrite, newScore],
+        });
+    }
+
+    it('runs with the settings and inputs the entry was produced with', async () => {
+        createMockState();
+        seedHistory();
+        setState('guidance', { userGuidance: 'Something else' });
+        mockRunStage.mockResolvedValue(createStageResult('rewrite', 'Again'));
+
+        await rerunHistoryItemAction(getState(), 1);
+
+        const context = mockRunStage.mock.calls[0][0];
+        expect(context.stage).toBe('rewrite');
+        expect(context.config.customPrompt).toBe('Original prompt');
+        expect(context.config.temperature).toBe(0.3);
+        expect(context.selection).toEqual({ description: true });
+        expect(context.guidance).toBe('Keep it short');
+        expect(context.previousResults.score.output).toBe('Score: 4/10');
+        expect(context.previousResults.analyze).toBeNull();
+        expect(context.iterationCount).toBe(2);
+        expect(context.isRefinement).toBe(true);
+    });
+
+    it('leaves the restored settings in place', async () => {
+        createMockState();
+        seedHistory();
+        mockRunStage.mockResolvedValue(createStageResult('rewrite', 'Again'));
+
+        await rerunHistoryItemAction(getState(), 1);
+
+        const state = getState();
+        expect(state.activeStage).toBe('rewrite');
+        expect(state.stageConfigs.rewrite.customPrompt).toBe('Original prompt');
+        expect(state.userGuidance).toBe('Keep it short');
+        expect(state.stageResults.rewrite?.output).toBe('Again');
+    });
+
+    it('does nothing for entries without recorded settings', async () => {
+        createMockState();
+        seedHistory();
+
+        const result = await rerunHistoryItemAction(getState(), 0);
+
+        expect(result).toBeNull();
+        expect(mockRunStage).not.toHaveBeenCalled();
+    });
+});
+
 // =============================================================================
 // TESTS: Execute All Stages
 // =============================================================================
@@ -523,6 +1002,26 @@ describe('executeAllStagesAction - Data Flow', () => {
         const freshState = getState();
         expect(freshState.stageStatus.score).toBe('error');
     });
+
+    it('stops after a candidate rewrite so one can be picked', async () => {
+        createMockState();
+
+        mockRunStage.mockImplementation(async (ctx) =>
+            createStageResult(ctx.stage, `Output for ${ctx.stage}`, {
+                ...(ctx.stage === 'rewrite'
+                    ? { candidates: { candidates: [], winner: 0, picks: {} } }
+                    : {}),
+            }),
+        );
+
+        const result = await executeAllStagesAction(getState(), {
+            stages: ['score', 'rewrite', 'analyze'],
+        });
+
+        expect(result.rewrite?.output).toBe('Output for rewrite');
+        expect(result.analyze).toBeNull();
+        expect(mockRunStage).toHaveBeenCalledTimes(2);
+    });
 });
 
 // =============================================================================
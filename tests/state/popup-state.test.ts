@@ -63,6 +63,8 @@ vi.mock('../../src/data', () => ({
     })),
     save: vi.fn(),
     saveSession: vi.fn(),
+    getSession: vi.fn(async () => null),
+    updateSession: vi.fn(async () => {}),
 }));
 
 import {
@@ -77,8 +79,16 @@ import {
     toggleHistory,
     getUserGuidance,
     setUserGuidance,
+    restoreHistoryItem,
+    getRegressionRestoreTarget,
+    restoreLastGoodRewrite,
+    pickRewriteCandidate,
+    recordAppliedChange,
+    getAppliedChanges,
 } from '../../src/state/popup-state';
-import type { StageName } from '../../src/types';
+import { setState } from '../../src/state/store';
+import { updateSession } from '../../src/data';
+import type { Session, StageName, StageResult, Verdict } from '../../src/types';
 
 // =============================================================================
 // TESTS
@@ -332,3 +342,254 @@ describe('User Guidance', () => {
         });
     });
 });
+
+describe('Regression Recovery', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        initState();
+    });
+
+    let clock = 0;
+    function entry(
+        stage: StageName,
+        output: string,
+        verdict?: Verdict,
+    ): StageResult {
+        return {
+            stage,
+            timestamp: ++clock,
+            input: `Input for ${stage}`,
+            output,
+            ...(verdict ? { verdict } : {}),
+        };
+    }
+
+    /** rewrite v1 → NEEDS_REFINEMENT, rewrite v2 → REGRESSION */
+    function setupRegression(): StageResult[] {
+        const history = [
+            entry('rewrite', 'Rewrite v1'),
+            entry('analyze', 'Analysis v1', 'NEEDS_REFINEMENT'),
+            entry('rewrite', 'Rewrite v2'),
+            entry('analyze', 'Analysis v2', 'REGRESSION'),
+        ];
+        setState('results', {
+            iterationHistory: history,
+            stageResults: {
+                score: null,
+                rewrite: history[2],
+                analyze: history[3],
+            },
+            verdict: 'REGRESSION',
+        });
+        return history;
+    }
+
+    it('offers the last rewrite that was not a regression', () => {
+        setupRegression();
+
+        expect(getRegressionRestoreTarget()).toEqual({
+            rewriteIndex: 0,
+            analyzeIndex: 1,
+            verdict: 'NEEDS_REFINEMENT',
+        });
+    });
+
+    it('skips rewrites that were themselves regressions', () => {
+        const history = [
+            ...setupRegression(),
+            entry('rewrite', 'Rewrite v3'),
+            entry('analyze', 'Analysis v3', 'REGRESSION'),
+        ];
+        setState('results', {
+            iterationHistory: history,
+            stageResults: {
+                score: null,
+                rewrite: history[4],
+                analyze: history[5],
+            },
+            verdict: 'REGRESSION',
+        });
+
+        expect(getRegressionRestoreTarget()?.rewriteIndex).toBe(0);
+    });
+
+    it('offers nothing unless the verdict is a regression', () => {
+        setupRegression();
+        setState('results', { verdict: 'NEEDS_REFINEMENT' });
+
+        expect(getRegressionRestoreTarget()).toBeNull();
+    });
+
+    it('restores the rewrite with its analysis and verdict', () => {
+        const history = setupRegression();
+
+        expect(restoreLastGoodRewrite()).toBe(true);
+
+        const state = getState();
+        expect(state.stageResults.rewrite).toEqual(history[0]);
+        expect(state.stageResults.analyze).toEqual(history[1]);
+        expect(state.verdict).toBe('NEEDS_REFINEMENT');
+    });
+
+    it('clears the verdict when restoring a rewrite newer than the analysis', () => {
+        setupRegression();
+        setState('results', {
+            iterationHistory: [
+                ...getState().iterationHistory,
+                entry('rewrite', 'Rewrite v3'),
+            ],
+        });
+
+        restoreHistoryItem(4);
+
+        expect(getState().verdict).toBeNull();
+    });
+});
+
+describe('Rewrite Candidates', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        initState();
+    });
+
+    function setupCandidates(): StageResult {
+        const candidate = (label: string, output: string) => ({
+            profileId: null,
+            label,
+            result: {
+                stage: 'rewrite' as const,
+                timestamp: 1,
+                input: `Input for ${label}`,
+                output,
+            },
+        });
+        const rewrite: StageResult = {
+            stage: 'rewrite',
+            timestamp: 10,
+            input: 'Input for A',
+            output: '### Description\n\nDesc A.\n\n### Personality\n\nPers A.',
+            candidates: {
+                candidates: [
+                    candidate(
+                        'A',
+                        '### Description\n\nDesc A.\n\n### Personality\n\nPers A.',
+                    ),
+                    candidate(
+                        'B',
+                        '### Description\n\nDesc B.\n\n### Personality\n\nPers B.',
+                    ),
+                ],
+                winner: 0,
+                picks: {},
+            },
+        };
+        setState('results', {
+            iterationHistory: [rewrite],
+            stageResults: { score: null, rewrite, analyze: null },
+        });
+        return rewrite;
+    }
+
+    it('takes a single field from another candidate', () => {
+        setupCandidates();
+
+        expect(pickRewriteCandidate(1, 'personality')).toBe(true);
+
+        const { stageResults, iterationHistory } = getState();
+        expect(stageResults.rewrite?.output).toBe(
+            '### Description\n\nDesc A.\n\n### Personality\n\nPers B.',
+        );
+        expect(stageResults.rewrite?.candidates?.picks).toEqual({
+            personality: 1,
+        });
+        expect(iterationHistory[0]).toBe(stageResults.rewrite);
+        expect(getState().hasUnsavedChanges).toBe(true);
+    });
+
+    it('uses a whole candidate and clears earlier picks', () => {
+        setupCandidates();
+        pickRewriteCandidate(1, 'personality');
+
+        pickRewriteCandidate(1);
+
+        const rewrite = getState().stageResults.rewrite;
+        expect(rewrite?.candidates).toMatchObject({ winner: 1, picks: {} });
+        expect(rewrite?.input).toBe('Input for B');
+        expect(rewrite?.output).toContain('Desc B.');
+    });
+
+    it('does nothing for a rewrite without candidates', () => {
+        const rewrite = setupCandidates();
+        setState('results', {
+            stageResults: {
+                score: null,
+                rewrite: { ...rewrite, candidates: undefined },
+                analyze: null,
+            },
+        });
+
+        expect(pickRewriteCandidate(1)).toBe(false);
+    });
+});
+
+describe('Applied Changes', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        initState();
+    });
+
+    function createSession(id: string, appliedAt: number[] = []): Session {
+        return {
+            id,
+            characterId: 'test.png',
+            characterName: 'Test',
+            createdAt: 1,
+            updatedAt: 1,
+            stageFields: { base: {}, linked: true, overrides: {} },
+            originalData: {},
+            configs: {} as Session['configs'],
+            history: [],
+            iterationCount: 0,
+            status: 'active',
+            version: 3,
+            appliedChanges: appliedAt.map((at) => ({
+                id: `${id}-${at}`,
+                appliedAt: at,
+                fields: ['description'],
+                snapshot: {},
+            })),
+        };
+    }
+
+    it('stores the backup in the active session', async () => {
+        const session = createSession('s1', [5]);
+        setState('session', { sessions: [session], activeSessionId: 's1' });
+
+        const entry = await recordAppliedChange({
+            fields: ['first_mes'],
+            snapshot: { first_mes: 'Hello!' },
+        });
+
+        expect(entry).toMatchObject({ fields: ['first_mes'] });
+        expect(updateSession).toHaveBeenCalledWith(
+            expect.objectContaining({
+                id: 's1',
+                appliedChanges: [entry, session.appliedChanges?.[0]],
+            }),
+        );
+        expect(getState().sessions[0].appliedChanges).toHaveLength(2);
+    });
+
+    it('lists changes from every session, most recent first', () => {
+        setState('session', {
+            sessions: [createSession('s1', [1, 30]), createSession('s2', [20])],
+        });
+
+        expect(getAppliedChanges().map((e) => e.change.id)).toEqual([
+            's1-30',
+            's2-20',
+            's1-1',
+        ]);
+        expect(getAppliedChanges()[1].session.id).toBe('s2');
+    });
+});
@@ -42,6 +42,7 @@ vi.mock('../../src/shared', async () => {
 // Mock the data module
 vi.mock('../../src/data', () => ({
     getSettings: vi.fn(() => ({})),
+    getActiveProfileId: vi.fn(() => null),
     save: vi.fn(),
 }));
 
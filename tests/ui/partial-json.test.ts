@@ -0,0 +1,57 @@
+/**
+ * Partial JSON Parser Tests
+ *
+ * Tests tolerant parsing of structured output while it streams in.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePartialJson } from '../../src/ui/formatter/partial-json';
+
+describe('parsePartialJson', () => {
+    it('parses complete JSON', () => {
+        expect(parsePartialJson('{"score": 7, "ok": true}')).toEqual({
+            score: 7,
+            ok: true,
+        });
+    });
+
+    it('returns null before any object starts', () => {
+        expect(parsePartialJson('')).toBeNull();
+        expect(parsePartialJson('Thinking about')).toBeNull();
+    });
+
+    it('closes an unterminated string', () => {
+        expect(parsePartialJson('{"summary": "Strong ope')).toEqual({
+            summary: 'Strong ope',
+        });
+    });
+
+    it('drops a dangling key', () => {
+        expect(parsePartialJson('{"a": 1, "b')).toEqual({ a: 1 });
+        expect(parsePartialJson('{"a": 1, "b": ')).toEqual({ a: 1 });
+    });
+
+    it('drops a half-written literal', () => {
+        expect(parsePartialJson('{"a": "x", "ok": tr')).toEqual({ a: 'x' });
+    });
+
+    it('closes nested containers in order', () => {
+        expect(
+            parsePartialJson('{"items": [{"name": "one"}, {"name": "tw'),
+        ).toEqual({ items: [{ name: 'one' }, { name: 'tw' }] });
+    });
+
+    it('handles escaped quotes and a trailing backslash', () => {
+        expect(parsePartialJson('{"q": "say \\"hi\\"')).toEqual({
+            q: 'say "hi"',
+        });
+        expect(parsePartialJson('{"q": "line\\')).toEqual({ q: 'line' });
+    });
+
+    it('skips a code fence and leading prose', () => {
+        expect(parsePartialJson('Here you go:\n```json\n{"a": [1, 2')).toEqual({
+            a: [1, 2],
+        });
+        expect(parsePartialJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    });
+});